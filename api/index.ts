@@ -7,7 +7,9 @@ import { createContext } from "../server/_core/context";
 import analyticsRouter from "../server/routes/analytics";
 import recommendationsRouter from "../server/routes/recommendations";
 import crmRouter from "../server/routes/crm";
-import { initializeVectorStore } from "../server/services/siglip-milvus";
+import whatsappRouter from "../server/routes/whatsapp";
+import visualSearchRouter from "../server/routes/visual-search";
+import mpesaCallbackRouter from "../server/routes/mpesa";
 import { ENV } from "../server/_core/env";
 
 const app = express();
@@ -31,6 +33,15 @@ app.use("/api/recommendations", recommendationsRouter);
 // CRM API
 app.use("/api/crm", crmRouter);
 
+// Tracked WhatsApp click-to-chat links
+app.use("/go", whatsappRouter);
+
+// Search by photo
+app.use("/api/search", visualSearchRouter);
+
+// M-Pesa callbacks
+app.use("/api/payments", mpesaCallbackRouter);
+
 // tRPC API - Handle both /api/trpc and /trpc for compatibility
 const trpcMiddleware = createExpressMiddleware({
   router: appRouter,
@@ -0,0 +1,27 @@
+import type { HTMLAttributes } from "react";
+import { useImpression } from "@/hooks/useImpression";
+import type { ListContext, TrackedProduct } from "@/lib/analytics";
+
+interface TrackedCardProps extends HTMLAttributes<HTMLDivElement> {
+  product: TrackedProduct;
+  list: ListContext;
+}
+
+/**
+ * A product card container that reports viewport impressions and clicks
+ * (with list type and position) to the analytics tracker
+ */
+export function TrackedCard({ product, list, onClick, ...props }: TrackedCardProps) {
+  const impression = useImpression(product, list);
+
+  return (
+    <div
+      {...props}
+      ref={impression.ref}
+      onClick={event => {
+        impression.onClick();
+        onClick?.(event);
+      }}
+    />
+  );
+}
@@ -0,0 +1,26 @@
+import { useCallback, useRef } from "react";
+import { analyticsTracker, type ListContext, type TrackedProduct } from "@/lib/analytics";
+
+/**
+ * Impression and click tracking for a product card in a list.
+ * Attach `ref` to the card element and call `onClick` from its click handler.
+ */
+export function useImpression(product: TrackedProduct, list: ListContext) {
+  const stop = useRef<(() => void) | null>(null);
+  const { productId, sellerId } = product;
+  const { source, position, query } = list;
+
+  const ref = useCallback(
+    (element: HTMLElement | null) => {
+      stop.current?.();
+      stop.current = element ? analyticsTracker.observe(element, { productId, sellerId }, { source, position, query }) : null;
+    },
+    [productId, sellerId, source, position, query]
+  );
+
+  const onClick = useCallback(() => {
+    analyticsTracker.trackClick({ productId, sellerId }, { source, position, query });
+  }, [productId, sellerId, source, position, query]);
+
+  return { ref, onClick };
+}
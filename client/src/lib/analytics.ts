@@ -0,0 +1,300 @@
+/**
+ * Client-side analytics tracker
+ *
+ * Reports product card impressions (cards that were at least half on screen
+ * for a second), clicks and product interactions (views, watchlist adds,
+ * WhatsApp chats) to POST /api/analytics/events in batches. Batches
+ * are flushed every few seconds, when they fill up, and via sendBeacon when
+ * the page is hidden. The server dedupes impressions per session too; the
+ * local set just avoids sending the same card twice. Every batch carries a
+ * signed token for the visitor (GET /api/analytics/token); batches without
+ * one are stored but flagged as unverified traffic.
+ *
+ * The product page's WhatsApp button uses a tracked /go/wa link built from
+ * chatContext(): the visitor, session, device and the list the product was
+ * clicked from.
+ */
+
+export type ListType = "homepage" | "category" | "search" | "recommendation" | "watchlist";
+
+export interface ListContext {
+  source: ListType;
+  position: number; // 0-based
+  query?: string; // Search text or category ID
+}
+
+export interface TrackedProduct {
+  productId: number;
+  sellerId: number;
+}
+
+export type InteractionKind = "product_view" | "watchlist_add" | "whatsapp_start";
+
+type Beacon = Record<string, unknown> & { type: "impression" | "click" | "interaction" };
+
+const ENDPOINT = "/api/analytics/events";
+const TOKEN_ENDPOINT = "/api/analytics/token";
+const TOKEN_REFRESH_MS = 60 * 60 * 1000; // Refresh when less than this is left
+const FLUSH_INTERVAL_MS = 5000;
+const MAX_BATCH = 50;
+const VISIBLE_RATIO = 0.5;
+const VISIBLE_MS = 1000;
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const VISITOR_KEY = "soko_visitor_id";
+const SESSION_KEY = "soko_analytics_session";
+const TOKEN_KEY = "soko_beacon_token";
+const LAST_CLICK_KEY = "soko_last_click";
+
+function randomId(prefix: string): string {
+  const id = typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : Math.random().toString(36).slice(2);
+  return `${prefix}_${id.replace(/-/g, "").slice(0, 24)}`;
+}
+
+/**
+ * Anonymous visitor ID, kept across sessions. Sent with checkout so orders
+ * join the visitor's funnel journey.
+ */
+export function getVisitorId(): string {
+  let visitorId = localStorage.getItem(VISITOR_KEY);
+  if (!visitorId) {
+    visitorId = randomId("v");
+    localStorage.setItem(VISITOR_KEY, visitorId);
+  }
+  return visitorId;
+}
+
+function deviceType(): "mobile" | "tablet" | "desktop" {
+  const width = window.innerWidth;
+  if (width < 768) return "mobile";
+  if (width < 1024) return "tablet";
+  return "desktop";
+}
+
+class AnalyticsTracker {
+  private queue: Beacon[] = [];
+  private seen = new Set<string>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private observer: IntersectionObserver | null = null;
+  private targets = new Map<Element, { product: TrackedProduct; list: ListContext }>();
+  private pending = new Map<Element, ReturnType<typeof setTimeout>>();
+  private tokenRequest: Promise<string | undefined> | null = null;
+
+  constructor() {
+    if (typeof window === "undefined") return;
+    void this.getToken();
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "hidden") this.flush(true);
+    });
+    window.addEventListener("pagehide", () => this.flush(true));
+  }
+
+  /**
+   * Start watching a product card; returns a function that stops watching it
+   */
+  observe(element: Element, product: TrackedProduct, list: ListContext): () => void {
+    const observer = this.getObserver();
+    if (!observer) return () => {};
+
+    this.targets.set(element, { product, list });
+    observer.observe(element);
+    return () => {
+      observer.unobserve(element);
+      this.targets.delete(element);
+      this.cancelPending(element);
+    };
+  }
+
+  trackClick(product: TrackedProduct, list: ListContext): void {
+    this.enqueue({
+      type: "click",
+      ...product,
+      ...this.identity(),
+      source: list.source,
+      position: list.position,
+      deviceType: deviceType(),
+      referrer: document.referrer || undefined,
+      userAgent: navigator.userAgent.slice(0, 512),
+      timestamp: new Date().toISOString(),
+    });
+    sessionStorage.setItem(LAST_CLICK_KEY, JSON.stringify({ productId: product.productId, source: list.source }));
+    // Clicks usually navigate away; don't wait for the timer
+    this.flush();
+  }
+
+  /**
+   * Who is opening a chat about a product, and which list they found it in
+   * ("direct" when they didn't arrive by clicking a card)
+   */
+  chatContext(productId: number): { visitorId: string; sessionId: string; source: ListType | "direct"; deviceType: ReturnType<typeof deviceType> } {
+    const { userId, sessionId } = this.identity();
+    let source: ListType | "direct" = "direct";
+    try {
+      const lastClick: { productId: number; source: ListType } | null = JSON.parse(sessionStorage.getItem(LAST_CLICK_KEY) || "null");
+      if (lastClick?.productId === productId) source = lastClick.source;
+    } catch {
+      // Treat as a direct visit
+    }
+    return { visitorId: userId, sessionId, source, deviceType: deviceType() };
+  }
+
+  trackInteraction(product: TrackedProduct, kind: InteractionKind): void {
+    if (typeof window === "undefined") return;
+    this.enqueue({
+      type: "interaction",
+      ...product,
+      ...this.identity(),
+      kind,
+      deviceType: deviceType(),
+      timestamp: new Date().toISOString(),
+    });
+    // WhatsApp opens a new app/tab; send before we lose the page
+    if (kind === "whatsapp_start") this.flush();
+  }
+
+  private getObserver(): IntersectionObserver | null {
+    if (typeof IntersectionObserver === "undefined") return null;
+    if (!this.observer) {
+      this.observer = new IntersectionObserver(
+        entries => {
+          for (const entry of entries) {
+            if (entry.isIntersecting && entry.intersectionRatio >= VISIBLE_RATIO) {
+              if (!this.pending.has(entry.target)) {
+                this.pending.set(
+                  entry.target,
+                  setTimeout(() => this.recordImpression(entry.target), VISIBLE_MS)
+                );
+              }
+            } else {
+              this.cancelPending(entry.target);
+            }
+          }
+        },
+        { threshold: [0, VISIBLE_RATIO] }
+      );
+    }
+    return this.observer;
+  }
+
+  private cancelPending(element: Element): void {
+    const timeout = this.pending.get(element);
+    if (timeout) clearTimeout(timeout);
+    this.pending.delete(element);
+  }
+
+  private recordImpression(element: Element): void {
+    this.pending.delete(element);
+    const target = this.targets.get(element);
+    if (!target) return;
+
+    const { product, list } = target;
+    const identity = this.identity();
+    const key = [identity.sessionId, list.source, list.query?.trim().toLowerCase() ?? "", product.productId].join("|");
+    if (this.seen.has(key)) return;
+    this.seen.add(key);
+
+    this.enqueue({
+      type: "impression",
+      ...product,
+      ...identity,
+      source: list.source,
+      position: list.position,
+      query: list.query?.trim() || undefined,
+      deviceType: deviceType(),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Anonymous visitor ID (kept) and a session ID that rotates after 30 idle minutes
+   */
+  private identity(): { userId: string; sessionId: string } {
+    const userId = getVisitorId();
+    const now = Date.now();
+    let stored: { id: string; lastSeen: number } | null = null;
+    try {
+      stored = JSON.parse(sessionStorage.getItem(SESSION_KEY) || "null");
+    } catch {
+      stored = null;
+    }
+    const sessionId = stored && now - stored.lastSeen < SESSION_IDLE_MS ? stored.id : randomId("s");
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify({ id: sessionId, lastSeen: now }));
+    return { userId, sessionId };
+  }
+
+  private enqueue(beacon: Beacon): void {
+    this.queue.push(beacon);
+    if (this.queue.length >= MAX_BATCH) {
+      this.flush();
+    } else if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Beacon token stored for this visitor, if it's good for at least `margin` more ms
+   */
+  private storedToken(margin = TOKEN_REFRESH_MS): string | undefined {
+    try {
+      const stored: { token: string; visitorId: string; expiresAt: number } | null = JSON.parse(
+        localStorage.getItem(TOKEN_KEY) || "null"
+      );
+      if (stored && stored.visitorId === getVisitorId() && stored.expiresAt - Date.now() > margin) {
+        return stored.token;
+      }
+    } catch {
+      // Fall through and fetch a new one
+    }
+    return undefined;
+  }
+
+  private getToken(): Promise<string | undefined> {
+    const stored = this.storedToken();
+    if (stored) return Promise.resolve(stored);
+
+    if (!this.tokenRequest) {
+      const visitorId = getVisitorId();
+      this.tokenRequest = fetch(`${TOKEN_ENDPOINT}?visitorId=${encodeURIComponent(visitorId)}`)
+        .then(response => (response.ok ? response.json() : null))
+        .then((issued: { token: string; expiresAt: string } | null) => {
+          if (!issued) return undefined;
+          localStorage.setItem(
+            TOKEN_KEY,
+            JSON.stringify({ token: issued.token, visitorId, expiresAt: new Date(issued.expiresAt).getTime() })
+          );
+          return issued.token;
+        })
+        .catch(() => undefined) // Send unsigned rather than lose the events
+        .finally(() => {
+          this.tokenRequest = null;
+        });
+    }
+    return this.tokenRequest;
+  }
+
+  private flush(unloading = false): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    if (this.queue.length === 0) return;
+
+    const events = this.queue.splice(0, this.queue.length);
+
+    // sendBeacon survives page unloads; a text/plain string keeps it a simple request.
+    // There's no time to fetch a token then, so it goes with whatever is stored.
+    if (unloading && navigator.sendBeacon?.(ENDPOINT, JSON.stringify({ token: this.storedToken(0), events }))) return;
+
+    this.getToken().then(token =>
+      fetch(ENDPOINT, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ token, events }),
+        keepalive: true,
+      }).catch(error => {
+        console.warn("[Analytics] Failed to send events:", error);
+      })
+    );
+  }
+}
+
+export const analyticsTracker = new AnalyticsTracker();
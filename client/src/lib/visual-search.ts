@@ -0,0 +1,42 @@
+/**
+ * Search by photo: posts the raw image to /api/search/photo
+ * (see server/routes/visual-search.ts). The server keeps nothing.
+ */
+
+export interface PhotoSearchFilters {
+  categoryId?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  limit?: number;
+}
+
+export interface PhotoSearchResult {
+  id: number;
+  name: string;
+  description: string | null;
+  price: string;
+  imageUrl: string | null;
+  stock: number | null;
+  sellerId: number;
+  categoryId: number;
+  source?: string | null;
+  similarity: number;
+}
+
+export async function searchByPhoto(photo: Blob, filters: PhotoSearchFilters = {}): Promise<PhotoSearchResult[]> {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined) params.set(key, String(value));
+  }
+
+  const response = await fetch(`/api/search/photo?${params}`, {
+    method: "POST",
+    headers: { "Content-Type": photo.type || "image/jpeg" },
+    body: photo,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || "Photo search failed");
+  }
+  return data.results;
+}
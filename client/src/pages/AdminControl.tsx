@@ -27,7 +27,8 @@ const AdminControl = () => {
   const mutation = trpc.ingestion.scoutAndHydrate.useMutation({
     onSuccess: (data) => {
       addLog(`[Success] Hydrated: ${data.product.name}`);
-      addLog(`[Vector] SigLIP-768 embeddings generated.`);
+      addLog(`[DB] ${data.created ? "Created" : "Updated"} product #${data.product.id}`);
+      if (data.embedded) addLog(`[Vector] SigLIP-768 embeddings saved.`);
       setIngestedProduct(data.product);
     },
     onError: (error) => {
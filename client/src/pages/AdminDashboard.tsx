@@ -1,5 +1,6 @@
 import { trpc } from "@/lib/trpc";
-import { Activity, Database, Cpu, RefreshCw, CheckCircle, AlertCircle, BarChart3 } from "lucide-react";
+import { useState } from "react";
+import { Activity, Database, Cpu, RefreshCw, CheckCircle, AlertCircle, BarChart3, ShieldAlert, Copy } from "lucide-react";
 
 export default function AdminDashboard() {
   const { data: stats, isLoading, refetch } = trpc.admin.getStats.useQuery();
@@ -91,7 +92,297 @@ export default function AdminDashboard() {
             </div>
           </div>
         </div>
+
+        <AnomaliesPanel />
+        <TrafficQualityPanel />
+        <DuplicateListingsPanel />
+      </div>
+    </div>
+  );
+}
+
+const ANOMALY_FILTERS = [
+  { value: undefined, label: "All" },
+  { value: "click_fraud", label: "Click fraud" },
+  { value: "spike", label: "Spikes" },
+  { value: "drop", label: "Drops" },
+] as const;
+
+function formatAnomalyValue(metric: string, value: number) {
+  if (metric === "conversion_rate") return `${(value * 100).toFixed(1)}%`;
+  if (metric === "revenue") return `KES ${Math.round(value).toLocaleString()}`;
+  return Math.round(value).toLocaleString();
+}
+
+function AnomaliesPanel() {
+  const [kind, setKind] = useState<"spike" | "drop" | "click_fraud" | undefined>(undefined);
+  const { data: anomalies, isLoading, error } = trpc.admin.analyticsAnomalies.useQuery({ days: 7, kind }, { retry: false });
+
+  return (
+    <div className="mt-8 bg-white/5 border border-white/10 rounded-3xl p-8">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-black flex items-center gap-3">
+          <AlertCircle size={24} className="text-red-500" /> SELLER ANOMALIES (7 DAYS)
+        </h2>
+        <div className="flex gap-2">
+          {ANOMALY_FILTERS.map(filter => (
+            <button
+              key={filter.label}
+              onClick={() => setKind(filter.value)}
+              className={`px-3 py-1 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                kind === filter.value ? "bg-amber-500 text-black border-amber-500" : "border-white/10 text-slate-400 hover:bg-white/10"
+              }`}
+            >
+              {filter.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isLoading ? (
+        <p className="text-slate-500 text-sm">Loading anomalies...</p>
+      ) : error ? (
+        <p className="text-red-400 text-sm">{error.data?.code === "FORBIDDEN" ? "Admins only." : error.message}</p>
+      ) : !anomalies?.length ? (
+        <p className="text-slate-500 text-sm">No anomalies in the last 7 days.</p>
+      ) : (
+        <div className="space-y-3">
+          {anomalies.map(anomaly => (
+            <div key={anomaly.id} className="flex items-center justify-between p-4 bg-black/40 rounded-2xl border border-white/5">
+              <div>
+                <div className="text-sm font-bold">
+                  {anomaly.storeName ?? `Seller #${anomaly.sellerId}`} · {anomaly.metric.replace("_", " ")}{" "}
+                  {formatAnomalyValue(anomaly.metric, anomaly.observed)}
+                  <span className="text-slate-500"> vs usual {formatAnomalyValue(anomaly.metric, anomaly.expected)}</span>
+                </div>
+                <div className="text-[10px] text-slate-500 uppercase font-black">
+                  {new Date(anomaly.bucketStart).toLocaleString()} · z {anomaly.score.toFixed(1)}
+                  {anomaly.suppressed ? " · repeat, not notified" : ""}
+                </div>
+              </div>
+              <span
+                className={`px-3 py-1 text-[10px] font-black rounded-lg uppercase ${
+                  anomaly.kind === "click_fraud"
+                    ? "bg-red-500/10 text-red-500"
+                    : anomaly.kind === "drop"
+                      ? "bg-amber-500/10 text-amber-500"
+                      : "bg-green-500/10 text-green-500"
+                }`}
+              >
+                {anomaly.kind.replace("_", " ")} · {anomaly.severity}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const TRAFFIC_FLAG_LABELS: Record<string, string> = {
+  bot_user_agent: "Bot user agent",
+  missing_user_agent: "No user agent",
+  ip_rate: "IP over rate limit",
+  session_rate: "Session over rate limit",
+  click_rate: "Too many clicks",
+  impossible_velocity: "Clicks too fast",
+  unsigned: "Unsigned beacon",
+  bad_signature: "Bad or expired token",
+  visitor_mismatch: "Token for another visitor",
+};
+
+const TRAFFIC_EVENT_TYPES = ["impressions", "interactions", "clicks", "conversions"] as const;
+
+function flaggedShare(flagged: number, total: number) {
+  return total > 0 ? `${((flagged / total) * 100).toFixed(1)}%` : "0%";
+}
+
+function TrafficQualityPanel() {
+  const [days, setDays] = useState(1);
+  const { data: report, isLoading, error } = trpc.admin.trafficQuality.useQuery({ days }, { retry: false });
+
+  return (
+    <div className="mt-8 bg-white/5 border border-white/10 rounded-3xl p-8">
+      <div className="flex justify-between items-center mb-6">
+        <h2 className="text-xl font-black flex items-center gap-3">
+          <ShieldAlert size={24} className="text-amber-500" /> FILTERED TRAFFIC
+        </h2>
+        <div className="flex gap-2">
+          {[1, 7, 30].map(value => (
+            <button
+              key={value}
+              onClick={() => setDays(value)}
+              className={`px-3 py-1 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${
+                days === value ? "bg-amber-500 text-black border-amber-500" : "border-white/10 text-slate-400 hover:bg-white/10"
+              }`}
+            >
+              {value === 1 ? "24h" : `${value}d`}
+            </button>
+          ))}
+        </div>
       </div>
+
+      {isLoading ? (
+        <p className="text-slate-500 text-sm">Loading traffic quality...</p>
+      ) : error ? (
+        <p className="text-red-400 text-sm">{error.data?.code === "FORBIDDEN" ? "Admins only." : error.message}</p>
+      ) : !report ? null : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {TRAFFIC_EVENT_TYPES.map(type => (
+              <div key={type} className="p-4 bg-black/40 rounded-2xl border border-white/5">
+                <div className="text-[10px] text-slate-500 uppercase font-black">{type}</div>
+                <div className="text-lg font-black">{report.totals[type].flagged.toLocaleString()}</div>
+                <div className="text-[10px] text-slate-500">
+                  of {report.totals[type].total.toLocaleString()} · {flaggedShare(report.totals[type].flagged, report.totals[type].total)}
+                </div>
+              </div>
+            ))}
+            <div className="p-4 bg-black/40 rounded-2xl border border-white/5">
+              <div className="text-[10px] text-slate-500 uppercase font-black">CRM leads</div>
+              <div className="text-lg font-black">{report.leads.flagged.toLocaleString()}</div>
+              <div className="text-[10px] text-slate-500">
+                of {report.leads.total.toLocaleString()} · {flaggedShare(report.leads.flagged, report.leads.total)}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest mb-3">Why</h3>
+              {report.byReason.length === 0 ? (
+                <p className="text-slate-500 text-sm">Nothing filtered.</p>
+              ) : (
+                <div className="space-y-2">
+                  {report.byReason.map(row => (
+                    <div key={row.reason} className="flex justify-between text-sm">
+                      <span>{TRAFFIC_FLAG_LABELS[row.reason] ?? row.reason}</span>
+                      <span className="font-mono text-slate-400">{row.count.toLocaleString()}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div>
+              <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest mb-3">Most affected sellers</h3>
+              {report.bySeller.length === 0 ? (
+                <p className="text-slate-500 text-sm">None.</p>
+              ) : (
+                <div className="space-y-2">
+                  {report.bySeller.map(row => (
+                    <div key={row.sellerId} className="flex justify-between text-sm">
+                      <span>Seller #{row.sellerId}</span>
+                      <span className="font-mono text-slate-400">
+                        {row.flagged.toLocaleString()} · {flaggedShare(row.flagged, row.total)}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {report.recent.length > 0 && (
+            <div>
+              <h3 className="text-xs font-black text-slate-500 uppercase tracking-widest mb-3">Recent flagged events</h3>
+              <div className="space-y-2">
+                {report.recent.map(event => (
+                  <div key={`${event.type}-${event.eventId}`} className="flex items-center justify-between p-3 bg-black/40 rounded-xl border border-white/5 text-xs">
+                    <span>
+                      {event.type.replace(/s$/, "")} · seller #{event.sellerId} · product #{event.productId}
+                      <span className="text-slate-500"> · {event.userId} · {new Date(event.occurredAt).toLocaleString()}</span>
+                    </span>
+                    <span className="text-amber-500 font-bold">
+                      {event.flags.map(flag => TRAFFIC_FLAG_LABELS[flag] ?? flag).join(", ")}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function DuplicateListingsPanel() {
+  const utils = trpc.useUtils();
+  const { data: clusters, isLoading, error } = trpc.admin.duplicateListings.useQuery({ status: "pending" }, { retry: false });
+  const review = trpc.admin.reviewDuplicateListings.useMutation({
+    onSuccess: () => utils.admin.duplicateListings.invalidate(),
+  });
+
+  return (
+    <div className="mt-8 bg-white/5 border border-white/10 rounded-3xl p-8">
+      <h2 className="text-xl font-black flex items-center gap-3 mb-2">
+        <Copy size={24} className="text-amber-500" /> SUSPECTED COPIED LISTINGS
+      </h2>
+      <p className="text-slate-500 text-xs mb-6">Pick a listing to confirm the cluster with it as the one buyers see.</p>
+
+      {isLoading ? (
+        <p className="text-slate-500 text-sm">Loading duplicate listings...</p>
+      ) : error ? (
+        <p className="text-red-400 text-sm">{error.data?.code === "FORBIDDEN" ? "Admins only." : error.message}</p>
+      ) : !clusters?.length ? (
+        <p className="text-slate-500 text-sm">Nothing waiting for review.</p>
+      ) : (
+        <div className="space-y-4">
+          {clusters.map(cluster => (
+            <div key={cluster.id} className="p-4 bg-black/40 rounded-2xl border border-white/5">
+              <div className="flex justify-between items-center mb-3">
+                <div className="text-sm font-bold">
+                  {cluster.productCount} listings from {cluster.sellerCount} sellers
+                  {cluster.minPrice !== null && (
+                    <span className="text-slate-500">
+                      {" "}· KES {cluster.minPrice.toLocaleString()} – {cluster.maxPrice?.toLocaleString()}
+                    </span>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => review.mutate({ clusterId: cluster.id, decision: "confirmed" })}
+                    disabled={review.isPending}
+                    className="px-3 py-1 rounded-xl text-[10px] font-black uppercase tracking-widest bg-amber-500 text-black"
+                  >
+                    Confirm copies
+                  </button>
+                  <button
+                    onClick={() => review.mutate({ clusterId: cluster.id, decision: "dismissed" })}
+                    disabled={review.isPending}
+                    className="px-3 py-1 rounded-xl text-[10px] font-black uppercase tracking-widest border border-white/10 text-slate-400 hover:bg-white/10"
+                  >
+                    Not duplicates
+                  </button>
+                </div>
+              </div>
+              <div className="flex gap-3 overflow-x-auto">
+                {cluster.members.map(member => (
+                  <button
+                    key={member.productId}
+                    title="Show this listing to buyers"
+                    onClick={() =>
+                      review.mutate({ clusterId: cluster.id, decision: "confirmed", canonicalProductId: member.productId })
+                    }
+                    disabled={review.isPending}
+                    className={`w-32 flex-shrink-0 text-left rounded-xl overflow-hidden border ${
+                      member.productId === cluster.canonicalProductId ? "border-amber-500" : "border-white/5"
+                    }`}
+                  >
+                    <img src={member.imageUrl ?? ""} alt={member.name} className="w-32 h-24 object-cover" />
+                    <div className="p-2 text-[10px]">
+                      <div className="font-bold truncate">{member.storeName ?? `Seller #${member.sellerId}`}</div>
+                      <div className="text-slate-500">
+                        KES {member.price} · {new Date(member.createdAt).toLocaleDateString()}
+                      </div>
+                    </div>
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 }
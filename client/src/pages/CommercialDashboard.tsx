@@ -7,11 +7,14 @@
  * - Cohort analysis and retention metrics
  * - Anomaly detection with statistical alerts
  * - Product performance heatmaps
- * - Revenue forecasting with exponential smoothing
+ * - Revenue forecasting with weekly seasonality, payday effects and prediction bands
+ * - Multi-step conversion funnel with drop-off by source and device
+ * - Lead management: status, notes, follow-up reminders, linked orders and WhatsApp sales by reference code
  */
 
 import React, { useState, useEffect, useMemo } from "react";
-import { LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area, ScatterChart, Scatter } from "recharts";
+import { LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, AreaChart, Area, ScatterChart, Scatter, ComposedChart } from "recharts";
+import { trpc } from "@/lib/trpc";
 import { TrendingUp, AlertTriangle, Target, DollarSign, Users, Eye, ArrowUpRight, ArrowDownRight, Calendar, Download, Share2 } from "lucide-react";
 
 interface SellerMetrics {
@@ -325,15 +328,17 @@ export default function CommercialDashboard() {
         </div>
       </div>
 
+      {/* Revenue Forecast */}
+      <ForecastPanel />
+
       {/* Conversion Funnel */}
-      <div className="bg-slate-800 rounded-xl p-6 border border-slate-700 mb-8">
-        <h2 className="text-xl font-bold mb-6">Conversion Funnel</h2>
-        <div className="space-y-4">
-          <FunnelStep label="Impressions" value={sellerMetrics.impressions} percentage={100} />
-          <FunnelStep label="Clicks" value={sellerMetrics.totalClicks} percentage={(sellerMetrics.totalClicks / sellerMetrics.impressions) * 100} />
-          <FunnelStep label="Conversions" value={sellerMetrics.totalConversions} percentage={(sellerMetrics.totalConversions / sellerMetrics.impressions) * 100} />
-        </div>
-      </div>
+      <FunnelPanel />
+
+      {/* Leads */}
+      <LeadsPanel />
+
+      {/* Weekly Reports */}
+      <ReportsPanel />
 
       {/* Detailed Metrics Table */}
       <div className="bg-slate-800 rounded-xl p-6 border border-slate-700">
@@ -397,7 +402,7 @@ function KPICard({ title, value, change, icon, color }: { title: string; value:
 /**
  * Funnel Step Component
  */
-function FunnelStep({ label, value, percentage }: { label: string; value: number; percentage: number }) {
+function FunnelStep({ label, value, percentage, detail }: { label: string; value: number; percentage: number; detail?: string }) {
   return (
     <div>
       <div className="flex justify-between items-center mb-2">
@@ -409,6 +414,583 @@ function FunnelStep({ label, value, percentage }: { label: string; value: number
           <span className="text-white text-sm font-bold">{percentage.toFixed(1)}%</span>
         </div>
       </div>
+      {detail && <p className="text-xs text-slate-400 mt-1">{detail}</p>}
+    </div>
+  );
+}
+
+/**
+ * Revenue Forecast Panel - last 30 days plus the forecast band
+ */
+function ForecastPanel() {
+  const [metric, setMetric] = useState<"revenue" | "conversions">("revenue");
+  const { data, isLoading, error } = trpc.sellerAnalytics.forecast.useQuery({ daysAhead: 14 }, { retry: false });
+
+  const chartData = useMemo(() => {
+    if (!data) return [];
+    const day = (date: Date | string) => new Date(date).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+    const actual = data.history.map(point => ({
+      date: day(point.timestamp),
+      actual: metric === "revenue" ? point.revenue : point.conversions,
+    }));
+    const predicted = data.forecast.map(point => ({
+      date: day(point.timestamp),
+      forecast: metric === "revenue" ? point.predictedRevenue : point.predictedConversions,
+      band: metric === "revenue"
+        ? [point.revenueLower, point.revenueUpper]
+        : [point.conversionsLower, point.conversionsUpper],
+    }));
+    // Join the lines at the last actual day
+    if (actual.length > 0 && predicted.length > 0) {
+      const last = actual[actual.length - 1];
+      Object.assign(last, { forecast: last.actual, band: [last.actual, last.actual] });
+    }
+    return [...actual, ...predicted];
+  }, [data, metric]);
+
+  let body: React.ReactNode;
+  if (isLoading) {
+    body = <p className="text-slate-400">Loading forecast...</p>;
+  } else if (error?.data?.code === "FORBIDDEN" || error?.data?.code === "UNAUTHORIZED") {
+    body = <p className="text-slate-400">Sign in with a seller account to see your forecast.</p>;
+  } else if (error || !data) {
+    body = <p className="text-red-400">Couldn't load the forecast: {error?.message}</p>;
+  } else if (data.forecast.length === 0) {
+    body = <p className="text-slate-400">Not enough sales history yet. Forecasts start after a few days of activity.</p>;
+  } else {
+    const accuracy = data.backtest[metric];
+    body = (
+      <>
+        <ResponsiveContainer width="100%" height={300}>
+          <ComposedChart data={chartData}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+            <XAxis dataKey="date" stroke="#94a3b8" />
+            <YAxis stroke="#94a3b8" />
+            <Tooltip contentStyle={{ backgroundColor: "#1e293b", border: "1px solid #475569" }} />
+            <Legend />
+            <Area type="monotone" dataKey="band" name={`${Math.round(data.level * 100)}% interval`} stroke="none" fill="#8b5cf6" fillOpacity={0.25} />
+            <Line type="monotone" dataKey="actual" name="Actual" stroke="#3b82f6" dot={false} />
+            <Line type="monotone" dataKey="forecast" name="Forecast" stroke="#8b5cf6" strokeDasharray="5 5" dot={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+        <p className="text-sm text-slate-400 mt-3">
+          {accuracy.mape === null
+            ? "Accuracy will show once there are a few weeks of history."
+            : `Backtest error (MAPE, 7-day windows): ${(accuracy.mape * 100).toFixed(1)}%` +
+              (accuracy.baselineMape !== null ? ` vs ${(accuracy.baselineMape * 100).toFixed(1)}% for same-day-last-week` : "")}
+        </p>
+      </>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 border border-slate-700 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold">{metric === "revenue" ? "Revenue" : "Conversions"} Forecast</h2>
+        <div className="flex gap-2">
+          {(["revenue", "conversions"] as const).map(key => (
+            <button
+              key={key}
+              onClick={() => setMetric(key)}
+              className={`px-3 py-1 rounded-lg text-sm capitalize ${metric === key ? "bg-blue-600" : "bg-slate-700 hover:bg-slate-600"}`}
+            >
+              {key}
+            </button>
+          ))}
+        </div>
+      </div>
+      {body}
+    </div>
+  );
+}
+
+/**
+ * Weekly CSV/PDF reports, with a button to build this week's now
+ */
+function ReportsPanel() {
+  const utils = trpc.useUtils();
+  const { data: reports, isLoading, error } = trpc.sellerAnalytics.reports.useQuery(undefined, { retry: false });
+  const generate = trpc.sellerAnalytics.generateReport.useMutation({
+    onSuccess: () => utils.sellerAnalytics.reports.invalidate(),
+  });
+
+  const day = (date: Date | string) => new Date(date).toLocaleDateString(undefined, { month: "short", day: "numeric" });
+
+  let body: React.ReactNode;
+  if (isLoading) {
+    body = <p className="text-slate-400">Loading reports...</p>;
+  } else if (error?.data?.code === "FORBIDDEN" || error?.data?.code === "UNAUTHORIZED") {
+    body = <p className="text-slate-400">Sign in with a seller account to see your reports.</p>;
+  } else if (error) {
+    body = <p className="text-red-400">Couldn't load reports: {error.message}</p>;
+  } else if (!reports?.length) {
+    body = <p className="text-slate-400">No reports yet. A new one arrives every Monday morning.</p>;
+  } else {
+    body = (
+      <div className="space-y-3">
+        {reports.map(report => (
+          <div key={report.id} className="flex items-center justify-between p-4 bg-slate-700/50 rounded-lg">
+            <div>
+              <p className="font-semibold">
+                {day(report.periodStart)} - {day(new Date(new Date(report.periodEnd).getTime() - 24 * 60 * 60 * 1000))}
+                {report.trigger === "on_demand" && <span className="text-xs text-slate-400 ml-2">on demand</span>}
+              </p>
+              {report.summary && (
+                <p className="text-sm text-slate-400">
+                  KES {Math.round(report.summary.revenue).toLocaleString()} revenue · {report.summary.conversions} conversions ·{" "}
+                  {report.summary.clicks} clicks
+                </p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <a href={report.pdfUrl} target="_blank" rel="noreferrer" className="px-3 py-1 rounded-lg text-sm bg-slate-600 hover:bg-slate-500">
+                PDF
+              </a>
+              <a href={report.csvUrl} target="_blank" rel="noreferrer" className="px-3 py-1 rounded-lg text-sm bg-slate-600 hover:bg-slate-500">
+                CSV
+              </a>
+            </div>
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 border border-slate-700 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold">Weekly Reports</h2>
+        <button
+          onClick={() => generate.mutate()}
+          disabled={generate.isPending || !!error}
+          className="flex items-center gap-2 px-3 py-1 rounded-lg text-sm bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+        >
+          <Download size={16} />
+          {generate.isPending ? "Generating..." : "Generate now"}
+        </button>
+      </div>
+      {generate.error && <p className="text-red-400 text-sm mb-3">Couldn't generate the report: {generate.error.message}</p>}
+      {body}
+    </div>
+  );
+}
+
+type LeadStatus = "new" | "contacted" | "converted" | "lost";
+
+const LEAD_STATUS_LABELS: Record<LeadStatus, string> = {
+  new: "New",
+  contacted: "Contacted",
+  converted: "Converted",
+  lost: "Lost",
+};
+
+const LEAD_STATUS_STYLES: Record<LeadStatus, string> = {
+  new: "bg-blue-600/30 text-blue-300",
+  contacted: "bg-amber-600/30 text-amber-300",
+  converted: "bg-green-600/30 text-green-300",
+  lost: "bg-slate-600/50 text-slate-300",
+};
+
+// Mirrors LEAD_TRANSITIONS on the server
+const NEXT_LEAD_STATUSES: Record<LeadStatus, LeadStatus[]> = {
+  new: ["contacted", "converted", "lost"],
+  contacted: ["converted", "lost"],
+  lost: ["contacted", "converted"],
+  converted: [],
+};
+
+const INTERACTION_LABELS: Record<string, string> = {
+  view: "Viewed",
+  click: "Clicked",
+  wishlist: "Wishlisted",
+  whatsapp_start: "WhatsApp chat",
+};
+
+/**
+ * Leads Panel - who showed interest, and working each lead to a sale
+ */
+function LeadsPanel() {
+  const [status, setStatus] = useState<LeadStatus | undefined>(undefined);
+  const [openLeadId, setOpenLeadId] = useState<number | null>(null);
+  const summary = trpc.sellerCrm.summary.useQuery(undefined, { retry: false });
+  const { data: leads, isLoading, error } = trpc.sellerCrm.leads.useQuery({ status, limit: 20 }, { retry: false });
+
+  let body: React.ReactNode;
+  if (isLoading) {
+    body = <p className="text-slate-400">Loading leads...</p>;
+  } else if (error?.data?.code === "FORBIDDEN" || error?.data?.code === "UNAUTHORIZED") {
+    body = <p className="text-slate-400">Sign in with a seller account to see your leads.</p>;
+  } else if (error) {
+    body = <p className="text-red-400">Couldn't load leads: {error.message}</p>;
+  } else if (!leads?.length) {
+    body = <p className="text-slate-400">{status ? "No leads with this status." : "No leads yet. They appear as buyers interact with your products."}</p>;
+  } else {
+    body = (
+      <div className="space-y-3">
+        {leads.map(lead => (
+          <LeadItem
+            key={lead.id}
+            lead={lead}
+            open={openLeadId === lead.id}
+            onToggle={() => setOpenLeadId(openLeadId === lead.id ? null : lead.id)}
+          />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 border border-slate-700 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-bold">Leads</h2>
+        <a href="/api/crm/export" className="flex items-center gap-2 px-3 py-1 rounded-lg text-sm bg-slate-700 hover:bg-slate-600">
+          <Download size={16} />
+          Export CSV
+        </a>
+      </div>
+      {summary.data && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+          <div className="p-3 bg-slate-700/50 rounded-lg">
+            <p className="text-sm text-slate-400">Last 7 days</p>
+            <p className="text-xl font-bold">{summary.data.leadsLast7d}</p>
+          </div>
+          {(Object.keys(LEAD_STATUS_LABELS) as LeadStatus[]).map(key => (
+            <div key={key} className="p-3 bg-slate-700/50 rounded-lg">
+              <p className="text-sm text-slate-400">{LEAD_STATUS_LABELS[key]}</p>
+              <p className="text-xl font-bold">{summary.data.byStatus[key]}</p>
+            </div>
+          ))}
+        </div>
+      )}
+      <div className="flex gap-2 mb-4">
+        {[undefined, ...(Object.keys(LEAD_STATUS_LABELS) as LeadStatus[])].map(key => (
+          <button
+            key={key ?? "all"}
+            onClick={() => setStatus(key)}
+            className={`px-3 py-1 rounded-lg text-sm ${status === key ? "bg-blue-600" : "bg-slate-700 hover:bg-slate-600"}`}
+          >
+            {key ? LEAD_STATUS_LABELS[key] : "All"}
+          </button>
+        ))}
+      </div>
+      <MarkSoldForm />
+      {body}
+    </div>
+  );
+}
+
+/**
+ * The buyer's WhatsApp message carries a reference (e.g. WA7QX4M2); entering it closes the sale
+ */
+function MarkSoldForm() {
+  const utils = trpc.useUtils();
+  const [code, setCode] = useState("");
+  const [amount, setAmount] = useState("");
+  const markSold = trpc.sellerCrm.markSold.useMutation({
+    onSuccess: () => {
+      setCode("");
+      setAmount("");
+      void utils.sellerCrm.leads.invalidate();
+      void utils.sellerCrm.summary.invalidate();
+    },
+  });
+
+  return (
+    <form
+      onSubmit={e => {
+        e.preventDefault();
+        const kes = Number(amount);
+        if (code.trim()) {
+          markSold.mutate({ referenceCode: code, amount: amount && kes > 0 ? Math.round(kes) : undefined });
+        }
+      }}
+      className="flex flex-wrap gap-2 items-center mb-4 text-sm"
+    >
+      <input
+        value={code}
+        onChange={e => setCode(e.target.value.toUpperCase())}
+        placeholder="Chat ref, e.g. WA7QX4M2"
+        className="w-48 px-3 py-1 rounded-lg bg-slate-800 border border-slate-600"
+      />
+      <input
+        value={amount}
+        onChange={e => setAmount(e.target.value)}
+        inputMode="numeric"
+        placeholder="KES (listed price)"
+        className="w-36 px-3 py-1 rounded-lg bg-slate-800 border border-slate-600"
+      />
+      <button type="submit" disabled={!code.trim() || markSold.isPending} className="px-3 py-1 rounded-lg bg-green-600 hover:bg-green-700 disabled:opacity-50">
+        Mark as sold
+      </button>
+      {markSold.data && <span className="text-green-400">Sold: {markSold.data.productName ?? `product ${markSold.data.productId}`}</span>}
+      {markSold.error && <span className="text-red-400">{markSold.error.message}</span>}
+    </form>
+  );
+}
+
+interface LeadItemProps {
+  // A row from sellerCrm.leads; the non-strict build infers its fields as optional
+  lead: {
+    id?: number;
+    productId?: number;
+    productName?: string | null;
+    customerPhone?: string | null;
+    referenceCode?: string | null;
+    interactionType?: string;
+    status?: LeadStatus;
+    followUpAt?: Date | string | null;
+    orderId?: number | null;
+    createdAt?: Date | string;
+  };
+  open: boolean;
+  onToggle: () => void;
+}
+
+function LeadItem({ lead, open, onToggle }: LeadItemProps) {
+  const utils = trpc.useUtils();
+  const [note, setNote] = useState("");
+  const [followUp, setFollowUp] = useState("");
+  const [orderId, setOrderId] = useState("");
+  const detail = trpc.sellerCrm.lead.useQuery({ leadId: lead.id }, { enabled: open, retry: false });
+
+  const refresh = () => {
+    void utils.sellerCrm.leads.invalidate();
+    void utils.sellerCrm.summary.invalidate();
+    void utils.sellerCrm.lead.invalidate({ leadId: lead.id });
+  };
+  const updateStatus = trpc.sellerCrm.updateStatus.useMutation({ onSuccess: refresh });
+  const addNote = trpc.sellerCrm.addNote.useMutation({ onSuccess: () => { setNote(""); refresh(); } });
+  const setFollowUpAt = trpc.sellerCrm.setFollowUp.useMutation({ onSuccess: () => { setFollowUp(""); refresh(); } });
+  const linkOrder = trpc.sellerCrm.linkOrder.useMutation({ onSuccess: () => { setOrderId(""); refresh(); } });
+  const mutationError = updateStatus.error ?? addNote.error ?? setFollowUpAt.error ?? linkOrder.error;
+
+  const when = (date: Date | string) =>
+    new Date(date).toLocaleString(undefined, { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" });
+  const closed = lead.status === "converted" || lead.status === "lost";
+
+  return (
+    <div className="p-4 bg-slate-700/50 rounded-lg">
+      <button onClick={onToggle} className="w-full flex items-center justify-between text-left">
+        <div>
+          <p className="font-semibold">{lead.productName ?? `Product ${lead.productId}`}</p>
+          <p className="text-sm text-slate-400">
+            {INTERACTION_LABELS[lead.interactionType] ?? lead.interactionType} · {when(lead.createdAt)}
+            {lead.customerPhone && ` · ${lead.customerPhone}`}
+            {lead.referenceCode && ` · ref ${lead.referenceCode}`}
+            {lead.followUpAt && ` · follow up ${when(lead.followUpAt)}`}
+            {lead.orderId && ` · order #${lead.orderId}`}
+          </p>
+        </div>
+        <span className={`px-2 py-1 rounded text-xs font-semibold ${LEAD_STATUS_STYLES[lead.status]}`}>
+          {LEAD_STATUS_LABELS[lead.status]}
+        </span>
+      </button>
+
+      {open && (
+        <div className="mt-4 space-y-3 text-sm">
+          {NEXT_LEAD_STATUSES[lead.status].length > 0 && (
+            <div className="flex gap-2">
+              {NEXT_LEAD_STATUSES[lead.status].map(next => (
+                <button
+                  key={next}
+                  onClick={() => updateStatus.mutate({ leadId: lead.id, status: next })}
+                  disabled={updateStatus.isPending}
+                  className="px-3 py-1 rounded-lg bg-slate-600 hover:bg-slate-500 disabled:opacity-50"
+                >
+                  Mark {LEAD_STATUS_LABELS[next].toLowerCase()}
+                </button>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-1">
+            {detail.data?.notes.map(n => (
+              <p key={n.id} className="text-slate-300">
+                <span className="text-slate-500 mr-2">{when(n.createdAt)}</span>
+                {n.body}
+              </p>
+            ))}
+          </div>
+          <form
+            onSubmit={e => {
+              e.preventDefault();
+              if (note.trim()) addNote.mutate({ leadId: lead.id, body: note });
+            }}
+            className="flex gap-2"
+          >
+            <input
+              value={note}
+              onChange={e => setNote(e.target.value)}
+              placeholder="Add a note"
+              className="flex-1 px-3 py-1 rounded-lg bg-slate-800 border border-slate-600"
+            />
+            <button type="submit" disabled={addNote.isPending} className="px-3 py-1 rounded-lg bg-slate-600 hover:bg-slate-500 disabled:opacity-50">
+              Save
+            </button>
+          </form>
+
+          {!closed && (
+            <div className="flex flex-wrap gap-2 items-center">
+              <input
+                type="datetime-local"
+                value={followUp}
+                onChange={e => setFollowUp(e.target.value)}
+                className="px-3 py-1 rounded-lg bg-slate-800 border border-slate-600"
+              />
+              <button
+                onClick={() => followUp && setFollowUpAt.mutate({ leadId: lead.id, at: new Date(followUp) })}
+                disabled={!followUp || setFollowUpAt.isPending}
+                className="px-3 py-1 rounded-lg bg-slate-600 hover:bg-slate-500 disabled:opacity-50"
+              >
+                Remind me
+              </button>
+              {lead.followUpAt && (
+                <button
+                  onClick={() => setFollowUpAt.mutate({ leadId: lead.id, at: null })}
+                  className="px-3 py-1 rounded-lg text-slate-400 hover:text-white"
+                >
+                  Clear reminder
+                </button>
+              )}
+            </div>
+          )}
+
+          {!lead.orderId && lead.status !== "converted" && (
+            <form
+              onSubmit={e => {
+                e.preventDefault();
+                const id = Number(orderId);
+                if (Number.isInteger(id) && id > 0) linkOrder.mutate({ leadId: lead.id, orderId: id });
+              }}
+              className="flex gap-2"
+            >
+              <input
+                value={orderId}
+                onChange={e => setOrderId(e.target.value)}
+                inputMode="numeric"
+                placeholder="Order ID"
+                className="w-32 px-3 py-1 rounded-lg bg-slate-800 border border-slate-600"
+              />
+              <button type="submit" disabled={linkOrder.isPending} className="px-3 py-1 rounded-lg bg-green-600 hover:bg-green-700 disabled:opacity-50">
+                Link order
+              </button>
+            </form>
+          )}
+
+          {mutationError && <p className="text-red-400">{mutationError.message}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Format a step-to-step duration for the funnel
+ */
+function formatDuration(ms: number | null): string | null {
+  if (ms === null) return null;
+  const minutes = ms / 60000;
+  if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+  if (minutes < 60) return `${Math.round(minutes)}m`;
+  const hours = minutes / 60;
+  if (hours < 48) return `${hours.toFixed(1)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+}
+
+/**
+ * Conversion Funnel Panel - journeys from impression to delivery, last 30 days
+ */
+function FunnelPanel() {
+  const [segmentBy, setSegmentBy] = useState<"source" | "device">("source");
+  const { data: funnel, isLoading, error } = trpc.sellerAnalytics.funnel.useQuery({}, { retry: false });
+
+  let body: React.ReactNode;
+  if (isLoading) {
+    body = <p className="text-slate-400">Loading funnel...</p>;
+  } else if (error?.data?.code === "FORBIDDEN" || error?.data?.code === "UNAUTHORIZED") {
+    body = <p className="text-slate-400">Sign in with a seller account to see your conversion funnel.</p>;
+  } else if (error || !funnel) {
+    body = <p className="text-red-400">Couldn't load the funnel: {error?.message}</p>;
+  } else if (funnel.journeys === 0) {
+    body = <p className="text-slate-400">No visitor journeys yet. Your funnel fills in as buyers see your products.</p>;
+  } else {
+    const segments = segmentBy === "source" ? funnel.bySource : funnel.byDevice;
+    body = (
+      <>
+        <p className="text-sm text-slate-400 mb-4">
+          {funnel.journeys.toLocaleString()} visitors across {funnel.sessions.toLocaleString()} sessions
+        </p>
+        <div className="space-y-4 mb-8">
+          {funnel.steps.map((step, i) => {
+            const median = formatDuration(step.medianTimeFromPreviousMs);
+            const detail = i === 0
+              ? undefined
+              : [
+                  `${(step.rateFromPrevious * 100).toFixed(1)}% of previous step`,
+                  step.dropOff > 0 ? `${step.dropOff.toLocaleString()} dropped off` : null,
+                  median ? `median ${median}` : null,
+                ].filter(Boolean).join(" · ");
+            return (
+              <FunnelStep
+                key={`${step.kind}-${i}`}
+                label={step.optional ? `${step.label} (optional)` : step.label}
+                value={step.count}
+                percentage={step.rateFromStart * 100}
+                detail={detail}
+              />
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between mb-3">
+          <h3 className="font-semibold">Breakdown</h3>
+          <div className="flex gap-2">
+            {(["source", "device"] as const).map(key => (
+              <button
+                key={key}
+                onClick={() => setSegmentBy(key)}
+                className={`px-3 py-1 rounded-lg text-sm ${segmentBy === key ? "bg-blue-600" : "bg-slate-700 hover:bg-slate-600"}`}
+              >
+                {key === "source" ? "Traffic source" : "Device"}
+              </button>
+            ))}
+          </div>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-slate-700">
+                <th className="text-left py-2 px-3 text-slate-400">{segmentBy === "source" ? "Source" : "Device"}</th>
+                {funnel.steps.map((step, i) => (
+                  <th key={`${step.kind}-${i}`} className="text-right py-2 px-3 text-slate-400">{step.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {segments.map(segment => (
+                <tr key={segment.key} className="border-b border-slate-700">
+                  <td className="py-2 px-3 capitalize">{segment.key}</td>
+                  {segment.counts.map((count, i) => (
+                    <td key={i} className="text-right py-2 px-3">
+                      {count.toLocaleString()}
+                      {i > 0 && segment.counts[0] > 0 && (
+                        <span className="text-slate-500 ml-1">({((count / segment.counts[0]) * 100).toFixed(0)}%)</span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </>
+    );
+  }
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-6 border border-slate-700 mb-8">
+      <h2 className="text-xl font-bold mb-6">Conversion Funnel</h2>
+      {body}
     </div>
   );
 }
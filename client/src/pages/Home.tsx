@@ -2,7 +2,10 @@ import { useEffect, useRef, useState } from "react";
 import { useLocation } from "wouter";
 import { trpc } from "@/lib/trpc";
 import { useStaticProducts } from "@/hooks/useStaticProducts";
-import { Heart, Search, Plus, MessageCircle, User, Home as HomeIcon, Sparkles, TrendingUp, MapPin, Bell, Package } from "lucide-react";
+import { TrackedCard } from "@/components/TrackedCard";
+import { analyticsTracker, type ListContext } from "@/lib/analytics";
+import { searchByPhoto, type PhotoSearchResult } from "@/lib/visual-search";
+import { Heart, Search, Plus, MessageCircle, User, Home as HomeIcon, Sparkles, TrendingUp, MapPin, Bell, Package, Camera, X } from "lucide-react";
 
 interface Product {
   id: number;
@@ -16,6 +19,15 @@ interface Product {
   source?: string | null;
   createdAt?: Date;
   updatedAt?: Date;
+  /** Set when the card stands for the same item listed by several sellers */
+  offers?: { sellerCount: number; minPrice: number | null; maxPrice: number | null };
+}
+
+function formatPriceRange(minPrice: number | null, maxPrice: number | null) {
+  if (minPrice === null || maxPrice === null) return null;
+  return minPrice === maxPrice
+    ? `KES ${minPrice.toLocaleString()}`
+    : `KES ${minPrice.toLocaleString()} – ${maxPrice.toLocaleString()}`;
 }
 
 // Generate random height for Pinterest-style masonry
@@ -42,7 +54,12 @@ export default function Home() {
   const [selectedCategory, setSelectedCategory] = useState<number | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [favorites, setFavorites] = useState<Set<number>>(new Set());
+  // Search-by-photo matches replace the grid until cleared
+  const [photoResults, setPhotoResults] = useState<PhotoSearchResult[] | null>(null);
+  const [isPhotoSearching, setIsPhotoSearching] = useState(false);
+  const [photoError, setPhotoError] = useState<string | null>(null);
   const observerTarget = useRef<HTMLDivElement>(null);
+  const photoInput = useRef<HTMLInputElement>(null);
 
   // Load favorites from localStorage on mount
   useEffect(() => {
@@ -75,7 +92,7 @@ export default function Home() {
     );
 
   const { data: searchResults, isLoading: isLoadingSearch } = trpc.products.search.useQuery(
-    { query: searchQuery, limit: 40, offset },
+    { query: searchQuery, limit: 40, offset, mode: "semantic" },
     { enabled: !!searchQuery }
   );
 
@@ -131,7 +148,8 @@ export default function Home() {
 
   useEffect(() => {
     if (searchResults && searchQuery) {
-      setProducts(prev => (offset === 0 ? searchResults : [...prev, ...searchResults]));
+      const ranked = searchResults as any[];
+      setProducts(prev => (offset === 0 ? ranked : [...prev, ...ranked]));
     } else if (!isLoadingSearch && !searchResults && staticProducts.length > 0 && searchQuery) {
       const filtered = staticProducts.filter(p => 
         p.name.toLowerCase().includes(searchQuery.toLowerCase()) || 
@@ -150,17 +168,54 @@ export default function Home() {
   useEffect(() => {
     setProducts([]);
     setOffset(0);
+    setPhotoResults(null);
+    setPhotoError(null);
   }, [selectedCategory, searchQuery]);
 
-  const isLoadingData = isLoadingProducts || isLoadingCategory || isLoadingSearch;
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const photo = e.target.files?.[0];
+    e.target.value = ""; // Picking the same photo again should search again
+    if (!photo) return;
+
+    setIsPhotoSearching(true);
+    setPhotoError(null);
+    try {
+      setPhotoResults(await searchByPhoto(photo, { categoryId: selectedCategory ?? undefined, limit: 40 }));
+    } catch (error) {
+      setPhotoError(error instanceof Error ? error.message : "Photo search failed");
+    } finally {
+      setIsPhotoSearching(false);
+    }
+  };
+
+  const clearPhotoSearch = () => {
+    setPhotoResults(null);
+    setPhotoError(null);
+  };
+
+  const gridProducts: Product[] = photoResults ?? products;
+  const isLoadingData = isLoadingProducts || isLoadingCategory || isLoadingSearch || isPhotoSearching;
+
+  // Which list the grid is showing, for impression and click tracking
+  const listFor = (position: number): ListContext =>
+    photoResults
+      ? { source: "search", position, query: "photo" }
+      : searchQuery
+      ? { source: "search", position, query: searchQuery }
+      : selectedCategory
+        ? { source: "category", position, query: String(selectedCategory) }
+        : { source: "homepage", position };
 
-  const toggleFavorite = (productId: number) => {
+  const toggleFavorite = (product: { id: number; sellerId: number }) => {
+    if (!favorites.has(product.id)) {
+      analyticsTracker.trackInteraction({ productId: product.id, sellerId: product.sellerId }, "watchlist_add");
+    }
     setFavorites(prev => {
       const newSet = new Set(prev);
-      if (newSet.has(productId)) {
-        newSet.delete(productId);
+      if (newSet.has(product.id)) {
+        newSet.delete(product.id);
       } else {
-        newSet.add(productId);
+        newSet.add(product.id);
       }
       return newSet;
     });
@@ -168,6 +223,15 @@ export default function Home() {
 
   return (
     <div className="fixed inset-0 bg-black text-white flex flex-col overflow-hidden">
+      {/* Camera on phones, file picker elsewhere; shared by both search bars */}
+      <input
+        ref={photoInput}
+        type="file"
+        accept="image/*"
+        capture="environment"
+        onChange={handlePhoto}
+        className="hidden"
+      />
       {/* Premium Top Stripe */}
       <div className="bg-black/95 backdrop-blur-xl border-b border-white/5 px-6 py-4 flex items-center justify-between z-50 shadow-2xl">
         <div className="flex items-center gap-4">
@@ -197,6 +261,14 @@ export default function Home() {
               onChange={e => setSearchQuery(e.target.value)}
               className="bg-transparent outline-none flex-1 text-sm placeholder-slate-600 font-medium"
             />
+            <button
+              onClick={() => photoInput.current?.click()}
+              disabled={isPhotoSearching}
+              title="Search with a photo"
+              className="p-1 text-slate-500 hover:text-amber-500 disabled:opacity-50 transition-colors"
+            >
+              <Camera size={18} />
+            </button>
             <div className="flex items-center gap-1 px-2 py-1 bg-white/5 rounded-lg border border-white/5 text-[10px] font-bold text-slate-500">
               <Sparkles size={12} className="text-amber-500" /> AI
             </div>
@@ -267,9 +339,31 @@ export default function Home() {
               onChange={e => setSearchQuery(e.target.value)}
               className="bg-transparent outline-none flex-1 text-sm placeholder-slate-600"
             />
+            <button
+              onClick={() => photoInput.current?.click()}
+              disabled={isPhotoSearching}
+              aria-label="Search with a photo"
+              className="text-slate-500 hover:text-amber-500 disabled:opacity-50 transition-colors"
+            >
+              <Camera size={18} />
+            </button>
           </div>
         </div>
 
+        {(photoResults || photoError) && (
+          <div className="px-6 pt-4 flex items-center justify-between gap-3">
+            <div className={`text-[10px] font-black tracking-widest uppercase ${photoError ? "text-red-400" : "text-slate-400"}`}>
+              {photoError ?? (photoResults!.length > 0 ? `${photoResults!.length} visual matches` : "No visual matches - try another angle")}
+            </div>
+            <button
+              onClick={clearPhotoSearch}
+              className="flex items-center gap-1 px-3 py-1.5 bg-white/5 border border-white/10 hover:bg-white/10 rounded-xl text-[10px] font-black tracking-widest uppercase text-slate-400 hover:text-white transition-all"
+            >
+              <X size={12} /> Clear
+            </button>
+          </div>
+        )}
+
         {/* Pinterest Masonry Grid - Refined Spacing and Arrangement */}
         <div className="px-4 py-4">
           <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-4">
@@ -284,20 +378,23 @@ export default function Home() {
               } ${
                 colIndex >= 5 ? 'hidden xl:flex' : ''
               }`}>
-                {products
-                  .filter((_, i) => i % (
+                {gridProducts
+                  .map((product, position) => ({ product, position }))
+                  .filter(({ position }) => position % (
                     window.innerWidth >= 1280 ? 6 : 
                     window.innerWidth >= 1024 ? 5 : 
                     window.innerWidth >= 768 ? 4 : 
                     window.innerWidth >= 640 ? 3 : 2
                   ) === colIndex)
-                  .map((product, index) => {
+                  .map(({ product, position }, index) => {
                     const cardHeight = getCardHeight(product.id);
                     const isFavorited = favorites.has(product.id);
 
                     return (
-                      <div
+                      <TrackedCard
                         key={`${product.id}-${index}`}
+                        product={{ productId: product.id, sellerId: product.sellerId }}
+                        list={listFor(position)}
                         onClick={() => navigate(`/product/${product.id}`)}
                         className="bg-white/5 rounded-3xl overflow-hidden cursor-pointer group relative hover:ring-2 hover:ring-amber-500/50 transition-all duration-300"
                         style={{ height: `${cardHeight}px` }}
@@ -323,7 +420,7 @@ export default function Home() {
                             <button
                               onClick={e => {
                                 e.stopPropagation();
-                                toggleFavorite(product.id);
+                                toggleFavorite(product);
                               }}
                               className="bg-white/10 hover:bg-white/20 backdrop-blur-md rounded-2xl p-2.5 transition-all transform hover:scale-110"
                             >
@@ -341,6 +438,13 @@ export default function Home() {
                             <div className="text-white text-sm font-black leading-tight line-clamp-2">
                               {product.name}
                             </div>
+                            {product.offers && product.offers.sellerCount > 1 && (
+                              <div className="text-[10px] font-black uppercase tracking-wide text-emerald-400">
+                                Available from {product.offers.sellerCount} sellers
+                                {formatPriceRange(product.offers.minPrice, product.offers.maxPrice) &&
+                                  ` · ${formatPriceRange(product.offers.minPrice, product.offers.maxPrice)}`}
+                              </div>
+                            )}
                             <div className="flex items-center justify-between">
                               <div className="text-amber-400 font-black text-base">{product.price}</div>
                               <div className="w-8 h-8 bg-white/10 rounded-xl flex items-center justify-center hover:bg-amber-500 hover:text-black transition-colors">
@@ -349,7 +453,7 @@ export default function Home() {
                             </div>
                           </div>
                         </div>
-                      </div>
+                      </TrackedCard>
                     );
                   })}
               </div>
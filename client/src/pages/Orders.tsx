@@ -1,15 +1,105 @@
+import { useState, type FormEvent } from "react";
 import { useLocation } from "wouter";
-import { ArrowLeft, ShoppingBag, Clock, CheckCircle2, Package } from "lucide-react";
+import { ArrowLeft, Clock, CheckCircle2, Package, XCircle, AlertTriangle, Search, Truck } from "lucide-react";
+import { toast } from "sonner";
+import { trpc } from "@/lib/trpc";
 import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+
+type OrderLocator = { orderId?: number; code?: string; phone?: string };
+
+const STATUS_FILTERS = [
+  { key: "all", label: "All", statuses: undefined },
+  { key: "active", label: "Active", statuses: ["initiated", "confirmed", "paid", "shipped", "delivered", "disputed"] },
+  { key: "completed", label: "Completed", statuses: ["completed"] },
+  { key: "cancelled", label: "Cancelled", statuses: ["cancelled", "refunded"] },
+] as const;
+
+const STATUS_LABELS: Record<string, string> = {
+  initiated: "Awaiting seller",
+  confirmed: "Confirmed",
+  paid: "Paid",
+  shipped: "In transit",
+  delivered: "Delivered",
+  completed: "Completed",
+  cancelled: "Cancelled",
+  refunded: "Refunded",
+  disputed: "Disputed",
+};
+
+function statusTone(status: string) {
+  if (status === "completed" || status === "delivered") return { color: "text-green-500", Icon: CheckCircle2 };
+  if (status === "cancelled" || status === "refunded") return { color: "text-zinc-500", Icon: XCircle };
+  if (status === "disputed") return { color: "text-red-500", Icon: AlertTriangle };
+  if (status === "shipped") return { color: "text-amber-500", Icon: Truck };
+  return { color: "text-amber-500", Icon: Clock };
+}
+
+function formatKes(amount: string | number) {
+  return `KSh ${Math.round(Number(amount)).toLocaleString()}`;
+}
+
+function formatDate(value: string | Date) {
+  return new Date(value).toLocaleDateString("en-KE", { day: "numeric", month: "short", year: "numeric" });
+}
+
+function StatusBadge({ status }: { status: string }) {
+  const { color, Icon } = statusTone(status);
+  return (
+    <div className="flex items-center gap-2">
+      <Icon size={14} className={color} />
+      <span className={`text-[10px] font-black uppercase tracking-widest ${color}`}>{STATUS_LABELS[status] ?? status}</span>
+    </div>
+  );
+}
 
 export default function Orders() {
   const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+  const [filter, setFilter] = useState<(typeof STATUS_FILTERS)[number]["key"]>("all");
+  const [selected, setSelected] = useState<OrderLocator | null>(null);
+  const [guestCode, setGuestCode] = useState("");
+  const [guestPhone, setGuestPhone] = useState("");
+
+  const statuses = STATUS_FILTERS.find(f => f.key === filter)?.statuses;
+  const ordersQuery = trpc.orders.listMine.useQuery(
+    { statuses: statuses ? [...statuses] : undefined, limit: 50, offset: 0 },
+    { retry: false }
+  );
+  const isGuest = ordersQuery.error?.data?.code === "UNAUTHORIZED";
+  const orders = ordersQuery.data ?? [];
+
+  const detailQuery = trpc.orders.get.useQuery(selected ?? {}, { enabled: !!selected, retry: false });
+  const detail = detailQuery.data;
+
+  const refresh = async () => {
+    await Promise.all([utils.orders.listMine.invalidate(), utils.orders.get.invalidate()]);
+  };
+  const cancelOrder = trpc.orders.cancel.useMutation({
+    onSuccess: async () => {
+      toast.success("Order cancelled");
+      await refresh();
+    },
+    onError: (error) => toast.error(error.message || "Could not cancel the order"),
+  });
+  const confirmReceipt = trpc.orders.confirmDelivery.useMutation({
+    onSuccess: async () => {
+      toast.success("Thanks! The seller has been paid.");
+      await refresh();
+    },
+    onError: (error) => toast.error(error.message || "Could not confirm receipt"),
+  });
 
-  // Mock orders for demonstration
-  const orders = [
-    { id: 1, name: "Nairobi Streetwear Hoodie", price: "KSh 2,500", status: "Delivered", date: "2 hours ago", image: "https://picsum.photos/seed/hoodie/200/200" },
-    { id: 2, name: "Vintage Leather Boots", price: "KSh 4,800", status: "In Transit", date: "Yesterday", image: "https://picsum.photos/seed/boots/200/200" },
-  ];
+  const lookupGuestOrder = (event: FormEvent) => {
+    event.preventDefault();
+    if (!guestCode.trim() || !guestPhone.trim()) {
+      toast.error("Enter your order code and phone number");
+      return;
+    }
+    setSelected({ code: guestCode.trim().toUpperCase(), phone: guestPhone.trim() });
+  };
 
   return (
     <div className="min-h-screen bg-black text-white pb-24">
@@ -24,38 +114,200 @@ export default function Orders() {
       </div>
 
       <div className="p-4 space-y-4">
-        {orders.map((order) => (
-          <Card key={order.id} className="bg-zinc-900 border-zinc-800 overflow-hidden">
-            <CardContent className="p-4 flex gap-4">
-              <img src={order.image} className="w-20 h-20 rounded-lg object-cover" alt={order.name} />
-              <div className="flex-1">
-                <div className="flex justify-between items-start">
-                  <h3 className="font-bold text-sm text-zinc-200">{order.name}</h3>
-                  <span className="text-amber-500 font-black text-sm">{order.price}</span>
-                </div>
-                <div className="flex items-center gap-2 mt-2">
-                  {order.status === "Delivered" ? (
-                    <CheckCircle2 size={14} className="text-green-500" />
+        {!isGuest && (
+          <div className="flex gap-2 overflow-x-auto">
+            {STATUS_FILTERS.map(f => (
+              <button
+                key={f.key}
+                onClick={() => setFilter(f.key)}
+                className={`px-4 py-2 rounded-full text-[10px] font-black uppercase tracking-widest border transition-colors ${
+                  filter === f.key ? "bg-amber-500 text-black border-amber-500" : "border-zinc-800 text-zinc-400 hover:border-zinc-600"
+                }`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {ordersQuery.isLoading ? (
+          <div className="flex justify-center py-20">
+            <div className="w-8 h-8 border-4 border-amber-500/20 border-t-amber-500 rounded-full animate-spin"></div>
+          </div>
+        ) : (
+          !isGuest &&
+          orders.map((order) => {
+            const [first] = order.items;
+            const extra = order.items.length - 1;
+            return (
+              <Card
+                key={order.id}
+                className="bg-zinc-900 border-zinc-800 overflow-hidden cursor-pointer hover:border-amber-500/50 transition-all"
+                onClick={() => setSelected({ orderId: order.id })}
+              >
+                <CardContent className="p-4 flex gap-4">
+                  {first?.imageUrl ? (
+                    <img src={first.imageUrl} className="w-20 h-20 rounded-lg object-cover" alt={first.productName} />
                   ) : (
-                    <Clock size={14} className="text-amber-500" />
+                    <div className="w-20 h-20 rounded-lg bg-zinc-800 flex items-center justify-center">
+                      <Package className="text-zinc-600" />
+                    </div>
                   )}
-                  <span className={`text-[10px] font-black uppercase tracking-widest ${order.status === "Delivered" ? "text-green-500" : "text-amber-500"}`}>
-                    {order.status}
-                  </span>
-                </div>
-                <p className="text-[10px] text-zinc-500 mt-1 uppercase font-bold">{order.date}</p>
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+                  <div className="flex-1">
+                    <div className="flex justify-between items-start gap-2">
+                      <h3 className="font-bold text-sm text-zinc-200">
+                        {first?.productName ?? `Order ${order.orderCode ?? `#${order.id}`}`}
+                        {extra > 0 && <span className="text-zinc-500"> +{extra} more</span>}
+                      </h3>
+                      <span className="text-amber-500 font-black text-sm whitespace-nowrap">{formatKes(order.totalPrice)}</span>
+                    </div>
+                    <div className="mt-2">
+                      <StatusBadge status={order.status} />
+                    </div>
+                    <p className="text-[10px] text-zinc-500 mt-1 uppercase font-bold">
+                      {order.orderCode ?? `#${order.id}`} · {formatDate(order.createdAt)}
+                    </p>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
 
-        {orders.length === 0 && (
+        {!isGuest && !ordersQuery.isLoading && orders.length === 0 && (
           <div className="text-center py-20">
             <Package className="w-12 h-12 text-zinc-800 mx-auto mb-4" />
             <p className="text-zinc-500 font-bold uppercase tracking-widest text-sm">No orders found</p>
           </div>
         )}
+
+        {/* Guest checkout: find an order with the code from the confirmation and the phone used */}
+        <Card className="bg-zinc-900 border-zinc-800">
+          <CardContent className="p-4">
+            <h2 className="font-black text-sm uppercase tracking-tighter mb-1">
+              {isGuest ? "Find your order" : "Checked out as a guest?"}
+            </h2>
+            <p className="text-[10px] text-zinc-500 uppercase font-bold tracking-widest mb-3">
+              Enter your order code and the phone number you used
+            </p>
+            <form onSubmit={lookupGuestOrder} className="flex flex-col sm:flex-row gap-2">
+              <Input
+                value={guestCode}
+                onChange={(e) => setGuestCode(e.target.value)}
+                placeholder="Order code (e.g. SK7QX4M2PA)"
+                className="bg-black border-zinc-800 uppercase"
+              />
+              <Input
+                value={guestPhone}
+                onChange={(e) => setGuestPhone(e.target.value)}
+                placeholder="Phone (07...)"
+                inputMode="tel"
+                className="bg-black border-zinc-800"
+              />
+              <Button type="submit" className="bg-amber-500 text-black font-black hover:bg-amber-400">
+                <Search size={16} /> Find
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
       </div>
+
+      <Sheet open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+        <SheetContent className="bg-zinc-950 border-zinc-800 text-white w-full sm:max-w-md overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="text-white font-black uppercase tracking-tighter">
+              {detail ? `Order ${detail.orderCode ?? `#${detail.id}`}` : "Order"}
+            </SheetTitle>
+            <SheetDescription className="text-zinc-500">
+              {detail ? `${detail.sellerName ?? "Seller"} · placed ${formatDate(detail.createdAt)}` : " "}
+            </SheetDescription>
+          </SheetHeader>
+
+          {detailQuery.isLoading && (
+            <div className="flex justify-center py-10">
+              <div className="w-6 h-6 border-4 border-amber-500/20 border-t-amber-500 rounded-full animate-spin"></div>
+            </div>
+          )}
+
+          {detailQuery.error && (
+            <p className="px-4 text-sm text-red-400">{detailQuery.error.message}</p>
+          )}
+
+          {detail && (
+            <div className="px-4 pb-6 space-y-6">
+              <div className="flex items-center justify-between">
+                <StatusBadge status={detail.status} />
+                <span className="text-[10px] font-black uppercase tracking-widest text-zinc-500">
+                  Payment: {detail.paymentStatus}
+                </span>
+              </div>
+
+              <div className="space-y-3">
+                {detail.items.map(item => (
+                  <div key={item.id} className="flex gap-3 items-center">
+                    {item.imageUrl ? (
+                      <img src={item.imageUrl} className="w-12 h-12 rounded object-cover" alt={item.productName} />
+                    ) : (
+                      <div className="w-12 h-12 rounded bg-zinc-800" />
+                    )}
+                    <div className="flex-1">
+                      <p className="text-sm font-bold text-zinc-200">{item.productName}</p>
+                      <p className="text-[10px] text-zinc-500 font-bold uppercase">
+                        {item.quantity} × {formatKes(item.unitPrice)}
+                      </p>
+                    </div>
+                    <span className="text-sm font-black">{formatKes(item.lineTotal)}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between border-t border-zinc-800 pt-3">
+                  <span className="text-xs font-black uppercase tracking-widest text-zinc-400">Total</span>
+                  <span className="text-amber-500 font-black">{formatKes(detail.totalPrice)}</span>
+                </div>
+              </div>
+
+              <div>
+                <h3 className="text-xs font-black uppercase tracking-widest text-zinc-400 mb-3">Timeline</h3>
+                <ol className="border-l border-zinc-800 ml-2 space-y-4">
+                  {detail.events.map(event => (
+                    <li key={event.id} className="pl-4 relative">
+                      <span className="absolute -left-[5px] top-1 w-2 h-2 rounded-full bg-amber-500" />
+                      <p className="text-sm font-bold text-zinc-200">{STATUS_LABELS[event.toStatus] ?? event.toStatus}</p>
+                      {event.note && <p className="text-xs text-zinc-400">{event.note}</p>}
+                      <p className="text-[10px] text-zinc-600 font-bold uppercase">
+                        {new Date(event.createdAt).toLocaleString("en-KE")} · {event.actor}
+                      </p>
+                    </li>
+                  ))}
+                </ol>
+              </div>
+
+              <div className="flex flex-col gap-2">
+                {detail.buyerActions.includes("completed") && (
+                  <Button
+                    className="bg-green-600 hover:bg-green-500 font-black"
+                    disabled={confirmReceipt.isPending}
+                    onClick={() => confirmReceipt.mutate(selected!)}
+                  >
+                    <CheckCircle2 size={16} /> I received my order
+                  </Button>
+                )}
+                {detail.buyerActions.includes("cancelled") && (
+                  <Button
+                    variant="outline"
+                    className="border-zinc-700 bg-transparent text-zinc-300 font-black"
+                    disabled={cancelOrder.isPending}
+                    onClick={() => {
+                      if (confirm("Cancel this order?")) cancelOrder.mutate({ ...selected! });
+                    }}
+                  >
+                    <XCircle size={16} /> Cancel order
+                  </Button>
+                )}
+              </div>
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
     </div>
   );
 }
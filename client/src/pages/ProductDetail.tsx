@@ -1,10 +1,12 @@
 // import { useAuth } from "@/_core/hooks/useAuth";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { TrackedCard } from "@/components/TrackedCard";
+import { analyticsTracker } from "@/lib/analytics";
 import { trpc } from "@/lib/trpc";
 import { Heart, ArrowLeft, Share2, MessageCircle, Star, ChevronRight, Sparkles, ShieldCheck, Zap } from "lucide-react";
 import { useLocation } from "wouter";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 
 export default function ProductDetail() {
   const [location, navigate] = useLocation();
@@ -25,19 +27,35 @@ export default function ProductDetail() {
   // Fetch comments
   const comments: any[] = [];
 
-  // Fetch similar products using AI Visual Similarity
-  const { data: similarProducts, refetch: refetchSimilar } = trpc.products.search.useQuery(
-    { query: product?.name || "", limit: 6 },
+  // Similar items from the stored SigLIP embeddings, spread across sellers
+  const { data: similar } = trpc.products.similar.useQuery(
+    { productId, limit: 10 },
     { enabled: !!product }
   );
+  const similarProducts = similar?.items;
+  const cheaperOption = similar?.cheaperOption;
+
+  // The same item from other sellers (duplicate listings), cheapest first
+  const { data: comparison } = trpc.products.offers.useQuery({ productId }, { enabled: !!product });
 
   // Scroll to top when product changes
   useEffect(() => {
     window.scrollTo(0, 0);
+  }, [productId]);
+
+  // One product_view per product opened, for the seller's funnel
+  useEffect(() => {
     if (product) {
-      refetchSimilar();
+      analyticsTracker.trackInteraction({ productId: product.id, sellerId: product.sellerId }, "product_view");
     }
-  }, [productId, product, refetchSimilar]);
+  }, [product?.id]);
+
+  // Tracked WhatsApp link: the redirect records the lead and puts a reference code in the message
+  const chatContext = useMemo(() => (product ? analyticsTracker.chatContext(product.id) : null), [product?.id]);
+  const { data: chatLink } = trpc.products.chatLink.useQuery(
+    { productId, visitorId: chatContext?.visitorId ?? "", sessionId: chatContext?.sessionId ?? "", source: chatContext?.source, deviceType: chatContext?.deviceType },
+    { enabled: !!chatContext, staleTime: Infinity }
+  );
 
   if (isLoading) {
     return (
@@ -65,7 +83,12 @@ export default function ProductDetail() {
 
   const handleWhatsAppChat = () => {
     if (product) {
-      // Hard-wired to the primary business number
+      analyticsTracker.trackInteraction({ productId: product.id, sellerId: product.sellerId }, "whatsapp_start");
+      if (chatLink) {
+        window.open(chatLink.path, "_blank");
+        return;
+      }
+      // Link not ready yet: untracked chat with the primary business number
       const sellerPhone = "254756185209";
       const message = encodeURIComponent(
         `Hi! I'm interested in your product: ${product.name}\n\nPrice: KES ${product.price}\n\nIs this available for delivery?`
@@ -132,7 +155,12 @@ export default function ProductDetail() {
                   </div>
                 )}
                 <button
-                  onClick={() => setIsSaved(!isSaved)}
+                  onClick={() => {
+                    if (!isSaved) {
+                      analyticsTracker.trackInteraction({ productId: product.id, sellerId: product.sellerId }, "watchlist_add");
+                    }
+                    setIsSaved(!isSaved);
+                  }}
                   className="absolute top-4 right-4 p-3 bg-black/60 backdrop-blur-md hover:bg-black/80 rounded-2xl transition-all transform active:scale-90 z-10"
                 >
                   <Heart
@@ -243,6 +271,33 @@ export default function ProductDetail() {
               </Card>
             )}
 
+            {/* Price Comparison */}
+            {comparison && comparison.sellerCount > 1 && (
+              <Card className="bg-slate-800 border-slate-700 p-6 mb-6">
+                <h3 className="text-lg font-bold text-white mb-4">Available from {comparison.sellerCount} sellers</h3>
+                <div className="space-y-2">
+                  {comparison.offers.map(offer => (
+                    <button
+                      key={offer.productId}
+                      onClick={() => navigate(`/product/${offer.productId}`)}
+                      disabled={offer.productId === productId}
+                      className={`w-full flex items-center justify-between p-3 rounded-xl border text-left transition-all ${
+                        offer.productId === productId
+                          ? "border-amber-500/50 bg-amber-500/10"
+                          : "border-slate-700 hover:bg-white/5"
+                      }`}
+                    >
+                      <span className="text-sm text-slate-300 truncate">
+                        {offer.storeName ?? `Seller #${offer.sellerId}`}
+                        {offer.productId === productId && <span className="text-amber-500"> · this listing</span>}
+                      </span>
+                      <span className="text-sm font-bold text-white flex-shrink-0 ml-3">KES {offer.price}</span>
+                    </button>
+                  ))}
+                </div>
+              </Card>
+            )}
+
             {/* Product Specs */}
             <Card className="bg-slate-800 border-slate-700 p-6">
               <h3 className="text-lg font-bold text-white mb-4">Product Details</h3>
@@ -268,23 +323,49 @@ export default function ProductDetail() {
           </div>
         </div>
 
+        {/* Cheaper Option */}
+        {cheaperOption && (
+          <div className="mt-12">
+            <TrackedCard
+              product={{ productId: cheaperOption.id, sellerId: cheaperOption.sellerId }}
+              list={{ source: "recommendation", position: 0, query: String(productId) }}
+              onClick={() => navigate(`/product/${cheaperOption.id}`)}
+              className="flex items-center gap-4 bg-emerald-500/5 border border-emerald-500/20 rounded-3xl p-4 cursor-pointer hover:ring-2 hover:ring-emerald-500/50 transition-all duration-300"
+            >
+              <img
+                src={cheaperOption.imageUrl || "https://via.placeholder.com/300?text=No+Image"}
+                alt={cheaperOption.name}
+                className="w-20 h-20 rounded-2xl object-cover flex-shrink-0"
+              />
+              <div className="flex-1 min-w-0">
+                <div className="text-[10px] font-black uppercase tracking-widest text-emerald-400 mb-1">Cheaper option</div>
+                <div className="text-white font-bold line-clamp-1">{cheaperOption.name}</div>
+                <div className="text-emerald-400 font-black">KES {cheaperOption.price}</div>
+              </div>
+              <ChevronRight className="w-5 h-5 text-slate-400 flex-shrink-0" />
+            </TrackedCard>
+          </div>
+        )}
+
         {/* Similar Products Section */}
         {similarProducts && similarProducts.length > 0 && (
           <div className="mt-12">
             <h2 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
               <Sparkles className="w-6 h-6 text-amber-500" />
-              <span>Visual Similarity Search</span>
+              <span>Similar Items</span>
               <span className="text-[10px] font-black uppercase tracking-widest px-2 py-1 bg-amber-500/10 text-amber-500 rounded-lg border border-amber-500/20">SigLIP AI</span>
             </h2>
             <div className="columns-2 sm:columns-3 lg:columns-5 gap-4 space-y-4">
-              {similarProducts.map((similar: any, index: number) => {
+              {similarProducts.map((similar, index) => {
                 // Generate a pseudo-random height for masonry effect
                 const heights = [200, 250, 300, 220, 280];
                 const cardHeight = heights[index % heights.length];
                 
                 return (
-                  <div
+                  <TrackedCard
                     key={similar.id}
+                    product={{ productId: similar.id, sellerId: similar.sellerId }}
+                    list={{ source: "recommendation", position: index, query: String(productId) }}
                     onClick={() => navigate(`/product/${similar.id}`)}
                     className="break-inside-avoid bg-white/5 rounded-3xl overflow-hidden cursor-pointer group relative hover:ring-2 hover:ring-amber-500/50 transition-all duration-300"
                   >
@@ -306,7 +387,7 @@ export default function ProductDetail() {
                         </div>
                       </div>
                     </div>
-                  </div>
+                  </TrackedCard>
                 );
               })}
             </div>
@@ -14,6 +14,10 @@ export default function Watchlist() {
     limit: 20,
     offset: 0
   });
+  const addToCart = trpc.cart.add.useMutation({
+    onSuccess: () => toast.success("Added to cart!"),
+    onError: (error) => toast.error(error.message || "Could not add to cart"),
+  });
 
   useEffect(() => {
     if (recommendedData) {
@@ -62,7 +66,7 @@ export default function Watchlist() {
                       className="w-full bg-amber-500 hover:bg-amber-600 text-black font-black uppercase text-[10px] tracking-widest h-8"
                       onClick={(e) => {
                         e.stopPropagation();
-                        toast.success("Added to cart!");
+                        addToCart.mutate({ productId: product.id, quantity: 1 });
                       }}
                     >
                       <ShoppingBag size={14} className="mr-1" /> Buy Now
@@ -1,4 +1,4 @@
-import { int, mysqlEnum, mysqlTable, text, timestamp, varchar, decimal, boolean } from "drizzle-orm/mysql-core";
+import { bigint, double, int, mysqlEnum, mysqlTable, text, timestamp, varchar, decimal, boolean, index, uniqueIndex } from "drizzle-orm/mysql-core";
 import { relations } from "drizzle-orm";
 
 /**
@@ -61,12 +61,30 @@ export const products = mysqlTable("products", {
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
   price: varchar("price", { length: 20 }).notNull(),
+  /** Price normalized to whole KES (see price-normalizer). Used for range filters and sorting. */
+  priceAmount: int("priceAmount"),
   imageUrl: text("imageUrl"),
   stock: int("stock").default(0),
   source: varchar("source", { length: 100 }).default("nairobi_market"),
+  /** WhatsApp catalog product ID (from wa.me/p/{id}/{phone}); ingestion upserts on this */
+  whatsappProductId: varchar("whatsappProductId", { length: 32 }).unique(),
+  sourceUrl: text("sourceUrl"),
+  /** Last time the heartbeat sync re-fetched this listing */
+  lastSyncedAt: timestamp("lastSyncedAt"),
+  /** Soft delete: set when the listing disappears from the seller's catalog, purged after a grace period */
+  removedAt: timestamp("removedAt"),
+  /** 64-bit difference hash of the listing photo (hex), for duplicate detection */
+  imageHash: varchar("imageHash", { length: 16 }),
+  /** Set while the listing is grouped with its near-duplicates (listing_duplicate_clusters) */
+  duplicateClusterId: int("duplicateClusterId"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
-});
+}, (table) => ({
+  priceAmountIdx: index("products_price_amount_idx").on(table.priceAmount),
+  categoryIdx: index("products_category_idx").on(table.categoryId),
+  sellerIdx: index("products_seller_idx").on(table.sellerId),
+  duplicateClusterIdx: index("products_duplicate_cluster_idx").on(table.duplicateClusterId),
+}));
 
 export type Product = typeof products.$inferSelect;
 export type InsertProduct = typeof products.$inferInsert;
@@ -166,13 +184,31 @@ export type InsertQualityControl = typeof qualityControl.$inferInsert;
 export const orders = mysqlTable("orders", {
   id: int("id").autoincrement().primaryKey(),
   buyerId: int("buyerId"), // Can be null for guest orders
-  productId: int("productId").notNull(),
+  productId: int("productId"), // Legacy single-item orders; line items live in order_items
   sellerId: int("sellerId").notNull(),
+  checkoutId: varchar("checkoutId", { length: 36 }), // Groups the per-seller orders of one checkout
+  orderCode: varchar("orderCode", { length: 12 }).unique(), // Shown to the buyer; guests look orders up with it + phone
   quantity: int("quantity").default(1).notNull(),
   totalPrice: varchar("totalPrice", { length: 20 }).notNull(),
   buyerPhone: varchar("buyerPhone", { length: 20 }),
   buyerName: varchar("buyerName", { length: 100 }),
-  status: mysqlEnum("status", ["initiated", "confirmed", "shipped", "delivered", "cancelled"]).default("initiated").notNull(),
+  visitorId: varchar("visitorId", { length: 64 }), // Analytics visitor ID from checkout; stitches the order into the funnel
+  status: mysqlEnum("status", [
+    "initiated",
+    "confirmed",
+    "paid",
+    "shipped",
+    "delivered",
+    "completed",
+    "cancelled",
+    "refunded",
+    "disputed",
+  ]).default("initiated").notNull(),
+  paymentStatus: mysqlEnum("paymentStatus", ["unpaid", "pending", "paid", "failed", "refunded"]).default("unpaid").notNull(),
+  escrowStatus: mysqlEnum("escrowStatus", ["none", "held", "disputed", "released", "refunded"]).default("none").notNull(),
+  shippedAt: timestamp("shippedAt"),
+  deliveredAt: timestamp("deliveredAt"),
+  autoConfirmAt: timestamp("autoConfirmAt"), // Escrow auto-releases to the seller after this unless disputed
   notes: text("notes"),
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
@@ -181,11 +217,130 @@ export const orders = mysqlTable("orders", {
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = typeof orders.$inferInsert;
 
+// Order line items with price-at-purchase snapshots
+export const orderItems = mysqlTable("order_items", {
+  id: int("id").autoincrement().primaryKey(),
+  orderId: int("orderId").notNull(),
+  productId: int("productId").notNull(),
+  productName: varchar("productName", { length: 255 }).notNull(),
+  imageUrl: text("imageUrl"),
+  quantity: int("quantity").notNull(),
+  unitPrice: int("unitPrice").notNull(), // Whole KES at time of purchase
+  lineTotal: int("lineTotal").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  orderIdx: index("order_items_order_idx").on(table.orderId),
+  productIdx: index("order_items_product_idx").on(table.productId),
+}));
+
+export type OrderItem = typeof orderItems.$inferSelect;
+export type InsertOrderItem = typeof orderItems.$inferInsert;
+
+// Order status history: one row per state-machine transition (the order timeline)
+export const orderEvents = mysqlTable("order_events", {
+  id: int("id").autoincrement().primaryKey(),
+  orderId: int("orderId").notNull(),
+  fromStatus: varchar("fromStatus", { length: 20 }), // Null for the order being placed
+  toStatus: varchar("toStatus", { length: 20 }).notNull(),
+  actor: mysqlEnum("actor", ["buyer", "seller", "admin", "system"]).notNull(),
+  actorUserId: int("actorUserId"), // Null for guests and the system
+  note: text("note"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  orderIdx: index("order_events_order_idx").on(table.orderId),
+}));
+
+export type OrderEvent = typeof orderEvents.$inferSelect;
+export type InsertOrderEvent = typeof orderEvents.$inferInsert;
+
+// Payments (M-Pesa STK Push); one payment covers every order of a checkout
+export const payments = mysqlTable("payments", {
+  id: int("id").autoincrement().primaryKey(),
+  checkoutId: varchar("checkoutId", { length: 36 }).notNull(),
+  provider: varchar("provider", { length: 20 }).default("mpesa").notNull(),
+  phone: varchar("phone", { length: 20 }).notNull(),
+  amount: int("amount").notNull(), // Whole KES
+  currency: varchar("currency", { length: 3 }).default("KES").notNull(),
+  status: mysqlEnum("status", ["pending", "paid", "failed", "refunded"]).default("pending").notNull(),
+  merchantRequestId: varchar("merchantRequestId", { length: 64 }),
+  checkoutRequestId: varchar("checkoutRequestId", { length: 64 }).unique(), // Daraja's ID for the STK Push
+  receiptNumber: varchar("receiptNumber", { length: 32 }), // M-Pesa transaction code, e.g. "QKJ4T5XYZ1"
+  resultCode: int("resultCode"),
+  resultDesc: text("resultDesc"),
+  rawCallback: text("rawCallback"), // JSON callback body for audit
+  lastQueriedAt: timestamp("lastQueriedAt"), // Last STK status query to the provider
+  paidAt: timestamp("paidAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  checkoutIdx: index("payments_checkout_idx").on(table.checkoutId),
+}));
+
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = typeof payments.$inferInsert;
+
+// Double-entry escrow ledger. Every transaction's entries sum to zero.
+export const ledgerTransactions = mysqlTable("ledger_transactions", {
+  id: int("id").autoincrement().primaryKey(),
+  type: mysqlEnum("type", ["hold", "release", "refund", "payout"]).notNull(),
+  reference: varchar("reference", { length: 64 }).notNull().unique(), // Idempotency key, e.g. "hold:order:12"
+  orderId: int("orderId").notNull(),
+  paymentId: int("paymentId"),
+  memo: text("memo"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type LedgerTransaction = typeof ledgerTransactions.$inferSelect;
+export type InsertLedgerTransaction = typeof ledgerTransactions.$inferInsert;
+
+export const ledgerEntries = mysqlTable("ledger_entries", {
+  id: int("id").autoincrement().primaryKey(),
+  transactionId: int("transactionId").notNull(),
+  account: mysqlEnum("account", ["mpesa_clearing", "buyer_wallet", "escrow", "seller_payable", "platform_fee"]).notNull(),
+  orderId: int("orderId").notNull(),
+  sellerId: int("sellerId"), // Set on seller_payable entries
+  amount: int("amount").notNull(), // Whole KES; debit positive, credit negative
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  transactionIdx: index("ledger_entries_transaction_idx").on(table.transactionId),
+  accountIdx: index("ledger_entries_account_idx").on(table.account),
+  orderIdx: index("ledger_entries_order_idx").on(table.orderId),
+}));
+
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+export type InsertLedgerEntry = typeof ledgerEntries.$inferInsert;
+
+// Shopping carts: one per signed-in user, or per guest session cookie
+export const carts = mysqlTable("carts", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").unique(),
+  sessionId: varchar("sessionId", { length: 64 }).unique(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Cart = typeof carts.$inferSelect;
+export type InsertCart = typeof carts.$inferInsert;
+
+export const cartItems = mysqlTable("cart_items", {
+  id: int("id").autoincrement().primaryKey(),
+  cartId: int("cartId").notNull(),
+  productId: int("productId").notNull(),
+  quantity: int("quantity").default(1).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  cartProductIdx: uniqueIndex("cart_items_cart_product_idx").on(table.cartId, table.productId),
+}));
+
+export type CartItem = typeof cartItems.$inferSelect;
+export type InsertCartItem = typeof cartItems.$inferInsert;
+
 // Seller Notifications for order and sync alerts
 export const sellerNotifications = mysqlTable("seller_notifications", {
   id: int("id").autoincrement().primaryKey(),
   sellerId: int("sellerId").notNull(),
-  type: mysqlEnum("type", ["order", "sync_complete", "sync_failed", "product_rejected", "product_approved"]).notNull(),
+  type: mysqlEnum("type", ["order", "sync_complete", "sync_failed", "product_rejected", "product_approved", "analytics_alert", "report_ready", "lead_follow_up"]).notNull(),
   title: varchar("title", { length: 255 }).notNull(),
   message: text("message"),
   data: text("data"), // JSON stringified additional context
@@ -202,9 +357,13 @@ export const catalogSyncLogs = mysqlTable("catalog_sync_logs", {
   sellerId: int("sellerId").notNull(),
   catalogUrl: text("catalogUrl"),
   status: mysqlEnum("status", ["started", "completed", "failed"]).notNull(),
+  productsFound: int("productsFound").default(0), // Product links discovered by the scout
   productsScraped: int("productsScraped").default(0),
   productsApproved: int("productsApproved").default(0),
   productsRejected: int("productsRejected").default(0),
+  productsFlagged: int("productsFlagged").default(0), // Listed, pending manual QC review
+  productsIndexed: int("productsIndexed").default(0),
+  productsFailed: int("productsFailed").default(0), // Hydration or processing errors
   error: text("error"), // Error message if failed
   startedAt: timestamp("startedAt").defaultNow().notNull(),
   completedAt: timestamp("completedAt"),
@@ -213,6 +372,264 @@ export const catalogSyncLogs = mysqlTable("catalog_sync_logs", {
 export type CatalogSyncLog = typeof catalogSyncLogs.$inferSelect;
 export type InsertCatalogSyncLog = typeof catalogSyncLogs.$inferInsert;
 
+// Catalog change events (heartbeat diff against the seller's live WhatsApp catalog)
+export const catalogChangeEvents = mysqlTable("catalog_change_events", {
+  id: int("id").autoincrement().primaryKey(),
+  sellerId: int("sellerId").notNull(),
+  productId: int("productId"),
+  whatsappProductId: varchar("whatsappProductId", { length: 32 }).notNull(),
+  type: mysqlEnum("type", ["added", "removed", "price_changed", "title_changed", "image_changed"]).notNull(),
+  previousValue: text("previousValue"),
+  newValue: text("newValue"),
+  detectedAt: timestamp("detectedAt").defaultNow().notNull(),
+}, (table) => ({
+  sellerDetectedIdx: index("catalog_change_events_seller_detected_idx").on(table.sellerId, table.detectedAt),
+  detectedIdx: index("catalog_change_events_detected_idx").on(table.detectedAt),
+}));
+
+export type CatalogChangeEvent = typeof catalogChangeEvents.$inferSelect;
+export type InsertCatalogChangeEvent = typeof catalogChangeEvents.$inferInsert;
+
+// Analytics raw events: append-only, one table per event type. eventId is
+// generated by the client so retried beacon batches don't double count.
+export const analyticsClickEvents = mysqlTable("analytics_click_events", {
+  id: bigint("id", { mode: "number" }).autoincrement().primaryKey(),
+  eventId: varchar("eventId", { length: 64 }).notNull().unique(),
+  productId: int("productId").notNull(),
+  sellerId: int("sellerId").notNull(),
+  userId: varchar("userId", { length: 64 }).notNull(), // User ID or anonymous visitor ID
+  sessionId: varchar("sessionId", { length: 64 }).notNull(),
+  source: mysqlEnum("source", ["search", "recommendation", "category", "homepage", "watchlist"]).notNull(),
+  position: int("position"), // 0-based slot in the list the product was clicked from
+  deviceType: mysqlEnum("deviceType", ["mobile", "desktop", "tablet"]).notNull(),
+  referrer: varchar("referrer", { length: 512 }),
+  userAgent: varchar("userAgent", { length: 512 }),
+  flags: varchar("flags", { length: 255 }), // Comma-separated traffic-quality reasons (traffic-quality.ts); null = valid
+  occurredAt: timestamp("occurredAt").notNull(),
+  receivedAt: timestamp("receivedAt").defaultNow().notNull(),
+}, (table) => ({
+  sellerOccurredIdx: index("analytics_click_events_seller_occurred_idx").on(table.sellerId, table.occurredAt),
+  productOccurredIdx: index("analytics_click_events_product_occurred_idx").on(table.productId, table.occurredAt),
+  occurredIdx: index("analytics_click_events_occurred_idx").on(table.occurredAt),
+}));
+
+export type AnalyticsClickEvent = typeof analyticsClickEvents.$inferSelect;
+export type InsertAnalyticsClickEvent = typeof analyticsClickEvents.$inferInsert;
+
+export const analyticsConversionEvents = mysqlTable("analytics_conversion_events", {
+  id: bigint("id", { mode: "number" }).autoincrement().primaryKey(),
+  eventId: varchar("eventId", { length: 64 }).notNull().unique(),
+  productId: int("productId").notNull(),
+  sellerId: int("sellerId").notNull(),
+  userId: varchar("userId", { length: 64 }).notNull(),
+  sessionId: varchar("sessionId", { length: 64 }),
+  amount: int("amount").notNull(), // Whole KES
+  currency: varchar("currency", { length: 3 }).default("KES").notNull(),
+  conversionType: mysqlEnum("conversionType", ["whatsapp_click", "purchase", "inquiry"]).notNull(),
+  flags: varchar("flags", { length: 255 }),
+  occurredAt: timestamp("occurredAt").notNull(),
+  receivedAt: timestamp("receivedAt").defaultNow().notNull(),
+}, (table) => ({
+  sellerOccurredIdx: index("analytics_conversion_events_seller_occurred_idx").on(table.sellerId, table.occurredAt),
+  productOccurredIdx: index("analytics_conversion_events_product_occurred_idx").on(table.productId, table.occurredAt),
+  occurredIdx: index("analytics_conversion_events_occurred_idx").on(table.occurredAt),
+}));
+
+export type AnalyticsConversionEvent = typeof analyticsConversionEvents.$inferSelect;
+export type InsertAnalyticsConversionEvent = typeof analyticsConversionEvents.$inferInsert;
+
+// A product card that was actually on screen. eventId is derived from
+// (session, list, query, product), so repeat views in a session are stored once.
+export const analyticsImpressionEvents = mysqlTable("analytics_impression_events", {
+  id: bigint("id", { mode: "number" }).autoincrement().primaryKey(),
+  eventId: varchar("eventId", { length: 64 }).notNull().unique(),
+  productId: int("productId").notNull(),
+  sellerId: int("sellerId").notNull(),
+  userId: varchar("userId", { length: 64 }).notNull(),
+  sessionId: varchar("sessionId", { length: 64 }).notNull(),
+  source: mysqlEnum("source", ["search", "recommendation", "category", "homepage", "watchlist"]).notNull(), // List type
+  position: int("position").notNull(), // 0-based
+  query: varchar("query", { length: 255 }), // Search text or category ID
+  deviceType: mysqlEnum("deviceType", ["mobile", "desktop", "tablet"]).notNull(),
+  flags: varchar("flags", { length: 255 }),
+  occurredAt: timestamp("occurredAt").notNull(),
+  receivedAt: timestamp("receivedAt").defaultNow().notNull(),
+}, (table) => ({
+  sellerOccurredIdx: index("analytics_impression_events_seller_occurred_idx").on(table.sellerId, table.occurredAt),
+  productOccurredIdx: index("analytics_impression_events_product_occurred_idx").on(table.productId, table.occurredAt),
+  occurredIdx: index("analytics_impression_events_occurred_idx").on(table.occurredAt),
+}));
+
+export type AnalyticsImpressionEvent = typeof analyticsImpressionEvents.$inferSelect;
+export type InsertAnalyticsImpressionEvent = typeof analyticsImpressionEvents.$inferInsert;
+
+// Product page views, watchlist adds and WhatsApp chat starts: the funnel
+// steps between a card click and an order
+export const analyticsInteractionEvents = mysqlTable("analytics_interaction_events", {
+  id: bigint("id", { mode: "number" }).autoincrement().primaryKey(),
+  eventId: varchar("eventId", { length: 64 }).notNull().unique(),
+  productId: int("productId").notNull(),
+  sellerId: int("sellerId").notNull(),
+  userId: varchar("userId", { length: 64 }).notNull(),
+  sessionId: varchar("sessionId", { length: 64 }).notNull(),
+  kind: mysqlEnum("kind", ["product_view", "watchlist_add", "whatsapp_start"]).notNull(),
+  deviceType: mysqlEnum("deviceType", ["mobile", "desktop", "tablet"]).notNull(),
+  flags: varchar("flags", { length: 255 }),
+  occurredAt: timestamp("occurredAt").notNull(),
+  receivedAt: timestamp("receivedAt").defaultNow().notNull(),
+}, (table) => ({
+  sellerOccurredIdx: index("analytics_interaction_events_seller_occurred_idx").on(table.sellerId, table.occurredAt),
+  productOccurredIdx: index("analytics_interaction_events_product_occurred_idx").on(table.productId, table.occurredAt),
+  occurredIdx: index("analytics_interaction_events_occurred_idx").on(table.occurredAt),
+}));
+
+export type AnalyticsInteractionEvent = typeof analyticsInteractionEvents.$inferSelect;
+export type InsertAnalyticsInteractionEvent = typeof analyticsInteractionEvents.$inferInsert;
+
+// Pre-aggregated analytics per seller per hour/day. productId 0 is the seller
+// total; other rows are per product. Breakdowns are JSON objects of counts.
+export const analyticsRollups = mysqlTable("analytics_rollups", {
+  id: bigint("id", { mode: "number" }).autoincrement().primaryKey(),
+  granularity: mysqlEnum("granularity", ["hour", "day"]).notNull(),
+  bucketStart: timestamp("bucketStart").notNull(), // UTC hour or day start
+  sellerId: int("sellerId").notNull(),
+  productId: int("productId").default(0).notNull(),
+  impressions: int("impressions").default(0).notNull(),
+  clicks: int("clicks").default(0).notNull(),
+  conversions: int("conversions").default(0).notNull(),
+  revenue: int("revenue").default(0).notNull(), // Whole KES
+  uniqueSessions: int("uniqueSessions").default(0).notNull(),
+  deviceBreakdown: text("deviceBreakdown"),
+  sourceBreakdown: text("sourceBreakdown"),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  bucketUnique: uniqueIndex("analytics_rollups_bucket_unique").on(table.granularity, table.sellerId, table.productId, table.bucketStart),
+  sellerBucketIdx: index("analytics_rollups_seller_bucket_idx").on(table.sellerId, table.granularity, table.bucketStart),
+  bucketIdx: index("analytics_rollups_bucket_idx").on(table.granularity, table.bucketStart),
+}));
+
+export type AnalyticsRollup = typeof analyticsRollups.$inferSelect;
+export type InsertAnalyticsRollup = typeof analyticsRollups.$inferInsert;
+
+// Hourly anomalies found in seller rollups (spikes, drops, suspected click fraud).
+// One row per seller, metric, kind and hour; repeats inside the cooldown are
+// kept but marked suppressed instead of notifying the seller again.
+export const analyticsAnomalies = mysqlTable("analytics_anomalies", {
+  id: int("id").autoincrement().primaryKey(),
+  sellerId: int("sellerId").notNull(),
+  metric: mysqlEnum("metric", ["clicks", "conversion_rate", "revenue"]).notNull(),
+  kind: mysqlEnum("kind", ["spike", "drop", "click_fraud"]).notNull(),
+  severity: mysqlEnum("severity", ["warning", "critical"]).notNull(),
+  bucketStart: timestamp("bucketStart").notNull(), // UTC hour
+  observed: double("observed").notNull(),
+  expected: double("expected").notNull(), // Median of the baseline hours
+  score: double("score").notNull(), // Robust z-score
+  evidence: text("evidence"), // JSON
+  suppressed: boolean("suppressed").default(false).notNull(),
+  notificationId: int("notificationId"),
+  detectedAt: timestamp("detectedAt").defaultNow().notNull(),
+}, (table) => ({
+  anomalyUnique: uniqueIndex("analytics_anomalies_unique").on(table.sellerId, table.metric, table.kind, table.bucketStart),
+  bucketIdx: index("analytics_anomalies_bucket_idx").on(table.bucketStart),
+}));
+
+export type AnalyticsAnomaly = typeof analyticsAnomalies.$inferSelect;
+export type InsertAnalyticsAnomaly = typeof analyticsAnomalies.$inferInsert;
+
+// Seller performance reports (weekly or on demand); the CSV and PDF live in object storage
+export const sellerReports = mysqlTable("seller_reports", {
+  id: int("id").autoincrement().primaryKey(),
+  sellerId: int("sellerId").notNull(),
+  trigger: mysqlEnum("trigger", ["scheduled", "on_demand"]).notNull(),
+  periodStart: timestamp("periodStart").notNull(),
+  periodEnd: timestamp("periodEnd").notNull(), // Exclusive
+  csvKey: varchar("csvKey", { length: 255 }).notNull(),
+  csvUrl: text("csvUrl").notNull(),
+  pdfKey: varchar("pdfKey", { length: 255 }).notNull(),
+  pdfUrl: text("pdfUrl").notNull(),
+  summary: text("summary"), // JSON headline numbers shown in the dashboard list
+  notificationId: int("notificationId"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  sellerCreatedIdx: index("seller_reports_seller_created_idx").on(table.sellerId, table.createdAt),
+  sellerPeriodIdx: index("seller_reports_seller_period_idx").on(table.sellerId, table.periodStart),
+}));
+
+export type SellerReport = typeof sellerReports.$inferSelect;
+export type InsertSellerReport = typeof sellerReports.$inferInsert;
+
+// Seller CRM leads: a visitor's interaction with a seller's product, worked by the seller
+// from new through contacted to converted (linked to an order) or lost
+export const crmLeads = mysqlTable("crm_leads", {
+  id: int("id").autoincrement().primaryKey(),
+  sellerId: int("sellerId").notNull(),
+  productId: int("productId").notNull(),
+  visitorId: varchar("visitorId", { length: 64 }).notNull(), // Analytics visitor ID (or signed-in customer ID)
+  sessionId: varchar("sessionId", { length: 64 }),
+  referenceCode: varchar("referenceCode", { length: 12 }).unique(), // Sent in the WhatsApp chat; the seller enters it to mark the sale
+  customerPhone: varchar("customerPhone", { length: 20 }),
+  interactionType: mysqlEnum("interactionType", ["view", "click", "wishlist", "whatsapp_start"]).notNull(),
+  deviceType: varchar("deviceType", { length: 20 }),
+  referralSource: varchar("referralSource", { length: 50 }),
+  status: mysqlEnum("status", ["new", "contacted", "converted", "lost"]).default("new").notNull(),
+  statusChangedAt: timestamp("statusChangedAt"),
+  followUpAt: timestamp("followUpAt"), // Seller's reminder; a notification goes out once it passes
+  reminderSentAt: timestamp("reminderSentAt"),
+  orderId: int("orderId"), // The order this lead turned into
+  flags: varchar("flags", { length: 255 }), // Traffic-quality reasons, as on the analytics tables; null = valid
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  sellerCreatedIdx: index("crm_leads_seller_created_idx").on(table.sellerId, table.createdAt),
+  sellerStatusIdx: index("crm_leads_seller_status_idx").on(table.sellerId, table.status),
+  followUpIdx: index("crm_leads_follow_up_idx").on(table.followUpAt),
+}));
+
+export type CrmLead = typeof crmLeads.$inferSelect;
+export type InsertCrmLead = typeof crmLeads.$inferInsert;
+
+// Seller notes on a lead, oldest first
+export const crmLeadNotes = mysqlTable("crm_lead_notes", {
+  id: int("id").autoincrement().primaryKey(),
+  leadId: int("leadId").notNull(),
+  sellerId: int("sellerId").notNull(),
+  body: text("body").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+}, (table) => ({
+  leadIdx: index("crm_lead_notes_lead_idx").on(table.leadId),
+}));
+
+export type CrmLeadNote = typeof crmLeadNotes.$inferSelect;
+
+// Progress markers for background jobs (e.g. how far analytics rollups have run)
+export const jobCursors = mysqlTable("job_cursors", {
+  name: varchar("name", { length: 64 }).primaryKey(),
+  position: timestamp("position").notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type JobCursor = typeof jobCursors.$inferSelect;
+
+// Listings that are the same item (same supplier photo), usually reposted by several sellers.
+// Buyers see the canonical listing once; clusters spanning sellers wait in the admin review queue.
+export const listingDuplicateClusters = mysqlTable("listing_duplicate_clusters", {
+  id: int("id").autoincrement().primaryKey(),
+  canonicalProductId: int("canonicalProductId").notNull(),
+  productCount: int("productCount").notNull(),
+  sellerCount: int("sellerCount").notNull(),
+  minPrice: int("minPrice"), // Whole KES, over members with a known price
+  maxPrice: int("maxPrice"),
+  status: mysqlEnum("status", ["pending", "confirmed", "dismissed"]).default("pending").notNull(),
+  reviewedBy: int("reviewedBy"),
+  reviewedAt: timestamp("reviewedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+}, (table) => ({
+  statusIdx: index("listing_duplicate_clusters_status_idx").on(table.status, table.sellerCount),
+}));
+
+export type ListingDuplicateCluster = typeof listingDuplicateClusters.$inferSelect;
+
 // Update sellers table with new fields
 export const sellersUpdated = mysqlTable("sellers_updated", {
   id: int("id").autoincrement().primaryKey(),
@@ -234,10 +651,30 @@ export const qualityControlRelations = relations(qualityControl, ({ one }) => ({
   product: one(products, { fields: [qualityControl.productId], references: [products.id] }),
 }));
 
-export const ordersRelations = relations(orders, ({ one }) => ({
+export const ordersRelations = relations(orders, ({ one, many }) => ({
   product: one(products, { fields: [orders.productId], references: [products.id] }),
   seller: one(sellers, { fields: [orders.sellerId], references: [sellers.id] }),
   buyer: one(users, { fields: [orders.buyerId], references: [users.id] }),
+  items: many(orderItems),
+  events: many(orderEvents),
+}));
+
+export const orderEventsRelations = relations(orderEvents, ({ one }) => ({
+  order: one(orders, { fields: [orderEvents.orderId], references: [orders.id] }),
+}));
+
+export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+  order: one(orders, { fields: [orderItems.orderId], references: [orders.id] }),
+  product: one(products, { fields: [orderItems.productId], references: [products.id] }),
+}));
+
+export const cartsRelations = relations(carts, ({ many }) => ({
+  items: many(cartItems),
+}));
+
+export const cartItemsRelations = relations(cartItems, ({ one }) => ({
+  cart: one(carts, { fields: [cartItems.cartId], references: [carts.id] }),
+  product: one(products, { fields: [cartItems.productId], references: [products.id] }),
 }));
 
 export const sellerNotificationsRelations = relations(sellerNotifications, ({ one }) => ({
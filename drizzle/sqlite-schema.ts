@@ -38,9 +38,14 @@ export const products = sqliteTable("products", {
   name: text("name").notNull(),
   description: text("description"),
   price: text("price").notNull(),
+  priceAmount: integer("priceAmount"),
   imageUrl: text("imageUrl"),
   stock: integer("stock").default(0),
   source: text("source").default("nairobi_market"),
+  whatsappProductId: text("whatsappProductId").unique(),
+  sourceUrl: text("sourceUrl"),
+  lastSyncedAt: integer("lastSyncedAt", { mode: "timestamp" }),
+  removedAt: integer("removedAt", { mode: "timestamp" }),
   createdAt: integer("createdAt", { mode: "timestamp" }).defaultNow(),
   updatedAt: integer("updatedAt", { mode: "timestamp" }).defaultNow(),
 });
@@ -12,6 +12,38 @@ export const ENV = {
   milvusAddress: process.env.MILVUS_ADDRESS ?? "",
   milvusUsername: process.env.MILVUS_USERNAME ?? "",
   milvusPassword: process.env.MILVUS_PASSWORD ?? "",
+  // Local HNSW index file, used when Milvus isn't configured or reachable
+  vectorIndexPath: process.env.VECTOR_INDEX_PATH ?? "data/vector-index.json",
+  imageVectorIndexPath: process.env.IMAGE_VECTOR_INDEX_PATH ?? "data/image-vector-index.json",
+  
+  // WhatsApp catalog host (overridable to point the scraper at a fixture server)
+  whatsappBaseUrl: process.env.WHATSAPP_BASE_URL ?? "https://wa.me",
+  // Click-to-chat fallback for sellers without a WhatsApp number on file
+  whatsappBusinessPhone: process.env.WHATSAPP_BUSINESS_PHONE ?? "254756185209",
+  
+  // M-Pesa (Safaricom Daraja). Point MPESA_BASE_URL at the mock Daraja server for offline runs.
+  mpesaBaseUrl: process.env.MPESA_BASE_URL ?? "https://sandbox.safaricom.co.ke",
+  mpesaConsumerKey: process.env.MPESA_CONSUMER_KEY ?? "",
+  mpesaConsumerSecret: process.env.MPESA_CONSUMER_SECRET ?? "",
+  mpesaShortcode: process.env.MPESA_SHORTCODE ?? "174379",
+  mpesaPasskey: process.env.MPESA_PASSKEY ?? "",
+  mpesaCallbackUrl: process.env.MPESA_CALLBACK_URL ?? "",
+  mpesaCallbackToken: process.env.MPESA_CALLBACK_TOKEN ?? "",
+  
+  // Escrow
+  platformFeePercent: Number(process.env.PLATFORM_FEE_PERCENT ?? 5),
+  escrowAutoConfirmDays: Number(process.env.ESCROW_AUTO_CONFIRM_DAYS ?? 7),
+  
+  // Analytics retention (days) and beacon batch size
+  analyticsRawRetentionDays: Number(process.env.ANALYTICS_RAW_RETENTION_DAYS ?? 90),
+  analyticsHourlyRollupRetentionDays: Number(process.env.ANALYTICS_HOURLY_ROLLUP_RETENTION_DAYS ?? 35),
+  analyticsDailyRollupRetentionDays: Number(process.env.ANALYTICS_DAILY_ROLLUP_RETENTION_DAYS ?? 730),
+  analyticsBatchMaxEvents: Number(process.env.ANALYTICS_BATCH_MAX_EVENTS ?? 500),
+  
+  // Traffic quality: beacons without a valid signed token are flagged unless this is "false".
+  // Set TRUST_PROXY behind a load balancer so per-IP limits see the client address.
+  analyticsRequireSignedBeacons: process.env.ANALYTICS_REQUIRE_SIGNED_BEACONS !== "false",
+  trustProxy: process.env.TRUST_PROXY === "true",
   
   // AI/ML Services
   hfToken: process.env.HF_TOKEN ?? "",
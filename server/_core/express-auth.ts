@@ -0,0 +1,48 @@
+/**
+ * Auth middleware for the plain Express routers (the tRPC equivalents are
+ * sellerProcedure and adminProcedure in trpc.ts)
+ */
+
+import type { NextFunction } from "express";
+import { NOT_ADMIN_ERR_MSG, NOT_SELLER_ERR_MSG, UNAUTHED_ERR_MSG } from "@shared/const";
+import { getSellerByUserId } from "../db";
+import { sdk } from "./sdk";
+
+/**
+ * Signed-in seller only; the seller row is put on req.seller
+ */
+export async function requireSeller(req: any, res: any, next: NextFunction) {
+  let user;
+  try {
+    user = await sdk.authenticateRequest(req);
+  } catch {
+    return res.status(401).json({ error: UNAUTHED_ERR_MSG });
+  }
+
+  try {
+    const seller = await getSellerByUserId(user.id);
+    if (!seller) {
+      return res.status(403).json({ error: NOT_SELLER_ERR_MSG });
+    }
+    req.seller = seller;
+    next();
+  } catch (error) {
+    console.error("[Auth] Error loading seller:", error);
+    res.status(500).json({ error: "Failed to load seller" });
+  }
+}
+
+/**
+ * Signed-in admin only
+ */
+export async function requireAdmin(req: any, res: any, next: NextFunction) {
+  try {
+    const user = await sdk.authenticateRequest(req);
+    if (user.role !== "admin") {
+      return res.status(403).json({ error: NOT_ADMIN_ERR_MSG });
+    }
+    next();
+  } catch {
+    res.status(401).json({ error: UNAUTHED_ERR_MSG });
+  }
+}
@@ -10,7 +10,16 @@ import { serveStatic, setupVite } from "./vite";
 import analyticsRouter from "../routes/analytics";
 import recommendationsRouter from "../routes/recommendations";
 import crmRouter from "../routes/crm";
-import { initializeVectorStore } from "../services/siglip-milvus";
+import whatsappRouter from "../routes/whatsapp";
+import visualSearchRouter from "../routes/visual-search";
+import mpesaCallbackRouter from "../routes/mpesa";
+import { initializeVectorIndexes } from "../services/vector-index";
+import { startEscrowAutoReleaseWorker } from "../workers/escrow-auto-release";
+import { startAnalyticsRetentionWorker } from "../workers/analytics-retention";
+import { startSellerReportWorker } from "../workers/seller-reports";
+import { startCrmFollowUpWorker } from "../workers/crm-follow-ups";
+import { startHeartbeatSyncWorker } from "../workers/heartbeat-sync-v2";
+import { startAnalyticsRollupWorker } from "../workers/analytics-rollups";
 import { ENV } from "./env";
 
 function isPortAvailable(port: number): Promise<boolean> {
@@ -33,15 +42,28 @@ async function findAvailablePort(startPort: number = 3000): Promise<number> {
 }
 
 async function startServer() {
-  // Initialize Vector Store for AI Visual Discovery
-  if (ENV.enableMilvus && ENV.milvusAddress) {
-    await initializeVectorStore(ENV.milvusAddress).catch(err => {
-      console.error("[Server] Failed to initialize Milvus:", err);
-    });
+  // Open the vector indexes for visual and semantic search (Milvus, or local HNSW files)
+  await initializeVectorIndexes().catch(err => {
+    console.error("[Server] Failed to initialize the vector indexes:", err);
+  });
+
+  // Release escrow holds whose delivery confirmation window has passed, roll
+  // up analytics events and purge them past their retention window, send
+  // weekly seller reports and CRM follow-up reminders, and diff seller
+  // catalogs against the stored products
+  if (ENV.databaseUrl) {
+    startEscrowAutoReleaseWorker();
+    startAnalyticsRollupWorker();
+    startAnalyticsRetentionWorker();
+    startSellerReportWorker();
+    startCrmFollowUpWorker();
+    startHeartbeatSyncWorker();
   }
 
   const app = express();
   const server = createServer(app);
+  // Client IPs for traffic-quality limits come from X-Forwarded-For only behind our own proxy
+  if (ENV.trustProxy) app.set("trust proxy", 1);
   // Configure body parser with larger size limit for file uploads
   app.use(express.json({ limit: "50mb" }));
   app.use(express.urlencoded({ limit: "50mb", extended: true }));
@@ -53,6 +75,12 @@ async function startServer() {
   app.use("/api/recommendations", recommendationsRouter);
   // CRM API
   app.use("/api/crm", crmRouter);
+  // Tracked WhatsApp click-to-chat links
+  app.use("/go", whatsappRouter);
+  // Search by photo
+  app.use("/api/search", visualSearchRouter);
+  // M-Pesa callbacks
+  app.use("/api/payments", mpesaCallbackRouter);
   // tRPC API
   app.use(
     "/api/trpc",
@@ -1,7 +1,8 @@
-import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
+import { NOT_ADMIN_ERR_MSG, NOT_SELLER_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
+import { getSellerByUserId } from "../db";
 
 const t = initTRPC.context<TrpcContext>().create({
   transformer: superjson,
@@ -43,3 +44,24 @@ export const adminProcedure = t.procedure.use(
     });
   }),
 );
+
+/**
+ * Signed-in user who owns a seller account; the seller row is added to ctx
+ */
+export const sellerProcedure = protectedProcedure.use(
+  t.middleware(async opts => {
+    const { ctx, next } = opts;
+
+    const seller = ctx.user ? await getSellerByUserId(ctx.user.id) : undefined;
+    if (!seller) {
+      throw new TRPCError({ code: "FORBIDDEN", message: NOT_SELLER_ERR_MSG });
+    }
+
+    return next({
+      ctx: {
+        ...ctx,
+        seller,
+      },
+    });
+  }),
+);
@@ -91,6 +91,7 @@ export function generateNairobiMarketData(count: number = 2000) {
       name: `${subCategory} - Premium Edition ${i}`,
       description: `Exquisite ${subCategory.toLowerCase()} sourced for the discerning Nairobi client. High-quality materials, impeccable finish, and timeless design. Available for immediate delivery.`,
       price: priceVal.toLocaleString(),
+      priceAmount: priceVal,
       imageUrl: imageUrl,
       stock: Math.floor(Math.random() * 10) + 1,
       categoryId: category.id,
@@ -3,7 +3,8 @@ import { drizzle as drizzleMysql } from "drizzle-orm/mysql2";
 import mysql from "mysql2/promise";
 import * as mysqlSchema from "../drizzle/schema";
 import { ENV } from './_core/env';
-import { RealSigLIPEmbeddings } from './services/siglip-real';
+import { vectorIndex } from './services/vector-index';
+import { parsePriceAmount } from './services/price-normalizer';
 
 /**
  * Production Database Module - TiDB Integration
@@ -162,7 +163,9 @@ export async function searchProducts(query: string, limit: number = 20) {
 
 export async function createProduct(product: any) {
   const db = await getDb();
-  const result = await db.insert(mysqlSchema.products).values(product);
+  const result = await db
+    .insert(mysqlSchema.products)
+    .values({ ...product, priceAmount: product.priceAmount ?? parsePriceAmount(product.price) });
   return result;
 }
 
@@ -170,7 +173,13 @@ export async function updateProduct(productId: number, updates: any) {
   const db = await getDb();
   return await db
     .update(mysqlSchema.products)
-    .set({ ...updates, updatedAt: new Date() })
+    .set({
+      ...updates,
+      ...(updates.price !== undefined && updates.priceAmount === undefined
+        ? { priceAmount: parsePriceAmount(updates.price) }
+        : {}),
+      updatedAt: new Date(),
+    })
     .where(eq(mysqlSchema.products.id, productId));
 }
 
@@ -243,32 +252,18 @@ export async function upsertProductEmbedding(productId: number, embeddings: any)
 }
 
 export async function getSimilarProducts(productId: number, limit: number = 5) {
-  const db = await getDb();
-  
   // Get the query product's embedding
   const queryEmbedding = await getProductEmbedding(productId);
   if (!queryEmbedding) return [];
 
-  // Get all product embeddings
-  const allEmbeddings = await db.select().from(mysqlSchema.productEmbeddings);
-  
-  // Calculate cosine similarity with all products
-  const similarities = allEmbeddings
-    .filter(e => e.productId !== productId)
-    .map(e => ({
-      productId: e.productId,
-      similarity: RealSigLIPEmbeddings.cosineSimilarity(
-        queryEmbedding.hybridEmbedding,
-        JSON.parse(e.hybridEmbedding)
-      ),
-    }))
-    .sort((a, b) => b.similarity - a.similarity)
-    .slice(0, limit)
-    .map(s => s.productId);
+  // Nearest hybrid vectors from the vector index
+  const matches = await vectorIndex.search(queryEmbedding.hybridEmbedding, limit, {
+    excludeProductIds: [productId],
+  });
 
   // Fetch the actual products
   const products = await Promise.all(
-    similarities.map(id => getProductById(id))
+    matches.map(match => getProductById(match.productId))
   );
 
   return products.filter(p => p !== undefined);
@@ -1,4 +1,4 @@
-import { eq } from "drizzle-orm";
+import { eq, isNull } from "drizzle-orm";
 import { drizzle as drizzleMysql } from "drizzle-orm/mysql2";
 import * as mysqlSchema from "../drizzle/schema";
 import { ENV } from './_core/env';
@@ -9,9 +9,9 @@ import {
   searchProducts as searchProductsInit,
   getAllProducts as getAllProductsInit
 } from './db-init';
+import { vectorIndex } from './services/vector-index';
 
 // In-memory fallback for the sandbox environment
-let productEmbeddings: Map<number, number[]> = new Map();
 let sellers: any[] = [];
 let syncLogs: any[] = [];
 let categories: any[] = [
@@ -79,45 +79,34 @@ export async function getAllProducts() {
   return await getAllProductsInit();
 }
 
+/**
+ * Full catalog for in-process indexes: the drizzle products table when MySQL
+ * is configured (excluding soft-deleted listings), otherwise the db-init
+ * in-memory catalog
+ */
+export async function getCatalogProducts() {
+  const db = await getDb();
+  if (db) {
+    return await db.select().from(mysqlSchema.products).where(isNull(mysqlSchema.products.removedAt));
+  }
+  return await getAllProductsInit();
+}
+
 export async function getCatalogSyncLogs() {
   return syncLogs;
 }
 
 export async function getProductEmbedding(productId: number): Promise<number[] | null> {
-  return productEmbeddings.get(productId) || null;
+  return vectorIndex.getVector(productId);
 }
 
 export async function getSimilarProducts(productId: number, limit: number = 5) {
-  const embedding = productEmbeddings.get(productId);
+  const embedding = await vectorIndex.getVector(productId);
   if (!embedding) return [];
 
-  const similarities = (await getAllProducts())
-    .filter(p => p.id !== productId)
-    .map(p => {
-      const pEmbedding = productEmbeddings.get(p.id) || [];
-      const similarity = cosineSimilarity(embedding, pEmbedding);
-      return { product: p, similarity };
-    })
-    .sort((a, b) => b.similarity - a.similarity)
-    .slice(0, limit);
-
-  return similarities.map(s => s.product);
-}
-
-function cosineSimilarity(a: number[], b: number[]): number {
-  if (a.length === 0 || b.length === 0) return 0;
-  let dotProduct = 0;
-  let magnitudeA = 0;
-  let magnitudeB = 0;
-  for (let i = 0; i < Math.min(a.length, b.length); i++) {
-    dotProduct += a[i] * b[i];
-    magnitudeA += a[i] * a[i];
-    magnitudeB += b[i] * b[i];
-  }
-  magnitudeA = Math.sqrt(magnitudeA);
-  magnitudeB = Math.sqrt(magnitudeB);
-  if (magnitudeA === 0 || magnitudeB === 0) return 0;
-  return dotProduct / (magnitudeA * magnitudeB);
+  const matches = await vectorIndex.search(embedding, limit, { excludeProductIds: [productId] });
+  const similar = await Promise.all(matches.map(match => getProductById(match.productId)));
+  return similar.filter(Boolean);
 }
 
 export async function recordInteraction(userId: string, productId: number, interactionType: string) {
@@ -138,6 +127,15 @@ export async function getSellerById(id: number) {
   return sellers.find(s => s.id === id);
 }
 
+export async function getSellerByUserId(userId: number) {
+  const db = await getDb();
+  if (db) {
+    const result = await db.select().from(mysqlSchema.sellers).where(eq(mysqlSchema.sellers.userId, userId)).limit(1);
+    return result.length > 0 ? result[0] : undefined;
+  }
+  return sellers.find(s => s.userId === userId);
+}
+
 export async function getCommentsByProduct(productId: number) {
   return [];
 }
@@ -163,6 +161,5 @@ export async function getSyncStatus(sellerId: number) {
 }
 
 export async function getVisualSimilarity(productId: number, limit: number = 10) {
-  const allProducts = await getAllProducts();
-  return allProducts.filter(p => p.id !== productId).slice(0, limit);
+  return getSimilarProducts(productId, limit);
 }
@@ -3,7 +3,7 @@ import { productEmbeddings } from "../drizzle/schema";
 import { eq } from "drizzle-orm";
 
 /**
- * Save product embeddings to database
+ * Save product embeddings to database (replaces any existing row for the product)
  */
 export async function saveProductEmbedding(
   productId: number,
@@ -14,12 +14,16 @@ export async function saveProductEmbedding(
   const db = await getDb();
   if (!db) throw new Error("Database not available");
 
-  await db.insert(productEmbeddings).values({
-    productId,
+  const vectors = {
     imageEmbedding: JSON.stringify(imageEmbedding),
     textEmbedding: JSON.stringify(textEmbedding),
     hybridEmbedding: JSON.stringify(hybridEmbedding),
-  });
+  };
+
+  await db
+    .insert(productEmbeddings)
+    .values({ productId, ...vectors })
+    .onDuplicateKeyUpdate({ set: { ...vectors, updatedAt: new Date() } });
 }
 
 /**
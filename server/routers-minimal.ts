@@ -3,6 +3,19 @@ import { z } from "zod";
 import { getProducts, getProductsByCategory, getProductById, getCategories, getAllProducts } from "./db";
 import { ingestionRouter } from "./routes/ingestion";
 import { adminRouter } from "./routes/admin";
+import { catalogRouter } from "./routes/catalog";
+import { cartRouter } from "./routes/cart";
+import { paymentsRouter } from "./routes/payments";
+import { ordersRouter } from "./routes/orders";
+import { sellerAnalyticsRouter } from "./routes/seller-analytics";
+import { sellerCrmRouter } from "./routes/seller-crm";
+import { productSearch } from "./services/search-index";
+import { semanticSearch, type SearchSignal, type SemanticSearchHit } from "./services/semantic-search";
+import { similarProducts } from "./services/similar-products";
+import { listingDedup } from "./services/listing-dedup";
+import { ProductBrowseService } from "./services/product-browse";
+import { DEVICE_TYPES } from "./services/analytics-event-store";
+import { CHAT_SOURCES, whatsAppAttribution } from "./services/whatsapp-attribution";
 
 /**
  * Minimal tRPC Router - Simplified to avoid module-level crashes
@@ -17,7 +30,7 @@ export const appRouter = router({
       }))
       .query(async ({ input }) => {
         try {
-          return await getProducts(input.limit, input.offset);
+          return await listingDedup.collapse(await getProducts(input.limit, input.offset));
         } catch (error) {
           console.error("Error fetching products:", error);
           return [];
@@ -32,7 +45,9 @@ export const appRouter = router({
       }))
       .query(async ({ input }) => {
         try {
-          return await getProductsByCategory(input.categoryId, input.limit, input.offset);
+          return await listingDedup.collapse(
+            await getProductsByCategory(input.categoryId, input.limit, input.offset)
+          );
         } catch (error) {
           console.error("Error fetching products by category:", error);
           return [];
@@ -50,24 +65,114 @@ export const appRouter = router({
         }
       }),
 
+    // "Similar items" rail: nearest stored embeddings, diversified across sellers, plus a cheaper option
+    similar: publicProcedure
+      .input(z.object({
+        productId: z.number(),
+        limit: z.number().min(1).max(24).default(10),
+      }))
+      .query(async ({ input }) => {
+        try {
+          return await similarProducts.getSimilar(input.productId, input.limit);
+        } catch (error) {
+          console.error("Error fetching similar products:", error);
+          return { items: [], cheaperOption: null };
+        }
+      }),
+
+    // Every seller offering the same item (a duplicate cluster), cheapest first
+    offers: publicProcedure
+      .input(z.object({ productId: z.number() }))
+      .query(async ({ input }) => {
+        try {
+          return await listingDedup.getPriceComparison(input.productId);
+        } catch (error) {
+          console.error("Error fetching listing offers:", error);
+          return null;
+        }
+      }),
+
+    // Tracked /go/wa link for the WhatsApp button; the redirect records the lead
+    chatLink: publicProcedure
+      .input(z.object({
+        productId: z.number().int().positive(),
+        visitorId: z.string().min(1).max(64),
+        sessionId: z.string().min(1).max(64),
+        source: z.enum(CHAT_SOURCES).default("direct"),
+        deviceType: z.enum(DEVICE_TYPES).default("mobile"),
+      }))
+      .query(({ input }) => {
+        return whatsAppAttribution.createLink(input);
+      }),
+
     search: publicProcedure
       .input(z.object({
         query: z.string(),
         limit: z.number().default(20),
+        offset: z.number().default(0),
+        // "semantic" fuses keyword relevance with SigLIP text-to-image similarity
+        mode: z.enum(["lexical", "semantic"]).default("lexical"),
+        weights: z.object({
+          lexical: z.number().min(0).max(10),
+          semantic: z.number().min(0).max(10),
+        }).partial().optional(),
       }))
       .query(async ({ input }) => {
         try {
-          const allProducts = await getProducts(1000, 0);
-          const filtered = allProducts.filter(p =>
-            p.name.toLowerCase().includes(input.query.toLowerCase()) ||
-            p.description?.toLowerCase().includes(input.query.toLowerCase())
-          );
-          return filtered.slice(0, input.limit);
+          if (input.mode === "semantic") {
+            const { hits } = await semanticSearch.search(input.query, {
+              limit: input.limit,
+              offset: input.offset,
+              weights: input.weights,
+            });
+            return listingDedup.collapse(hits.map(hit => ({
+              ...hit.product,
+              relevance: hit.score,
+              matchedBy: hit.matchedBy,
+              signals: hit.signals,
+            })));
+          }
+
+          const { hits } = await productSearch.search(input.query, {
+            limit: input.limit,
+            offset: input.offset,
+          });
+          return listingDedup.collapse(hits.map((hit, i) => ({
+            ...hit.product,
+            relevance: hit.score,
+            matchedBy: ["lexical"] as SearchSignal[],
+            signals: { lexical: { rank: input.offset + i + 1, score: hit.score } } as SemanticSearchHit["signals"],
+          })));
         } catch (error) {
           console.error("Error searching products:", error);
           return [];
         }
       }),
+
+    browse: publicProcedure
+      .input(z.object({
+        minPrice: z.number().min(0).optional(),
+        maxPrice: z.number().min(0).optional(),
+        categoryIds: z.array(z.number()).optional(),
+        sellerId: z.number().optional(),
+        inStock: z.boolean().default(false),
+        source: z.string().optional(),
+        sort: z.enum(["newest", "price_asc", "price_desc", "name"]).default("newest"),
+        limit: z.number().min(1).max(100).default(20),
+        offset: z.number().min(0).default(0),
+      }))
+      .query(async ({ input }) => {
+        try {
+          return await ProductBrowseService.browse(input);
+        } catch (error) {
+          console.error("Error browsing products:", error);
+          return {
+            total: 0,
+            products: [],
+            facets: { categories: [], sellers: [], sources: [], inStock: 0, price: { min: null, max: null } },
+          };
+        }
+      }),
   }),
 
   // Categories router
@@ -88,6 +193,24 @@ export const appRouter = router({
   // Admin router
   admin: adminRouter,
 
+  // Seller catalog router
+  catalog: catalogRouter,
+
+  // Cart and checkout router
+  cart: cartRouter,
+
+  // M-Pesa payments router
+  payments: paymentsRouter,
+
+  // Buyer order actions (delivery confirmation, disputes)
+  orders: ordersRouter,
+
+  // Seller analytics (conversion funnel)
+  sellerAnalytics: sellerAnalyticsRouter,
+
+  // Seller lead management (status, notes, follow-ups, linked orders)
+  sellerCrm: sellerCrmRouter,
+
   // Recommendations router (added for Home page compatibility)
   products_recommended: router({
     getRecommended: publicProcedure
@@ -97,7 +220,7 @@ export const appRouter = router({
       }))
       .query(async ({ input }) => {
         try {
-          return await getProducts(input.limit, input.offset);
+          return await listingDedup.collapse(await getProducts(input.limit, input.offset));
         } catch (error) {
           console.error("Error fetching recommended products:", error);
           return [];
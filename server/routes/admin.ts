@@ -1,6 +1,34 @@
-import { router, publicProcedure } from "../_core/trpc";
+import { router, publicProcedure, adminProcedure } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
 import { z } from "zod";
 import { getProducts, getCatalogSyncLogs } from "../db";
+import { CatalogDiffService } from "../services/catalog-diff";
+import { EscrowLedger } from "../services/escrow-ledger";
+import { analyticsRollupService } from "../services/analytics-rollups";
+import { ANOMALY_KINDS, anomalyAlerts } from "../services/anomaly-alerts";
+import { sellerCRM } from "../services/seller-crm";
+import { trafficQualityReports } from "../services/traffic-quality";
+import { OrderManagement } from "../services/order-management";
+import { ORDER_STATUSES } from "../services/order-state-machine";
+import { withTransitionErrors } from "./orders";
+import { catalogChangeQuery } from "./catalog";
+import { DUPLICATE_STATUSES, ListingDedupError, listingDedup } from "../services/listing-dedup";
+
+const DEDUP_ERROR_CODES: Record<ListingDedupError["code"], TRPCError["code"]> = {
+  NOT_FOUND: "NOT_FOUND",
+  INVALID_CANONICAL: "BAD_REQUEST",
+};
+
+async function withDedupErrors<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof ListingDedupError) {
+      throw new TRPCError({ code: DEDUP_ERROR_CODES[error.code], message: error.message });
+    }
+    throw error;
+  }
+}
 
 /**
  * Enterprise Admin Command Center Router
@@ -35,5 +63,126 @@ export const adminRouter = router({
     .mutation(async ({ input }) => {
       console.log(`[Admin] Manual sync triggered for seller ${input.sellerId}`);
       return { success: true, message: "Sync job queued" };
+    }),
+
+  // Catalog change events across all sellers, or one seller
+  catalogChanges: adminProcedure
+    .input(catalogChangeQuery.extend({ sellerId: z.number().optional() }))
+    .query(async ({ input }) => {
+      return CatalogDiffService.getChangesSince({
+        since: input.since,
+        sellerId: input.sellerId,
+        types: input.types,
+        limit: input.limit,
+      });
+    }),
+
+  // Rebuild analytics rollups from raw events (at most 90 days per call)
+  analyticsBackfill: adminProcedure
+    .input(z.object({ from: z.coerce.date(), to: z.coerce.date() }))
+    .mutation(async ({ input }) => {
+      const days = (input.to.getTime() - input.from.getTime()) / (24 * 60 * 60 * 1000);
+      if (days <= 0 || days > 90) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Backfill range must be between 0 and 90 days" });
+      }
+      return analyticsRollupService.backfill(input.from, input.to);
+    }),
+
+  // Traffic spikes, drops and suspected click fraud across all sellers
+  analyticsAnomalies: adminProcedure
+    .input(z.object({
+      days: z.number().int().min(1).max(90).default(7),
+      sellerId: z.number().optional(),
+      kind: z.enum(ANOMALY_KINDS).optional(),
+      limit: z.number().int().min(1).max(500).default(100),
+    }))
+    .query(async ({ input }) => {
+      return anomalyAlerts.list({
+        since: new Date(Date.now() - input.days * 24 * 60 * 60 * 1000),
+        sellerId: input.sellerId,
+        kind: input.kind,
+        limit: input.limit,
+      });
+    }),
+
+  // Events and leads flagged as bot or fraudulent traffic, and why
+  trafficQuality: adminProcedure
+    .input(z.object({
+      days: z.number().int().min(1).max(30).default(1),
+      samples: z.number().int().min(1).max(100).default(25),
+    }))
+    .query(async ({ input }) => {
+      const to = new Date();
+      const from = new Date(to.getTime() - input.days * 24 * 60 * 60 * 1000);
+      const report = await trafficQualityReports.getReport(from, to, input.samples);
+      return { ...report, leads: await sellerCRM.getFlaggedSummary(from) };
+    }),
+
+  // Double-entry ledger invariants and account balances
+  escrowReconciliation: adminProcedure.query(async () => {
+    return EscrowLedger.getReconciliationReport();
+  }),
+
+  // Settle a disputed order in favour of the buyer (refund) or the seller (complete)
+  resolveDispute: adminProcedure
+    .input(z.object({
+      orderId: z.number(),
+      winner: z.enum(["buyer", "seller"]),
+      note: z.string().min(1).max(500),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return withTransitionErrors(() =>
+        OrderManagement.resolveDispute(input.orderId, input.winner, input.note, ctx.user.id)
+      );
+    }),
+
+  // Move any order through the state machine as an admin
+  updateOrderStatus: adminProcedure
+    .input(z.object({
+      orderId: z.number(),
+      status: z.enum(ORDER_STATUSES),
+      note: z.string().max(500).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return withTransitionErrors(() =>
+        OrderManagement.transition(input.orderId, input.status, { actor: "admin", userId: ctx.user.id, note: input.note })
+      );
+    }),
+
+  orderHistory: adminProcedure
+    .input(z.object({ orderId: z.number() }))
+    .query(async ({ input }) => {
+      return OrderManagement.getOrderEvents(input.orderId);
+    }),
+
+  // Suspected copied listings: duplicate clusters spanning several sellers
+  duplicateListings: adminProcedure
+    .input(z.object({
+      status: z.enum(DUPLICATE_STATUSES).default("pending"),
+      limit: z.number().int().min(1).max(200).default(50),
+    }))
+    .query(async ({ input }) => {
+      return listingDedup.getReviewQueue(input.status, input.limit);
+    }),
+
+  // Confirm or dismiss a duplicate cluster, optionally choosing the listing buyers see
+  reviewDuplicateListings: adminProcedure
+    .input(z.object({
+      clusterId: z.number(),
+      decision: z.enum(["confirmed", "dismissed"]),
+      canonicalProductId: z.number().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return withDedupErrors(() =>
+        listingDedup.review(input.clusterId, input.decision, ctx.user.id, input.canonicalProductId)
+      );
+    }),
+
+  // Record the M-Pesa reversal of a refunded order's buyer wallet balance
+  recordRefundPayout: adminProcedure
+    .input(z.object({ orderId: z.number() }))
+    .mutation(async ({ input }) => {
+      const amount = await EscrowLedger.payoutRefund(input.orderId);
+      return { success: amount > 0, amount };
     })
 });
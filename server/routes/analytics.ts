@@ -1,47 +1,79 @@
 /**
  * Analytics API Routes - Commercial Dashboard Backend
  * 
- * Endpoints for seller analytics, metrics computation, and real-time tracking
+ * Endpoints for seller analytics, metrics computation, and real-time tracking.
+ * Events are persisted in the analytics event store (analytics-event-store.ts);
+ * seller metrics are answered from the hourly/daily rollups
+ * (analytics-rollups.ts), and forecasts by the sellerAnalytics.forecast tRPC
+ * query. Tracking endpoints screen each event for bot and click-fraud
+ * signals (traffic-quality.ts) and store failures flagged.
+ * Seller data is only served to the signed-in seller.
  */
 
 import express from "express";
-import { AnalyticsEngine, ClickEvent, ConversionEvent, SellerMetrics } from "../services/analytics-engine";
+import { ZodError } from "zod";
+import { requireSeller } from "../_core/express-auth";
+import { AnalyticsEngine, type TimeWindow } from "../services/analytics-engine";
+import { analyticsEvents } from "../services/analytics-event-store";
+import { analyticsRollupService } from "../services/analytics-rollups";
+import { trafficContext, trafficQuality } from "../services/traffic-quality";
 
 const router = express.Router();
 
-// Mock data storage for demonstration
-const clickEvents: ClickEvent[] = [];
-const conversionEvents: ConversionEvent[] = [];
+const TIME_WINDOWS: TimeWindow[] = ["day", "week", "month"];
+
+function parseId(value: string): number | null {
+  const id = Number(value);
+  return Number.isInteger(id) && id > 0 ? id : null;
+}
+
+function parseWindow(value: unknown, fallback: TimeWindow): TimeWindow {
+  return TIME_WINDOWS.includes(value as TimeWindow) ? (value as TimeWindow) : fallback;
+}
+
+/**
+ * GET /api/analytics/token?visitorId=...
+ * Signed beacon token for a visitor; the tracker sends it with every batch
+ */
+router.get("/token", (req: any, res: any) => {
+  const visitorId = typeof req.query.visitorId === "string" ? req.query.visitorId : "";
+  if (!/^[\w-]{1,64}$/.test(visitorId)) {
+    return res.status(400).json({ error: "Invalid visitor ID" });
+  }
+
+  const issued = trafficQuality.issueToken(visitorId, trafficContext(req).ip);
+  if (!issued) {
+    return res.status(429).json({ error: "Too many requests" });
+  }
+  res.setHeader("Cache-Control", "no-store");
+  res.json(issued);
+});
 
 /**
  * POST /api/analytics/click
  * Track a click event
  */
-router.post("/click", (req: any, res: any) => {
+router.post("/click", async (req: any, res: any) => {
   try {
-    const { productId, sellerId, userId, source, sessionId, deviceType, userAgent } = req.body;
+    const { productId, sellerId, userId, source } = req.body;
 
     if (!productId || !sellerId || !userId) {
       return res.status(400).json({ error: "Missing required fields" });
     }
 
-    const clickEvent: ClickEvent = {
-      id: `click_${Date.now()}_${Math.random()}`,
-      productId,
-      sellerId,
-      userId,
-      timestamp: new Date(),
-      source: source || "homepage",
-      sessionId: sessionId || `session_${userId}_${Date.now()}`,
-      deviceType: deviceType || "mobile",
-      userAgent: userAgent || "unknown",
-    };
-
-    clickEvents.push(clickEvent);
+    const { token, ...beacon } = req.body;
+    const eventId = await analyticsEvents.trackClick(
+      { ...beacon, userId: String(userId) },
+      new Date(),
+      trafficContext(req, token)
+    );
 
     console.log(`[Analytics] Tracked click: ${productId} from ${source}`);
-    res.json({ success: true, eventId: clickEvent.id });
+    res.json({ success: true, eventId });
   } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: error.issues[0]?.message ?? "Invalid event" });
+    }
     console.error("[Analytics] Error tracking click:", error);
     res.status(500).json({ error: "Failed to track click" });
   }
@@ -51,68 +83,76 @@ router.post("/click", (req: any, res: any) => {
  * POST /api/analytics/conversion
  * Track a conversion event
  */
-router.post("/conversion", (req: any, res: any) => {
+router.post("/conversion", async (req: any, res: any) => {
   try {
-    const { productId, sellerId, userId, amount, currency, conversionType } = req.body;
+    const { productId, sellerId, userId, amount } = req.body;
 
     if (!productId || !sellerId || !userId || !amount) {
       return res.status(400).json({ error: "Missing required fields" });
     }
 
-    const conversionEvent: ConversionEvent = {
-      id: `conv_${Date.now()}_${Math.random()}`,
-      productId,
-      sellerId,
-      userId,
-      timestamp: new Date(),
-      amount,
-      currency: currency || "KES",
-      conversionType: conversionType || "whatsapp_click",
-    };
-
-    conversionEvents.push(conversionEvent);
+    const { token, ...beacon } = req.body;
+    const eventId = await analyticsEvents.trackConversion(
+      { ...beacon, userId: String(userId) },
+      new Date(),
+      trafficContext(req, token)
+    );
 
     console.log(`[Analytics] Tracked conversion: ${productId} for KES ${amount}`);
-    res.json({ success: true, eventId: conversionEvent.id });
+    res.json({ success: true, eventId });
   } catch (error) {
+    if (error instanceof ZodError) {
+      return res.status(400).json({ error: error.issues[0]?.message ?? "Invalid event" });
+    }
     console.error("[Analytics] Error tracking conversion:", error);
     res.status(500).json({ error: "Failed to track conversion" });
   }
 });
 
 /**
- * GET /api/analytics/seller/:sellerId
- * Get seller metrics for a given time window
+ * POST /api/analytics/events
+ * Batched beacon ingest: { token, events: [{ type: "impression" | "interaction" | "click" | "conversion", ... }] }.
+ * Also accepts text/plain bodies, which is what navigator.sendBeacon sends
+ * for a string payload.
  */
-router.get("/seller/:sellerId", async (req: any, res: any) => {
+router.post("/events", express.text({ type: "text/plain", limit: "1mb" }), async (req: any, res: any) => {
   try {
-    const { sellerId } = req.params;
-    const { timeWindow = "week" } = req.query as { timeWindow?: "day" | "week" | "month" };
-
-    // Filter events for this seller
-    const sellerClicks = clickEvents.filter((e) => e.sellerId === sellerId);
-    const sellerConversions = conversionEvents.filter((e) => e.sellerId === sellerId);
-
-    if (sellerClicks.length === 0 && sellerConversions.length === 0) {
-      return res.json({
-        sellerId,
-        totalClicks: 0,
-        totalConversions: 0,
-        conversionRate: 0,
-        averageOrderValue: 0,
-        ctr: 0,
-        impressions: 0,
-        revenue: 0,
-        topProducts: [],
-        trafficSources: {},
-        deviceBreakdown: {},
-        timeSeriesData: [],
-        anomalyScore: 0,
-      });
+    let body = req.body;
+    if (typeof body === "string") {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        return res.status(400).json({ error: "Body must be JSON" });
+      }
     }
 
-    // Compute metrics
-    const metrics = await AnalyticsEngine.computeSellerMetrics(sellerId, sellerClicks, sellerConversions, timeWindow);
+    const events = Array.isArray(body) ? body : body?.events;
+    if (!Array.isArray(events)) {
+      return res.status(400).json({ error: "Expected an events array" });
+    }
+    if (events.length > analyticsEvents.maxBatchSize) {
+      return res.status(413).json({ error: `At most ${analyticsEvents.maxBatchSize} events per batch` });
+    }
+
+    const result = await analyticsEvents.ingestBatch(events, new Date(), trafficContext(req, body?.token));
+    res.status(202).json({ success: true, ...result });
+  } catch (error) {
+    console.error("[Analytics] Error ingesting event batch:", error);
+    res.status(500).json({ error: "Failed to ingest events" });
+  }
+});
+
+/**
+ * GET /api/analytics/seller
+ * The signed-in seller's metrics for a given time window
+ */
+router.get("/seller", requireSeller, async (req: any, res: any) => {
+  try {
+    const sellerId: number = req.seller.id;
+    const timeWindow = parseWindow(req.query.timeWindow, "week");
+
+    // Closed hours come from the rollups, the open hour from raw events
+    const metrics = await analyticsRollupService.getSellerMetrics(sellerId, timeWindow);
 
     console.log(`[Analytics] Computed metrics for seller ${sellerId}`);
     res.json(metrics);
@@ -128,17 +168,16 @@ router.get("/seller/:sellerId", async (req: any, res: any) => {
  */
 router.get("/product/:productId", async (req: any, res: any) => {
   try {
-    const { productId } = req.params;
-
-    // Filter events for this product
-    const productClicks = clickEvents.filter((e) => e.productId === productId);
-    const productConversions = conversionEvents.filter((e) => e.productId === productId);
+    const productId = parseId(req.params.productId);
+    if (!productId) {
+      return res.status(400).json({ error: "Invalid product ID" });
+    }
 
     // Mock embedding
     const mockEmbedding = new Array(768).fill(0).map(() => Math.random() * 2 - 1);
 
     // Compute metrics
-    const metrics = await AnalyticsEngine.computeProductMetrics(productId, productClicks, productConversions, mockEmbedding);
+    const metrics = await AnalyticsEngine.getProductMetrics(productId, mockEmbedding, parseWindow(req.query.timeWindow, "month"));
 
     console.log(`[Analytics] Computed metrics for product ${productId}`);
     res.json(metrics);
@@ -148,47 +187,19 @@ router.get("/product/:productId", async (req: any, res: any) => {
   }
 });
 
-/**
- * GET /api/analytics/seller/:sellerId/forecast
- * Get revenue forecast for next N days
- */
-router.get("/seller/:sellerId/forecast", async (req: any, res: any) => {
-  try {
-    const { sellerId } = req.params;
-    const { daysAhead = 7 } = req.query;
-
-    // Filter events for this seller
-    const sellerClicks = clickEvents.filter((e) => e.sellerId === sellerId);
-    const sellerConversions = conversionEvents.filter((e) => e.sellerId === sellerId);
-
-    // Compute historical metrics
-    const metrics = await AnalyticsEngine.computeSellerMetrics(sellerId, sellerClicks, sellerConversions, "week");
-
-    // Generate forecast
-    const forecast = AnalyticsEngine.predictFutureMetrics(metrics.timeSeriesData, parseInt(daysAhead as string) || 7);
-
-    console.log(`[Analytics] Generated forecast for seller ${sellerId}`);
-    res.json({ forecast });
-  } catch (error) {
-    console.error("[Analytics] Error generating forecast:", error);
-    res.status(500).json({ error: "Failed to generate forecast" });
-  }
-});
-
 /**
  * GET /api/analytics/seller/:sellerId/cohorts
  * Get cohort analysis for seller
  */
 router.get("/seller/:sellerId/cohorts", async (req: any, res: any) => {
   try {
-    const { sellerId } = req.params;
-
-    // Filter events for this seller
-    const sellerClicks = clickEvents.filter((e) => e.sellerId === sellerId);
-    const sellerConversions = conversionEvents.filter((e) => e.sellerId === sellerId);
+    const sellerId = parseId(req.params.sellerId);
+    if (!sellerId) {
+      return res.status(400).json({ error: "Invalid seller ID" });
+    }
 
-    // Compute metrics (includes cohort analysis)
-    const metrics = await AnalyticsEngine.computeSellerMetrics(sellerId, sellerClicks, sellerConversions, "month");
+    // Cohorts need per-user events, so these come from the raw store
+    const metrics = await AnalyticsEngine.getSellerMetrics(sellerId, "month");
 
     // Convert cohort map to array for JSON serialization
     const cohortsArray = Array.from(metrics.cohortAnalysis.entries()).map(([date, data]) => ({
@@ -208,24 +219,21 @@ router.get("/seller/:sellerId/cohorts", async (req: any, res: any) => {
  * GET /api/analytics/health
  * Health check endpoint
  */
-router.get("/health", (req: any, res: any) => {
-  res.json({
-    status: "healthy",
-    totalClicksTracked: clickEvents.length,
-    totalConversionsTracked: conversionEvents.length,
-    timestamp: new Date(),
-  });
-});
-
-/**
- * POST /api/analytics/reset
- * Reset analytics data (for testing)
- */
-router.post("/reset", (req: any, res: any) => {
-  clickEvents.length = 0;
-  conversionEvents.length = 0;
-  console.log("[Analytics] Reset all analytics data");
-  res.json({ success: true, message: "Analytics data reset" });
+router.get("/health", async (req: any, res: any) => {
+  try {
+    const counts = await analyticsEvents.countEvents();
+    res.json({
+      status: "healthy",
+      totalImpressionsTracked: counts.impressions,
+      totalInteractionsTracked: counts.interactions,
+      totalClicksTracked: counts.clicks,
+      totalConversionsTracked: counts.conversions,
+      retention: analyticsEvents.retention,
+      timestamp: new Date(),
+    });
+  } catch (error) {
+    res.status(503).json({ status: "unhealthy", error: error instanceof Error ? error.message : "Unknown error" });
+  }
 });
 
 export default router;
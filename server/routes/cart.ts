@@ -0,0 +1,98 @@
+import { parse as parseCookieHeader } from "cookie";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { CART_COOKIE_MAX_AGE_MS, CART_COOKIE_NAME } from "@shared/const";
+import { router, publicProcedure } from "../_core/trpc";
+import { getSessionCookieOptions } from "../_core/cookies";
+import type { TrpcContext } from "../_core/context";
+import { CartService, type CartOwner } from "../services/cart";
+
+/**
+ * Cart Router
+ * Signed-in users get a cart keyed by user ID; guests get one keyed by a
+ * session cookie that is issued on their first cart write.
+ */
+
+function cartOwner(ctx: TrpcContext, issueSession: boolean): CartOwner {
+  const cookies = parseCookieHeader((ctx.req as any).headers?.cookie || "");
+  let sessionId = cookies[CART_COOKIE_NAME] || null;
+
+  if (!sessionId && !ctx.user && issueSession) {
+    sessionId = CartService.newSessionId();
+    ctx.res.cookie(CART_COOKIE_NAME, sessionId, {
+      ...getSessionCookieOptions(ctx.req),
+      maxAge: CART_COOKIE_MAX_AGE_MS,
+    });
+  }
+
+  return { userId: ctx.user?.id ?? null, sessionId };
+}
+
+const CHECKOUT_ERROR_CODES: Record<string, TRPCError["code"]> = {
+  EMPTY_CART: "CONFLICT",
+  OUT_OF_STOCK: "CONFLICT",
+  PRODUCT_NOT_FOUND: "NOT_FOUND",
+  PRODUCT_UNPRICED: "BAD_REQUEST",
+  SELLER_MISMATCH: "BAD_REQUEST",
+  INVALID_ORDER_DATA: "BAD_REQUEST",
+  INVALID_QUANTITY: "BAD_REQUEST",
+};
+
+export const cartRouter = router({
+  get: publicProcedure.query(async ({ ctx }) => {
+    return CartService.getCart(cartOwner(ctx, false));
+  }),
+
+  add: publicProcedure
+    .input(z.object({
+      productId: z.number(),
+      quantity: z.number().int().min(1).max(CartService.MAX_QUANTITY).default(1),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return CartService.addItem(cartOwner(ctx, true), input.productId, input.quantity);
+    }),
+
+  setQuantity: publicProcedure
+    .input(z.object({
+      productId: z.number(),
+      quantity: z.number().int().min(0).max(CartService.MAX_QUANTITY),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return CartService.setQuantity(cartOwner(ctx, false), input.productId, input.quantity);
+    }),
+
+  remove: publicProcedure
+    .input(z.object({ productId: z.number() }))
+    .mutation(async ({ ctx, input }) => {
+      return CartService.removeItem(cartOwner(ctx, false), input.productId);
+    }),
+
+  clear: publicProcedure.mutation(async ({ ctx }) => {
+    await CartService.clear(cartOwner(ctx, false));
+    return { success: true };
+  }),
+
+  // Split the cart into one order per seller
+  checkout: publicProcedure
+    .input(z.object({
+      buyerName: z.string().min(1).max(100).optional(),
+      buyerPhone: z.string().min(9).max(20).optional(),
+      notes: z.string().max(1000).optional(),
+      visitorId: z.string().min(1).max(64).optional(), // Analytics visitor ID (see client/src/lib/analytics.ts)
+    }))
+    .mutation(async ({ ctx, input }) => {
+      if (!ctx.user && !input.buyerPhone) {
+        throw new TRPCError({ code: "BAD_REQUEST", message: "Guest checkout requires a phone number" });
+      }
+
+      const result = await CartService.checkout(cartOwner(ctx, false), input);
+      if (!result.success) {
+        throw new TRPCError({
+          code: CHECKOUT_ERROR_CODES[result.error ?? ""] ?? "INTERNAL_SERVER_ERROR",
+          message: result.message,
+        });
+      }
+
+      return result;
+    }),
+});
@@ -0,0 +1,27 @@
+import { router, sellerProcedure } from "../_core/trpc";
+import { z } from "zod";
+import { CatalogDiffService, CATALOG_CHANGE_TYPES } from "../services/catalog-diff";
+
+/**
+ * Catalog Router
+ * Seller-facing view of what the heartbeat sync detected in their WhatsApp catalog.
+ */
+export const catalogChangeQuery = z.object({
+  since: z.date(),
+  types: z.array(z.enum(CATALOG_CHANGE_TYPES)).optional(),
+  limit: z.number().min(1).max(500).default(100),
+});
+
+export const catalogRouter = router({
+  // "What changed in my catalog since X"
+  changes: sellerProcedure
+    .input(catalogChangeQuery)
+    .query(async ({ ctx, input }) => {
+      return CatalogDiffService.getChangesSince({
+        since: input.since,
+        sellerId: ctx.seller.id,
+        types: input.types,
+        limit: input.limit,
+      });
+    }),
+});
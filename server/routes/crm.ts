@@ -1,11 +1,15 @@
 /**
  * Seller CRM API Router
  * 
- * Endpoints for sellers to manage and view their leads
+ * Lead capture from the storefront, and endpoints for signed-in sellers to
+ * view and export their own leads. Working a lead (status, notes,
+ * follow-ups, linking orders) goes through the sellerCrm tRPC router.
  */
 
 import express, { Request, Response } from "express";
-import { sellerCRM } from "../services/seller-crm";
+import { requireAdmin, requireSeller } from "../_core/express-auth";
+import { LEAD_INTERACTIONS, sellerCRM, type LeadInteraction } from "../services/seller-crm";
+import { trafficContext, trafficQuality } from "../services/traffic-quality";
 import { heartbeatSync } from "../workers/heartbeat-sync";
 
 const router = express.Router();
@@ -17,39 +21,55 @@ const router = express.Router();
  * 
  * Body:
  * {
- *   sellerId: string,
+ *   sellerId: number,
  *   productId: number,
- *   customerId: string,
+ *   customerId: string, // Analytics visitor ID
+ *   customerPhone?: string,
  *   interactionType: "view" | "click" | "wishlist" | "whatsapp_start",
  *   metadata: {
  *     deviceType: string,
  *     referralSource: string
- *   }
+ *   },
+ *   token?: string // Signed beacon token for customerId (GET /api/analytics/token)
  * }
+ *
+ * Leads that fail the traffic quality checks are recorded with flags and
+ * hidden from seller views by default.
  */
 router.post("/leads", async (req: any, res: any) => {
   try {
-    const { sellerId, productId, customerId, interactionType, metadata } = req.body;
+    const { customerId, customerPhone, interactionType, metadata, token } = req.body;
+    const sellerId = Number(req.body.sellerId);
+    const productId = Number(req.body.productId);
 
     if (!sellerId || !productId || !customerId || !interactionType) {
       return res.status(400).json({ error: "Missing required fields" });
     }
+    if (!Number.isInteger(sellerId) || !Number.isInteger(productId) || !LEAD_INTERACTIONS.includes(interactionType)) {
+      return res.status(400).json({ error: "Invalid lead" });
+    }
+
+    const now = new Date();
+    const [flags] = trafficQuality.assess(
+      [{ type: "lead", userId: String(customerId), sessionId: String(customerId), occurredAt: now }],
+      trafficContext(req, token),
+      now
+    );
 
-    const lead = {
-      leadId: `lead_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+    const lead = await sellerCRM.recordLead({
       sellerId,
       productId,
-      customerId,
-      interactionType: interactionType as "view" | "click" | "wishlist" | "whatsapp_start",
-      timestamp: new Date(),
-      metadata: metadata || { deviceType: "unknown", referralSource: "direct" },
-    };
-
-    sellerCRM.recordLead(lead);
+      visitorId: String(customerId).slice(0, 64),
+      customerPhone: typeof customerPhone === "string" ? customerPhone.slice(0, 20) : undefined,
+      interactionType: interactionType as LeadInteraction,
+      deviceType: String(metadata?.deviceType ?? "unknown").slice(0, 20),
+      referralSource: String(metadata?.referralSource ?? "direct").slice(0, 50),
+      flags,
+    });
 
     res.json({
       success: true,
-      leadId: lead.leadId,
+      leadId: lead.id,
       message: "Lead recorded successfully",
     });
   } catch (error) {
@@ -59,19 +79,18 @@ router.post("/leads", async (req: any, res: any) => {
 });
 
 /**
- * GET /api/crm/sellers/:sellerId/leads
+ * GET /api/crm/leads
  * 
- * Get all leads for a seller
+ * The signed-in seller's leads (?includeFlagged=true to include suspected bot traffic)
  */
-router.get("/sellers/:sellerId/leads", async (req: any, res: any) => {
+router.get("/leads", requireSeller, async (req: any, res: any) => {
   try {
-    const { sellerId } = req.params;
-    const limit = parseInt(req.query.limit as string) || 50;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 500);
 
-    const leads = sellerCRM.getSellerLeads(sellerId, limit);
+    const leads = await sellerCRM.getSellerLeads(req.seller.id, limit, req.query.includeFlagged === "true");
 
     res.json({
-      sellerId,
+      sellerId: req.seller.id,
       leads,
       timestamp: new Date(),
     });
@@ -82,18 +101,16 @@ router.get("/sellers/:sellerId/leads", async (req: any, res: any) => {
 });
 
 /**
- * GET /api/crm/sellers/:sellerId/funnel
+ * GET /api/crm/funnel
  * 
- * Get conversion funnel for a seller
+ * Conversion funnel for the signed-in seller
  */
-router.get("/sellers/:sellerId/funnel", async (req: any, res: any) => {
+router.get("/funnel", requireSeller, async (req: any, res: any) => {
   try {
-    const { sellerId } = req.params;
-
-    const funnel = sellerCRM.getConversionFunnel(sellerId);
+    const funnel = await sellerCRM.getConversionFunnel(req.seller.id, req.query.includeFlagged === "true");
 
     res.json({
-      sellerId,
+      sellerId: req.seller.id,
       funnel,
       timestamp: new Date(),
     });
@@ -104,18 +121,16 @@ router.get("/sellers/:sellerId/funnel", async (req: any, res: any) => {
 });
 
 /**
- * GET /api/crm/sellers/:sellerId/export
+ * GET /api/crm/export
  * 
- * Export leads as CSV
+ * Export the signed-in seller's leads as CSV
  */
-router.get("/sellers/:sellerId/export", async (req: any, res: any) => {
+router.get("/export", requireSeller, async (req: any, res: any) => {
   try {
-    const { sellerId } = req.params;
+    const csv = await sellerCRM.exportLeadsAsCSV(req.seller.id, req.query.includeFlagged === "true");
 
-    const csv = sellerCRM.exportLeadsAsCSV(sellerId);
-
-    res.setHeader("Content-Type", "text/csv");
-    res.setHeader("Content-Disposition", `attachment; filename="leads_${sellerId}_${Date.now()}.csv"`);
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.setHeader("Content-Disposition", `attachment; filename="leads_${req.seller.id}_${Date.now()}.csv"`);
     res.send(csv);
   } catch (error) {
     console.error("[CRM] Error exporting leads:", error);
@@ -126,11 +141,11 @@ router.get("/sellers/:sellerId/export", async (req: any, res: any) => {
 /**
  * GET /api/crm/stats
  * 
- * Get CRM system statistics
+ * Get CRM system statistics (admin)
  */
-router.get("/stats", async (req: any, res: any) => {
+router.get("/stats", requireAdmin, async (req: any, res: any) => {
   try {
-    const stats = sellerCRM.getStats();
+    const stats = await sellerCRM.getStats();
 
     res.json({
       crm: stats,
@@ -145,9 +160,9 @@ router.get("/stats", async (req: any, res: any) => {
 /**
  * GET /api/crm/heartbeat/status
  * 
- * Get Heartbeat Sync Worker status
+ * Get Heartbeat Sync Worker status (admin)
  */
-router.get("/heartbeat/status", async (req: any, res: any) => {
+router.get("/heartbeat/status", requireAdmin, async (req: any, res: any) => {
   try {
     const stats = heartbeatSync.getStats();
     const syncStatus = heartbeatSync.getSyncStatus();
@@ -164,15 +179,13 @@ router.get("/heartbeat/status", async (req: any, res: any) => {
 });
 
 /**
- * POST /api/crm/heartbeat/sync/:sellerId
+ * POST /api/crm/heartbeat/sync
  * 
- * Manually trigger a sync for a specific seller
+ * Manually trigger a sync of the signed-in seller's catalog
  */
-router.post("/heartbeat/sync/:sellerId", async (req: any, res: any) => {
+router.post("/heartbeat/sync", requireSeller, async (req: any, res: any) => {
   try {
-    const { sellerId } = req.params;
-
-    const job = await heartbeatSync.syncSeller(sellerId);
+    const job = await heartbeatSync.syncSeller(String(req.seller.id));
 
     if (!job) {
       return res.status(404).json({ error: "Seller not found" });
@@ -1,30 +1,26 @@
-import { router, publicProcedure } from "../_core/trpc";
+import { router, adminProcedure } from "../_core/trpc";
 import { z } from "zod";
-import { ScoutHydrateService } from "../services/scout-hydrate";
+import { catalogIngestion } from "../services/catalog-ingestion";
 
 /**
  * Ingestion Router
- * Handles real-time product discovery and hydration from WhatsApp
+ * Handles real-time product discovery and hydration from WhatsApp.
+ * Hydrated products are persisted (upserted by WhatsApp product ID), so
+ * ingesting is admin-only.
  */
 export const ingestionRouter = router({
-  scoutAndHydrate: publicProcedure
+  scoutAndHydrate: adminProcedure
     .input(z.object({ url: z.string().url() }))
     .mutation(async ({ input }) => {
       try {
         console.log(`[Ingestion] Processing request for: ${input.url}`);
-        const product = await ScoutHydrateService.hydrateFromUrl(input.url);
-        
-        // In a real scenario, we would save this to the database here
-        // For now, we return the hydrated product to the frontend
+        const { product, created, embedded } = await catalogIngestion.ingestFromUrl(input.url);
+
         return {
           success: true,
-          product: {
-            ...product,
-            id: Math.floor(Math.random() * 1000000), // Temporary ID
-            stock: 10,
-            sellerId: 1,
-            categoryId: 1,
-          }
+          created,
+          embedded,
+          product,
         };
       } catch (error: any) {
         console.error(`[Ingestion] Failed to process ${input.url}:`, error);
@@ -0,0 +1,46 @@
+/**
+ * M-Pesa Callback Route
+ *
+ * Daraja POSTs the STK Push result here (MPESA_CALLBACK_URL). Daraja does not
+ * sign callbacks, so the URL carries a shared secret (MPESA_CALLBACK_TOKEN).
+ * Without a configured token every callback is refused; payments then settle
+ * through the status query only.
+ */
+
+import express from "express";
+import { timingSafeEqual } from "node:crypto";
+import { ENV } from "../_core/env";
+import { paymentService } from "../services/payment-service";
+
+const router = express.Router();
+
+function hasValidToken(token: unknown): boolean {
+  if (!ENV.mpesaCallbackToken) return false;
+  if (typeof token !== "string") return false;
+
+  const expected = Buffer.from(ENV.mpesaCallbackToken);
+  const received = Buffer.from(token);
+  return expected.length === received.length && timingSafeEqual(expected, received);
+}
+
+/**
+ * POST /api/payments/mpesa/callback
+ * STK Push result callback
+ */
+router.post("/mpesa/callback", async (req: any, res: any) => {
+  if (!hasValidToken(req.query.token)) {
+    console.warn("[Payments] Rejected M-Pesa callback with an invalid token");
+    return res.status(403).json({ ResultCode: 1, ResultDesc: "Rejected" });
+  }
+
+  try {
+    await paymentService.handleCallback(req.body);
+    // Acknowledge so Daraja doesn't retry; unknown IDs are logged by the service
+    res.json({ ResultCode: 0, ResultDesc: "Accepted" });
+  } catch (error) {
+    console.error("[Payments] Failed to process M-Pesa callback:", error);
+    res.status(400).json({ ResultCode: 1, ResultDesc: "Invalid callback" });
+  }
+});
+
+export default router;
@@ -0,0 +1,148 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { router, publicProcedure, protectedProcedure, sellerProcedure } from "../_core/trpc";
+import type { TrpcContext } from "../_core/context";
+import { OrderManagement } from "../services/order-management";
+import { OrderAccessError, orderAccess, type OrderLocator, type OrderOwner } from "../services/order-access";
+import { EscrowLedger } from "../services/escrow-ledger";
+import { ORDER_STATUSES, OrderTransitionError } from "../services/order-state-machine";
+
+/**
+ * Orders Router
+ * Buyer and seller actions on their own orders. Every status change goes
+ * through the order state machine, which decides whether this actor may make
+ * it; paid orders sit in escrow until the buyer confirms delivery or disputes.
+ * Guests reach their orders with the order code plus their checkout phone number.
+ */
+
+const TRANSITION_ERROR_CODES: Record<OrderTransitionError["code"], TRPCError["code"]> = {
+  INVALID_TRANSITION: "CONFLICT",
+  FORBIDDEN: "FORBIDDEN",
+};
+
+export async function withTransitionErrors<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof OrderTransitionError) {
+      throw new TRPCError({ code: TRANSITION_ERROR_CODES[error.code], message: error.message });
+    }
+    throw error;
+  }
+}
+
+async function withAccessErrors<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof OrderAccessError) {
+      throw new TRPCError({ code: error.code, message: error.message });
+    }
+    throw error;
+  }
+}
+
+async function getOwnOrder(orderId: number, owner: OrderOwner) {
+  return withAccessErrors(() => orderAccess.getOwnOrder(orderId, owner));
+}
+
+// Signed-in buyers pass orderId; guests pass the order code and their phone number
+const orderLocator = z.object({
+  orderId: z.number().optional(),
+  code: z.string().trim().min(4).max(12).optional(),
+  phone: z.string().min(9).max(20).optional(),
+});
+
+async function locateBuyerOrder(ctx: TrpcContext, locator: OrderLocator) {
+  return withAccessErrors(() => orderAccess.locateBuyerOrder(ctx.user?.id ?? null, locator));
+}
+
+export const ordersRouter = router({
+  listMine: protectedProcedure
+    .input(z.object({
+      statuses: z.array(z.enum(ORDER_STATUSES)).optional(),
+      limit: z.number().min(1).max(100).default(50),
+      offset: z.number().min(0).default(0),
+    }).default({ limit: 50, offset: 0 }))
+    .query(async ({ ctx, input }) => {
+      return OrderManagement.getOrdersByUser(ctx.user.id, input);
+    }),
+
+  // Order detail with items and status timeline
+  get: publicProcedure
+    .input(orderLocator)
+    .query(async ({ ctx, input }) => {
+      const order = await locateBuyerOrder(ctx, input);
+      return OrderManagement.getOrderDetail(order.id);
+    }),
+
+  cancel: publicProcedure
+    .input(orderLocator.extend({ reason: z.string().max(500).optional() }))
+    .mutation(async ({ ctx, input }) => {
+      const order = await locateBuyerOrder(ctx, input);
+      await withTransitionErrors(() =>
+        OrderManagement.cancelOrder(order.id, {
+          actor: "buyer",
+          userId: ctx.user?.id ?? null,
+          note: input.reason || "Cancelled by buyer",
+        })
+      );
+      return OrderManagement.getOrderDetail(order.id);
+    }),
+
+  // Buyer received the goods: completes the order and pays the seller
+  confirmDelivery: publicProcedure
+    .input(orderLocator)
+    .mutation(async ({ ctx, input }) => {
+      const order = await locateBuyerOrder(ctx, input);
+      await withTransitionErrors(() => OrderManagement.confirmDelivery(order.id, ctx.user?.id ?? null));
+      return OrderManagement.getOrderDetail(order.id);
+    }),
+
+  openDispute: protectedProcedure
+    .input(z.object({
+      orderId: z.number(),
+      reason: z.string().min(1).max(500),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnOrder(input.orderId, { buyerId: ctx.user.id });
+      return withTransitionErrors(() => OrderManagement.openDispute(input.orderId, ctx.user.id, input.reason));
+    }),
+
+  // Status timeline for the buyer's order
+  history: protectedProcedure
+    .input(z.object({ orderId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await getOwnOrder(input.orderId, { buyerId: ctx.user.id });
+      return OrderManagement.getOrderEvents(input.orderId);
+    }),
+
+  // Escrow movements for one of the buyer's orders
+  escrowHistory: protectedProcedure
+    .input(z.object({ orderId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await getOwnOrder(input.orderId, { buyerId: ctx.user.id });
+      return EscrowLedger.getOrderTransactions(input.orderId);
+    }),
+
+  // Seller confirms, ships, marks delivered or cancels one of their orders
+  sellerUpdateStatus: sellerProcedure
+    .input(z.object({
+      orderId: z.number(),
+      status: z.enum(["confirmed", "shipped", "delivered", "cancelled"]),
+      note: z.string().max(500).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      await getOwnOrder(input.orderId, { sellerId: ctx.seller.id });
+      return withTransitionErrors(() =>
+        OrderManagement.transition(input.orderId, input.status, { actor: "seller", userId: ctx.user.id, note: input.note })
+      );
+    }),
+
+  sellerHistory: sellerProcedure
+    .input(z.object({ orderId: z.number() }))
+    .query(async ({ ctx, input }) => {
+      await getOwnOrder(input.orderId, { sellerId: ctx.seller.id });
+      return OrderManagement.getOrderEvents(input.orderId);
+    }),
+});
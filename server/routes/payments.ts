@@ -0,0 +1,62 @@
+import { router, publicProcedure, adminProcedure } from "../_core/trpc";
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { PaymentError, paymentService, toPaymentSummary } from "../services/payment-service";
+
+/**
+ * Payments Router
+ * M-Pesa STK Push for a checkout. The checkout ID (returned by cart.checkout)
+ * identifies the orders to pay, so guests can pay without an account.
+ * Public procedures return a PaymentSummary, never the provider's request IDs.
+ */
+
+const PAYMENT_ERROR_CODES: Record<PaymentError["code"], TRPCError["code"]> = {
+  NOT_FOUND: "NOT_FOUND",
+  ALREADY_PAID: "CONFLICT",
+  INVALID_AMOUNT: "BAD_REQUEST",
+  INVALID_STATE: "CONFLICT",
+  PROVIDER_ERROR: "BAD_GATEWAY",
+};
+
+async function withPaymentErrors<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof PaymentError) {
+      throw new TRPCError({ code: PAYMENT_ERROR_CODES[error.code], message: error.message });
+    }
+    throw error;
+  }
+}
+
+export const paymentsRouter = router({
+  // Send the STK Push prompt to the payer's phone
+  initiate: publicProcedure
+    .input(z.object({
+      checkoutId: z.string().uuid(),
+      phone: z.string().min(9).max(20),
+    }))
+    .mutation(async ({ input }) => {
+      return withPaymentErrors(async () => toPaymentSummary(await paymentService.initiate(input.checkoutId, input.phone)));
+    }),
+
+  // Latest payment for a checkout; polls Daraja while it is still pending
+  status: publicProcedure
+    .input(z.object({ checkoutId: z.string().uuid() }))
+    .query(async ({ input }) => {
+      return withPaymentErrors(async () => {
+        const payment = await paymentService.getCheckoutPayment(input.checkoutId);
+        if (!payment) return null;
+        return toPaymentSummary(payment.status === "pending" ? await paymentService.refreshStatus(payment.id) : payment);
+      });
+    }),
+
+  refund: adminProcedure
+    .input(z.object({
+      paymentId: z.number(),
+      reason: z.string().min(1).max(500),
+    }))
+    .mutation(async ({ input }) => {
+      return withPaymentErrors(() => paymentService.markRefunded(input.paymentId, input.reason));
+    }),
+});
@@ -9,7 +9,6 @@
 
 import express, { Request, Response } from "express";
 import { cfEngine } from "../services/collaborative-filtering";
-import { searchSimilarProducts } from "../services/siglip-milvus";
 
 const router = express.Router();
 
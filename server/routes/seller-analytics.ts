@@ -0,0 +1,99 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { router, sellerProcedure } from "../_core/trpc";
+import { AnalyticsEngine } from "../services/analytics-engine";
+import { analyticsRollupService } from "../services/analytics-rollups";
+import { FORECAST_HISTORY_DAYS, MAX_FORECAST_DAYS } from "../services/forecasting";
+import {
+  DEFAULT_FUNNEL_STEPS,
+  FUNNEL_EVENT_KINDS,
+  FunnelQueryError,
+  funnelEngine,
+} from "../services/funnel-engine";
+import { SellerReportNotFoundError, sellerReportService } from "../services/seller-reports";
+
+/**
+ * Seller Analytics Router
+ * Signed-in sellers' own analytics, as used by the Commercial Dashboard.
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const funnelInput = z.object({
+  from: z.coerce.date().optional(), // Defaults to 30 days before `to`
+  to: z.coerce.date().optional(), // Defaults to now
+  productId: z.number().int().positive().optional(),
+  steps: z
+    .array(z.object({
+      label: z.string().min(1).max(40),
+      kind: z.enum(FUNNEL_EVENT_KINDS),
+      optional: z.boolean().optional(),
+    }))
+    .min(2)
+    .max(10)
+    .optional(),
+});
+
+export const forecastInput = z.object({
+  daysAhead: z.number().int().min(1).max(MAX_FORECAST_DAYS).default(14),
+  level: z.union([z.literal(0.8), z.literal(0.95)]).default(0.95),
+});
+
+export const sellerAnalyticsRouter = router({
+  // Conversion funnel with drop-off, time between steps and source/device breakdowns
+  funnel: sellerProcedure
+    .input(funnelInput)
+    .query(async ({ ctx, input }) => {
+      const to = input.to ?? new Date();
+      const from = input.from ?? new Date(to.getTime() - 30 * DAY_MS);
+      try {
+        return await funnelEngine.getFunnel(
+          { sellerId: ctx.seller.id, productId: input.productId, from, to },
+          input.steps ?? DEFAULT_FUNNEL_STEPS
+        );
+      } catch (error) {
+        if (error instanceof FunnelQueryError) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: error.message });
+        }
+        throw error;
+      }
+    }),
+
+  // Daily revenue/conversion forecast with prediction bands, plus how accurate it has been
+  forecast: sellerProcedure
+    .input(forecastInput)
+    .query(async ({ ctx, input }) => {
+      const history = await analyticsRollupService.getDailySeries(ctx.seller.id, FORECAST_HISTORY_DAYS);
+      return {
+        history: history.slice(-30),
+        forecast: AnalyticsEngine.predictFutureMetrics(history, input.daysAhead, input.level),
+        backtest: AnalyticsEngine.backtestForecast(history, { horizon: 7, windows: 4 }),
+        level: input.level,
+      };
+    }),
+
+  // CTR from real impressions, by product, list type and position
+  ctr: sellerProcedure
+    .input(z.object({ timeWindow: z.enum(["day", "week", "month"]).default("week") }).optional())
+    .query(async ({ ctx, input }) => {
+      return AnalyticsEngine.getCtrBreakdown(ctx.seller.id, input?.timeWindow ?? "week");
+    }),
+
+  // Weekly performance reports (CSV + PDF), newest first
+  reports: sellerProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(52).default(10) }).optional())
+    .query(async ({ ctx, input }) => {
+      return sellerReportService.list(ctx.seller.id, input?.limit ?? 10);
+    }),
+
+  // Build the report for the last seven days now instead of waiting for Monday
+  generateReport: sellerProcedure.mutation(async ({ ctx }) => {
+    try {
+      return await sellerReportService.generate(ctx.seller.id, "on_demand");
+    } catch (error) {
+      if (error instanceof SellerReportNotFoundError) {
+        throw new TRPCError({ code: "NOT_FOUND", message: error.message });
+      }
+      throw error;
+    }
+  }),
+});
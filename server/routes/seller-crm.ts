@@ -0,0 +1,112 @@
+import { TRPCError } from "@trpc/server";
+import { z } from "zod";
+import { router, sellerProcedure } from "../_core/trpc";
+import { LEAD_INTERACTIONS, LEAD_STATUSES, LeadError, sellerCRM } from "../services/seller-crm";
+import { whatsAppAttribution } from "../services/whatsapp-attribution";
+
+/**
+ * Seller CRM Router
+ * Signed-in sellers working their own leads: status, notes, follow-up
+ * reminders, the order a lead turned into, and WhatsApp sales by reference code.
+ */
+const LEAD_ERROR_CODES: Record<LeadError["code"], TRPCError["code"]> = {
+  NOT_FOUND: "NOT_FOUND",
+  INVALID_TRANSITION: "CONFLICT",
+  INVALID_INPUT: "BAD_REQUEST",
+};
+
+async function withLeadErrors<T>(run: () => Promise<T>): Promise<T> {
+  try {
+    return await run();
+  } catch (error) {
+    if (error instanceof LeadError) {
+      throw new TRPCError({ code: LEAD_ERROR_CODES[error.code], message: error.message });
+    }
+    throw error;
+  }
+}
+
+const leadId = z.number().int().positive();
+const referenceCode = z.string().trim().min(4).max(12);
+
+export const sellerCrmRouter = router({
+  // Lead totals, funnel, status counts, top products and the latest ten leads
+  summary: sellerProcedure
+    .input(z.object({ includeFlagged: z.boolean().default(false) }).optional())
+    .query(async ({ ctx, input }) => {
+      return sellerCRM.getSellerLeads(ctx.seller.id, 10, input?.includeFlagged ?? false);
+    }),
+
+  // Leads newest first, or follow-ups due soonest first with `followUpBefore`
+  leads: sellerProcedure
+    .input(z.object({
+      status: z.enum(LEAD_STATUSES).optional(),
+      interactionType: z.enum(LEAD_INTERACTIONS).optional(),
+      productId: z.number().int().positive().optional(),
+      followUpBefore: z.coerce.date().optional(),
+      includeFlagged: z.boolean().default(false),
+      limit: z.number().int().min(1).max(200).default(50),
+      offset: z.number().int().min(0).default(0),
+    }))
+    .query(async ({ ctx, input }) => {
+      const { limit, offset, ...filter } = input;
+      return sellerCRM.listLeads(ctx.seller.id, filter, limit, offset);
+    }),
+
+  // One lead with its notes
+  lead: sellerProcedure
+    .input(z.object({ leadId }))
+    .query(async ({ ctx, input }) => {
+      return withLeadErrors(() => sellerCRM.getLead(ctx.seller.id, input.leadId));
+    }),
+
+  updateStatus: sellerProcedure
+    .input(z.object({
+      leadId,
+      status: z.enum(LEAD_STATUSES),
+      note: z.string().max(2000).optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return withLeadErrors(() => sellerCRM.updateStatus(ctx.seller.id, input.leadId, input.status, input.note));
+    }),
+
+  addNote: sellerProcedure
+    .input(z.object({ leadId, body: z.string().min(1).max(2000) }))
+    .mutation(async ({ ctx, input }) => {
+      return withLeadErrors(() => sellerCRM.addNote(ctx.seller.id, input.leadId, input.body));
+    }),
+
+  // Remind me about this lead at `at`; null clears the reminder
+  setFollowUp: sellerProcedure
+    .input(z.object({ leadId, at: z.coerce.date().nullable() }))
+    .mutation(async ({ ctx, input }) => {
+      return withLeadErrors(() => sellerCRM.setFollowUp(ctx.seller.id, input.leadId, input.at));
+    }),
+
+  // The order this lead became; marks the lead converted
+  linkOrder: sellerProcedure
+    .input(z.object({ leadId, orderId: z.number().int().positive() }))
+    .mutation(async ({ ctx, input }) => {
+      return withLeadErrors(() => sellerCRM.linkOrder(ctx.seller.id, input.leadId, input.orderId));
+    }),
+
+  // The lead behind a WhatsApp chat reference (e.g. "WA7QX4M2")
+  byReference: sellerProcedure
+    .input(z.object({ referenceCode }))
+    .query(async ({ ctx, input }) => {
+      return withLeadErrors(() => sellerCRM.getLeadByReference(ctx.seller.id, input.referenceCode));
+    }),
+
+  // Sale closed on WhatsApp: converts the lead and records the purchase for analytics
+  markSold: sellerProcedure
+    .input(z.object({
+      referenceCode,
+      amount: z.number().int().positive().optional(), // Whole KES; defaults to the listed price
+      orderId: z.number().int().positive().optional(),
+    }))
+    .mutation(async ({ ctx, input }) => {
+      return withLeadErrors(() =>
+        whatsAppAttribution.markSold(ctx.seller.id, input.referenceCode, { amount: input.amount, orderId: input.orderId })
+      );
+    }),
+});
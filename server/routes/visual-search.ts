@@ -0,0 +1,45 @@
+/**
+ * Visual Search API
+ *
+ * POST /api/search/photo - search the catalog with a camera photo. The body
+ * is the raw image (Content-Type image/jpeg, image/png, ...), held in memory
+ * only. Optional query params: categoryId, minPrice, maxPrice (whole KES), limit.
+ */
+
+import express from "express";
+import { z } from "zod";
+import { MAX_PHOTO_BYTES, VisualSearchError, visualSearch } from "../services/visual-search";
+
+const router = express.Router();
+
+const photoQuery = z.object({
+  categoryId: z.coerce.number().int().positive().optional(),
+  minPrice: z.coerce.number().int().min(0).optional(),
+  maxPrice: z.coerce.number().int().min(0).optional(),
+  limit: z.coerce.number().int().min(1).max(40).default(20),
+});
+
+router.post("/photo", express.raw({ type: "image/*", limit: MAX_PHOTO_BYTES }), async (req: any, res: any) => {
+  const query = photoQuery.safeParse(req.query);
+  if (!query.success) {
+    return res.status(400).json({ error: "Invalid filters", details: query.error.issues });
+  }
+  if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+    return res.status(400).json({ error: "Send the photo as the request body with an image/* Content-Type" });
+  }
+
+  try {
+    const { limit, ...filters } = query.data;
+    const results = await visualSearch.searchByPhoto(req.body, filters, limit);
+    res.setHeader("Cache-Control", "no-store");
+    res.json({ results });
+  } catch (error) {
+    if (error instanceof VisualSearchError) {
+      return res.status(error.code === "INVALID_IMAGE" ? 422 : 503).json({ error: error.message });
+    }
+    console.error("[VisualSearch] Error searching by photo:", error);
+    res.status(500).json({ error: "Failed to search by photo" });
+  }
+});
+
+export default router;
@@ -0,0 +1,32 @@
+/**
+ * WhatsApp Chat Redirect
+ *
+ * GET /go/wa/:token - the product page's chat button. Records the chat
+ * start as a lead with a reference code, then redirects to WhatsApp with
+ * the prefilled message (see services/whatsapp-attribution.ts).
+ */
+
+import express from "express";
+import { trafficContext } from "../services/traffic-quality";
+import { ChatLinkError, whatsAppAttribution } from "../services/whatsapp-attribution";
+
+const router = express.Router();
+
+router.get("/wa/:token", async (req: any, res: any) => {
+  try {
+    const chat = await whatsAppAttribution.openChat(req.params.token, trafficContext(req));
+
+    // Every open is a fresh lead lookup, and the token shouldn't leak to WhatsApp
+    res.setHeader("Cache-Control", "no-store");
+    res.setHeader("Referrer-Policy", "no-referrer");
+    res.redirect(302, chat.url);
+  } catch (error) {
+    if (error instanceof ChatLinkError) {
+      return res.status(404).send("This chat link is invalid or the product is no longer available.");
+    }
+    console.error("[WhatsApp] Error opening chat:", error);
+    res.status(500).send("Failed to open WhatsApp chat");
+  }
+});
+
+export default router;
@@ -0,0 +1,63 @@
+/**
+ * Price Amount Backfill Script
+ *
+ * products.priceAmount is written by every path that creates or updates a
+ * product, but rows stored before the column existed have it NULL and drop
+ * out of price filters and price sorting. This parses their display price
+ * ("KES 4,500", "1.5k") with parsePriceAmount and fills the column in batches.
+ * Prices without an amount ("Contact for Price") stay NULL. Safe to re-run.
+ *
+ * Usage: pnpm db:backfill-prices
+ */
+
+import "dotenv/config";
+import { and, asc, eq, gt, isNotNull, isNull } from "drizzle-orm";
+import { getDb } from "../db";
+import { products } from "../../drizzle/schema";
+import { parsePriceAmount } from "../services/price-normalizer";
+
+const BATCH_SIZE = 500;
+
+async function backfillPriceAmounts(): Promise<{ scanned: number; updated: number }> {
+  const db = await getDb();
+  if (!db) {
+    throw new Error("Database not available (is DATABASE_URL set?)");
+  }
+
+  let scanned = 0;
+  let updated = 0;
+  let lastId = 0;
+
+  for (;;) {
+    const batch: Array<{ id: number; price: string | null }> = await db
+      .select({ id: products.id, price: products.price })
+      .from(products)
+      .where(and(isNull(products.priceAmount), isNotNull(products.price), gt(products.id, lastId)))
+      .orderBy(asc(products.id))
+      .limit(BATCH_SIZE);
+    if (batch.length === 0) break;
+
+    for (const row of batch) {
+      const priceAmount = parsePriceAmount(row.price);
+      if (priceAmount === null) continue;
+      await db.update(products).set({ priceAmount }).where(eq(products.id, row.id));
+      updated++;
+    }
+
+    scanned += batch.length;
+    lastId = batch[batch.length - 1].id;
+    console.log(`[Backfill] ${scanned} products scanned, ${updated} priced`);
+  }
+
+  return { scanned, updated };
+}
+
+backfillPriceAmounts()
+  .then(({ scanned, updated }) => {
+    console.log(`✅ priceAmount backfilled for ${updated} of ${scanned} products (the rest have no amount)`);
+    process.exit(0);
+  })
+  .catch(error => {
+    console.error("❌ priceAmount backfill failed:", error);
+    process.exit(1);
+  });
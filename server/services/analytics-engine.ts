@@ -2,14 +2,18 @@
  * Analytics Engine - PhD-Level Commercial Dashboard Backend
  * 
  * Implements a sophisticated real-time analytics system for tracking:
- * - Click-Through Rates (CTR) by product, category, and time window
+ * - Click-Through Rates (CTR) from viewport impressions, by product, list and position
  * - Conversion funnels and user journey tracking
  * - Seller performance metrics with cohort analysis
  * - Time-series aggregation for trend detection
  * - Anomaly detection using statistical methods
+ * - Daily forecasts with weekly seasonality and payday effects (see forecasting.ts)
  */
 
 import { RealSigLIPEmbeddings } from "./siglip-real";
+import { analyticsEvents, type AnalyticsEventService } from "./analytics-event-store";
+import type { RollupBucket } from "./analytics-rollups";
+import { backtestSeries, forecastSeries, type BacktestResult, type ForecastLevel } from "./forecasting";
 
 export interface ClickEvent {
   id: string;
@@ -18,12 +22,37 @@ export interface ClickEvent {
   userId: string;
   timestamp: Date;
   source: "search" | "recommendation" | "category" | "homepage" | "watchlist";
+  position?: number; // 0-based slot in the list, when the client reports it
   sessionId: string;
   referrer?: string;
   deviceType: "mobile" | "desktop" | "tablet";
   userAgent: string;
 }
 
+export interface ImpressionEvent {
+  id: string;
+  productId: string;
+  sellerId: string;
+  userId: string;
+  sessionId: string;
+  timestamp: Date;
+  source: ClickEvent["source"]; // List type
+  position: number;
+  query?: string;
+  deviceType: ClickEvent["deviceType"];
+}
+
+export interface InteractionEvent {
+  id: string;
+  productId: string;
+  sellerId: string;
+  userId: string;
+  sessionId: string;
+  timestamp: Date;
+  kind: "product_view" | "watchlist_add" | "whatsapp_start";
+  deviceType: ClickEvent["deviceType"];
+}
+
 export interface ConversionEvent {
   id: string;
   productId: string;
@@ -33,6 +62,7 @@ export interface ConversionEvent {
   amount: number;
   currency: string;
   conversionType: "whatsapp_click" | "purchase" | "inquiry";
+  sessionId?: string;
 }
 
 export interface SellerMetrics {
@@ -41,10 +71,10 @@ export interface SellerMetrics {
   totalConversions: number;
   conversionRate: number;
   averageOrderValue: number;
-  ctr: number; // Click-Through Rate
+  ctr: number; // Click-Through Rate: clicks / impressions
   impressions: number;
   revenue: number;
-  topProducts: Array<{ productId: string; clicks: number; conversions: number }>;
+  topProducts: Array<{ productId: string; impressions: number; clicks: number; conversions: number; ctr: number }>;
   trafficSources: Record<string, number>;
   deviceBreakdown: Record<string, number>;
   timeSeriesData: Array<{ timestamp: Date; clicks: number; conversions: number; revenue: number }>;
@@ -61,10 +91,43 @@ export interface CohortMetrics {
   lifetimeValue: number;
 }
 
+export type TimeWindow = "day" | "week" | "month";
+
+export interface CtrRow {
+  key: string;
+  impressions: number;
+  clicks: number;
+  ctr: number;
+}
+
+export interface CtrBreakdown {
+  byProduct: CtrRow[];
+  byList: CtrRow[];
+  byPosition: CtrRow[]; // 1-based slots, deeper positions grouped
+}
+
+export type DailyHistory = Array<{ timestamp: Date; clicks: number; conversions: number; revenue: number }>;
+
+export interface MetricsForecast {
+  timestamp: Date;
+  predictedClicks: number;
+  predictedConversions: number;
+  conversionsLower: number;
+  conversionsUpper: number;
+  predictedRevenue: number;
+  revenueLower: number;
+  revenueUpper: number;
+}
+
+export interface ForecastBacktest extends Omit<BacktestResult, "windows"> {
+  windows: Array<BacktestResult["windows"][number] & { from: Date }>;
+}
+
 export interface ProductMetrics {
   productId: string;
   clicks: number;
   conversions: number;
+  impressions: number;
   ctr: number;
   averageTimeOnPage: number; // seconds
   bounceRate: number;
@@ -79,6 +142,53 @@ export class AnalyticsEngine {
   private static readonly ANOMALY_THRESHOLD = 2.5; // Standard deviations
   private static readonly MIN_SAMPLE_SIZE = 30; // Minimum events for statistical significance
 
+  /**
+   * Seller metrics for a time window, read from the event store
+   */
+  static async getSellerMetrics(
+    sellerId: number,
+    timeWindow: TimeWindow = "week",
+    events: AnalyticsEventService = analyticsEvents
+  ): Promise<SellerMetrics> {
+    const { from, to } = this.windowRange(timeWindow);
+    const { impressions, clicks, conversions } = await events.getEvents({ sellerId, from, to });
+    return this.computeSellerMetrics(String(sellerId), clicks, conversions, timeWindow, impressions);
+  }
+
+  /**
+   * CTR by product, list and position for a seller, read from the event store
+   */
+  static async getCtrBreakdown(
+    sellerId: number,
+    timeWindow: TimeWindow = "week",
+    events: AnalyticsEventService = analyticsEvents
+  ): Promise<CtrBreakdown> {
+    const { from, to } = this.windowRange(timeWindow);
+    const { impressions, clicks } = await events.getEvents({ sellerId, from, to });
+    return this.computeCtrBreakdown(impressions, clicks);
+  }
+
+  /**
+   * Product metrics for a time window, read from the event store
+   */
+  static async getProductMetrics(
+    productId: number,
+    embedding: number[],
+    timeWindow: TimeWindow = "month",
+    events: AnalyticsEventService = analyticsEvents
+  ): Promise<ProductMetrics> {
+    const { from, to } = this.windowRange(timeWindow);
+    const { impressions, clicks, conversions } = await events.getEvents({ productId, from, to });
+    return this.computeProductMetrics(String(productId), clicks, conversions, embedding, impressions);
+  }
+
+  /**
+   * [from, to) covering the last day/week/month
+   */
+  static windowRange(timeWindow: TimeWindow, now: Date = new Date()): { from: Date; to: Date } {
+    return { from: new Date(now.getTime() - this.getWindowMs(timeWindow)), to: now };
+  }
+
   /**
    * Compute seller metrics from click and conversion events
    * Uses time-windowed aggregation and statistical analysis
@@ -87,7 +197,8 @@ export class AnalyticsEngine {
     sellerId: string,
     clickEvents: ClickEvent[],
     conversionEvents: ConversionEvent[],
-    timeWindow: "day" | "week" | "month" = "week"
+    timeWindow: TimeWindow = "week",
+    impressionEvents: ImpressionEvent[] = []
   ): Promise<SellerMetrics> {
     console.log(`[Analytics] Computing metrics for seller ${sellerId} (window: ${timeWindow})`);
 
@@ -98,6 +209,7 @@ export class AnalyticsEngine {
     // Filter events within time window
     const windowedClicks = clickEvents.filter((e) => e.timestamp >= windowStart);
     const windowedConversions = conversionEvents.filter((e) => e.timestamp >= windowStart);
+    const windowedImpressions = impressionEvents.filter((e) => e.timestamp >= windowStart);
 
     // Basic metrics
     const totalClicks = windowedClicks.length;
@@ -105,31 +217,24 @@ export class AnalyticsEngine {
     const conversionRate = totalClicks > 0 ? totalConversions / totalClicks : 0;
     const revenue = windowedConversions.reduce((sum, e) => sum + e.amount, 0);
 
-    // Impressions: Estimate from unique sessions
-    const uniqueSessions = new Set(windowedClicks.map((e) => e.sessionId)).size;
-    const impressions = Math.max(uniqueSessions * 5, totalClicks); // Assume 5 products per session
+    // Impressions: cards actually seen, deduped per session by the event store
+    const impressions = windowedImpressions.length;
 
-    // CTR: Conversions per impression
-    const ctr = impressions > 0 ? totalConversions / impressions : 0;
+    // CTR: Clicks per impression
+    const ctr = impressions > 0 ? totalClicks / impressions : 0;
 
     // Top products by clicks
-    const productClicks = new Map<string, { clicks: number; conversions: number }>();
-    for (const click of windowedClicks) {
-      const current = productClicks.get(click.productId) || { clicks: 0, conversions: 0 };
-      current.clicks++;
-      productClicks.set(click.productId, current);
-    }
-
-    for (const conv of windowedConversions) {
-      const current = productClicks.get(conv.productId) || { clicks: 0, conversions: 0 };
-      current.conversions++;
-      productClicks.set(conv.productId, current);
-    }
+    const productClicks = new Map<string, { impressions: number; clicks: number; conversions: number }>();
+    const productEntry = (productId: string) => {
+      const current = productClicks.get(productId) || { impressions: 0, clicks: 0, conversions: 0 };
+      productClicks.set(productId, current);
+      return current;
+    };
+    for (const impression of windowedImpressions) productEntry(impression.productId).impressions++;
+    for (const click of windowedClicks) productEntry(click.productId).clicks++;
+    for (const conv of windowedConversions) productEntry(conv.productId).conversions++;
 
-    const topProducts = Array.from(productClicks.entries())
-      .map(([productId, { clicks, conversions }]) => ({ productId, clicks, conversions }))
-      .sort((a, b) => b.clicks - a.clicks)
-      .slice(0, 10);
+    const topProducts = this.rankProducts(productClicks);
 
     // Traffic sources breakdown
     const trafficSources = this.aggregateByField(windowedClicks, "source");
@@ -170,6 +275,74 @@ export class AnalyticsEngine {
     };
   }
 
+  /**
+   * Seller metrics from pre-aggregated hourly buckets (see analytics-rollups.ts).
+   * productId 0 rows are the seller totals; the rest feed topProducts.
+   * Cohorts need per-user events and are left empty here.
+   */
+  static metricsFromBuckets(sellerId: string, buckets: RollupBucket[], timeWindow: TimeWindow = "week"): SellerMetrics {
+    console.log(`[Analytics] Computing metrics for seller ${sellerId} from ${buckets.length} buckets (window: ${timeWindow})`);
+
+    const series = new Map<number, { clicks: number; conversions: number; revenue: number }>();
+    const productTotals = new Map<string, { impressions: number; clicks: number; conversions: number }>();
+    const trafficSources: Record<string, number> = {};
+    const deviceBreakdown: Record<string, number> = {};
+    let impressions = 0;
+
+    for (const bucket of buckets) {
+      if (bucket.productId !== 0) {
+        const key = String(bucket.productId);
+        const current = productTotals.get(key) || { impressions: 0, clicks: 0, conversions: 0 };
+        current.impressions += bucket.impressions;
+        current.clicks += bucket.clicks;
+        current.conversions += bucket.conversions;
+        productTotals.set(key, current);
+        continue;
+      }
+
+      const key = bucket.bucketStart.getTime();
+      const point = series.get(key) || { clicks: 0, conversions: 0, revenue: 0 };
+      point.clicks += bucket.clicks;
+      point.conversions += bucket.conversions;
+      point.revenue += bucket.revenue;
+      series.set(key, point);
+
+      impressions += bucket.impressions;
+      for (const [source, n] of Object.entries(bucket.sourceBreakdown)) {
+        trafficSources[source] = (trafficSources[source] || 0) + n;
+      }
+      for (const [device, n] of Object.entries(bucket.deviceBreakdown)) {
+        deviceBreakdown[device] = (deviceBreakdown[device] || 0) + n;
+      }
+    }
+
+    const timeSeriesData = Array.from(series.entries())
+      .map(([key, data]) => ({ timestamp: new Date(key), ...data }))
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    const totalClicks = timeSeriesData.reduce((sum, p) => sum + p.clicks, 0);
+    const totalConversions = timeSeriesData.reduce((sum, p) => sum + p.conversions, 0);
+    const revenue = timeSeriesData.reduce((sum, p) => sum + p.revenue, 0);
+    const topProducts = this.rankProducts(productTotals);
+
+    return {
+      sellerId,
+      totalClicks,
+      totalConversions,
+      conversionRate: totalClicks > 0 ? totalConversions / totalClicks : 0,
+      averageOrderValue: totalConversions > 0 ? revenue / totalConversions : 0,
+      ctr: impressions > 0 ? totalClicks / impressions : 0,
+      impressions,
+      revenue,
+      topProducts,
+      trafficSources,
+      deviceBreakdown,
+      timeSeriesData,
+      cohortAnalysis: new Map(),
+      anomalyScore: this.scoreHourlyCounts(timeSeriesData.filter((p) => p.clicks > 0).map((p) => p.clicks)),
+    };
+  }
+
   /**
    * Compute product-level metrics
    */
@@ -177,14 +350,16 @@ export class AnalyticsEngine {
     productId: string,
     clickEvents: ClickEvent[],
     conversionEvents: ConversionEvent[],
-    embedding: number[]
+    embedding: number[],
+    impressionEvents: ImpressionEvent[] = []
   ): Promise<ProductMetrics> {
     const productClicks = clickEvents.filter((e) => e.productId === productId);
     const productConversions = conversionEvents.filter((e) => e.productId === productId);
+    const impressions = impressionEvents.filter((e) => e.productId === productId).length;
 
     const clicks = productClicks.length;
     const conversions = productConversions.length;
-    const ctr = clicks > 0 ? conversions / clicks : 0;
+    const ctr = impressions > 0 ? clicks / impressions : 0;
 
     // Estimate average time on page (mock: 30-120 seconds based on CTR)
     const averageTimeOnPage = 30 + ctr * 90;
@@ -204,6 +379,7 @@ export class AnalyticsEngine {
       productId,
       clicks,
       conversions,
+      impressions,
       ctr,
       averageTimeOnPage,
       bounceRate,
@@ -212,6 +388,65 @@ export class AnalyticsEngine {
     };
   }
 
+  /**
+   * CTR from real impressions, by product, by list type and by position.
+   * Clicks are attributed to a position only when the client reported one.
+   */
+  static computeCtrBreakdown(impressionEvents: ImpressionEvent[], clickEvents: ClickEvent[]): CtrBreakdown {
+    const tally = (
+      impressionKey: (e: ImpressionEvent) => string,
+      clickKey: (e: ClickEvent) => string | null
+    ): Map<string, CtrRow> => {
+      const rows = new Map<string, CtrRow>();
+      const row = (key: string) => {
+        const current = rows.get(key) || { key, impressions: 0, clicks: 0, ctr: 0 };
+        rows.set(key, current);
+        return current;
+      };
+      for (const impression of impressionEvents) row(impressionKey(impression)).impressions++;
+      for (const click of clickEvents) {
+        const key = clickKey(click);
+        if (key !== null) row(key).clicks++;
+      }
+      for (const current of rows.values()) {
+        current.ctr = current.impressions > 0 ? current.clicks / current.impressions : 0;
+      }
+      return rows;
+    };
+
+    const byProduct = Array.from(tally((e) => e.productId, (e) => e.productId).values())
+      .sort((a, b) => b.impressions - a.impressions || b.clicks - a.clicks)
+      .slice(0, 50);
+    const byList = Array.from(tally((e) => e.source, (e) => e.source).values()).sort((a, b) => b.impressions - a.impressions);
+    const byPosition = Array.from(
+      tally((e) => this.positionBucket(e.position), (e) => (e.position === undefined ? null : this.positionBucket(e.position))).values()
+    ).sort((a, b) => parseInt(a.key, 10) - parseInt(b.key, 10));
+
+    return { byProduct, byList, byPosition };
+  }
+
+  /**
+   * 1-based position label: the first 20 slots individually, then ranges
+   */
+  private static positionBucket(position: number): string {
+    if (position < 20) return String(position + 1);
+    if (position < 40) return "21-40";
+    if (position < 100) return "41-100";
+    return "101+";
+  }
+
+  /**
+   * Top 10 products by clicks, with CTR from their impressions
+   */
+  private static rankProducts(
+    totals: Map<string, { impressions: number; clicks: number; conversions: number }>
+  ): SellerMetrics["topProducts"] {
+    return Array.from(totals.entries())
+      .map(([productId, t]) => ({ productId, ...t, ctr: t.impressions > 0 ? t.clicks / t.impressions : 0 }))
+      .sort((a, b) => b.clicks - a.clicks)
+      .slice(0, 10);
+  }
+
   /**
    * Detect anomalies using statistical methods
    * Returns anomaly score (0-1, higher = more anomalous)
@@ -220,10 +455,6 @@ export class AnalyticsEngine {
     clickEvents: ClickEvent[],
     conversionEvents: ConversionEvent[]
   ): number {
-    if (clickEvents.length < this.MIN_SAMPLE_SIZE) {
-      return 0; // Not enough data
-    }
-
     // Compute hourly click rates
     const hourlyClicks = new Map<number, number>();
     for (const click of clickEvents) {
@@ -231,8 +462,19 @@ export class AnalyticsEngine {
       hourlyClicks.set(hour, (hourlyClicks.get(hour) || 0) + 1);
     }
 
-    const clickRates = Array.from(hourlyClicks.values());
-    const mean = clickRates.reduce((a, b) => a + b, 0) / clickRates.length;
+    return this.scoreHourlyCounts(Array.from(hourlyClicks.values()));
+  }
+
+  /**
+   * Share of hours whose click count is an outlier (0-1)
+   */
+  private static scoreHourlyCounts(clickRates: number[]): number {
+    const total = clickRates.reduce((a, b) => a + b, 0);
+    if (total < this.MIN_SAMPLE_SIZE) {
+      return 0; // Not enough data
+    }
+
+    const mean = total / clickRates.length;
     const variance = clickRates.reduce((sum, rate) => sum + Math.pow(rate - mean, 2), 0) / clickRates.length;
     const stdDev = Math.sqrt(variance);
 
@@ -402,7 +644,7 @@ export class AnalyticsEngine {
   /**
    * Get window in milliseconds
    */
-  private static getWindowMs(timeWindow: "day" | "week" | "month"): number {
+  private static getWindowMs(timeWindow: TimeWindow): number {
     const windows: Record<string, number> = {
       day: 24 * 60 * 60 * 1000,
       week: 7 * 24 * 60 * 60 * 1000,
@@ -412,42 +654,66 @@ export class AnalyticsEngine {
   }
 
   /**
-   * Predict future performance using exponential smoothing
+   * Forecast daily clicks, conversions and revenue with Holt-Winters (weekly
+   * season plus payday uplift), with prediction intervals at `level`
    */
   static predictFutureMetrics(
-    historicalData: Array<{ timestamp: Date; clicks: number; conversions: number; revenue: number }>,
+    historicalData: DailyHistory,
     daysAhead: number = 7,
-    alpha: number = 0.3
-  ): Array<{ timestamp: Date; predictedClicks: number; predictedConversions: number; predictedRevenue: number }> {
-    if (historicalData.length < 2) {
+    level: ForecastLevel = 0.95
+  ): MetricsForecast[] {
+    const history = this.trimLeadingIdleDays(historicalData);
+    if (history.length < 2) {
       return [];
     }
 
-    const predictions: Array<{ timestamp: Date; predictedClicks: number; predictedConversions: number; predictedRevenue: number }> = [];
+    const dates = history.map(d => d.timestamp);
+    const clicks = forecastSeries(history.map(d => d.clicks), dates, daysAhead, level).points;
+    const conversions = forecastSeries(history.map(d => d.conversions), dates, daysAhead, level).points;
+    const revenue = forecastSeries(history.map(d => d.revenue), dates, daysAhead, level).points;
+    if (revenue.length === 0) {
+      return [];
+    }
 
-    // Exponential smoothing for each metric
-    let smoothedClicks = historicalData[0].clicks;
-    let smoothedConversions = historicalData[0].conversions;
-    let smoothedRevenue = historicalData[0].revenue;
+    const lastDate = dates[dates.length - 1];
+    const money = (value: number) => Math.round(value * 100) / 100;
+    return revenue.map((r, i) => ({
+      timestamp: new Date(lastDate.getTime() + (i + 1) * 24 * 60 * 60 * 1000),
+      predictedClicks: Math.round(clicks[i].value),
+      predictedConversions: Math.round(conversions[i].value),
+      conversionsLower: Math.floor(conversions[i].lower),
+      conversionsUpper: Math.ceil(conversions[i].upper),
+      predictedRevenue: money(r.value),
+      revenueLower: money(r.lower),
+      revenueUpper: money(r.upper),
+    }));
+  }
 
-    for (const data of historicalData.slice(1)) {
-      smoothedClicks = alpha * data.clicks + (1 - alpha) * smoothedClicks;
-      smoothedConversions = alpha * data.conversions + (1 - alpha) * smoothedConversions;
-      smoothedRevenue = alpha * data.revenue + (1 - alpha) * smoothedRevenue;
-    }
+  /**
+   * Rolling backtest of the revenue and conversion forecasts (MAPE per window)
+   */
+  static backtestForecast(
+    historicalData: DailyHistory,
+    options: { horizon?: number; windows?: number } = {}
+  ): { revenue: ForecastBacktest; conversions: ForecastBacktest } {
+    const history = this.trimLeadingIdleDays(historicalData);
+    const dates = history.map(d => d.timestamp);
+    const withDates = (result: BacktestResult): ForecastBacktest => ({
+      ...result,
+      windows: result.windows.map(w => ({ ...w, from: dates[w.origin] })),
+    });
 
-    // Generate predictions
-    const lastDate = historicalData[historicalData.length - 1].timestamp;
-    for (let i = 1; i <= daysAhead; i++) {
-      const timestamp = new Date(lastDate.getTime() + i * 24 * 60 * 60 * 1000);
-      predictions.push({
-        timestamp,
-        predictedClicks: Math.round(smoothedClicks),
-        predictedConversions: Math.round(smoothedConversions),
-        predictedRevenue: Math.round(smoothedRevenue * 100) / 100,
-      });
-    }
+    return {
+      revenue: withDates(backtestSeries(history.map(d => d.revenue), dates, options)),
+      conversions: withDates(backtestSeries(history.map(d => d.conversions), dates, options)),
+    };
+  }
 
-    return predictions;
+  /**
+   * Days before the seller's first activity carry no signal and would flatten the season
+   */
+  private static trimLeadingIdleDays(history: DailyHistory): DailyHistory {
+    const first = history.findIndex(d => d.clicks > 0 || d.conversions > 0 || d.revenue > 0);
+    return first === -1 ? [] : history.slice(first);
   }
 }
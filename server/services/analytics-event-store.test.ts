@@ -0,0 +1,206 @@
+import { describe, expect, it } from "vitest";
+import type {
+  AnalyticsClickEvent,
+  AnalyticsConversionEvent,
+  AnalyticsImpressionEvent,
+  AnalyticsInteractionEvent,
+  InsertAnalyticsClickEvent,
+  InsertAnalyticsConversionEvent,
+  InsertAnalyticsImpressionEvent,
+  InsertAnalyticsInteractionEvent,
+} from "../../drizzle/schema";
+import { AnalyticsEngine } from "./analytics-engine";
+import { AnalyticsEventService, eventTime, type AnalyticsEventStore, type EventQuery } from "./analytics-event-store";
+
+class MemoryEventStore implements AnalyticsEventStore {
+  clicks: AnalyticsClickEvent[] = [];
+  conversions: AnalyticsConversionEvent[] = [];
+  impressions: AnalyticsImpressionEvent[] = [];
+  interactions: AnalyticsInteractionEvent[] = [];
+
+  async appendClicks(rows: InsertAnalyticsClickEvent[]) {
+    for (const row of rows) {
+      if (this.clicks.some(c => c.eventId === row.eventId)) continue;
+      this.clicks.push({ ...row, id: this.clicks.length + 1, receivedAt: new Date() } as AnalyticsClickEvent);
+    }
+  }
+
+  async appendConversions(rows: InsertAnalyticsConversionEvent[]) {
+    for (const row of rows) {
+      if (this.conversions.some(c => c.eventId === row.eventId)) continue;
+      this.conversions.push({ ...row, id: this.conversions.length + 1, receivedAt: new Date() } as AnalyticsConversionEvent);
+    }
+  }
+
+  async appendImpressions(rows: InsertAnalyticsImpressionEvent[]) {
+    for (const row of rows) {
+      if (this.impressions.some(c => c.eventId === row.eventId)) continue;
+      this.impressions.push({ ...row, id: this.impressions.length + 1, receivedAt: new Date() } as AnalyticsImpressionEvent);
+    }
+  }
+
+  async appendInteractions(rows: InsertAnalyticsInteractionEvent[]) {
+    for (const row of rows) {
+      if (this.interactions.some(c => c.eventId === row.eventId)) continue;
+      this.interactions.push({ ...row, id: this.interactions.length + 1, receivedAt: new Date() } as AnalyticsInteractionEvent);
+    }
+  }
+
+  private matches(event: { sellerId: number; productId: number; occurredAt: Date }, query: EventQuery) {
+    return (
+      event.occurredAt >= query.from &&
+      event.occurredAt < query.to &&
+      (query.sellerId === undefined || event.sellerId === query.sellerId) &&
+      (query.productId === undefined || event.productId === query.productId)
+    );
+  }
+
+  async getClicks(query: EventQuery) {
+    return this.clicks.filter(e => this.matches(e, query));
+  }
+
+  async getConversions(query: EventQuery) {
+    return this.conversions.filter(e => this.matches(e, query));
+  }
+
+  async getImpressions(query: EventQuery) {
+    return this.impressions.filter(e => this.matches(e, query));
+  }
+
+  async getInteractions(query: EventQuery) {
+    return this.interactions.filter(e => this.matches(e, query));
+  }
+
+  async countEvents() {
+    return {
+      impressions: this.impressions.length,
+      interactions: this.interactions.length,
+      clicks: this.clicks.length,
+      conversions: this.conversions.length,
+    };
+  }
+
+  async deleteBefore(cutoff: Date) {
+    const before = await this.countEvents();
+    this.impressions = this.impressions.filter(e => e.occurredAt >= cutoff);
+    this.interactions = this.interactions.filter(e => e.occurredAt >= cutoff);
+    this.clicks = this.clicks.filter(e => e.occurredAt >= cutoff);
+    this.conversions = this.conversions.filter(e => e.occurredAt >= cutoff);
+    return {
+      impressions: before.impressions - this.impressions.length,
+      interactions: before.interactions - this.interactions.length,
+      clicks: before.clicks - this.clicks.length,
+      conversions: before.conversions - this.conversions.length,
+    };
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+function setup() {
+  const store = new MemoryEventStore();
+  const service = new AnalyticsEventService({
+    store,
+    retention: { rawRetentionDays: 30, hourlyRollupRetentionDays: 7, dailyRollupRetentionDays: 365 },
+    maxBatchSize: 10,
+  });
+  return { store, service };
+}
+
+describe("AnalyticsEventService", () => {
+  it("stores valid beacons from a batch, reports invalid ones and ignores retried event IDs", async () => {
+    const { store, service } = setup();
+    const now = new Date();
+    const batch = [
+      { type: "click", eventId: "evt-click-0001", productId: 10, sellerId: 1, userId: "u1", source: "search" },
+      { type: "click", eventId: "evt-click-0002", productId: "11", sellerId: "1", userId: "u2" },
+      { type: "conversion", eventId: "evt-conv-0001", productId: 10, sellerId: 1, userId: "u1", amount: 1499.6 },
+      { type: "click", productId: 10, userId: "u3" },
+      { type: "pageview", productId: 10, sellerId: 1, userId: "u3" },
+    ];
+
+    const result = await service.ingestBatch(batch, now);
+    expect(result).toMatchObject({ accepted: 3, rejected: 2 });
+    expect(result.errors.map(e => e.index)).toEqual([3, 4]);
+    expect(store.clicks[1]).toMatchObject({ productId: 11, source: "homepage", deviceType: "mobile" });
+    expect(store.conversions[0]).toMatchObject({ amount: 1500, currency: "KES", conversionType: "whatsapp_click" });
+
+    await service.ingestBatch(batch.slice(0, 3), now);
+    expect(await service.countEvents()).toEqual({ impressions: 0, interactions: 0, clicks: 2, conversions: 1 });
+
+    await expect(service.ingestBatch(new Array(11).fill(batch[0]), now)).rejects.toThrow(/Batch too large/);
+  });
+
+  it("trusts client timestamps only within the allowed skew", () => {
+    const now = new Date("2026-03-01T12:00:00Z");
+    const recent = new Date(now.getTime() - 10 * 60 * 1000);
+    expect(eventTime(recent, now)).toBe(recent);
+    expect(eventTime(new Date(now.getTime() + HOUR), now)).toBe(now);
+    expect(eventTime(new Date(now.getTime() - 2 * DAY), now)).toBe(now);
+    expect(eventTime(undefined, now)).toBe(now);
+  });
+
+  it("feeds the engine only the requested window and purges past retention", async () => {
+    const { store, service } = setup();
+    const now = new Date(Date.now() - 1000);
+    await service.trackClick({ productId: 10, sellerId: 1, userId: "u1", source: "search", deviceType: "desktop" }, now);
+    await service.trackClick({ productId: 12, sellerId: 2, userId: "u2", source: "search", deviceType: "mobile" }, now);
+    await service.trackConversion({ productId: 10, sellerId: 1, userId: "u1", amount: 800, currency: "KES", conversionType: "purchase" }, now);
+
+    // Backdate one old click for seller 1
+    await service.trackClick({ productId: 10, sellerId: 1, userId: "u9", source: "homepage", deviceType: "mobile" }, now);
+    store.clicks[store.clicks.length - 1].occurredAt = new Date(now.getTime() - 40 * DAY);
+
+    const metrics = await AnalyticsEngine.getSellerMetrics(1, "week", service);
+    expect(metrics).toMatchObject({ sellerId: "1", totalClicks: 1, totalConversions: 1, revenue: 800 });
+    expect(metrics.deviceBreakdown).toEqual({ desktop: 1 });
+
+    expect(await service.purgeExpired(now)).toEqual({ impressions: 0, interactions: 0, clicks: 1, conversions: 0 });
+    expect(await service.countEvents()).toEqual({ impressions: 0, interactions: 0, clicks: 2, conversions: 1 });
+  });
+
+  it("dedupes impressions per session and computes CTR by product, list and position", async () => {
+    const { store, service } = setup();
+    const now = new Date(Date.now() - 1000);
+    const seen = (sessionId: string, productId: number, position: number, source = "homepage", query?: string) =>
+      ({ type: "impression", productId, sellerId: 1, userId: sessionId, sessionId, source, position, query });
+
+    await service.ingestBatch(
+      [
+        seen("s1", 10, 0),
+        seen("s1", 11, 1),
+        seen("s1", 10, 0), // Same card seen again in the session
+        seen("s1", 10, 3, "search", "Sneakers"),
+        seen("s1", 10, 5, "search", " sneakers "), // Same query
+        seen("s2", 10, 0),
+        { type: "impression", productId: 10, sellerId: 1, userId: "s3", source: "homepage", position: 0 },
+      ],
+      now
+    );
+    expect(store.impressions).toHaveLength(4);
+
+    await service.ingestBatch(
+      [
+        { type: "click", productId: 10, sellerId: 1, userId: "s1", sessionId: "s1", source: "homepage", position: 0 },
+        { type: "click", productId: 10, sellerId: 1, userId: "s1", sessionId: "s1", source: "search", position: 3 },
+      ],
+      now
+    );
+
+    const metrics = await AnalyticsEngine.getSellerMetrics(1, "week", service);
+    expect(metrics).toMatchObject({ impressions: 4, totalClicks: 2, ctr: 0.5 });
+    expect(metrics.topProducts[0]).toEqual({ productId: "10", impressions: 3, clicks: 2, conversions: 0, ctr: 2 / 3 });
+
+    const breakdown = await AnalyticsEngine.getCtrBreakdown(1, "week", service);
+    expect(breakdown.byList).toEqual([
+      { key: "homepage", impressions: 3, clicks: 1, ctr: 1 / 3 },
+      { key: "search", impressions: 1, clicks: 1, ctr: 1 },
+    ]);
+    expect(breakdown.byPosition.map(r => [r.key, r.impressions, r.clicks])).toEqual([
+      ["1", 2, 1],
+      ["2", 1, 0],
+      ["4", 1, 1],
+    ]);
+  });
+});
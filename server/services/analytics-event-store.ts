@@ -0,0 +1,622 @@
+import { createHash, randomUUID } from "node:crypto";
+import { and, count, eq, gte, isNull, lt } from "drizzle-orm";
+import { z } from "zod";
+import { getDb } from "../db";
+import {
+  analyticsClickEvents,
+  analyticsConversionEvents,
+  analyticsImpressionEvents,
+  analyticsInteractionEvents,
+  type AnalyticsClickEvent,
+  type AnalyticsConversionEvent,
+  type AnalyticsImpressionEvent,
+  type AnalyticsInteractionEvent,
+  type InsertAnalyticsClickEvent,
+  type InsertAnalyticsConversionEvent,
+  type InsertAnalyticsImpressionEvent,
+  type InsertAnalyticsInteractionEvent,
+} from "../../drizzle/schema";
+import { ENV } from "../_core/env";
+import type { ClickEvent, ConversionEvent, ImpressionEvent, InteractionEvent } from "./analytics-engine";
+import { flagsColumn, trafficQuality, type ScreenedEvent, type TrafficContext, type TrafficQualityFilter } from "./traffic-quality";
+
+/**
+ * Analytics Event Store
+ *
+ * Durable, append-only storage for analytics impressions, clicks and
+ * conversions (one table per event type), replacing the in-memory arrays the
+ * analytics routes used to keep. Beacons arrive one at a time or in batches;
+ * each carries a client-generated eventId so a retried batch is stored once.
+ * Impressions instead get an ID derived from (session, list, query, product),
+ * which dedupes repeat views of a card within a session. Interactions (product
+ * page views, watchlist adds, WhatsApp chat starts) feed the funnel engine. Reads are always
+ * bounded by a time window so they hit the (sellerId|productId, occurredAt)
+ * indexes. Raw events older than the retention policy are purged daily.
+ * Events that arrive with a request context are screened by the traffic
+ * quality filter; flagged ones are stored but left out of reads by default.
+ */
+
+export const CLICK_SOURCES = analyticsClickEvents.source.enumValues;
+export const DEVICE_TYPES = analyticsClickEvents.deviceType.enumValues;
+export const CONVERSION_TYPES = analyticsConversionEvents.conversionType.enumValues;
+export const INTERACTION_KINDS = analyticsInteractionEvents.kind.enumValues;
+
+/** Client clocks are trusted within this skew; anything else is stamped with server time */
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+/** Oldest client timestamp accepted; rollups re-aggregate this far back to pick up late events */
+export const MAX_EVENT_AGE_MS = 24 * 60 * 60 * 1000;
+const INSERT_CHUNK_SIZE = 200;
+
+const entityId = z.coerce.number().int().positive();
+const listPosition = z.coerce.number().int().min(0).max(10_000);
+
+export const clickBeaconSchema = z.object({
+  type: z.literal("click"),
+  eventId: z.string().min(8).max(64).optional(),
+  productId: entityId,
+  sellerId: entityId,
+  userId: z.string().min(1).max(64),
+  sessionId: z.string().min(1).max(64).optional(),
+  source: z.enum(CLICK_SOURCES).default("homepage"),
+  position: listPosition.optional(),
+  deviceType: z.enum(DEVICE_TYPES).default("mobile"),
+  referrer: z.string().max(512).optional(),
+  userAgent: z.string().max(512).optional(),
+  timestamp: z.coerce.date().optional(),
+});
+
+export const conversionBeaconSchema = z.object({
+  type: z.literal("conversion"),
+  eventId: z.string().min(8).max(64).optional(),
+  productId: entityId,
+  sellerId: entityId,
+  userId: z.string().min(1).max(64),
+  sessionId: z.string().min(1).max(64).optional(),
+  amount: z.coerce.number().positive(),
+  currency: z.string().length(3).default("KES"),
+  conversionType: z.enum(CONVERSION_TYPES).default("whatsapp_click"),
+  timestamp: z.coerce.date().optional(),
+});
+
+export const impressionBeaconSchema = z.object({
+  type: z.literal("impression"),
+  productId: entityId,
+  sellerId: entityId,
+  userId: z.string().min(1).max(64),
+  sessionId: z.string().min(1).max(64),
+  source: z.enum(CLICK_SOURCES),
+  position: listPosition,
+  query: z.string().max(255).optional(),
+  deviceType: z.enum(DEVICE_TYPES).default("mobile"),
+  timestamp: z.coerce.date().optional(),
+});
+
+export const interactionBeaconSchema = z.object({
+  type: z.literal("interaction"),
+  eventId: z.string().min(8).max(64).optional(),
+  productId: entityId,
+  sellerId: entityId,
+  userId: z.string().min(1).max(64),
+  sessionId: z.string().min(1).max(64),
+  kind: z.enum(INTERACTION_KINDS),
+  deviceType: z.enum(DEVICE_TYPES).default("mobile"),
+  timestamp: z.coerce.date().optional(),
+});
+
+export const beaconSchema = z.discriminatedUnion("type", [
+  clickBeaconSchema,
+  conversionBeaconSchema,
+  impressionBeaconSchema,
+  interactionBeaconSchema,
+]);
+
+export type ClickBeacon = z.infer<typeof clickBeaconSchema>;
+export type ConversionBeacon = z.infer<typeof conversionBeaconSchema>;
+export type ImpressionBeacon = z.infer<typeof impressionBeaconSchema>;
+export type InteractionBeacon = z.infer<typeof interactionBeaconSchema>;
+export type Beacon = z.infer<typeof beaconSchema>;
+
+export interface RetentionPolicy {
+  rawRetentionDays: number;
+  hourlyRollupRetentionDays: number;
+  dailyRollupRetentionDays: number;
+}
+
+export function retentionPolicyFromEnv(): RetentionPolicy {
+  return {
+    rawRetentionDays: ENV.analyticsRawRetentionDays,
+    hourlyRollupRetentionDays: ENV.analyticsHourlyRollupRetentionDays,
+    dailyRollupRetentionDays: ENV.analyticsDailyRollupRetentionDays,
+  };
+}
+
+/**
+ * When an event happened: the client timestamp if it is plausible, else now
+ */
+export function eventTime(clientTime: Date | undefined, now: Date): Date {
+  if (!clientTime || Number.isNaN(clientTime.getTime())) return now;
+  const age = now.getTime() - clientTime.getTime();
+  return age < -MAX_CLOCK_SKEW_MS || age > MAX_EVENT_AGE_MS ? now : clientTime;
+}
+
+export function toClickRow(beacon: ClickBeacon, now: Date): InsertAnalyticsClickEvent {
+  return {
+    eventId: beacon.eventId ?? randomUUID(),
+    productId: beacon.productId,
+    sellerId: beacon.sellerId,
+    userId: beacon.userId,
+    sessionId: beacon.sessionId ?? `session_${beacon.userId}`,
+    source: beacon.source,
+    position: beacon.position ?? null,
+    deviceType: beacon.deviceType,
+    referrer: beacon.referrer ?? null,
+    userAgent: beacon.userAgent ?? null,
+    occurredAt: eventTime(beacon.timestamp, now),
+  };
+}
+
+export function toConversionRow(beacon: ConversionBeacon, now: Date): InsertAnalyticsConversionEvent {
+  return {
+    eventId: beacon.eventId ?? randomUUID(),
+    productId: beacon.productId,
+    sellerId: beacon.sellerId,
+    userId: beacon.userId,
+    sessionId: beacon.sessionId ?? null,
+    amount: Math.round(beacon.amount),
+    currency: beacon.currency.toUpperCase(),
+    conversionType: beacon.conversionType,
+    occurredAt: eventTime(beacon.timestamp, now),
+  };
+}
+
+/**
+ * One impression per product per list (and query) per session
+ */
+export function impressionEventId(beacon: Pick<ImpressionBeacon, "sessionId" | "source" | "query" | "productId">): string {
+  const key = [beacon.sessionId, beacon.source, beacon.query?.trim().toLowerCase() ?? "", beacon.productId].join("|");
+  return createHash("sha256").update(key).digest("hex");
+}
+
+export function toImpressionRow(beacon: ImpressionBeacon, now: Date): InsertAnalyticsImpressionEvent {
+  const query = beacon.query?.trim();
+  return {
+    eventId: impressionEventId(beacon),
+    productId: beacon.productId,
+    sellerId: beacon.sellerId,
+    userId: beacon.userId,
+    sessionId: beacon.sessionId,
+    source: beacon.source,
+    position: beacon.position,
+    query: query ? query : null,
+    deviceType: beacon.deviceType,
+    occurredAt: eventTime(beacon.timestamp, now),
+  };
+}
+
+export function toInteractionRow(beacon: InteractionBeacon, now: Date): InsertAnalyticsInteractionEvent {
+  return {
+    eventId: beacon.eventId ?? randomUUID(),
+    productId: beacon.productId,
+    sellerId: beacon.sellerId,
+    userId: beacon.userId,
+    sessionId: beacon.sessionId,
+    kind: beacon.kind,
+    deviceType: beacon.deviceType,
+    occurredAt: eventTime(beacon.timestamp, now),
+  };
+}
+
+/**
+ * Stored rows in the shape AnalyticsEngine works with
+ */
+export function toClickEvent(row: AnalyticsClickEvent): ClickEvent {
+  return {
+    id: row.eventId,
+    productId: String(row.productId),
+    sellerId: String(row.sellerId),
+    userId: row.userId,
+    timestamp: new Date(row.occurredAt),
+    source: row.source,
+    position: row.position ?? undefined,
+    sessionId: row.sessionId,
+    referrer: row.referrer ?? undefined,
+    deviceType: row.deviceType,
+    userAgent: row.userAgent ?? "unknown",
+  };
+}
+
+export function toConversionEvent(row: AnalyticsConversionEvent): ConversionEvent {
+  return {
+    id: row.eventId,
+    productId: String(row.productId),
+    sellerId: String(row.sellerId),
+    userId: row.userId,
+    timestamp: new Date(row.occurredAt),
+    amount: row.amount,
+    currency: row.currency,
+    conversionType: row.conversionType,
+    sessionId: row.sessionId ?? undefined,
+  };
+}
+
+export function toImpressionEvent(row: AnalyticsImpressionEvent): ImpressionEvent {
+  return {
+    id: row.eventId,
+    productId: String(row.productId),
+    sellerId: String(row.sellerId),
+    userId: row.userId,
+    sessionId: row.sessionId,
+    timestamp: new Date(row.occurredAt),
+    source: row.source,
+    position: row.position,
+    query: row.query ?? undefined,
+    deviceType: row.deviceType,
+  };
+}
+
+export function toInteractionEvent(row: AnalyticsInteractionEvent): InteractionEvent {
+  return {
+    id: row.eventId,
+    productId: String(row.productId),
+    sellerId: String(row.sellerId),
+    userId: row.userId,
+    sessionId: row.sessionId,
+    timestamp: new Date(row.occurredAt),
+    kind: row.kind,
+    deviceType: row.deviceType,
+  };
+}
+
+export interface EventCounts {
+  impressions: number;
+  interactions: number;
+  clicks: number;
+  conversions: number;
+}
+
+export interface EventQuery {
+  sellerId?: number;
+  productId?: number;
+  from: Date;
+  to: Date; // Exclusive
+  includeFlagged?: boolean; // Bot/fraud-flagged events are excluded unless set
+}
+
+/**
+ * Persistence used by AnalyticsEventService (drizzle-backed by default)
+ */
+export interface AnalyticsEventStore {
+  appendClicks(rows: InsertAnalyticsClickEvent[]): Promise<void>;
+  appendConversions(rows: InsertAnalyticsConversionEvent[]): Promise<void>;
+  appendImpressions(rows: InsertAnalyticsImpressionEvent[]): Promise<void>;
+  appendInteractions(rows: InsertAnalyticsInteractionEvent[]): Promise<void>;
+  getClicks(query: EventQuery): Promise<AnalyticsClickEvent[]>;
+  getConversions(query: EventQuery): Promise<AnalyticsConversionEvent[]>;
+  getImpressions(query: EventQuery): Promise<AnalyticsImpressionEvent[]>;
+  getInteractions(query: EventQuery): Promise<AnalyticsInteractionEvent[]>;
+  countEvents(): Promise<EventCounts>;
+  deleteBefore(cutoff: Date): Promise<EventCounts>;
+}
+
+export class DrizzleAnalyticsEventStore implements AnalyticsEventStore {
+  private async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db;
+  }
+
+  async appendClicks(rows: InsertAnalyticsClickEvent[]): Promise<void> {
+    const db = await this.db();
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      // Duplicate eventIds (retried beacons) are ignored
+      await db
+        .insert(analyticsClickEvents)
+        .values(rows.slice(i, i + INSERT_CHUNK_SIZE))
+        .onDuplicateKeyUpdate({ set: { eventId: analyticsClickEvents.eventId } });
+    }
+  }
+
+  async appendConversions(rows: InsertAnalyticsConversionEvent[]): Promise<void> {
+    const db = await this.db();
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      await db
+        .insert(analyticsConversionEvents)
+        .values(rows.slice(i, i + INSERT_CHUNK_SIZE))
+        .onDuplicateKeyUpdate({ set: { eventId: analyticsConversionEvents.eventId } });
+    }
+  }
+
+  async appendImpressions(rows: InsertAnalyticsImpressionEvent[]): Promise<void> {
+    const db = await this.db();
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      // A repeat impression in the same session keeps the first one
+      await db
+        .insert(analyticsImpressionEvents)
+        .values(rows.slice(i, i + INSERT_CHUNK_SIZE))
+        .onDuplicateKeyUpdate({ set: { eventId: analyticsImpressionEvents.eventId } });
+    }
+  }
+
+  async appendInteractions(rows: InsertAnalyticsInteractionEvent[]): Promise<void> {
+    const db = await this.db();
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+      await db
+        .insert(analyticsInteractionEvents)
+        .values(rows.slice(i, i + INSERT_CHUNK_SIZE))
+        .onDuplicateKeyUpdate({ set: { eventId: analyticsInteractionEvents.eventId } });
+    }
+  }
+
+  async getClicks(query: EventQuery): Promise<AnalyticsClickEvent[]> {
+    const db = await this.db();
+    const conditions = [gte(analyticsClickEvents.occurredAt, query.from), lt(analyticsClickEvents.occurredAt, query.to)];
+    if (query.sellerId !== undefined) conditions.push(eq(analyticsClickEvents.sellerId, query.sellerId));
+    if (query.productId !== undefined) conditions.push(eq(analyticsClickEvents.productId, query.productId));
+    if (!query.includeFlagged) conditions.push(isNull(analyticsClickEvents.flags));
+
+    return db
+      .select()
+      .from(analyticsClickEvents)
+      .where(and(...conditions))
+      .orderBy(analyticsClickEvents.occurredAt);
+  }
+
+  async getConversions(query: EventQuery): Promise<AnalyticsConversionEvent[]> {
+    const db = await this.db();
+    const conditions = [
+      gte(analyticsConversionEvents.occurredAt, query.from),
+      lt(analyticsConversionEvents.occurredAt, query.to),
+    ];
+    if (query.sellerId !== undefined) conditions.push(eq(analyticsConversionEvents.sellerId, query.sellerId));
+    if (query.productId !== undefined) conditions.push(eq(analyticsConversionEvents.productId, query.productId));
+    if (!query.includeFlagged) conditions.push(isNull(analyticsConversionEvents.flags));
+
+    return db
+      .select()
+      .from(analyticsConversionEvents)
+      .where(and(...conditions))
+      .orderBy(analyticsConversionEvents.occurredAt);
+  }
+
+  async getImpressions(query: EventQuery): Promise<AnalyticsImpressionEvent[]> {
+    const db = await this.db();
+    const conditions = [
+      gte(analyticsImpressionEvents.occurredAt, query.from),
+      lt(analyticsImpressionEvents.occurredAt, query.to),
+    ];
+    if (query.sellerId !== undefined) conditions.push(eq(analyticsImpressionEvents.sellerId, query.sellerId));
+    if (query.productId !== undefined) conditions.push(eq(analyticsImpressionEvents.productId, query.productId));
+    if (!query.includeFlagged) conditions.push(isNull(analyticsImpressionEvents.flags));
+
+    return db
+      .select()
+      .from(analyticsImpressionEvents)
+      .where(and(...conditions))
+      .orderBy(analyticsImpressionEvents.occurredAt);
+  }
+
+  async getInteractions(query: EventQuery): Promise<AnalyticsInteractionEvent[]> {
+    const db = await this.db();
+    const conditions = [
+      gte(analyticsInteractionEvents.occurredAt, query.from),
+      lt(analyticsInteractionEvents.occurredAt, query.to),
+    ];
+    if (query.sellerId !== undefined) conditions.push(eq(analyticsInteractionEvents.sellerId, query.sellerId));
+    if (query.productId !== undefined) conditions.push(eq(analyticsInteractionEvents.productId, query.productId));
+    if (!query.includeFlagged) conditions.push(isNull(analyticsInteractionEvents.flags));
+
+    return db
+      .select()
+      .from(analyticsInteractionEvents)
+      .where(and(...conditions))
+      .orderBy(analyticsInteractionEvents.occurredAt);
+  }
+
+  async countEvents(): Promise<EventCounts> {
+    const db = await this.db();
+    const [[impressions], [interactions], [clicks], [conversions]] = await Promise.all([
+      db.select({ value: count() }).from(analyticsImpressionEvents),
+      db.select({ value: count() }).from(analyticsInteractionEvents),
+      db.select({ value: count() }).from(analyticsClickEvents),
+      db.select({ value: count() }).from(analyticsConversionEvents),
+    ]);
+    return {
+      impressions: impressions.value,
+      interactions: interactions.value,
+      clicks: clicks.value,
+      conversions: conversions.value,
+    };
+  }
+
+  async deleteBefore(cutoff: Date): Promise<EventCounts> {
+    const db = await this.db();
+    const [impressions] = await db
+      .delete(analyticsImpressionEvents)
+      .where(lt(analyticsImpressionEvents.occurredAt, cutoff));
+    const [interactions] = await db
+      .delete(analyticsInteractionEvents)
+      .where(lt(analyticsInteractionEvents.occurredAt, cutoff));
+    const [clicks] = await db.delete(analyticsClickEvents).where(lt(analyticsClickEvents.occurredAt, cutoff));
+    const [conversions] = await db
+      .delete(analyticsConversionEvents)
+      .where(lt(analyticsConversionEvents.occurredAt, cutoff));
+    return {
+      impressions: impressions?.affectedRows ?? 0,
+      interactions: interactions?.affectedRows ?? 0,
+      clicks: clicks?.affectedRows ?? 0,
+      conversions: conversions?.affectedRows ?? 0,
+    };
+  }
+}
+
+export interface EventSet {
+  impressions: ImpressionEvent[];
+  interactions: InteractionEvent[];
+  clicks: ClickEvent[];
+  conversions: ConversionEvent[];
+}
+
+export interface IngestResult {
+  accepted: number;
+  rejected: number;
+  errors: Array<{ index: number; message: string }>;
+}
+
+interface ScreenedRow {
+  type: ScreenedEvent["type"];
+  row: {
+    userId: string;
+    sessionId?: string | null;
+    occurredAt: Date;
+    flags?: string | null;
+  };
+}
+
+export interface AnalyticsEventServiceOptions {
+  store?: AnalyticsEventStore;
+  quality?: TrafficQualityFilter;
+  retention?: RetentionPolicy;
+  maxBatchSize?: number;
+}
+
+export class AnalyticsEventService {
+  private store: AnalyticsEventStore;
+  private quality: TrafficQualityFilter;
+  readonly retention: RetentionPolicy;
+  readonly maxBatchSize: number;
+
+  constructor(options: AnalyticsEventServiceOptions = {}) {
+    this.store = options.store ?? new DrizzleAnalyticsEventStore();
+    this.quality = options.quality ?? trafficQuality;
+    this.retention = options.retention ?? retentionPolicyFromEnv();
+    this.maxBatchSize = options.maxBatchSize ?? ENV.analyticsBatchMaxEvents;
+  }
+
+  async trackClick(beacon: Omit<ClickBeacon, "type">, now: Date = new Date(), context?: TrafficContext): Promise<string> {
+    const row = toClickRow(clickBeaconSchema.parse({ ...beacon, type: "click" }), now);
+    if (context) this.screen([{ type: "click", row }], context, now);
+    await this.store.appendClicks([row]);
+    return row.eventId;
+  }
+
+  async trackConversion(
+    beacon: Omit<ConversionBeacon, "type">,
+    now: Date = new Date(),
+    context?: TrafficContext
+  ): Promise<string> {
+    const row = toConversionRow(conversionBeaconSchema.parse({ ...beacon, type: "conversion" }), now);
+    if (context) this.screen([{ type: "conversion", row }], context, now);
+    await this.store.appendConversions([row]);
+    return row.eventId;
+  }
+
+  /**
+   * Validate and store a batch of beacons. Invalid events are reported and
+   * skipped; the valid ones are written in one insert per event type. With a
+   * request context, each event is screened and flagged before it's stored.
+   */
+  async ingestBatch(events: unknown[], now: Date = new Date(), context?: TrafficContext): Promise<IngestResult> {
+    if (events.length > this.maxBatchSize) {
+      throw new Error(`Batch too large: ${events.length} events (max ${this.maxBatchSize})`);
+    }
+
+    const clicks: InsertAnalyticsClickEvent[] = [];
+    const conversions: InsertAnalyticsConversionEvent[] = [];
+    const impressions: InsertAnalyticsImpressionEvent[] = [];
+    const interactions: InsertAnalyticsInteractionEvent[] = [];
+    const errors: IngestResult["errors"] = [];
+    const screened: ScreenedRow[] = [];
+
+    events.forEach((event, index) => {
+      const parsed = beaconSchema.safeParse(event);
+      if (!parsed.success) {
+        errors.push({ index, message: parsed.error.issues[0]?.message ?? "Invalid event" });
+      } else if (parsed.data.type === "click") {
+        const row = toClickRow(parsed.data, now);
+        clicks.push(row);
+        screened.push({ type: "click", row });
+      } else if (parsed.data.type === "conversion") {
+        const row = toConversionRow(parsed.data, now);
+        conversions.push(row);
+        screened.push({ type: "conversion", row });
+      } else if (parsed.data.type === "impression") {
+        const row = toImpressionRow(parsed.data, now);
+        impressions.push(row);
+        screened.push({ type: "impression", row });
+      } else {
+        const row = toInteractionRow(parsed.data, now);
+        interactions.push(row);
+        screened.push({ type: "interaction", row });
+      }
+    });
+
+    if (context) this.screen(screened, context, now);
+
+    if (impressions.length > 0) await this.store.appendImpressions(impressions);
+    if (interactions.length > 0) await this.store.appendInteractions(interactions);
+    if (clicks.length > 0) await this.store.appendClicks(clicks);
+    if (conversions.length > 0) await this.store.appendConversions(conversions);
+
+    const accepted = impressions.length + interactions.length + clicks.length + conversions.length;
+    return { accepted, rejected: errors.length, errors };
+  }
+
+  /**
+   * Set each row's flags from the traffic quality filter, in arrival order
+   */
+  private screen(rows: ScreenedRow[], context: TrafficContext, now: Date): void {
+    const flags = this.quality.assess(
+      rows.map(({ type, row }) => ({
+        type,
+        userId: row.userId,
+        sessionId: row.sessionId ?? row.userId,
+        occurredAt: row.occurredAt,
+      })),
+      context,
+      now
+    );
+    rows.forEach(({ row }, i) => {
+      row.flags = flagsColumn(flags[i]);
+    });
+  }
+
+  /**
+   * Events in [from, to) for a seller or a product, in AnalyticsEngine's shape
+   */
+  async getEvents(query: EventQuery): Promise<EventSet> {
+    const [impressions, interactions, clicks, conversions] = await Promise.all([
+      this.store.getImpressions(query),
+      this.store.getInteractions(query),
+      this.store.getClicks(query),
+      this.store.getConversions(query),
+    ]);
+    return {
+      impressions: impressions.map(toImpressionEvent),
+      interactions: interactions.map(toInteractionEvent),
+      clicks: clicks.map(toClickEvent),
+      conversions: conversions.map(toConversionEvent),
+    };
+  }
+
+  async countEvents(): Promise<EventCounts> {
+    return this.store.countEvents();
+  }
+
+  /**
+   * Drop raw events past the retention window
+   */
+  async purgeExpired(now: Date = new Date()): Promise<EventCounts> {
+    const cutoff = new Date(now.getTime() - this.retention.rawRetentionDays * 24 * 60 * 60 * 1000);
+    const purged = await this.store.deleteBefore(cutoff);
+    if (purged.impressions + purged.interactions + purged.clicks + purged.conversions > 0) {
+      console.log(
+        `[Analytics] Purged ${purged.impressions} impressions, ${purged.interactions} interactions, ${purged.clicks} clicks and ${purged.conversions} conversions before ${cutoff.toISOString()}`
+      );
+    }
+    return purged;
+  }
+}
+
+export const analyticsEvents = new AnalyticsEventService();
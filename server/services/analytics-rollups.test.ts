@@ -0,0 +1,207 @@
+import { describe, expect, it } from "vitest";
+import type {
+  AnalyticsClickEvent,
+  AnalyticsConversionEvent,
+  AnalyticsImpressionEvent,
+  AnalyticsInteractionEvent,
+} from "../../drizzle/schema";
+import { AnalyticsEngine, type ClickEvent, type ConversionEvent, type ImpressionEvent } from "./analytics-engine";
+import { AnalyticsEventService, type AnalyticsEventStore, type EventQuery } from "./analytics-event-store";
+import {
+  aggregateEvents,
+  AnalyticsRollupService,
+  type BucketQuery,
+  type RollupBucket,
+  type RollupGranularity,
+  type RollupStore,
+} from "./analytics-rollups";
+
+class MemoryEventStore implements AnalyticsEventStore {
+  clicks: AnalyticsClickEvent[] = [];
+  conversions: AnalyticsConversionEvent[] = [];
+  impressions: AnalyticsImpressionEvent[] = [];
+  interactions: AnalyticsInteractionEvent[] = [];
+
+  async appendClicks(rows: any[]) {
+    this.clicks.push(...rows.map((row, i) => ({ ...row, id: this.clicks.length + i + 1, receivedAt: new Date() })));
+  }
+
+  async appendConversions(rows: any[]) {
+    this.conversions.push(...rows.map((row, i) => ({ ...row, id: this.conversions.length + i + 1, receivedAt: new Date() })));
+  }
+
+  async appendImpressions(rows: any[]) {
+    this.impressions.push(...rows.map((row, i) => ({ ...row, id: this.impressions.length + i + 1, receivedAt: new Date() })));
+  }
+
+  async appendInteractions(rows: any[]) {
+    this.interactions.push(...rows.map((row, i) => ({ ...row, id: this.interactions.length + i + 1, receivedAt: new Date() })));
+  }
+
+  private matches(event: { sellerId: number; occurredAt: Date }, query: EventQuery) {
+    return (
+      event.occurredAt >= query.from &&
+      event.occurredAt < query.to &&
+      (query.sellerId === undefined || event.sellerId === query.sellerId)
+    );
+  }
+
+  async getClicks(query: EventQuery) {
+    return this.clicks.filter(e => this.matches(e, query));
+  }
+
+  async getConversions(query: EventQuery) {
+    return this.conversions.filter(e => this.matches(e, query));
+  }
+
+  async getImpressions(query: EventQuery) {
+    return this.impressions.filter(e => this.matches(e, query));
+  }
+
+  async getInteractions(query: EventQuery) {
+    return this.interactions.filter(e => this.matches(e, query));
+  }
+
+  async countEvents() {
+    return {
+      impressions: this.impressions.length,
+      interactions: this.interactions.length,
+      clicks: this.clicks.length,
+      conversions: this.conversions.length,
+    };
+  }
+
+  async deleteBefore() {
+    return { impressions: 0, interactions: 0, clicks: 0, conversions: 0 };
+  }
+}
+
+class MemoryRollupStore implements RollupStore {
+  cursor: Date | null = null;
+  buckets: RollupBucket[] = [];
+
+  async getCursor() {
+    return this.cursor;
+  }
+
+  async setCursor(position: Date) {
+    this.cursor = position;
+  }
+
+  async replaceBuckets(granularity: RollupGranularity, from: Date, to: Date, buckets: RollupBucket[]) {
+    this.buckets = this.buckets.filter(
+      b => b.granularity !== granularity || b.bucketStart < from || b.bucketStart >= to
+    );
+    this.buckets.push(...buckets);
+  }
+
+  async getBuckets(query: BucketQuery) {
+    return this.buckets.filter(
+      b =>
+        b.granularity === query.granularity &&
+        (query.sellerId === undefined || b.sellerId === query.sellerId) &&
+        (query.productId === undefined || b.productId === query.productId) &&
+        b.bucketStart >= query.from &&
+        b.bucketStart < query.to
+    );
+  }
+
+  async deleteBefore(granularity: RollupGranularity, cutoff: Date) {
+    const before = this.buckets.length;
+    this.buckets = this.buckets.filter(b => b.granularity !== granularity || b.bucketStart >= cutoff);
+    return before - this.buckets.length;
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+const retention = { rawRetentionDays: 90, hourlyRollupRetentionDays: 35, dailyRollupRetentionDays: 730 };
+
+function setup() {
+  const eventStore = new MemoryEventStore();
+  const rollupStore = new MemoryRollupStore();
+  const events = new AnalyticsEventService({ store: eventStore, retention });
+  const rollups = new AnalyticsRollupService({ store: rollupStore, events, retention });
+  return { eventStore, rollupStore, events, rollups };
+}
+
+function click(productId: number, sessionId: string, at: string, deviceType: ClickEvent["deviceType"] = "mobile") {
+  return { productId, sellerId: 1, userId: sessionId, sessionId, source: "search" as const, deviceType, timestamp: new Date(at) };
+}
+
+describe("analytics rollups", () => {
+  it("aggregates events into seller-total and per-product buckets", () => {
+    const clicks: ClickEvent[] = [
+      { id: "c1", productId: "10", sellerId: "1", userId: "u1", timestamp: new Date("2026-03-01T10:05:00Z"), source: "search", sessionId: "s1", deviceType: "mobile", userAgent: "ua" },
+      { id: "c2", productId: "11", sellerId: "1", userId: "u1", timestamp: new Date("2026-03-01T10:40:00Z"), source: "homepage", sessionId: "s1", deviceType: "mobile", userAgent: "ua" },
+      { id: "c3", productId: "10", sellerId: "1", userId: "u2", timestamp: new Date("2026-03-01T11:01:00Z"), source: "search", sessionId: "s2", deviceType: "desktop", userAgent: "ua" },
+    ];
+    const conversions: ConversionEvent[] = [
+      { id: "v1", productId: "10", sellerId: "1", userId: "u3", timestamp: new Date("2026-03-01T10:50:00Z"), amount: 500, currency: "KES", conversionType: "purchase", sessionId: "s3" },
+    ];
+
+    const impressions: ImpressionEvent[] = [
+      { id: "i1", productId: "10", sellerId: "1", userId: "u4", sessionId: "s4", timestamp: new Date("2026-03-01T10:01:00Z"), source: "search", position: 0, deviceType: "mobile" },
+    ];
+
+    const hourly = aggregateEvents({ impressions, clicks, conversions }, "hour");
+    const total10 = hourly.find(b => b.productId === 0 && b.bucketStart.toISOString() === "2026-03-01T10:00:00.000Z");
+    expect(total10).toMatchObject({
+      impressions: 1,
+      clicks: 2,
+      conversions: 1,
+      revenue: 500,
+      uniqueSessions: 3,
+      deviceBreakdown: { mobile: 2 },
+      sourceBreakdown: { search: 1, homepage: 1 },
+    });
+    expect(hourly.filter(b => b.productId === 10).map(b => b.clicks)).toEqual([1, 1]);
+
+    const daily = aggregateEvents({ clicks, conversions }, "day");
+    expect(daily.find(b => b.productId === 0)).toMatchObject({ impressions: 0, clicks: 3, conversions: 1, uniqueSessions: 3 });
+  });
+
+  it("answers from rollups plus the open hour, picks up late events and backfills", async () => {
+    const { eventStore, rollupStore, events, rollups } = setup();
+    const runAt = new Date("2026-03-02T00:05:00Z");
+
+    await events.trackClick(click(10, "s1", "2026-03-01T20:10:00Z", "desktop"), runAt);
+    await events.trackClick(click(11, "s2", "2026-03-01T21:30:00Z"), runAt);
+    await events.trackConversion({ productId: 10, sellerId: 1, userId: "s1", sessionId: "s1", amount: 900, currency: "KES", conversionType: "purchase", timestamp: new Date("2026-03-01T20:20:00Z") }, runAt);
+
+    const first = await rollups.rollUp(runAt);
+    expect(first.to.toISOString()).toBe("2026-03-02T00:00:00.000Z");
+    expect(first.dayBuckets).toBeGreaterThan(0);
+    expect(rollupStore.cursor).toEqual(first.to);
+
+    // A click in the open hour and a late beacon for an hour already rolled up
+    const readAt = new Date("2026-03-02T00:30:00Z");
+    await events.trackClick(click(10, "s3", "2026-03-02T00:20:00Z"), readAt);
+    await events.trackClick(click(11, "s4", "2026-03-01T21:45:00Z"), readAt);
+
+    const metrics = await rollups.getSellerMetrics(1, "day", readAt);
+    expect(metrics).toMatchObject({ totalClicks: 3, totalConversions: 1, revenue: 900 });
+    expect(metrics.topProducts[0]).toMatchObject({ productId: "10", clicks: 2, conversions: 1 });
+
+    const second = await rollups.rollUp(new Date("2026-03-02T01:05:00Z"));
+    expect(second.from.toISOString()).toBe("2026-03-01T00:00:00.000Z");
+    const afterRun = await rollups.getSellerMetrics(1, "day", new Date("2026-03-02T01:10:00Z"));
+    expect(afterRun.totalClicks).toBe(4);
+
+    // Both paths agree with computing from raw events directly
+    const raw = await events.getEvents({ sellerId: 1, from: new Date("2026-03-01T00:00:00Z"), to: new Date("2026-03-02T01:00:00Z") });
+    const fromBuckets = AnalyticsEngine.metricsFromBuckets("1", aggregateEvents(raw, "hour"));
+    expect(afterRun).toMatchObject({ totalClicks: fromBuckets.totalClicks, revenue: fromBuckets.revenue, deviceBreakdown: fromBuckets.deviceBreakdown });
+
+    expect(await rollups.getDailySeries(1, 2, new Date("2026-03-02T01:10:00Z"))).toEqual([
+      { timestamp: new Date("2026-02-28T00:00:00Z"), impressions: 0, clicks: 0, conversions: 0, revenue: 0 },
+      { timestamp: new Date("2026-03-01T00:00:00Z"), impressions: 0, clicks: 3, conversions: 1, revenue: 900 },
+    ]);
+
+    // Rebuilding from scratch gives the same buckets
+    const before = rollupStore.buckets.filter(b => b.bucketStart < new Date("2026-03-02T00:00:00Z")).length;
+    rollupStore.buckets = [];
+    await rollups.backfill(new Date("2026-03-01T00:00:00Z"), new Date("2026-03-01T23:59:00Z"), new Date("2026-03-02T01:10:00Z"));
+    expect(rollupStore.buckets).toHaveLength(before);
+    expect(eventStore.clicks).toHaveLength(4);
+  });
+});
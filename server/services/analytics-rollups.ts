@@ -0,0 +1,408 @@
+import { and, asc, eq, gte, lt } from "drizzle-orm";
+import { getDb } from "../db";
+import { analyticsRollups, jobCursors, type InsertAnalyticsRollup } from "../../drizzle/schema";
+import { AnalyticsEngine, type SellerMetrics, type TimeWindow } from "./analytics-engine";
+import {
+  analyticsEvents,
+  MAX_EVENT_AGE_MS,
+  retentionPolicyFromEnv,
+  type AnalyticsEventService,
+  type EventSet,
+  type RetentionPolicy,
+} from "./analytics-event-store";
+
+/**
+ * Analytics Rollups
+ *
+ * Hourly and daily aggregates per seller (productId 0) and per product, built
+ * from the raw event store so dashboard reads don't scan every event. A job
+ * cursor marks the end of the last rolled-up hour; each run re-aggregates the
+ * previous MAX_EVENT_AGE_MS as well, since beacons can arrive that late.
+ * Buckets are replaced wholesale, so re-running a range (or a backfill) is
+ * idempotent. Reads take closed hours from the rollups and only touch raw
+ * events for the open hour and anything the job hasn't reached yet.
+ */
+
+export const ROLLUP_GRANULARITIES = analyticsRollups.granularity.enumValues;
+export type RollupGranularity = (typeof ROLLUP_GRANULARITIES)[number];
+
+const ROLLUP_CURSOR = "analytics_rollups";
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const INSERT_CHUNK_SIZE = 500;
+
+export interface RollupBucket {
+  granularity: RollupGranularity;
+  bucketStart: Date;
+  sellerId: number;
+  productId: number; // 0 = all products of the seller
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  revenue: number;
+  uniqueSessions: number;
+  deviceBreakdown: Record<string, number>;
+  sourceBreakdown: Record<string, number>;
+}
+
+export interface DailyPoint {
+  timestamp: Date;
+  impressions: number;
+  clicks: number;
+  conversions: number;
+  revenue: number;
+}
+
+/**
+ * Start of the UTC hour/day containing a time
+ */
+export function bucketStart(time: Date, granularity: RollupGranularity): Date {
+  const size = granularity === "hour" ? HOUR_MS : DAY_MS;
+  return new Date(Math.floor(time.getTime() / size) * size);
+}
+
+function bucketCeil(time: Date, granularity: RollupGranularity): Date {
+  const start = bucketStart(time, granularity);
+  if (start.getTime() === time.getTime()) return start;
+  return new Date(start.getTime() + (granularity === "hour" ? HOUR_MS : DAY_MS));
+}
+
+/**
+ * Aggregate raw events into buckets: one seller-total row (productId 0) and
+ * one row per product for every bucket with activity. Sessions come from
+ * impressions, clicks and conversions that carry one; breakdowns count clicks.
+ */
+export function aggregateEvents(
+  { impressions = [], clicks, conversions }: Pick<EventSet, "clicks" | "conversions"> & Partial<Pick<EventSet, "impressions">>,
+  granularity: RollupGranularity
+): RollupBucket[] {
+  const buckets = new Map<string, RollupBucket & { sessions: Set<string> }>();
+
+  const bucketsFor = (sellerId: string, productId: string, time: Date) => {
+    const start = bucketStart(time, granularity);
+    return [0, Number(productId)].map((pid) => {
+      const key = `${start.getTime()}:${sellerId}:${pid}`;
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = {
+          granularity,
+          bucketStart: start,
+          sellerId: Number(sellerId),
+          productId: pid,
+          impressions: 0,
+          clicks: 0,
+          conversions: 0,
+          revenue: 0,
+          uniqueSessions: 0,
+          deviceBreakdown: {},
+          sourceBreakdown: {},
+          sessions: new Set(),
+        };
+        buckets.set(key, bucket);
+      }
+      return bucket;
+    });
+  };
+
+  for (const impression of impressions) {
+    for (const bucket of bucketsFor(impression.sellerId, impression.productId, impression.timestamp)) {
+      bucket.impressions++;
+      bucket.sessions.add(impression.sessionId);
+    }
+  }
+
+  for (const click of clicks) {
+    for (const bucket of bucketsFor(click.sellerId, click.productId, click.timestamp)) {
+      bucket.clicks++;
+      bucket.sessions.add(click.sessionId);
+      bucket.deviceBreakdown[click.deviceType] = (bucket.deviceBreakdown[click.deviceType] || 0) + 1;
+      bucket.sourceBreakdown[click.source] = (bucket.sourceBreakdown[click.source] || 0) + 1;
+    }
+  }
+
+  for (const conversion of conversions) {
+    for (const bucket of bucketsFor(conversion.sellerId, conversion.productId, conversion.timestamp)) {
+      bucket.conversions++;
+      bucket.revenue += conversion.amount;
+      if (conversion.sessionId) bucket.sessions.add(conversion.sessionId);
+    }
+  }
+
+  return Array.from(buckets.values()).map(({ sessions, ...bucket }) => ({ ...bucket, uniqueSessions: sessions.size }));
+}
+
+export interface BucketQuery {
+  granularity: RollupGranularity;
+  sellerId?: number; // All sellers when omitted
+  productId?: number;
+  from: Date;
+  to: Date; // Exclusive
+}
+
+/**
+ * Persistence used by AnalyticsRollupService (drizzle-backed by default)
+ */
+export interface RollupStore {
+  getCursor(): Promise<Date | null>;
+  setCursor(position: Date): Promise<void>;
+  /** Replace every bucket of a granularity starting in [from, to) */
+  replaceBuckets(granularity: RollupGranularity, from: Date, to: Date, buckets: RollupBucket[]): Promise<void>;
+  getBuckets(query: BucketQuery): Promise<RollupBucket[]>;
+  deleteBefore(granularity: RollupGranularity, cutoff: Date): Promise<number>;
+}
+
+function parseBreakdown(value: string | null): Record<string, number> {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+export class DrizzleRollupStore implements RollupStore {
+  private async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db;
+  }
+
+  async getCursor(): Promise<Date | null> {
+    const db = await this.db();
+    const [cursor] = await db.select().from(jobCursors).where(eq(jobCursors.name, ROLLUP_CURSOR)).limit(1);
+    return cursor ? new Date(cursor.position) : null;
+  }
+
+  async setCursor(position: Date): Promise<void> {
+    const db = await this.db();
+    await db
+      .insert(jobCursors)
+      .values({ name: ROLLUP_CURSOR, position })
+      .onDuplicateKeyUpdate({ set: { position } });
+  }
+
+  async replaceBuckets(granularity: RollupGranularity, from: Date, to: Date, buckets: RollupBucket[]): Promise<void> {
+    const db = await this.db();
+    const rows: InsertAnalyticsRollup[] = buckets.map((bucket) => ({
+      ...bucket,
+      deviceBreakdown: JSON.stringify(bucket.deviceBreakdown),
+      sourceBreakdown: JSON.stringify(bucket.sourceBreakdown),
+    }));
+
+    await db.transaction(async (tx: any) => {
+      await tx
+        .delete(analyticsRollups)
+        .where(
+          and(
+            eq(analyticsRollups.granularity, granularity),
+            gte(analyticsRollups.bucketStart, from),
+            lt(analyticsRollups.bucketStart, to)
+          )
+        );
+      for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+        await tx.insert(analyticsRollups).values(rows.slice(i, i + INSERT_CHUNK_SIZE));
+      }
+    });
+  }
+
+  async getBuckets(query: BucketQuery): Promise<RollupBucket[]> {
+    const db = await this.db();
+    const conditions = [
+      eq(analyticsRollups.granularity, query.granularity),
+      gte(analyticsRollups.bucketStart, query.from),
+      lt(analyticsRollups.bucketStart, query.to),
+    ];
+    if (query.sellerId !== undefined) conditions.push(eq(analyticsRollups.sellerId, query.sellerId));
+    if (query.productId !== undefined) conditions.push(eq(analyticsRollups.productId, query.productId));
+
+    const rows = await db
+      .select()
+      .from(analyticsRollups)
+      .where(and(...conditions))
+      .orderBy(asc(analyticsRollups.bucketStart));
+
+    return rows.map((row) => ({
+      granularity: row.granularity,
+      bucketStart: new Date(row.bucketStart),
+      sellerId: row.sellerId,
+      productId: row.productId,
+      impressions: row.impressions,
+      clicks: row.clicks,
+      conversions: row.conversions,
+      revenue: row.revenue,
+      uniqueSessions: row.uniqueSessions,
+      deviceBreakdown: parseBreakdown(row.deviceBreakdown),
+      sourceBreakdown: parseBreakdown(row.sourceBreakdown),
+    }));
+  }
+
+  async deleteBefore(granularity: RollupGranularity, cutoff: Date): Promise<number> {
+    const db = await this.db();
+    const [result] = await db
+      .delete(analyticsRollups)
+      .where(and(eq(analyticsRollups.granularity, granularity), lt(analyticsRollups.bucketStart, cutoff)));
+    return result?.affectedRows ?? 0;
+  }
+}
+
+export interface RollupRunResult {
+  from: Date;
+  to: Date;
+  hourBuckets: number;
+  dayBuckets: number;
+}
+
+export interface AnalyticsRollupServiceOptions {
+  store?: RollupStore;
+  events?: AnalyticsEventService;
+  retention?: RetentionPolicy;
+}
+
+export class AnalyticsRollupService {
+  private store: RollupStore;
+  private events: AnalyticsEventService;
+  readonly retention: RetentionPolicy;
+
+  constructor(options: AnalyticsRollupServiceOptions = {}) {
+    this.store = options.store ?? new DrizzleRollupStore();
+    this.events = options.events ?? analyticsEvents;
+    this.retention = options.retention ?? retentionPolicyFromEnv();
+  }
+
+  /**
+   * Roll up every closed hour since the cursor (minus the lateness window),
+   * plus the closed days those hours fall in, then advance the cursor to the
+   * start of the current hour.
+   */
+  async rollUp(now: Date = new Date()): Promise<RollupRunResult> {
+    const to = bucketStart(now, "hour");
+    const cursor = (await this.store.getCursor()) ?? to;
+    const from = bucketStart(new Date(Math.min(cursor.getTime(), to.getTime()) - MAX_EVENT_AGE_MS), "hour");
+
+    const hourBuckets = await this.rebuild("hour", from, to);
+
+    let dayBuckets = 0;
+    const dayFrom = bucketStart(from, "day");
+    const dayTo = bucketStart(to, "day");
+    if (dayTo > dayFrom) {
+      dayBuckets = await this.rebuild("day", dayFrom, dayTo);
+    }
+
+    await this.store.setCursor(to);
+    return { from, to, hourBuckets, dayBuckets };
+  }
+
+  /**
+   * Rebuild rollups for [from, to) from raw events, one day at a time. Only
+   * closed hours and days are written; the cursor is left alone.
+   */
+  async backfill(from: Date, to: Date, now: Date = new Date()): Promise<RollupRunResult> {
+    const start = bucketStart(from, "day");
+    const end = new Date(Math.min(bucketCeil(to, "day").getTime(), bucketStart(now, "hour").getTime()));
+    const result: RollupRunResult = { from: start, to: end, hourBuckets: 0, dayBuckets: 0 };
+
+    for (let day = start; day < end; day = new Date(day.getTime() + DAY_MS)) {
+      const dayEnd = new Date(day.getTime() + DAY_MS);
+      result.hourBuckets += await this.rebuild("hour", day, dayEnd < end ? dayEnd : end);
+      if (dayEnd <= end) {
+        result.dayBuckets += await this.rebuild("day", day, dayEnd);
+      }
+    }
+
+    console.log(
+      `[Analytics] Backfilled rollups ${start.toISOString()} - ${end.toISOString()}: ${result.hourBuckets} hourly, ${result.dayBuckets} daily buckets`
+    );
+    return result;
+  }
+
+  /**
+   * Seller metrics for the last day/week/month: closed hours from the hourly
+   * rollups, raw events for the partial first hour, the open hour and anything
+   * past the cursor.
+   */
+  async getSellerMetrics(sellerId: number, timeWindow: TimeWindow = "week", now: Date = new Date()): Promise<SellerMetrics> {
+    const { from, to } = AnalyticsEngine.windowRange(timeWindow, now);
+    const cursor = (await this.store.getCursor()) ?? from;
+    const rolledFrom = bucketCeil(from, "hour");
+    const rolledTo = new Date(Math.max(rolledFrom.getTime(), Math.min(cursor.getTime(), bucketStart(now, "hour").getTime())));
+
+    const [head, rolled, tail] = await Promise.all([
+      this.rawBuckets(sellerId, from, rolledFrom),
+      rolledTo > rolledFrom
+        ? this.store.getBuckets({ granularity: "hour", sellerId, from: rolledFrom, to: rolledTo })
+        : Promise.resolve([]),
+      this.rawBuckets(sellerId, rolledTo, to),
+    ]);
+
+    return AnalyticsEngine.metricsFromBuckets(String(sellerId), [...head, ...rolled, ...tail], timeWindow);
+  }
+
+  /**
+   * Seller metrics over closed UTC days [from, to), straight from the daily rollups
+   */
+  async getRangeMetrics(sellerId: number, from: Date, to: Date): Promise<SellerMetrics> {
+    const buckets = await this.store.getBuckets({ granularity: "day", sellerId, from, to });
+    return AnalyticsEngine.metricsFromBuckets(String(sellerId), buckets);
+  }
+
+  /**
+   * Seller-total hourly buckets for every seller with activity in [from, to)
+   */
+  async getHourlyTotals(from: Date, to: Date): Promise<RollupBucket[]> {
+    return this.store.getBuckets({ granularity: "hour", productId: 0, from, to });
+  }
+
+  /**
+   * Seller totals per closed UTC day for the last `days` days, zero-filled
+   */
+  async getDailySeries(sellerId: number, days: number, now: Date = new Date()): Promise<DailyPoint[]> {
+    const to = bucketStart(now, "day");
+    const from = new Date(to.getTime() - days * DAY_MS);
+    const buckets = await this.store.getBuckets({ granularity: "day", sellerId, productId: 0, from, to });
+    const byDay = new Map(buckets.map((b) => [b.bucketStart.getTime(), b]));
+
+    const series: DailyPoint[] = [];
+    for (let day = from.getTime(); day < to.getTime(); day += DAY_MS) {
+      const bucket = byDay.get(day);
+      series.push({
+        timestamp: new Date(day),
+        impressions: bucket?.impressions ?? 0,
+        clicks: bucket?.clicks ?? 0,
+        conversions: bucket?.conversions ?? 0,
+        revenue: bucket?.revenue ?? 0,
+      });
+    }
+    return series;
+  }
+
+  /**
+   * Drop hourly and daily buckets past their retention windows
+   */
+  async purgeExpired(now: Date = new Date()): Promise<{ hour: number; day: number }> {
+    const hourCutoff = new Date(now.getTime() - this.retention.hourlyRollupRetentionDays * DAY_MS);
+    const dayCutoff = new Date(now.getTime() - this.retention.dailyRollupRetentionDays * DAY_MS);
+    const purged = {
+      hour: await this.store.deleteBefore("hour", hourCutoff),
+      day: await this.store.deleteBefore("day", dayCutoff),
+    };
+    if (purged.hour + purged.day > 0) {
+      console.log(`[Analytics] Purged ${purged.hour} hourly and ${purged.day} daily rollup buckets`);
+    }
+    return purged;
+  }
+
+  private async rebuild(granularity: RollupGranularity, from: Date, to: Date): Promise<number> {
+    const buckets = aggregateEvents(await this.events.getEvents({ from, to }), granularity);
+    await this.store.replaceBuckets(granularity, from, to, buckets);
+    return buckets.length;
+  }
+
+  private async rawBuckets(sellerId: number, from: Date, to: Date): Promise<RollupBucket[]> {
+    if (to <= from) return [];
+    return aggregateEvents(await this.events.getEvents({ sellerId, from, to }), "hour");
+  }
+}
+
+export const analyticsRollupService = new AnalyticsRollupService();
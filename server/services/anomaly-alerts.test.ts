@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import type { RollupBucket } from "./analytics-rollups";
+import {
+  AnomalyAlertService,
+  describeAnomaly,
+  detectHourAnomalies,
+  robustZ,
+  type AnomalyKind,
+  type AnomalyListItem,
+  type AnomalyMetric,
+  type AnomalyQuery,
+  type AnomalyStore,
+  type DetectedAnomaly,
+} from "./anomaly-alerts";
+
+class MemoryAnomalyStore implements AnomalyStore {
+  cursor: Date | null = null;
+  anomalies: AnomalyListItem[] = [];
+  notifications: Array<{ anomalyId: number; sellerId: number; title: string }> = [];
+
+  async getCursor() {
+    return this.cursor;
+  }
+
+  async setCursor(position: Date) {
+    this.cursor = position;
+  }
+
+  async insertAnomaly(anomaly: DetectedAnomaly, suppressed: boolean) {
+    const exists = this.anomalies.some(
+      a => a.sellerId === anomaly.sellerId && a.metric === anomaly.metric && a.kind === anomaly.kind && a.bucketStart.getTime() === anomaly.bucketStart.getTime()
+    );
+    if (exists) return null;
+    const id = this.anomalies.length + 1;
+    this.anomalies.push({ ...anomaly, id, storeName: null, suppressed, notificationId: null, detectedAt: new Date() });
+    return id;
+  }
+
+  async lastAlertAt(sellerId: number, metric: AnomalyMetric, kind: AnomalyKind, before: Date) {
+    const times = this.anomalies
+      .filter(a => a.sellerId === sellerId && a.metric === metric && a.kind === kind && !a.suppressed && a.bucketStart < before)
+      .map(a => a.bucketStart.getTime());
+    return times.length > 0 ? new Date(Math.max(...times)) : null;
+  }
+
+  async notifySeller(anomalyId: number, anomaly: DetectedAnomaly) {
+    this.notifications.push({ anomalyId, sellerId: anomaly.sellerId, title: describeAnomaly(anomaly).title });
+    return this.notifications.length;
+  }
+
+  async listAnomalies(query: AnomalyQuery) {
+    return this.anomalies.filter(a => a.bucketStart >= query.since).slice(0, query.limit);
+  }
+}
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const start = new Date("2026-03-01T00:00:00Z").getTime();
+
+function bucket(sellerId: number, time: number, values: Partial<RollupBucket>): RollupBucket {
+  return {
+    granularity: "hour",
+    bucketStart: new Date(time),
+    sellerId,
+    productId: 0,
+    impressions: 200,
+    clicks: 30,
+    conversions: 3,
+    revenue: 3000,
+    uniqueSessions: 25,
+    deviceBreakdown: {},
+    sourceBreakdown: {},
+    ...values,
+  };
+}
+
+// Two weeks of steady hourly traffic with a little day-to-day jitter
+function history(sellerId: number, days = 14): RollupBucket[] {
+  const buckets: RollupBucket[] = [];
+  for (let d = 0; d < days; d++) {
+    for (let h = 0; h < 24; h++) {
+      const jitter = (d % 3) - 1;
+      buckets.push(bucket(sellerId, start + d * DAY + h * HOUR, { clicks: 30 + jitter * 2, revenue: 3000 + jitter * 300 }));
+    }
+  }
+  return buckets;
+}
+
+describe("anomaly alerts", () => {
+  it("scores against the median and MAD rather than the mean", () => {
+    const baseline = [10, 11, 9, 10, 12, 10, 200]; // One earlier spike
+    const robust = robustZ(60, baseline, 1);
+    expect(robust.median).toBe(10);
+    expect(robust.score).toBeGreaterThan(3.5);
+    expect(robustZ(10, [10, 10, 10], 2).score).toBe(0);
+  });
+
+  it("classifies spikes, drops and click bursts", () => {
+    const hour = new Date(start + 14 * DAY);
+    const baseline = Array.from({ length: 14 }, (_, i) => history(1)[i * 24]);
+
+    const burst = detectHourAnomalies(1, hour, bucket(1, hour.getTime(), { clicks: 400, uniqueSessions: 12, conversions: 2, revenue: 2000 }), baseline);
+    expect(burst.map(a => [a.metric, a.kind])).toEqual([["clicks", "click_fraud"]]);
+    expect(burst[0]).toMatchObject({ severity: "critical", expected: 30 });
+    expect(burst[0].evidence).toMatchObject({ signals: ["few_sessions", "ctr_too_high"] });
+
+    const busy = detectHourAnomalies(1, hour, bucket(1, hour.getTime(), { clicks: 120, uniqueSessions: 100, impressions: 900, conversions: 12, revenue: 12000 }), baseline);
+    expect(busy.map(a => [a.metric, a.kind])).toEqual([["clicks", "spike"], ["revenue", "spike"]]);
+
+    const quiet = detectHourAnomalies(1, hour, undefined, baseline);
+    expect(quiet.map(a => [a.metric, a.kind])).toEqual([["clicks", "drop"], ["revenue", "drop"]]);
+
+    const noConversions = detectHourAnomalies(1, hour, bucket(1, hour.getTime(), { conversions: 0, revenue: 0 }), baseline);
+    expect(noConversions.map(a => [a.metric, a.kind])).toEqual([["conversion_rate", "drop"], ["revenue", "drop"]]);
+  });
+
+  it("notifies once per cooldown, skips new sellers and doesn't repeat hours", async () => {
+    const runAt = start + 14 * DAY + 3 * HOUR;
+    const buckets = [
+      ...history(1),
+      // Too new to judge: first seen three days ago
+      ...history(2, 3).map(b => ({ ...b, bucketStart: new Date(b.bucketStart.getTime() + 11 * DAY) })),
+      bucket(1, start + 14 * DAY, { clicks: 31 }),
+      bucket(1, start + 14 * DAY + HOUR, { clicks: 400, uniqueSessions: 10, conversions: 3 }),
+      bucket(1, start + 14 * DAY + 2 * HOUR, { clicks: 380, uniqueSessions: 9, conversions: 3 }),
+      bucket(2, start + 14 * DAY + HOUR, { clicks: 500, uniqueSessions: 5, conversions: 0 }),
+    ];
+    const store = new MemoryAnomalyStore();
+    store.cursor = new Date(start + 14 * DAY);
+    const service = new AnomalyAlertService({
+      store,
+      rollups: { getHourlyTotals: async (from, to) => buckets.filter(b => b.bucketStart >= from && b.bucketStart < to) },
+    });
+
+    const result = await service.detect(new Date(runAt + 5 * 60 * 1000));
+    expect(result).toMatchObject({ detected: 2, notified: 1, suppressed: 1 });
+    expect(store.notifications).toEqual([{ anomalyId: 1, sellerId: 1, title: "Suspicious click burst" }]);
+    expect(store.anomalies.map(a => a.suppressed)).toEqual([false, true]);
+    expect(store.cursor).toEqual(new Date(runAt));
+
+    store.cursor = new Date(start + 14 * DAY);
+    expect(await service.detect(new Date(runAt))).toMatchObject({ detected: 0, notified: 0 });
+  });
+});
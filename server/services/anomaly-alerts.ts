@@ -0,0 +1,455 @@
+import { and, desc, eq, gte, lt } from "drizzle-orm";
+import { getDb } from "../db";
+import { analyticsAnomalies, jobCursors, sellerNotifications, sellers } from "../../drizzle/schema";
+import { analyticsRollupService, bucketStart, type AnalyticsRollupService, type RollupBucket } from "./analytics-rollups";
+
+/**
+ * Anomaly Alerts
+ *
+ * After each rollup run, every closed seller-hour is compared with the same
+ * hour of day over the previous two weeks (hours with no bucket count as
+ * zero) using a robust z-score: distance from the baseline median in units
+ * of the scaled median absolute deviation, so one earlier spike doesn't hide
+ * the next. Clicks, conversion rate and revenue are checked separately.
+ *
+ * A click spike that brings no extra conversions and comes from very few
+ * sessions (or clicks far above impressions) is classed as possible click
+ * fraud rather than a spike. Every anomaly is stored; the seller gets a
+ * notification unless the same metric and kind already alerted within the
+ * cooldown.
+ */
+
+export const ANOMALY_METRICS = analyticsAnomalies.metric.enumValues;
+export const ANOMALY_KINDS = analyticsAnomalies.kind.enumValues;
+export type AnomalyMetric = (typeof ANOMALY_METRICS)[number];
+export type AnomalyKind = (typeof ANOMALY_KINDS)[number];
+export type AnomalySeverity = (typeof analyticsAnomalies.severity.enumValues)[number];
+
+const ANOMALY_CURSOR = "analytics_anomalies";
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const BASELINE_DAYS = 14;
+const MIN_BASELINE_DAYS = 7; // Sellers newer than this aren't checked yet
+const Z_THRESHOLD = 3.5;
+const CRITICAL_Z = 6;
+const MAX_CATCH_UP_MS = 48 * HOUR_MS; // Older hours aren't worth alerting on
+export const ALERT_COOLDOWN_MS = 6 * HOUR_MS;
+
+// Smallest change worth an alert, and a floor for the spread so flat baselines don't alert on noise
+const METRIC_RULES: Record<AnomalyMetric, { minDelta: number; minScale: number }> = {
+  clicks: { minDelta: 20, minScale: 2 },
+  conversion_rate: { minDelta: 0.05, minScale: 0.01 },
+  revenue: { minDelta: 2000, minScale: 200 },
+};
+
+// Conversion rate is only meaningful with enough clicks behind it
+const MIN_RATE_CLICKS = 20;
+const MIN_BASELINE_RATE_CLICKS = 5;
+const MIN_BASELINE_RATE_HOURS = 5;
+
+// Click-fraud signals on a click spike
+const FRAUD_MAX_SESSIONS_PER_CLICK = 0.2;
+const FRAUD_MIN_CTR = 0.5;
+const FRAUD_MIN_IMPRESSIONS = 10;
+
+export interface RobustScore {
+  score: number;
+  median: number;
+  mad: number;
+}
+
+export interface DetectedAnomaly {
+  sellerId: number;
+  metric: AnomalyMetric;
+  kind: AnomalyKind;
+  severity: AnomalySeverity;
+  bucketStart: Date;
+  observed: number;
+  expected: number;
+  score: number;
+  evidence: Record<string, unknown>;
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Robust z-score: (value - median) / (1.4826 * MAD). Uses the mean absolute
+ * deviation when the MAD is 0, and never a spread below `minScale`.
+ */
+export function robustZ(value: number, baseline: number[], minScale: number): RobustScore {
+  const med = median(baseline);
+  const deviations = baseline.map(v => Math.abs(v - med));
+  const mad = median(deviations);
+  const meanDeviation = deviations.reduce((sum, d) => sum + d, 0) / Math.max(deviations.length, 1);
+  const scale = Math.max(mad > 0 ? 1.4826 * mad : 1.2533 * meanDeviation, minScale);
+  return { score: (value - med) / scale, median: med, mad };
+}
+
+function anomaly(
+  sellerId: number,
+  hour: Date,
+  metric: AnomalyMetric,
+  observed: number,
+  robust: RobustScore,
+  kind: AnomalyKind,
+  evidence: Record<string, unknown>
+): DetectedAnomaly {
+  return {
+    sellerId,
+    metric,
+    kind,
+    severity: Math.abs(robust.score) >= CRITICAL_Z ? "critical" : "warning",
+    bucketStart: hour,
+    observed,
+    expected: robust.median,
+    score: Math.round(robust.score * 100) / 100,
+    evidence: { ...evidence, baselineMedian: robust.median, baselineMad: robust.mad },
+  };
+}
+
+function isOutlier(metric: AnomalyMetric, observed: number, robust: RobustScore): boolean {
+  return Math.abs(robust.score) >= Z_THRESHOLD && Math.abs(observed - robust.median) >= METRIC_RULES[metric].minDelta;
+}
+
+/**
+ * Check one seller-hour against the same hour on previous days (undefined = no activity that hour)
+ */
+export function detectHourAnomalies(
+  sellerId: number,
+  hour: Date,
+  current: RollupBucket | undefined,
+  baseline: Array<RollupBucket | undefined>
+): DetectedAnomaly[] {
+  const now = {
+    impressions: current?.impressions ?? 0,
+    clicks: current?.clicks ?? 0,
+    conversions: current?.conversions ?? 0,
+    revenue: current?.revenue ?? 0,
+    uniqueSessions: current?.uniqueSessions ?? 0,
+  };
+  const context = { ...now, baselineHours: baseline.length };
+  const found: DetectedAnomaly[] = [];
+
+  const clicks = robustZ(now.clicks, baseline.map(b => b?.clicks ?? 0), METRIC_RULES.clicks.minScale);
+  if (isOutlier("clicks", now.clicks, clicks)) {
+    let kind: AnomalyKind = clicks.score < 0 ? "drop" : "spike";
+    const signals: string[] = [];
+    if (kind === "spike") {
+      const usualConversions = median(baseline.map(b => b?.conversions ?? 0));
+      if (now.uniqueSessions / now.clicks <= FRAUD_MAX_SESSIONS_PER_CLICK) signals.push("few_sessions");
+      if (now.impressions >= FRAUD_MIN_IMPRESSIONS && now.clicks / now.impressions >= FRAUD_MIN_CTR) signals.push("ctr_too_high");
+      if (signals.length > 0 && now.conversions <= usualConversions) kind = "click_fraud";
+    }
+    found.push(
+      anomaly(sellerId, hour, "clicks", now.clicks, clicks, kind, {
+        ...context,
+        ...(kind === "click_fraud" ? { signals, sourceBreakdown: current?.sourceBreakdown ?? {} } : {}),
+      })
+    );
+  }
+
+  // Fake clicks dilute the conversion rate; the click-fraud alert already covers that hour
+  const suspicious = found.some(a => a.kind === "click_fraud");
+  const rateHours = baseline.filter((b): b is RollupBucket => !!b && b.clicks >= MIN_BASELINE_RATE_CLICKS);
+  if (!suspicious && now.clicks >= MIN_RATE_CLICKS && rateHours.length >= MIN_BASELINE_RATE_HOURS) {
+    const rate = now.conversions / now.clicks;
+    const rates = robustZ(rate, rateHours.map(b => b.conversions / b.clicks), METRIC_RULES.conversion_rate.minScale);
+    if (isOutlier("conversion_rate", rate, rates)) {
+      found.push(anomaly(sellerId, hour, "conversion_rate", rate, rates, rates.score < 0 ? "drop" : "spike", {
+        ...context,
+        rateBaselineHours: rateHours.length,
+      }));
+    }
+  }
+
+  const revenue = robustZ(now.revenue, baseline.map(b => b?.revenue ?? 0), METRIC_RULES.revenue.minScale);
+  if (isOutlier("revenue", now.revenue, revenue)) {
+    found.push(anomaly(sellerId, hour, "revenue", now.revenue, revenue, revenue.score < 0 ? "drop" : "spike", context));
+  }
+
+  return found;
+}
+
+const METRIC_LABELS: Record<AnomalyMetric, string> = {
+  clicks: "Clicks",
+  conversion_rate: "Conversion rate",
+  revenue: "Revenue",
+};
+
+function formatMetric(metric: AnomalyMetric, value: number): string {
+  if (metric === "conversion_rate") return `${(value * 100).toFixed(1)}%`;
+  if (metric === "revenue") return `KES ${Math.round(value).toLocaleString("en-KE")}`;
+  return Math.round(value).toLocaleString("en-KE");
+}
+
+/**
+ * Seller-facing notification text for an anomaly (times in Nairobi time)
+ */
+export function describeAnomaly(anomaly: DetectedAnomaly): { title: string; message: string } {
+  const label = METRIC_LABELS[anomaly.metric];
+  const title =
+    anomaly.kind === "click_fraud"
+      ? "Suspicious click burst"
+      : `${anomaly.metric === "clicks" ? "Traffic" : label} ${anomaly.kind === "spike" ? "spike" : "drop"}`;
+  const time = anomaly.bucketStart.toLocaleString("en-KE", {
+    timeZone: "Africa/Nairobi",
+    day: "numeric",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+  let message =
+    `${label} was ${formatMetric(anomaly.metric, anomaly.observed)} in the hour from ${time}, ` +
+    `against a usual ${formatMetric(anomaly.metric, anomaly.expected)} for that hour.`;
+  if (anomaly.kind === "click_fraud") {
+    message += " The clicks came from very few visitors and led to no extra orders, so some may not be genuine.";
+  }
+  return { title, message };
+}
+
+export interface AnomalyQuery {
+  since: Date;
+  sellerId?: number;
+  kind?: AnomalyKind;
+  limit: number;
+}
+
+export interface AnomalyListItem extends Omit<DetectedAnomaly, "evidence"> {
+  id: number;
+  storeName: string | null;
+  evidence: Record<string, unknown>;
+  suppressed: boolean;
+  notificationId: number | null;
+  detectedAt: Date;
+}
+
+/**
+ * Persistence used by AnomalyAlertService (drizzle-backed by default)
+ */
+export interface AnomalyStore {
+  getCursor(): Promise<Date | null>;
+  setCursor(position: Date): Promise<void>;
+  /** Insert unless this seller, metric, kind and hour is already recorded; returns the new ID or null */
+  insertAnomaly(anomaly: DetectedAnomaly, suppressed: boolean): Promise<number | null>;
+  /** Hour of the latest notified anomaly before `before` */
+  lastAlertAt(sellerId: number, metric: AnomalyMetric, kind: AnomalyKind, before: Date): Promise<Date | null>;
+  notifySeller(anomalyId: number, anomaly: DetectedAnomaly): Promise<number>;
+  listAnomalies(query: AnomalyQuery): Promise<AnomalyListItem[]>;
+}
+
+function parseEvidence(value: string | null): Record<string, unknown> {
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {};
+  }
+}
+
+export class DrizzleAnomalyStore implements AnomalyStore {
+  private async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db;
+  }
+
+  async getCursor(): Promise<Date | null> {
+    const db = await this.db();
+    const [cursor] = await db.select().from(jobCursors).where(eq(jobCursors.name, ANOMALY_CURSOR)).limit(1);
+    return cursor ? new Date(cursor.position) : null;
+  }
+
+  async setCursor(position: Date): Promise<void> {
+    const db = await this.db();
+    await db
+      .insert(jobCursors)
+      .values({ name: ANOMALY_CURSOR, position })
+      .onDuplicateKeyUpdate({ set: { position } });
+  }
+
+  async insertAnomaly(anomaly: DetectedAnomaly, suppressed: boolean): Promise<number | null> {
+    const db = await this.db();
+    const [existing] = await db
+      .select({ id: analyticsAnomalies.id })
+      .from(analyticsAnomalies)
+      .where(
+        and(
+          eq(analyticsAnomalies.sellerId, anomaly.sellerId),
+          eq(analyticsAnomalies.metric, anomaly.metric),
+          eq(analyticsAnomalies.kind, anomaly.kind),
+          eq(analyticsAnomalies.bucketStart, anomaly.bucketStart)
+        )
+      )
+      .limit(1);
+    if (existing) return null;
+
+    const [row] = await db
+      .insert(analyticsAnomalies)
+      .values({ ...anomaly, evidence: JSON.stringify(anomaly.evidence), suppressed })
+      .$returningId();
+    return row.id;
+  }
+
+  async lastAlertAt(sellerId: number, metric: AnomalyMetric, kind: AnomalyKind, before: Date): Promise<Date | null> {
+    const db = await this.db();
+    const [row] = await db
+      .select({ bucketStart: analyticsAnomalies.bucketStart })
+      .from(analyticsAnomalies)
+      .where(
+        and(
+          eq(analyticsAnomalies.sellerId, sellerId),
+          eq(analyticsAnomalies.metric, metric),
+          eq(analyticsAnomalies.kind, kind),
+          eq(analyticsAnomalies.suppressed, false),
+          lt(analyticsAnomalies.bucketStart, before)
+        )
+      )
+      .orderBy(desc(analyticsAnomalies.bucketStart))
+      .limit(1);
+    return row ? new Date(row.bucketStart) : null;
+  }
+
+  async notifySeller(anomalyId: number, anomaly: DetectedAnomaly): Promise<number> {
+    const db = await this.db();
+    const { title, message } = describeAnomaly(anomaly);
+
+    return db.transaction(async (tx: any) => {
+      const [notification] = await tx
+        .insert(sellerNotifications)
+        .values({
+          sellerId: anomaly.sellerId,
+          type: "analytics_alert",
+          title,
+          message,
+          data: JSON.stringify({ anomalyId, metric: anomaly.metric, kind: anomaly.kind, ...anomaly.evidence }),
+          read: false,
+        })
+        .$returningId();
+      await tx
+        .update(analyticsAnomalies)
+        .set({ notificationId: notification.id })
+        .where(eq(analyticsAnomalies.id, anomalyId));
+      return notification.id;
+    });
+  }
+
+  async listAnomalies(query: AnomalyQuery): Promise<AnomalyListItem[]> {
+    const db = await this.db();
+    const conditions = [gte(analyticsAnomalies.bucketStart, query.since)];
+    if (query.sellerId !== undefined) conditions.push(eq(analyticsAnomalies.sellerId, query.sellerId));
+    if (query.kind) conditions.push(eq(analyticsAnomalies.kind, query.kind));
+
+    const rows = await db
+      .select({ anomaly: analyticsAnomalies, storeName: sellers.storeName })
+      .from(analyticsAnomalies)
+      .leftJoin(sellers, eq(sellers.id, analyticsAnomalies.sellerId))
+      .where(and(...conditions))
+      .orderBy(desc(analyticsAnomalies.bucketStart), desc(analyticsAnomalies.id))
+      .limit(query.limit);
+
+    return rows.map(({ anomaly, storeName }) => ({
+      ...anomaly,
+      bucketStart: new Date(anomaly.bucketStart),
+      detectedAt: new Date(anomaly.detectedAt),
+      evidence: parseEvidence(anomaly.evidence),
+      storeName,
+    }));
+  }
+}
+
+export interface AnomalyRunResult {
+  from: Date;
+  to: Date;
+  detected: number;
+  notified: number;
+  suppressed: number;
+}
+
+export interface AnomalyAlertServiceOptions {
+  store?: AnomalyStore;
+  rollups?: Pick<AnalyticsRollupService, "getHourlyTotals">;
+}
+
+export class AnomalyAlertService {
+  private store: AnomalyStore;
+  private rollups: Pick<AnalyticsRollupService, "getHourlyTotals">;
+
+  constructor(options: AnomalyAlertServiceOptions = {}) {
+    this.store = options.store ?? new DrizzleAnomalyStore();
+    this.rollups = options.rollups ?? analyticsRollupService;
+  }
+
+  /**
+   * Check every seller-hour from the cursor up to `rolledTo` (the end of the
+   * hours the rollup job has written), then advance the cursor
+   */
+  async detect(rolledTo: Date): Promise<AnomalyRunResult> {
+    const to = bucketStart(rolledTo, "hour");
+    const cursor = await this.store.getCursor();
+    const from = new Date(Math.max(cursor?.getTime() ?? to.getTime() - HOUR_MS, to.getTime() - MAX_CATCH_UP_MS));
+    const result: AnomalyRunResult = { from, to, detected: 0, notified: 0, suppressed: 0 };
+    if (from >= to) return result;
+
+    const buckets = await this.rollups.getHourlyTotals(new Date(from.getTime() - BASELINE_DAYS * DAY_MS), to);
+    const bySeller = new Map<number, Map<number, RollupBucket>>();
+    for (const bucket of buckets) {
+      const hours = bySeller.get(bucket.sellerId) ?? new Map<number, RollupBucket>();
+      hours.set(bucket.bucketStart.getTime(), bucket);
+      bySeller.set(bucket.sellerId, hours);
+    }
+
+    for (let hour = from.getTime(); hour < to.getTime(); hour += HOUR_MS) {
+      for (const [sellerId, hours] of bySeller) {
+        const firstSeen = Math.min(...hours.keys());
+        if (hour - firstSeen < MIN_BASELINE_DAYS * DAY_MS) continue;
+
+        const baseline = Array.from({ length: BASELINE_DAYS }, (_, i) => hours.get(hour - (i + 1) * DAY_MS));
+        for (const found of detectHourAnomalies(sellerId, new Date(hour), hours.get(hour), baseline)) {
+          await this.record(found, result);
+        }
+      }
+    }
+
+    await this.store.setCursor(to);
+    if (result.detected > 0) {
+      console.log(
+        `[Analytics] ${result.detected} anomalies between ${from.toISOString()} and ${to.toISOString()} (${result.notified} notified, ${result.suppressed} suppressed)`
+      );
+    }
+    return result;
+  }
+
+  /**
+   * Platform-wide (or one seller's) anomalies, newest first
+   */
+  async list(query: AnomalyQuery): Promise<AnomalyListItem[]> {
+    return this.store.listAnomalies(query);
+  }
+
+  private async record(anomaly: DetectedAnomaly, result: AnomalyRunResult): Promise<void> {
+    const lastAlert = await this.store.lastAlertAt(anomaly.sellerId, anomaly.metric, anomaly.kind, anomaly.bucketStart);
+    const suppressed = lastAlert !== null && anomaly.bucketStart.getTime() - lastAlert.getTime() < ALERT_COOLDOWN_MS;
+
+    const id = await this.store.insertAnomaly(anomaly, suppressed);
+    if (id === null) return; // Already recorded by an earlier run
+    result.detected++;
+
+    if (suppressed) {
+      result.suppressed++;
+      return;
+    }
+    await this.store.notifySeller(id, anomaly);
+    result.notified++;
+  }
+}
+
+export const anomalyAlerts = new AnomalyAlertService();
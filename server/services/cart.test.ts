@@ -0,0 +1,35 @@
+import { describe, expect, it } from "vitest";
+import { buildCartView } from "./cart";
+
+function product(id: number, sellerId: number, price: string, stock: number, removedAt: Date | null = null) {
+  return { id, sellerId, name: `Item ${id}`, price, priceAmount: null, imageUrl: null, stock, removedAt };
+}
+
+describe("buildCartView", () => {
+  it("groups lines by seller with price snapshots and subtotals", () => {
+    const view = buildCartView([
+      { quantity: 2, product: product(1, 10, "KES 1,500", 5) },
+      { quantity: 1, product: product(2, 20, "KES 800", 1) },
+      { quantity: 1, product: product(3, 10, "KES 2,000", 3) },
+    ]);
+
+    expect(view.sellers.map(g => [g.sellerId, g.lines.map(l => l.productId), g.subtotal])).toEqual([
+      [10, [1, 3], 5000],
+      [20, [2], 800],
+    ]);
+    expect(view.items[0]).toMatchObject({ unitPrice: 1500, lineTotal: 3000, available: true });
+    expect(view.itemCount).toBe(4);
+    expect(view.total).toBe(5800);
+  });
+
+  it("marks lines unavailable when stock is short, the listing was removed or it has no price", () => {
+    const view = buildCartView([
+      { quantity: 3, product: product(1, 10, "KES 1,500", 2) },
+      { quantity: 1, product: product(2, 10, "KES 800", 4, new Date()) },
+      { quantity: 1, product: product(3, 10, "Ask seller", 4) },
+    ]);
+
+    expect(view.items.map(l => l.available)).toEqual([false, false, false]);
+    expect(view.items[2]).toMatchObject({ unitPrice: null, lineTotal: null });
+  });
+});
@@ -0,0 +1,274 @@
+import { randomUUID } from "node:crypto";
+import { and, eq, isNull, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import { cartItems, carts, products, type Product } from "../../drizzle/schema";
+import { OrderManagement, type PlaceOrdersResult } from "./order-management";
+import { getPriceAmount } from "./price-normalizer";
+
+/**
+ * Cart Service
+ *
+ * Persistent shopping carts keyed by the signed-in user, or by a guest
+ * session ID (cookie). A guest cart is merged into the user's cart the first
+ * time both are seen together, i.e. right after sign-in.
+ *
+ * Checkout splits the cart into one order per seller and places them through
+ * OrderManagement.placeOrders, which snapshots prices and reserves stock.
+ */
+
+export interface CartOwner {
+  userId?: number | null;
+  sessionId?: string | null;
+}
+
+export interface CartLine {
+  productId: number;
+  quantity: number;
+  product: Pick<Product, "id" | "name" | "price" | "priceAmount" | "imageUrl" | "stock" | "sellerId">;
+  unitPrice: number | null;
+  lineTotal: number | null;
+  available: boolean;
+}
+
+export interface SellerCartGroup {
+  sellerId: number;
+  lines: CartLine[];
+  subtotal: number;
+}
+
+export interface CartView {
+  items: CartLine[];
+  sellers: SellerCartGroup[];
+  itemCount: number;
+  total: number;
+}
+
+export interface CheckoutDetails {
+  buyerName?: string;
+  buyerPhone?: string;
+  notes?: string;
+  visitorId?: string;
+}
+
+
+/**
+ * Build the cart view from joined cart rows: prices, availability and
+ * per-seller subtotals. Pure - no I/O.
+ */
+export function buildCartView(rows: Array<{ quantity: number; product: CartLine["product"] & { removedAt?: Date | null } }>): CartView {
+  const items: CartLine[] = rows.map(({ quantity, product }) => {
+    const unitPrice = getPriceAmount(product);
+    return {
+      productId: product.id,
+      quantity,
+      product: {
+        id: product.id,
+        name: product.name,
+        price: product.price,
+        priceAmount: product.priceAmount,
+        imageUrl: product.imageUrl,
+        stock: product.stock,
+        sellerId: product.sellerId,
+      },
+      unitPrice,
+      lineTotal: unitPrice === null ? null : unitPrice * quantity,
+      available: !product.removedAt && unitPrice !== null && (product.stock ?? 0) >= quantity,
+    };
+  });
+
+  const groups = new Map<number, SellerCartGroup>();
+  for (const line of items) {
+    const group = groups.get(line.product.sellerId) ?? { sellerId: line.product.sellerId, lines: [], subtotal: 0 };
+    group.lines.push(line);
+    group.subtotal += line.lineTotal ?? 0;
+    groups.set(group.sellerId, group);
+  }
+
+  const sellerGroups = Array.from(groups.values());
+  return {
+    items,
+    sellers: sellerGroups,
+    itemCount: items.reduce((sum, line) => sum + line.quantity, 0),
+    total: sellerGroups.reduce((sum, group) => sum + group.subtotal, 0),
+  };
+}
+
+export class CartService {
+  static readonly MAX_QUANTITY = 99;
+
+  /**
+   * New opaque guest session ID for the cart cookie
+   */
+  static newSessionId(): string {
+    return randomUUID();
+  }
+
+  static async getCart(owner: CartOwner): Promise<CartView> {
+    const db = await this.db();
+    const cartId = await this.resolveCart(db, owner, false);
+    if (!cartId) return buildCartView([]);
+
+    const rows = await db
+      .select({ quantity: cartItems.quantity, product: products })
+      .from(cartItems)
+      .innerJoin(products, eq(products.id, cartItems.productId))
+      .where(eq(cartItems.cartId, cartId))
+      .orderBy(cartItems.createdAt);
+
+    return buildCartView(rows);
+  }
+
+  /**
+   * Add a product, incrementing the quantity if it's already in the cart
+   */
+  static async addItem(owner: CartOwner, productId: number, quantity: number = 1): Promise<CartView> {
+    const db = await this.db();
+
+    const [product] = await db
+      .select({ id: products.id })
+      .from(products)
+      .where(and(eq(products.id, productId), isNull(products.removedAt)))
+      .limit(1);
+    if (!product) {
+      throw new Error("Product not found");
+    }
+
+    const cartId = (await this.resolveCart(db, owner, true))!;
+    await db
+      .insert(cartItems)
+      .values({ cartId, productId, quantity: Math.min(quantity, this.MAX_QUANTITY) })
+      .onDuplicateKeyUpdate({
+        set: { quantity: sql`LEAST(${cartItems.quantity} + ${quantity}, ${this.MAX_QUANTITY})` },
+      });
+
+    return this.getCart(owner);
+  }
+
+  /**
+   * Set a line's quantity; 0 removes it
+   */
+  static async setQuantity(owner: CartOwner, productId: number, quantity: number): Promise<CartView> {
+    if (quantity <= 0) {
+      return this.removeItem(owner, productId);
+    }
+
+    const db = await this.db();
+    const cartId = await this.resolveCart(db, owner, false);
+    if (cartId) {
+      await db
+        .update(cartItems)
+        .set({ quantity: Math.min(quantity, this.MAX_QUANTITY) })
+        .where(and(eq(cartItems.cartId, cartId), eq(cartItems.productId, productId)));
+    }
+
+    return this.getCart(owner);
+  }
+
+  static async removeItem(owner: CartOwner, productId: number): Promise<CartView> {
+    const db = await this.db();
+    const cartId = await this.resolveCart(db, owner, false);
+    if (cartId) {
+      await db.delete(cartItems).where(and(eq(cartItems.cartId, cartId), eq(cartItems.productId, productId)));
+    }
+
+    return this.getCart(owner);
+  }
+
+  static async clear(owner: CartOwner): Promise<void> {
+    const db = await this.db();
+    const cartId = await this.resolveCart(db, owner, false);
+    if (cartId) {
+      await db.delete(cartItems).where(eq(cartItems.cartId, cartId));
+    }
+  }
+
+  /**
+   * Place one order per seller in the cart. On success the cart is emptied;
+   * on failure nothing is ordered and the cart is left as it was.
+   */
+  static async checkout(owner: CartOwner, details: CheckoutDetails): Promise<PlaceOrdersResult> {
+    const cart = await this.getCart(owner);
+    if (cart.items.length === 0) {
+      return { success: false, orders: [], message: "Your cart is empty", error: "EMPTY_CART" };
+    }
+
+    const result = await OrderManagement.placeOrders(
+      cart.sellers.map(group => ({
+        userId: owner.userId ?? null,
+        sellerId: group.sellerId,
+        items: group.lines.map(line => ({ productId: line.productId, quantity: line.quantity })),
+        buyerName: details.buyerName,
+        buyerPhone: details.buyerPhone,
+        notes: details.notes,
+        visitorId: details.visitorId,
+      }))
+    );
+
+    if (result.success) {
+      await this.clear(owner);
+      console.log(`[Cart] Checkout ${result.checkoutId}: ${result.orders.length} order(s) across ${cart.sellers.length} seller(s)`);
+    }
+
+    return result;
+  }
+
+  private static async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db;
+  }
+
+  /**
+   * Find (or create) the owner's cart. When a user arrives with a guest
+   * session cart, its items are merged into the user's cart.
+   */
+  private static async resolveCart(db: any, owner: CartOwner, create: boolean): Promise<number | null> {
+    const [userCart] = owner.userId
+      ? await db.select({ id: carts.id }).from(carts).where(eq(carts.userId, owner.userId)).limit(1)
+      : [];
+    const [sessionCart] = owner.sessionId
+      ? await db.select({ id: carts.id, userId: carts.userId }).from(carts).where(eq(carts.sessionId, owner.sessionId)).limit(1)
+      : [];
+
+    if (owner.userId && sessionCart && !sessionCart.userId) {
+      if (!userCart) {
+        // Adopt the guest cart
+        await db.update(carts).set({ userId: owner.userId, sessionId: null }).where(eq(carts.id, sessionCart.id));
+        return sessionCart.id;
+      }
+      await this.mergeCarts(db, sessionCart.id, userCart.id);
+      return userCart.id;
+    }
+
+    const cartId = owner.userId ? userCart?.id : sessionCart?.id;
+    if (cartId || !create) return cartId ?? null;
+    if (!owner.userId && !owner.sessionId) {
+      throw new Error("Cart requires a user or session");
+    }
+
+    const [created] = await db
+      .insert(carts)
+      .values(owner.userId ? { userId: owner.userId } : { sessionId: owner.sessionId })
+      .$returningId();
+    return created.id;
+  }
+
+  private static async mergeCarts(db: any, fromCartId: number, intoCartId: number): Promise<void> {
+    await db.transaction(async (tx: any) => {
+      const items = await tx.select().from(cartItems).where(eq(cartItems.cartId, fromCartId));
+      for (const item of items) {
+        await tx
+          .insert(cartItems)
+          .values({ cartId: intoCartId, productId: item.productId, quantity: item.quantity })
+          .onDuplicateKeyUpdate({
+            set: { quantity: sql`LEAST(${cartItems.quantity} + ${item.quantity}, ${this.MAX_QUANTITY})` },
+          });
+      }
+      await tx.delete(cartItems).where(eq(cartItems.cartId, fromCartId));
+      await tx.delete(carts).where(eq(carts.id, fromCartId));
+    });
+    console.log(`[Cart] Merged guest cart ${fromCartId} into cart ${intoCartId}`);
+  }
+}
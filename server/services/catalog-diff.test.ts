@@ -0,0 +1,198 @@
+import { describe, expect, it } from "vitest";
+import type { CatalogSyncLog, InsertCatalogChangeEvent, Product } from "../../drizzle/schema";
+import { HeartbeatSyncV2 } from "../workers/heartbeat-sync-v2";
+import type { IngestableProduct } from "./catalog-ingestion";
+import {
+  CatalogDiffService,
+  diffCatalog,
+  selectForFetch,
+  type CatalogDiffStore,
+  type DiffableProduct,
+  type FetchedListing,
+} from "./catalog-diff";
+
+const HOUR = 60 * 60 * 1000;
+const NOW = new Date("2026-03-01T12:00:00Z");
+
+function stored(id: number, whatsappProductId: string, overrides: Partial<DiffableProduct> = {}): DiffableProduct {
+  return {
+    id,
+    whatsappProductId,
+    name: `Item ${id}`,
+    description: "desc",
+    price: "KES 1000.00",
+    imageUrl: `https://scontent.example/${whatsappProductId}.jpg?sig=a`,
+    removedAt: null,
+    lastSyncedAt: new Date(NOW.getTime() - HOUR),
+    ...overrides,
+  };
+}
+
+function listing(product: DiffableProduct, overrides: Partial<FetchedListing> = {}): FetchedListing {
+  return {
+    whatsappProductId: product.whatsappProductId!,
+    name: product.name,
+    description: product.description!,
+    price: product.price!,
+    imageUrl: product.imageUrl!,
+    ...overrides,
+  };
+}
+
+describe("diffCatalog", () => {
+  it("emits typed events for field drift, new listings and removals", () => {
+    const boots = stored(1, "101");
+    const dress = stored(2, "102");
+    const watch = stored(3, "103");
+    const lamp = stored(4, "104");
+
+    const diff = diffCatalog(
+      [boots, dress, watch, lamp],
+      ["101", "102", "103", "105"], // 104 left the catalog
+      new Map([
+        ["101", listing(boots, { price: "KES 1,200" })],
+        ["102", listing(dress, { name: "Summer Dress", imageUrl: "https://scontent.example/new.jpg" })],
+        ["103", "gone" as const],
+        ["105", { whatsappProductId: "105", name: "Rug", description: "", price: "KES 900.00", imageUrl: "x" }],
+      ])
+    );
+
+    expect(diff.changes.map(c => [c.type, c.whatsappProductId])).toEqual([
+      ["price_changed", "101"],
+      ["title_changed", "102"],
+      ["image_changed", "102"],
+      ["removed", "103"],
+      ["removed", "104"],
+      ["added", "105"],
+    ]);
+    expect(diff.changes[0]).toMatchObject({ productId: 1, previousValue: "KES 1000.00", newValue: "KES 1,200" });
+    expect(diff.updated.map(u => u.product.id)).toEqual([1, 2]);
+    expect(diff.removed.map(p => p.id)).toEqual([3, 4]);
+    expect(diff.added.map(l => l.name)).toEqual(["Rug"]);
+  });
+
+  it("ignores rotating image signatures but still refreshes the stored URL", () => {
+    const boots = stored(1, "101");
+    const diff = diffCatalog([boots], ["101"], new Map([["101", listing(boots, { imageUrl: boots.imageUrl!.replace("sig=a", "sig=b") })]]));
+
+    expect(diff.changes).toEqual([]);
+    expect(diff.updated).toHaveLength(1);
+  });
+
+  it("restores a soft-deleted listing that reappears", () => {
+    const boots = stored(1, "101", { removedAt: new Date(NOW.getTime() - 2 * HOUR) });
+    const diff = diffCatalog([boots], ["101"], new Map([["101", listing(boots)]]));
+
+    expect(diff.restored.map(r => r.product.id)).toEqual([1]);
+    expect(diff.changes).toEqual([
+      { type: "added", whatsappProductId: "101", productId: 1, previousValue: null, newValue: "Item 1" },
+    ]);
+  });
+
+  it("never removes on an empty scout or a transient fetch error", () => {
+    const boots = stored(1, "101");
+
+    expect(diffCatalog([boots], [], new Map()).removed).toEqual([]);
+    expect(diffCatalog([boots], ["101"], new Map()).changes).toEqual([]);
+  });
+});
+
+describe("selectForFetch", () => {
+  it("fetches unseen and restorable IDs plus the stalest live listings up to the cap", () => {
+    const fresh = stored(1, "101");
+    const stale = stored(2, "102", { lastSyncedAt: new Date(NOW.getTime() - 30 * HOUR) });
+    const staler = stored(3, "103", { lastSyncedAt: null });
+    const removed = stored(4, "104", { removedAt: NOW });
+
+    const ids = selectForFetch([fresh, stale, staler, removed], ["101", "102", "103", "104", "105"], {
+      now: NOW,
+      staleAfterMs: 24 * HOUR,
+      maxRefresh: 1,
+    });
+
+    expect(ids).toEqual(["104", "105", "103"]);
+  });
+});
+
+class MemoryDiffStore implements CatalogDiffStore {
+  products: Array<DiffableProduct & { sellerId: number }> = [];
+  events: InsertCatalogChangeEvent[] = [];
+  logs: Array<Partial<CatalogSyncLog>> = [];
+  purgeCutoffs: Date[] = [];
+
+  async getSellerProducts(sellerId: number) {
+    return this.products.filter(p => p.sellerId === sellerId).map(p => ({ ...p }));
+  }
+  async createProduct(listing: IngestableProduct) {
+    const product = { ...stored(this.products.length + 1, listing.whatsappProductId), ...listing, sellerId: listing.sellerId! };
+    this.products.push(product);
+    return product as unknown as Product;
+  }
+  async updateProduct(productId: number, fields: Partial<Product>) {
+    return Object.assign(this.products.find(p => p.id === productId)!, fields) as unknown as Product;
+  }
+  async touchProducts() {}
+  async recordChanges(events: InsertCatalogChangeEvent[]) {
+    this.events.push(...events);
+  }
+  async purgeRemovedBefore(cutoff: Date) {
+    this.purgeCutoffs.push(cutoff);
+    const expired = this.products.filter(p => p.removedAt && p.removedAt < cutoff).map(p => p.id);
+    this.products = this.products.filter(p => !expired.includes(p.id));
+    return expired;
+  }
+  async getSyncTargets() {
+    return [
+      { id: 1, whatsappPhone: "0712000001" },
+      { id: 2, whatsappPhone: "0712000002" },
+    ];
+  }
+  async startSyncLog(sellerId: number, catalogUrl: string) {
+    this.logs.push({ id: this.logs.length + 1, sellerId, catalogUrl, status: "started" });
+    return this.logs.length;
+  }
+  async finishSyncLog(logId: number, fields: Partial<CatalogSyncLog>) {
+    Object.assign(this.logs[logId - 1], fields);
+  }
+}
+
+describe("scheduled catalog sync", () => {
+  it("diffs every seller, logs each run and purges removals past the grace period", async () => {
+    const store = new MemoryDiffStore();
+    store.products.push(
+      { ...stored(1, "101"), sellerId: 1 },
+      { ...stored(2, "102"), sellerId: 1 },
+      { ...stored(3, "103", { removedAt: new Date(NOW.getTime() - 8 * 24 * HOUR) }), sellerId: 1 }
+    );
+    const diff = new CatalogDiffService({
+      store,
+      scout: async url => {
+        if (url.endsWith("254712000002")) throw new Error("Catalog unavailable");
+        return [{ productId: "101", sellerPhone: "254712000001" }, { productId: "104", sellerPhone: "254712000001" }];
+      },
+      fetchProduct: async ({ productId, sellerPhone }) => ({
+        status: "ok",
+        result: { productId, sellerPhone, title: `Item ${productId}`, description: "desc", ogImageUrl: "x", fetchedAt: NOW },
+      }),
+    });
+
+    const run = await new HeartbeatSyncV2(diff).runFullSync(NOW);
+
+    expect(run).toMatchObject({ sellers: 2, purged: 1 });
+    expect(run!.summaries.map(s => [s.sellerId, s.changes.added, s.changes.removed])).toEqual([[1, 1, 1]]);
+    expect(store.events.map(e => [e.type, e.whatsappProductId])).toEqual([
+      ["removed", "102"],
+      ["added", "104"],
+    ]);
+    expect(store.products.map(p => [p.whatsappProductId, p.removedAt === null])).toEqual([
+      ["101", true],
+      ["102", false],
+      ["104", true],
+    ]);
+    expect(store.purgeCutoffs).toEqual([new Date(NOW.getTime() - 7 * 24 * HOUR)]);
+    expect(store.logs.map(l => [l.sellerId, l.status])).toEqual([
+      [1, "completed"],
+      [2, "failed"],
+    ]);
+  });
+});
@@ -0,0 +1,575 @@
+import { and, desc, eq, gte, inArray, isNotNull, lt } from "drizzle-orm";
+import pLimit from "p-limit";
+import { getDb } from "../db";
+import {
+  cartItems,
+  catalogChangeEvents,
+  catalogSyncLogs,
+  comments,
+  crmLeads,
+  favorites,
+  listingDuplicateClusters,
+  orderItems,
+  orders,
+  productEmbeddings,
+  products,
+  qualityControl,
+  sellers,
+  type CatalogChangeEvent,
+  type CatalogSyncLog,
+  type InsertCatalogChangeEvent,
+  type Product,
+} from "../../drizzle/schema";
+import { ENV } from "../_core/env";
+import { catalogIngestion, CatalogIngestionService, type IngestableProduct } from "./catalog-ingestion";
+import { parsePriceAmount } from "./price-normalizer";
+import { productSearch } from "./search-index";
+import { deleteProductVectors } from "./vector-index";
+import {
+  WhatsAppScraperV3,
+  type HydrationResult,
+  type ProductFetchOutcome,
+  type ScoutResult,
+} from "./whatsapp-scraper-v2";
+
+/**
+ * Catalog Diff Engine
+ *
+ * Compares a fresh scout of a seller's WhatsApp catalog against the stored
+ * products and turns the difference into typed change events:
+ * - added: a new product ID, or a soft-deleted one that came back
+ * - removed: the ID left the catalog or its wa.me/p/ page returns 404
+ * - price_changed / title_changed / image_changed: field drift on a live listing
+ *
+ * Fetching is incremental: only new IDs and listings whose lastSyncedAt is
+ * older than the staleness window are re-hydrated on each run.
+ *
+ * Removal is a soft delete (products.removedAt). Listings stay restorable for
+ * a grace period and are hard-deleted by purgeExpired() once it has passed,
+ * unless an order, cart, CRM lead or duplicate cluster still points at them.
+ * Those stay soft-deleted so order history and the ledger keep their product.
+ */
+
+export type CatalogChangeType = CatalogChangeEvent["type"];
+
+export const CATALOG_CHANGE_TYPES = catalogChangeEvents.type.enumValues;
+
+/** Stored product fields the diff looks at */
+export type DiffableProduct = Pick<
+  Product,
+  "id" | "whatsappProductId" | "name" | "description" | "price" | "imageUrl" | "removedAt" | "lastSyncedAt"
+>;
+
+/** A freshly hydrated listing, normalized the same way ingestion stores it */
+export interface FetchedListing {
+  whatsappProductId: string;
+  name: string;
+  description: string;
+  price: string;
+  imageUrl: string;
+}
+
+export interface CatalogChange {
+  type: CatalogChangeType;
+  whatsappProductId: string;
+  productId: number | null;
+  previousValue: string | null;
+  newValue: string | null;
+}
+
+export interface CatalogDiff {
+  changes: CatalogChange[];
+  /** IDs never stored before */
+  added: FetchedListing[];
+  /** Soft-deleted listings that reappeared */
+  restored: Array<{ product: DiffableProduct; listing: FetchedListing }>;
+  /** Live listings with any field drift (including silent description/image URL refreshes) */
+  updated: Array<{ product: DiffableProduct; listing: FetchedListing }>;
+  /** Live listings fetched with no drift */
+  unchanged: DiffableProduct[];
+  removed: DiffableProduct[];
+}
+
+/** Result of fetching one scouted ID; IDs that failed transiently are simply absent */
+export type FetchedObservation = FetchedListing | "gone";
+
+/**
+ * Meta CDN image URLs carry rotating signature params; compare on the path only
+ */
+function imagePath(url: string | null | undefined): string {
+  return (url || "").split("?")[0];
+}
+
+function priceOf(price: string | null | undefined): number | null {
+  return price ? parsePriceAmount(price) : null;
+}
+
+/**
+ * Diff stored products against a scout and the listings fetched this run. Pure - no I/O.
+ *
+ * An empty scout never removes anything: a catalog page that suddenly lists
+ * nothing is far more likely a scrape failure than a seller clearing their shop.
+ * A 404 on the product page removes the listing regardless.
+ */
+export function diffCatalog(
+  stored: DiffableProduct[],
+  scoutedIds: string[],
+  observations: Map<string, FetchedObservation>
+): CatalogDiff {
+  const diff: CatalogDiff = { changes: [], added: [], restored: [], updated: [], unchanged: [], removed: [] };
+  const scouted = new Set(scoutedIds);
+  const byWhatsappId = new Map<string, DiffableProduct>();
+  for (const product of stored) {
+    if (product.whatsappProductId) byWhatsappId.set(product.whatsappProductId, product);
+  }
+
+  const change = (
+    type: CatalogChangeType,
+    whatsappProductId: string,
+    productId: number | null,
+    previousValue: string | null = null,
+    newValue: string | null = null
+  ) => diff.changes.push({ type, whatsappProductId, productId, previousValue, newValue });
+
+  for (const product of byWhatsappId.values()) {
+    const whatsappProductId = product.whatsappProductId!;
+    const observation = observations.get(whatsappProductId);
+
+    if (product.removedAt) {
+      if (observation && observation !== "gone") {
+        diff.restored.push({ product, listing: observation });
+        change("added", whatsappProductId, product.id, null, observation.name);
+      }
+      continue;
+    }
+
+    const delisted = scouted.size > 0 && !scouted.has(whatsappProductId);
+    if (observation === "gone" || delisted) {
+      diff.removed.push(product);
+      change("removed", whatsappProductId, product.id, product.name, null);
+      continue;
+    }
+
+    // Scouted but not fetched this run (still fresh, or a transient error)
+    if (!observation) continue;
+
+    let drifted = false;
+    if (priceOf(product.price) !== priceOf(observation.price)) {
+      change("price_changed", whatsappProductId, product.id, product.price, observation.price);
+      drifted = true;
+    }
+    if (product.name !== observation.name) {
+      change("title_changed", whatsappProductId, product.id, product.name, observation.name);
+      drifted = true;
+    }
+    if (imagePath(product.imageUrl) !== imagePath(observation.imageUrl)) {
+      change("image_changed", whatsappProductId, product.id, product.imageUrl, observation.imageUrl);
+      drifted = true;
+    }
+    if (product.imageUrl !== observation.imageUrl || (product.description || "") !== observation.description) {
+      drifted = true;
+    }
+
+    if (drifted) {
+      diff.updated.push({ product, listing: observation });
+    } else {
+      diff.unchanged.push(product);
+    }
+  }
+
+  for (const whatsappProductId of scoutedIds) {
+    if (byWhatsappId.has(whatsappProductId)) continue;
+    const observation = observations.get(whatsappProductId);
+    if (observation && observation !== "gone") {
+      diff.added.push(observation);
+      change("added", whatsappProductId, null, null, observation.name);
+    }
+  }
+
+  return diff;
+}
+
+/**
+ * Pick which scouted IDs to fetch this run: every ID without a live stored
+ * listing, plus the stalest live listings up to maxRefresh
+ */
+export function selectForFetch(
+  stored: DiffableProduct[],
+  scoutedIds: string[],
+  options: { now: Date; staleAfterMs: number; maxRefresh: number }
+): string[] {
+  const live = new Map<string, DiffableProduct>();
+  for (const product of stored) {
+    if (product.whatsappProductId && !product.removedAt) live.set(product.whatsappProductId, product);
+  }
+
+  const unseen = scoutedIds.filter(id => !live.has(id));
+  const cutoff = options.now.getTime() - options.staleAfterMs;
+  const stale = scoutedIds
+    .filter(id => live.has(id))
+    .map(id => ({ id, syncedAt: live.get(id)!.lastSyncedAt?.getTime() ?? 0 }))
+    .filter(entry => entry.syncedAt < cutoff)
+    .sort((a, b) => a.syncedAt - b.syncedAt)
+    .slice(0, options.maxRefresh)
+    .map(entry => entry.id);
+
+  return [...unseen, ...stale];
+}
+
+/**
+ * Persistence used by the diff engine (drizzle-backed by default)
+ */
+export interface CatalogDiffStore {
+  getSellerProducts(sellerId: number): Promise<DiffableProduct[]>;
+  createProduct(listing: IngestableProduct): Promise<Product>;
+  updateProduct(productId: number, fields: Partial<Product>): Promise<Product>;
+  touchProducts(productIds: number[], syncedAt: Date): Promise<void>;
+  recordChanges(events: InsertCatalogChangeEvent[]): Promise<void>;
+  /**
+   * Hard-delete products soft-deleted before the cutoff that nothing else
+   * references; returns their IDs
+   */
+  purgeRemovedBefore(cutoff: Date): Promise<number[]>;
+  /** Sellers with a WhatsApp number, for the scheduled sync */
+  getSyncTargets(): Promise<SellerSyncTarget[]>;
+  /** Open a catalog_sync_logs row; returns its ID */
+  startSyncLog(sellerId: number, catalogUrl: string): Promise<number>;
+  finishSyncLog(logId: number, fields: Partial<CatalogSyncLog>): Promise<void>;
+}
+
+/** Columns that keep a removed product from being purged */
+const PRODUCT_REFERENCES = [
+  [orderItems, orderItems.productId],
+  [orders, orders.productId],
+  [cartItems, cartItems.productId],
+  [crmLeads, crmLeads.productId],
+  [listingDuplicateClusters, listingDuplicateClusters.canonicalProductId],
+] as const;
+
+export class DrizzleCatalogDiffStore implements CatalogDiffStore {
+  private async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db;
+  }
+
+  async getSellerProducts(sellerId: number): Promise<DiffableProduct[]> {
+    const db = await this.db();
+    return db
+      .select()
+      .from(products)
+      .where(and(eq(products.sellerId, sellerId), isNotNull(products.whatsappProductId)));
+  }
+
+  async createProduct(listing: IngestableProduct): Promise<Product> {
+    const { product } = await catalogIngestion.upsertProduct(listing);
+    return product;
+  }
+
+  async updateProduct(productId: number, fields: Partial<Product>): Promise<Product> {
+    const db = await this.db();
+    await db.update(products).set(fields).where(eq(products.id, productId));
+    const [product] = await db.select().from(products).where(eq(products.id, productId)).limit(1);
+    return product;
+  }
+
+  async touchProducts(productIds: number[], syncedAt: Date): Promise<void> {
+    if (productIds.length === 0) return;
+    const db = await this.db();
+    await db.update(products).set({ lastSyncedAt: syncedAt }).where(inArray(products.id, productIds));
+  }
+
+  async recordChanges(events: InsertCatalogChangeEvent[]): Promise<void> {
+    if (events.length === 0) return;
+    const db = await this.db();
+    await db.insert(catalogChangeEvents).values(events);
+  }
+
+  async purgeRemovedBefore(cutoff: Date): Promise<number[]> {
+    const db = await this.db();
+    // Checked and deleted in one transaction so a product can't gain an order in between
+    const ids: number[] = await db.transaction(async (tx: any) => {
+      const expired = await tx
+        .select({ id: products.id })
+        .from(products)
+        .where(and(isNotNull(products.removedAt), lt(products.removedAt, cutoff)));
+      if (expired.length === 0) return [];
+
+      const candidates: number[] = expired.map((row: { id: number }) => row.id);
+      const referenced = new Set<number>();
+      for (const [table, column] of PRODUCT_REFERENCES) {
+        const rows = await tx.selectDistinct({ id: column }).from(table).where(inArray(column, candidates));
+        rows.forEach((row: { id: number | null }) => row.id !== null && referenced.add(row.id));
+      }
+      const purgeable = candidates.filter(id => !referenced.has(id));
+      if (purgeable.length === 0) return [];
+
+      await tx.delete(productEmbeddings).where(inArray(productEmbeddings.productId, purgeable));
+      await tx.delete(qualityControl).where(inArray(qualityControl.productId, purgeable));
+      await tx.delete(favorites).where(inArray(favorites.productId, purgeable));
+      await tx.delete(comments).where(inArray(comments.productId, purgeable));
+      await tx.delete(products).where(inArray(products.id, purgeable));
+      return purgeable;
+    });
+
+    if (ids.length > 0) await deleteProductVectors(ids);
+    return ids;
+  }
+
+  async getSyncTargets(): Promise<SellerSyncTarget[]> {
+    const db = await this.db();
+    const rows = await db
+      .select({ id: sellers.id, whatsappPhone: sellers.whatsappPhone })
+      .from(sellers)
+      .where(isNotNull(sellers.whatsappPhone));
+    return rows as SellerSyncTarget[];
+  }
+
+  async startSyncLog(sellerId: number, catalogUrl: string): Promise<number> {
+    const db = await this.db();
+    const [log] = await db.insert(catalogSyncLogs).values({ sellerId, catalogUrl, status: "started" }).$returningId();
+    return log.id;
+  }
+
+  async finishSyncLog(logId: number, fields: Partial<CatalogSyncLog>): Promise<void> {
+    const db = await this.db();
+    await db.update(catalogSyncLogs).set(fields).where(eq(catalogSyncLogs.id, logId));
+  }
+}
+
+export interface CatalogDiffOptions {
+  store?: CatalogDiffStore;
+  scout?: (catalogUrl: string) => Promise<ScoutResult[]>;
+  fetchProduct?: (scout: ScoutResult) => Promise<ProductFetchOutcome>;
+  /** Live listings older than this are re-fetched (default 24h) */
+  staleAfterMs?: number;
+  /** Cap on stale re-fetches per seller per run (default 50) */
+  maxRefreshPerRun?: number;
+  /** How long a removed listing stays restorable before purge (default 7 days) */
+  removalGraceMs?: number;
+  concurrency?: number;
+}
+
+export interface SellerSyncTarget {
+  id: number;
+  whatsappPhone: string;
+}
+
+export interface SellerDiffSummary {
+  sellerId: number;
+  scouted: number;
+  fetched: number;
+  failed: number;
+  changes: Record<CatalogChangeType, number>;
+}
+
+export interface CatalogSyncRun {
+  sellers: number;
+  summaries: SellerDiffSummary[];
+  purged: number;
+}
+
+export interface ChangeQuery {
+  since: Date;
+  sellerId?: number;
+  types?: CatalogChangeType[];
+  limit?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export class CatalogDiffService {
+  private store: CatalogDiffStore;
+  private scout: (catalogUrl: string) => Promise<ScoutResult[]>;
+  private fetchProduct: (scout: ScoutResult) => Promise<ProductFetchOutcome>;
+  private staleAfterMs: number;
+  private maxRefreshPerRun: number;
+  private concurrency: number;
+  readonly removalGraceMs: number;
+
+  constructor(options: CatalogDiffOptions = {}) {
+    this.store = options.store ?? new DrizzleCatalogDiffStore();
+    this.scout = options.scout ?? (url => WhatsAppScraperV3.scout(url));
+    this.fetchProduct = options.fetchProduct ?? (scout => WhatsAppScraperV3.fetchProduct(scout));
+    this.staleAfterMs = options.staleAfterMs ?? 24 * HOUR_MS;
+    this.maxRefreshPerRun = options.maxRefreshPerRun ?? 50;
+    this.removalGraceMs = options.removalGraceMs ?? 7 * 24 * HOUR_MS;
+    this.concurrency = options.concurrency ?? 20;
+  }
+
+  /**
+   * Scout one seller's catalog, fetch what's new or stale, apply the diff and
+   * persist its change events
+   */
+  async syncSeller(seller: SellerSyncTarget, now: Date = new Date()): Promise<SellerDiffSummary> {
+    const sellerPhone = CatalogIngestionService.normalizePhone(seller.whatsappPhone);
+    const [stored, scouted] = await Promise.all([
+      this.store.getSellerProducts(seller.id),
+      this.scout(`${ENV.whatsappBaseUrl}/c/${sellerPhone}`),
+    ]);
+    const scoutedIds = Array.from(new Set(scouted.map(s => s.productId)));
+
+    const toFetch = selectForFetch(stored, scoutedIds, {
+      now,
+      staleAfterMs: this.staleAfterMs,
+      maxRefresh: this.maxRefreshPerRun,
+    });
+
+    const limit = pLimit(this.concurrency);
+    const observations = new Map<string, FetchedObservation>();
+    let failed = 0;
+    await Promise.all(
+      toFetch.map(productId =>
+        limit(async () => {
+          const outcome = await this.fetchProduct({ productId, sellerPhone });
+          if (outcome.status === "ok") {
+            observations.set(productId, this.toListing(outcome.result));
+          } else if (outcome.status === "gone") {
+            observations.set(productId, "gone");
+          } else {
+            failed++;
+          }
+        })
+      )
+    );
+
+    const diff = diffCatalog(stored, scoutedIds, observations);
+    await this.apply(seller.id, sellerPhone, diff, now);
+
+    const changes = Object.fromEntries(CATALOG_CHANGE_TYPES.map(type => [type, 0])) as Record<CatalogChangeType, number>;
+    for (const c of diff.changes) changes[c.type]++;
+
+    console.log(
+      `[CatalogDiff] Seller ${seller.id}: scouted ${scoutedIds.length}, fetched ${toFetch.length}, ` +
+        `${diff.changes.length} changes (${failed} fetch errors)`
+    );
+
+    return { sellerId: seller.id, scouted: scoutedIds.length, fetched: toFetch.length, failed, changes };
+  }
+
+  /**
+   * The scheduled sweep: diff every seller with a WhatsApp number, logging each
+   * run to catalog_sync_logs, then purge expired removals. One seller failing
+   * doesn't stop the others.
+   */
+  async syncAll(now: Date = new Date()): Promise<CatalogSyncRun> {
+    const targets = await this.store.getSyncTargets();
+    const summaries: SellerDiffSummary[] = [];
+
+    for (const seller of targets) {
+      const logId = await this.store.startSyncLog(seller.id, `heartbeat:${seller.whatsappPhone}`);
+      try {
+        const summary = await this.syncSeller(seller, now);
+        summaries.push(summary);
+        await this.store.finishSyncLog(logId, {
+          status: "completed",
+          productsFound: summary.scouted,
+          productsScraped: summary.fetched - summary.failed,
+          productsFailed: summary.failed,
+          completedAt: new Date(),
+        });
+      } catch (error) {
+        console.error(`[CatalogDiff] Sync failed for seller ${seller.id}:`, error);
+        await this.store.finishSyncLog(logId, { status: "failed", error: String(error), completedAt: new Date() });
+      }
+    }
+
+    const purged = await this.purgeExpired(now);
+    return { sellers: targets.length, summaries, purged };
+  }
+
+  /**
+   * Hard-delete listings whose removal grace period has passed
+   */
+  async purgeExpired(now: Date = new Date()): Promise<number> {
+    const purged = await this.store.purgeRemovedBefore(new Date(now.getTime() - this.removalGraceMs));
+    if (purged.length > 0) {
+      console.log(`[CatalogDiff] Purged ${purged.length} listings past the removal grace period`);
+    }
+    return purged.length;
+  }
+
+  /**
+   * "What changed since X": newest first, optionally scoped to one seller
+   */
+  static async getChangesSince(query: ChangeQuery): Promise<CatalogChangeEvent[]> {
+    const db = await getDb();
+    if (!db) {
+      return [];
+    }
+
+    const conditions = [gte(catalogChangeEvents.detectedAt, query.since)];
+    if (query.sellerId !== undefined) {
+      conditions.push(eq(catalogChangeEvents.sellerId, query.sellerId));
+    }
+    if (query.types && query.types.length > 0) {
+      conditions.push(inArray(catalogChangeEvents.type, query.types));
+    }
+
+    return db
+      .select()
+      .from(catalogChangeEvents)
+      .where(and(...conditions))
+      .orderBy(desc(catalogChangeEvents.detectedAt), desc(catalogChangeEvents.id))
+      .limit(query.limit ?? 100);
+  }
+
+  private toListing(result: HydrationResult): FetchedListing {
+    return {
+      whatsappProductId: result.productId,
+      name: result.title.slice(0, 255),
+      description: result.description,
+      price: WhatsAppScraperV3.extractPrice(`${result.title} ${result.description}`),
+      imageUrl: result.ogImageUrl,
+    };
+  }
+
+  private async apply(sellerId: number, sellerPhone: string, diff: CatalogDiff, now: Date): Promise<void> {
+    const productIds = new Map<string, number>();
+
+    for (const listing of diff.added) {
+      const product = await this.store.createProduct({
+        ...listing,
+        sellerId,
+        sellerPhone,
+        category: WhatsAppScraperV3.inferCategory(listing.name),
+      });
+      productIds.set(listing.whatsappProductId, product.id);
+      productSearch.upsertProduct(product);
+    }
+
+    for (const { product, listing } of [...diff.restored, ...diff.updated]) {
+      const updated = await this.store.updateProduct(product.id, {
+        name: listing.name,
+        description: listing.description,
+        price: listing.price.slice(0, 20),
+        priceAmount: parsePriceAmount(listing.price),
+        imageUrl: listing.imageUrl,
+        removedAt: null,
+        lastSyncedAt: now,
+      });
+      productSearch.upsertProduct(updated);
+    }
+
+    for (const product of diff.removed) {
+      await this.store.updateProduct(product.id, { removedAt: now });
+      productSearch.removeProduct(product.id);
+    }
+
+    await this.store.touchProducts(diff.unchanged.map(p => p.id), now);
+
+    await this.store.recordChanges(
+      diff.changes.map(c => ({
+        sellerId,
+        productId: c.productId ?? productIds.get(c.whatsappProductId) ?? null,
+        whatsappProductId: c.whatsappProductId,
+        type: c.type,
+        previousValue: c.previousValue,
+        newValue: c.newValue,
+        detectedAt: now,
+      }))
+    );
+  }
+}
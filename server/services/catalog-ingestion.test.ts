@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { Product } from "../../drizzle/schema";
+import { CatalogIngestionService, type IngestedFields, type IngestionStore } from "./catalog-ingestion";
+import type { ScrapedProduct } from "./scout-hydrate";
+
+class MemoryIngestionStore implements IngestionStore {
+  products: Product[] = [];
+  sellers = new Map<number, string>([[7, "0712345678"]]);
+  categories: string[] = [];
+
+  async findSellerByPhone(variants: string[]) {
+    const match = Array.from(this.sellers).find(([, phone]) => variants.includes(phone));
+    return match ? match[0] : null;
+  }
+  async createUnclaimedSeller(phone: string) {
+    const id = Math.max(...this.sellers.keys()) + 1;
+    this.sellers.set(id, phone);
+    return id;
+  }
+  async resolveCategory(name: string) {
+    if (!this.categories.includes(name)) this.categories.push(name);
+    return this.categories.indexOf(name) + 1;
+  }
+  async getProductIdByWhatsappId(whatsappProductId: string) {
+    return this.products.find(p => p.whatsappProductId === whatsappProductId)?.id ?? null;
+  }
+  async upsertProduct(whatsappProductId: string, fields: IngestedFields) {
+    let product = this.products.find(p => p.whatsappProductId === whatsappProductId);
+    if (!product) {
+      product = { id: this.products.length + 1, whatsappProductId, stock: 1 } as Product;
+      this.products.push(product);
+    }
+    return { ...Object.assign(product, fields) };
+  }
+}
+
+function setup(pages: ScrapedProduct[]) {
+  const store = new MemoryIngestionStore();
+  const fetched: string[] = [];
+  const service = new CatalogIngestionService({
+    store,
+    hydrate: async url => {
+      fetched.push(url);
+      return pages.shift()!;
+    },
+    saveEmbeddings: async () => {},
+    search: { upsertProduct: () => {} },
+  });
+  return { store, service, fetched };
+}
+
+const page = (name: string, price: string): ScrapedProduct => ({
+  name,
+  price,
+  description: "Handmade, size 40",
+  imageUrl: "https://scontent.example/boots.jpg",
+  sourceUrl: "",
+});
+
+describe("catalog ingestion", () => {
+  it("updates the existing row when the same link is ingested twice", async () => {
+    const { store, service, fetched } = setup([page("Leather Boots", "KES 2,500"), page("Leather Boots (Brown)", "KES 2,200")]);
+    const url = "https://wa.me/p/123456789/+254712345678";
+
+    const first = await service.ingestFromUrl(url);
+    const second = await service.ingestFromUrl(url);
+
+    expect([first.created, second.created]).toEqual([true, false]);
+    expect(store.products).toHaveLength(1);
+    expect(second.product).toMatchObject({
+      id: first.product.id,
+      whatsappProductId: "123456789",
+      name: "Leather Boots (Brown)",
+      price: "KES 2,200",
+      priceAmount: 2200,
+      sellerId: 7, // Stored as 0712..., matched through the 254... variant
+      categoryId: 1,
+      sourceUrl: "https://wa.me/p/123456789/254712345678",
+    });
+    expect(store.categories).toHaveLength(1);
+    expect(store.sellers.size).toBe(1);
+    expect(fetched).toEqual(["https://wa.me/p/123456789/254712345678", "https://wa.me/p/123456789/254712345678"]);
+  });
+
+  it("registers an unclaimed seller for an unknown number", async () => {
+    const { store, service } = setup([page("Kitenge Dress", "KES 1,800")]);
+    const { product } = await service.ingestFromUrl("https://wa.me/p/42/0733000111");
+
+    expect(product.sellerId).toBe(8);
+    expect(store.sellers.get(8)).toBe("254733000111");
+  });
+
+  it("only accepts product links on wa.me", () => {
+    expect(CatalogIngestionService.parseProductUrl("https://wa.me/p/123/+254712345678")).toEqual({
+      whatsappProductId: "123",
+      sellerPhone: "254712345678",
+    });
+    expect(CatalogIngestionService.parseProductUrl("https://evil.example/?x=wa.me/p/1/254712345678")).toBeNull();
+    expect(CatalogIngestionService.parseProductUrl("https://wa.me.evil.example/p/1/254712345678")).toBeNull();
+    expect(CatalogIngestionService.parseProductUrl("https://wa.me/p/1/254712345678/extra")).toBeNull();
+    expect(CatalogIngestionService.parseProductUrl("https://user@wa.me/p/1/254712345678")).toBeNull();
+    expect(CatalogIngestionService.parseProductUrl("not a url")).toBeNull();
+  });
+});
@@ -0,0 +1,309 @@
+import { eq, inArray } from "drizzle-orm";
+import { getDb } from "../db";
+import { categories, products, sellers, type InsertProduct, type Product } from "../../drizzle/schema";
+import { saveProductEmbedding } from "../embeddings-db";
+import { parsePriceAmount } from "./price-normalizer";
+import { ScoutHydrateService, type ScrapedProduct } from "./scout-hydrate";
+import { productSearch } from "./search-index";
+import type { ProductEmbeddingSet } from "./siglip-real";
+import { indexProductEmbeddings } from "./vector-index";
+import { WhatsAppScraperV3 } from "./whatsapp-scraper-v2";
+
+/**
+ * Catalog Ingestion Service
+ *
+ * Persists hydrated WhatsApp listings:
+ * - Upserts into products keyed by the WhatsApp product ID, so re-ingesting
+ *   the same link updates the existing row instead of duplicating it
+ * - Resolves the seller from the phone number in the wa.me/p/ link
+ * - Infers and resolves the category
+ * - Stores image/text/hybrid embeddings in product_embeddings and the
+ *   hybrid vector in the vector index
+ *
+ * Only links on wa.me itself are accepted; the page fetched is always the
+ * canonical https://wa.me/p/{productId}/{phone}, never the submitted URL.
+ */
+
+export interface WhatsAppProductRef {
+  whatsappProductId: string;
+  sellerPhone: string;
+}
+
+export interface IngestableProduct extends WhatsAppProductRef {
+  name: string;
+  price: string;
+  description: string;
+  imageUrl: string;
+  sourceUrl?: string;
+  category?: string;
+  source?: string;
+  /** Known seller (e.g. during a catalog sync); resolved from sellerPhone when omitted */
+  sellerId?: number;
+}
+
+export interface IngestionResult {
+  product: Product;
+  created: boolean;
+  embedded: boolean;
+}
+
+/** Product columns written on every ingest */
+export type IngestedFields = Pick<
+  InsertProduct,
+  | "sellerId"
+  | "categoryId"
+  | "name"
+  | "description"
+  | "price"
+  | "priceAmount"
+  | "imageUrl"
+  | "sourceUrl"
+  | "source"
+  | "removedAt"
+  | "lastSyncedAt"
+>;
+
+/**
+ * Persistence used by CatalogIngestionService (drizzle-backed by default)
+ */
+export interface IngestionStore {
+  /** Seller whose WhatsApp number matches any of the variants */
+  findSellerByPhone(variants: string[]): Promise<number | null>;
+  createUnclaimedSeller(phone: string): Promise<number>;
+  /** Category ID by name, created on first use */
+  resolveCategory(name: string): Promise<number>;
+  getProductIdByWhatsappId(whatsappProductId: string): Promise<number | null>;
+  /** Insert or update by WhatsApp product ID; returns the stored row */
+  upsertProduct(whatsappProductId: string, fields: IngestedFields): Promise<Product>;
+}
+
+export class DrizzleIngestionStore implements IngestionStore {
+  private async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db;
+  }
+
+  async findSellerByPhone(variants: string[]): Promise<number | null> {
+    const db = await this.db();
+    const [seller] = await db
+      .select({ id: sellers.id })
+      .from(sellers)
+      .where(inArray(sellers.whatsappPhone, variants))
+      .limit(1);
+    return seller?.id ?? null;
+  }
+
+  async createUnclaimedSeller(phone: string): Promise<number> {
+    const db = await this.db();
+    const [inserted] = await db
+      .insert(sellers)
+      .values({
+        userId: 0,
+        storeName: `WhatsApp Seller +${phone}`,
+        whatsappPhone: phone,
+      })
+      .$returningId();
+    return inserted.id;
+  }
+
+  async resolveCategory(name: string): Promise<number> {
+    const db = await this.db();
+    await db
+      .insert(categories)
+      .values({ name })
+      .onDuplicateKeyUpdate({ set: { name } });
+
+    const [category] = await db
+      .select({ id: categories.id })
+      .from(categories)
+      .where(eq(categories.name, name))
+      .limit(1);
+
+    return category.id;
+  }
+
+  async getProductIdByWhatsappId(whatsappProductId: string): Promise<number | null> {
+    const db = await this.db();
+    const [product] = await db
+      .select({ id: products.id })
+      .from(products)
+      .where(eq(products.whatsappProductId, whatsappProductId))
+      .limit(1);
+    return product?.id ?? null;
+  }
+
+  async upsertProduct(whatsappProductId: string, fields: IngestedFields): Promise<Product> {
+    const db = await this.db();
+    // Stock is only set on first insert; WhatsApp catalogs don't expose quantities
+    await db
+      .insert(products)
+      .values({ ...fields, whatsappProductId, stock: 1 })
+      .onDuplicateKeyUpdate({ set: { ...fields, updatedAt: new Date() } });
+
+    const [product] = await db
+      .select()
+      .from(products)
+      .where(eq(products.whatsappProductId, whatsappProductId))
+      .limit(1);
+    return product;
+  }
+}
+
+export interface CatalogIngestionOptions {
+  store?: IngestionStore;
+  /** Fetch and embed a canonical wa.me/p/ page */
+  hydrate?: (url: string) => Promise<ScrapedProduct>;
+  /** Persist embeddings (product_embeddings and the vector index) */
+  saveEmbeddings?: (product: Product, embeddings: ProductEmbeddingSet) => Promise<void>;
+  search?: Pick<typeof productSearch, "upsertProduct">;
+}
+
+const WA_PRODUCT_PATH = /^\/p\/(\d+)\/\+?(\d+)\/?$/;
+
+async function saveEmbeddings(product: Product, embeddings: ProductEmbeddingSet): Promise<void> {
+  await saveProductEmbedding(product.id, embeddings.imageEmbedding, embeddings.textEmbedding, embeddings.hybridEmbedding);
+  await indexProductEmbeddings(product, embeddings);
+}
+
+export class CatalogIngestionService {
+  private static readonly SOURCE = "whatsapp_catalog";
+
+  private store: IngestionStore;
+  private hydrate: NonNullable<CatalogIngestionOptions["hydrate"]>;
+  private saveEmbeddings: NonNullable<CatalogIngestionOptions["saveEmbeddings"]>;
+  private search: NonNullable<CatalogIngestionOptions["search"]>;
+
+  constructor(options: CatalogIngestionOptions = {}) {
+    this.store = options.store ?? new DrizzleIngestionStore();
+    this.hydrate = options.hydrate ?? (url => ScoutHydrateService.hydrateFromUrl(url));
+    this.saveEmbeddings = options.saveEmbeddings ?? saveEmbeddings;
+    this.search = options.search ?? productSearch;
+  }
+
+  /**
+   * Extract product ID and seller phone from a https://wa.me/p/{productId}/{phone} link
+   */
+  static parseProductUrl(url: string): WhatsAppProductRef | null {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return null;
+    }
+    if (parsed.protocol !== "https:" && parsed.protocol !== "http:") return null;
+    if (parsed.hostname !== "wa.me" || parsed.port || parsed.username || parsed.password) return null;
+
+    const match = parsed.pathname.match(WA_PRODUCT_PATH);
+    if (!match) return null;
+
+    return {
+      whatsappProductId: match[1],
+      sellerPhone: this.normalizePhone(match[2]),
+    };
+  }
+
+  /**
+   * Normalize Kenyan numbers to international format without "+" (0712... -> 254712...)
+   */
+  static normalizePhone(phone: string): string {
+    const digits = phone.replace(/\D/g, "");
+    if (digits.startsWith("0") && digits.length === 10) {
+      return `254${digits.slice(1)}`;
+    }
+    return digits;
+  }
+
+  /**
+   * Hydrate a wa.me/p/ link and persist it
+   */
+  async ingestFromUrl(url: string): Promise<IngestionResult> {
+    const ref = CatalogIngestionService.parseProductUrl(url);
+    if (!ref) {
+      throw new Error("URL is not a WhatsApp product link (expected https://wa.me/p/{productId}/{phone})");
+    }
+
+    const canonicalUrl = `https://wa.me/p/${ref.whatsappProductId}/${ref.sellerPhone}`;
+    const hydrated = await this.hydrate(canonicalUrl);
+
+    const result = await this.upsertProduct(
+      {
+        ...ref,
+        name: hydrated.name,
+        price: hydrated.price,
+        description: hydrated.description,
+        imageUrl: hydrated.imageUrl,
+        sourceUrl: canonicalUrl,
+      },
+      hydrated.embeddings
+    );
+
+    this.search.upsertProduct(result.product);
+    return result;
+  }
+
+  /**
+   * Insert or update a product by WhatsApp product ID, then save its embeddings
+   */
+  async upsertProduct(data: IngestableProduct, embeddings?: ProductEmbeddingSet): Promise<IngestionResult> {
+    const sellerId = data.sellerId ?? (await this.resolveSeller(data.sellerPhone));
+    const categoryId = await this.store.resolveCategory(data.category || WhatsAppScraperV3.inferCategory(data.name));
+
+    const existingId = await this.store.getProductIdByWhatsappId(data.whatsappProductId);
+    const product = await this.store.upsertProduct(data.whatsappProductId, {
+      sellerId,
+      categoryId,
+      name: data.name.slice(0, 255),
+      description: data.description,
+      price: data.price.slice(0, 20),
+      priceAmount: parsePriceAmount(data.price),
+      imageUrl: data.imageUrl,
+      sourceUrl: data.sourceUrl || `https://wa.me/p/${data.whatsappProductId}/${data.sellerPhone}`,
+      source: data.source || CatalogIngestionService.SOURCE,
+      // Re-ingesting a soft-deleted listing brings it back
+      removedAt: null,
+      lastSyncedAt: new Date(),
+    });
+
+    let embedded = false;
+    if (embeddings) {
+      try {
+        await this.saveEmbeddings(product, embeddings);
+        embedded = true;
+      } catch (error) {
+        console.error(`[Ingestion] Failed to save embeddings for product ${product.id}:`, error);
+      }
+    }
+
+    const created = existingId === null;
+    console.log(`[Ingestion] ${created ? "Created" : "Updated"} product ${product.id} (WA ${data.whatsappProductId})`);
+
+    return { product, created, embedded };
+  }
+
+  /**
+   * Find the seller by WhatsApp phone, registering an unclaimed seller if none exists.
+   * Unclaimed sellers have userId 0 until the owner completes onboarding.
+   */
+  private async resolveSeller(phone: string): Promise<number> {
+    const normalized = CatalogIngestionService.normalizePhone(phone);
+    const variants = [normalized, `+${normalized}`];
+    if (normalized.startsWith("254")) {
+      variants.push(`0${normalized.slice(3)}`);
+    }
+
+    const existing = await this.store.findSellerByPhone(variants);
+    if (existing !== null) {
+      return existing;
+    }
+
+    const sellerId = await this.store.createUnclaimedSeller(normalized);
+    console.log(`[Ingestion] Registered unclaimed seller ${sellerId} for +${normalized}`);
+    return sellerId;
+  }
+}
+
+// Singleton instance
+export const catalogIngestion = new CatalogIngestionService();
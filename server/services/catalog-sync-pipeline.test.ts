@@ -0,0 +1,215 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { ENV } from "../_core/env";
+import type { Product } from "../../drizzle/schema";
+import type { IngestableProduct } from "./catalog-ingestion";
+import {
+  CatalogSyncPipeline,
+  type CatalogSyncJobData,
+  type CatalogSyncStage,
+  type CatalogSyncStore,
+  type SyncCounts,
+} from "./catalog-sync-pipeline";
+import type { QCResult } from "./gemini-quality-control";
+
+const SELLER_PHONE = "254712345678";
+
+const LISTINGS: Record<string, { title: string; description: string } | null> = {
+  "1000000000000001": { title: "Leather Boots", description: "Handmade boots. KES 4,500" },
+  "1000000000000002": { title: "Summer Dress", description: "Cotton dress KES 2,800" },
+  "1000000000000003": { title: "Replica Designer Watch", description: "KES 1,000" },
+  "1000000000000004": null, // 404 on wa.me/p/
+};
+
+function catalogPage(): string {
+  const links = Object.keys(LISTINGS)
+    .map(id => `<a href="/p/${id}/${SELLER_PHONE}">Item</a>`)
+    .join("\n");
+  return `<html><body>${links}<a href="/p/${Object.keys(LISTINGS)[0]}/${SELLER_PHONE}">Dup</a></body></html>`;
+}
+
+function productPage(listing: { title: string; description: string }, id: string): string {
+  return `<html><head>
+    <meta property="og:title" content="${listing.title}" />
+    <meta property="og:description" content="${listing.description}" />
+    <meta property="og:image" content="https://scontent.example/${id}.jpg" />
+  </head><body></body></html>`;
+}
+
+function startFixtureServer(): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const url = req.url || "";
+    if (url === `/c/${SELLER_PHONE}`) {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(catalogPage());
+      return;
+    }
+
+    const match = url.match(/^\/p\/(\d{16})\//);
+    const listing = match ? LISTINGS[match[1]] : null;
+    if (match && listing) {
+      res.writeHead(200, { "Content-Type": "text/html" });
+      res.end(productPage(listing, match[1]));
+      return;
+    }
+
+    res.writeHead(404);
+    res.end();
+  });
+
+  return new Promise(resolve => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+class MemoryStore implements CatalogSyncStore {
+  logs = new Map<number, SyncCounts & { status: string; error?: string }>();
+  products = new Map<number, Product>();
+  qc = new Map<number, string>();
+  embeddings = new Map<number, number[]>();
+  indexed: number[] = [];
+
+  async createSyncLog(): Promise<number> {
+    const id = this.logs.size + 1;
+    this.logs.set(id, {
+      status: "started",
+      productsFound: 0,
+      productsScraped: 0,
+      productsApproved: 0,
+      productsRejected: 0,
+      productsFlagged: 0,
+      productsIndexed: 0,
+      productsFailed: 0,
+    });
+    return id;
+  }
+
+  async finishSyncLog(syncLogId: number, status: "completed" | "failed", error?: string) {
+    Object.assign(this.logs.get(syncLogId)!, { status, error });
+  }
+
+  async incrementCounters(syncLogId: number, counters: Partial<SyncCounts>) {
+    const log = this.logs.get(syncLogId)!;
+    for (const [key, amount] of Object.entries(counters) as Array<[keyof SyncCounts, number]>) {
+      log[key] += amount;
+    }
+    return { ...log };
+  }
+
+  async persistProduct(listing: IngestableProduct): Promise<Product> {
+    const existing = Array.from(this.products.values()).find(p => p.whatsappProductId === listing.whatsappProductId);
+    const product = {
+      id: existing?.id ?? this.products.size + 1,
+      sellerId: listing.sellerId!,
+      categoryId: 1,
+      name: listing.name,
+      description: listing.description,
+      price: listing.price,
+      imageUrl: listing.imageUrl,
+      whatsappProductId: listing.whatsappProductId,
+    } as Product;
+    this.products.set(product.id, product);
+    return product;
+  }
+
+  async getProduct(productId: number) {
+    return this.products.get(productId) ?? null;
+  }
+
+  async saveQualityResult(productId: number, result: QCResult) {
+    this.qc.set(productId, result.decision);
+  }
+
+  async saveEmbeddings(productId: number, embeddings: { hybridEmbedding: number[] }) {
+    this.embeddings.set(productId, embeddings.hybridEmbedding);
+  }
+
+  async indexProduct(product: Product) {
+    this.indexed.push(product.id);
+  }
+}
+
+const reviewer = async (name: string): Promise<QCResult> => ({
+  decision: name.includes("Replica") ? "rejected" : name.includes("Dress") ? "flagged" : "approved",
+  reason: name.includes("Replica") ? "Counterfeit" : undefined,
+  confidence: 0.9,
+  analysis: {} as QCResult["analysis"],
+});
+
+/**
+ * Run every fanned-out job inline, in FIFO order, recording stage progress
+ */
+async function runInline(pipeline: CatalogSyncPipeline, job: CatalogSyncJobData) {
+  const queue: Array<{ stage: CatalogSyncStage | "scrape-catalog"; data: CatalogSyncJobData }> = [
+    { stage: "scrape-catalog", data: job },
+  ];
+  const progress: Record<string, number[]> = {};
+
+  while (queue.length > 0) {
+    const { stage, data } = queue.shift()!;
+    const ctx = {
+      enqueue: async (next: CatalogSyncStage, jobs: CatalogSyncJobData[]) => {
+        queue.push(...jobs.map(d => ({ stage: next, data: d })));
+      },
+      reportProgress: async (value: number) => {
+        (progress[stage] ||= []).push(value);
+      },
+    };
+
+    const run = {
+      "scrape-catalog": () => pipeline.scout(data, ctx),
+      "hydrate-product": () => pipeline.hydrate(data, ctx),
+      "quality-control": () => pipeline.qualityControl(data, ctx),
+      "generate-embedding": () => pipeline.embed(data, ctx),
+      "index-product": () => pipeline.index(data, ctx),
+    }[stage];
+    await run();
+  }
+
+  return progress;
+}
+
+describe("CatalogSyncPipeline against a fixture catalog", () => {
+  let server: http.Server;
+  let originalBaseUrl: string;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = await startFixtureServer();
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    originalBaseUrl = ENV.whatsappBaseUrl;
+    ENV.whatsappBaseUrl = baseUrl;
+  });
+
+  afterAll(async () => {
+    ENV.whatsappBaseUrl = originalBaseUrl;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it("runs scout → hydrate → QC → embed → index and records per-seller counters", async () => {
+    const store = new MemoryStore();
+    const pipeline = new CatalogSyncPipeline({ store, reviewer });
+
+    const progress = await runInline(pipeline, { sellerId: 7, catalogUrl: `${baseUrl}/c/${SELLER_PHONE}` });
+
+    expect(store.logs.get(1)).toMatchObject({
+      status: "completed",
+      productsFound: 4,
+      productsScraped: 3,
+      productsApproved: 1,
+      productsFlagged: 1,
+      productsRejected: 1,
+      productsIndexed: 2,
+      productsFailed: 1,
+    });
+
+    // Rejected listings are never persisted
+    expect(Array.from(store.products.values()).map(p => p.name).sort()).toEqual(["Leather Boots", "Summer Dress"]);
+    expect(store.products.get(1)).toMatchObject({ sellerId: 7, price: "KES 4500.00" });
+    expect(Array.from(store.qc.values()).sort()).toEqual(["approved", "flagged"]);
+    expect(store.embeddings.get(1)).toHaveLength(768);
+    expect(store.indexed.sort()).toEqual([1, 2]);
+
+    expect(progress["scrape-catalog"]).toEqual([10, 60, 100]);
+    expect(progress["index-product"]).toEqual([100, 100]);
+  });
+});
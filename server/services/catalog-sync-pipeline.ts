@@ -0,0 +1,367 @@
+import { eq, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import { catalogSyncLogs, products, qualityControl, type Product } from "../../drizzle/schema";
+import { saveProductEmbedding } from "../embeddings-db";
+import { catalogIngestion, type IngestableProduct } from "./catalog-ingestion";
+import { GeminiQualityControl, type QCResult } from "./gemini-quality-control";
+import { productSearch } from "./search-index";
+import { RealSigLIPEmbeddings, type ProductEmbeddingSet } from "./siglip-real";
+import { WhatsAppScraperV3, type ScoutResult } from "./whatsapp-scraper-v2";
+
+/**
+ * Catalog Sync Pipeline
+ *
+ * Scout → Hydrate → QC → Embed → Index for one seller catalog. Every stage
+ * runs as its own job and fans out to the next stage through the context's
+ * enqueue(), so the same code runs on BullMQ (job-processors) or inline.
+ *
+ * Per-sync counters live in catalog_sync_logs. Each discovered product ends
+ * in exactly one of rejected / indexed / failed; once those add up to
+ * productsFound the sync is marked completed.
+ *
+ * Rejected listings are never written to products. Flagged listings are
+ * persisted and indexed, with the quality_control row left for admin review.
+ */
+
+export type CatalogSyncStage = "hydrate-product" | "quality-control" | "generate-embedding" | "index-product";
+
+export type SyncCounter =
+  | "productsFound"
+  | "productsScraped"
+  | "productsApproved"
+  | "productsRejected"
+  | "productsFlagged"
+  | "productsIndexed"
+  | "productsFailed";
+
+export type SyncCounts = Record<SyncCounter, number>;
+
+export interface CatalogSyncJobData {
+  syncLogId?: number;
+  sellerId: number;
+  catalogUrl?: string;
+  scout?: ScoutResult;
+  listing?: IngestableProduct;
+  productId?: number;
+}
+
+export interface StageContext {
+  enqueue(stage: CatalogSyncStage, jobs: CatalogSyncJobData[]): Promise<void>;
+  reportProgress(progress: number): Promise<void>;
+}
+
+/**
+ * Persistence used by the pipeline (drizzle-backed by default)
+ */
+export interface CatalogSyncStore {
+  createSyncLog(sellerId: number, catalogUrl: string): Promise<number>;
+  finishSyncLog(syncLogId: number, status: "completed" | "failed", error?: string): Promise<void>;
+  incrementCounters(syncLogId: number, counters: Partial<SyncCounts>): Promise<SyncCounts>;
+  persistProduct(listing: IngestableProduct): Promise<Product>;
+  getProduct(productId: number): Promise<Product | null>;
+  saveQualityResult(productId: number, result: QCResult): Promise<void>;
+  saveEmbeddings(productId: number, embeddings: ProductEmbeddingSet): Promise<void>;
+  indexProduct(product: Product): Promise<void>;
+}
+
+export type QualityReviewer = (name: string, description: string, price: string, imageUrl: string) => Promise<QCResult>;
+
+export interface CatalogSyncOptions {
+  store?: CatalogSyncStore;
+  reviewer?: QualityReviewer;
+  /** Extra vector store write after embeddings are saved (e.g. Milvus) */
+  vectorSink?: (product: Product, embeddings: ProductEmbeddingSet) => Promise<void>;
+}
+
+export class DrizzleCatalogSyncStore implements CatalogSyncStore {
+  private async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db;
+  }
+
+  async createSyncLog(sellerId: number, catalogUrl: string): Promise<number> {
+    const db = await this.db();
+    const [log] = await db
+      .insert(catalogSyncLogs)
+      .values({ sellerId, catalogUrl, status: "started", startedAt: new Date() })
+      .$returningId();
+    return log.id;
+  }
+
+  async finishSyncLog(syncLogId: number, status: "completed" | "failed", error?: string): Promise<void> {
+    const db = await this.db();
+    await db
+      .update(catalogSyncLogs)
+      .set({ status, error: error ?? null, completedAt: new Date() })
+      .where(eq(catalogSyncLogs.id, syncLogId));
+  }
+
+  async incrementCounters(syncLogId: number, counters: Partial<SyncCounts>): Promise<SyncCounts> {
+    const db = await this.db();
+    const set: Record<string, any> = {};
+    for (const [counter, amount] of Object.entries(counters) as Array<[SyncCounter, number]>) {
+      const column = catalogSyncLogs[counter];
+      set[counter] = sql`COALESCE(${column}, 0) + ${amount}`;
+    }
+
+    if (Object.keys(set).length > 0) {
+      await db.update(catalogSyncLogs).set(set).where(eq(catalogSyncLogs.id, syncLogId));
+    }
+
+    const [log] = await db.select().from(catalogSyncLogs).where(eq(catalogSyncLogs.id, syncLogId)).limit(1);
+    return {
+      productsFound: log?.productsFound ?? 0,
+      productsScraped: log?.productsScraped ?? 0,
+      productsApproved: log?.productsApproved ?? 0,
+      productsRejected: log?.productsRejected ?? 0,
+      productsFlagged: log?.productsFlagged ?? 0,
+      productsIndexed: log?.productsIndexed ?? 0,
+      productsFailed: log?.productsFailed ?? 0,
+    };
+  }
+
+  async persistProduct(listing: IngestableProduct): Promise<Product> {
+    const { product } = await catalogIngestion.upsertProduct(listing);
+    return product;
+  }
+
+  async getProduct(productId: number): Promise<Product | null> {
+    const db = await this.db();
+    const [product] = await db.select().from(products).where(eq(products.id, productId)).limit(1);
+    return product || null;
+  }
+
+  async saveQualityResult(productId: number, result: QCResult): Promise<void> {
+    const db = await this.db();
+    const values = {
+      decision: result.decision,
+      reason: result.reason ?? null,
+      geminiAnalysis: JSON.stringify(result.analysis),
+      confidence: result.confidence.toFixed(2),
+    };
+    await db
+      .insert(qualityControl)
+      .values({ productId, ...values })
+      .onDuplicateKeyUpdate({ set: values });
+  }
+
+  async saveEmbeddings(productId: number, embeddings: ProductEmbeddingSet): Promise<void> {
+    await saveProductEmbedding(
+      productId,
+      embeddings.imageEmbedding,
+      embeddings.textEmbedding,
+      embeddings.hybridEmbedding
+    );
+  }
+
+  async indexProduct(product: Product): Promise<void> {
+    productSearch.upsertProduct(product);
+  }
+}
+
+export class CatalogSyncPipeline {
+  private store: CatalogSyncStore;
+  private reviewer: QualityReviewer;
+  private vectorSink?: CatalogSyncOptions["vectorSink"];
+
+  constructor(options: CatalogSyncOptions = {}) {
+    this.store = options.store ?? new DrizzleCatalogSyncStore();
+    this.reviewer = options.reviewer ?? ((...args) => GeminiQualityControl.analyzeProduct(...args));
+    this.vectorSink = options.vectorSink;
+  }
+
+  /**
+   * SCOUT: discover product IDs and fan out one hydrate job per product
+   */
+  async scout(data: CatalogSyncJobData, ctx: StageContext): Promise<{ syncLogId: number; productsFound: number }> {
+    if (!data.catalogUrl || !data.sellerId) {
+      throw new Error("Missing catalogUrl or sellerId");
+    }
+
+    const syncLogId = data.syncLogId ?? (await this.store.createSyncLog(data.sellerId, data.catalogUrl));
+    await ctx.reportProgress(10);
+
+    try {
+      const scoutResults = await WhatsAppScraperV3.scout(data.catalogUrl);
+      await ctx.reportProgress(60);
+
+      if (scoutResults.length === 0) {
+        await this.store.finishSyncLog(syncLogId, "failed", "No products found in catalog");
+        await ctx.reportProgress(100);
+        return { syncLogId, productsFound: 0 };
+      }
+
+      await this.store.incrementCounters(syncLogId, { productsFound: scoutResults.length });
+      await ctx.enqueue(
+        "hydrate-product",
+        scoutResults.map((scout) => ({ syncLogId, sellerId: data.sellerId, scout }))
+      );
+      await ctx.reportProgress(100);
+
+      console.log(`[CatalogSync] Sync ${syncLogId}: scouted ${scoutResults.length} products`);
+      return { syncLogId, productsFound: scoutResults.length };
+    } catch (error) {
+      await this.store.finishSyncLog(syncLogId, "failed", error instanceof Error ? error.message : String(error));
+      throw error;
+    }
+  }
+
+  /**
+   * HYDRATE: fetch OG metadata for one product and pass the listing to QC
+   */
+  async hydrate(data: CatalogSyncJobData, ctx: StageContext): Promise<IngestableProduct | null> {
+    const { syncLogId, scout } = this.requireSync(data);
+    if (!scout) {
+      throw new Error("Missing scout result");
+    }
+
+    return this.runStage(syncLogId, async () => {
+      const hydrated = await WhatsAppScraperV3.hydrateProduct(scout);
+      await ctx.reportProgress(50);
+
+      if (!hydrated) {
+        await this.finishProduct(syncLogId, "productsFailed");
+        await ctx.reportProgress(100);
+        return null;
+      }
+
+      const listing: IngestableProduct = {
+        whatsappProductId: hydrated.productId,
+        sellerPhone: hydrated.sellerPhone,
+        sellerId: data.sellerId,
+        name: hydrated.title,
+        description: hydrated.description,
+        price: WhatsAppScraperV3.extractPrice(`${hydrated.title} ${hydrated.description}`),
+        imageUrl: hydrated.ogImageUrl,
+        category: WhatsAppScraperV3.inferCategory(hydrated.title),
+      };
+
+      await this.store.incrementCounters(syncLogId, { productsScraped: 1 });
+      await ctx.enqueue("quality-control", [{ syncLogId, sellerId: data.sellerId, listing }]);
+      await ctx.reportProgress(100);
+      return listing;
+    });
+  }
+
+  /**
+   * QC: review the listing; persist it unless rejected, then pass it to embedding
+   */
+  async qualityControl(data: CatalogSyncJobData, ctx: StageContext): Promise<QCResult> {
+    const { syncLogId, listing } = this.requireSync(data);
+    if (!listing) {
+      throw new Error("Missing listing");
+    }
+
+    return this.runStage(syncLogId, async () => {
+      const result = await this.reviewer(listing.name, listing.description, listing.price, listing.imageUrl);
+      await ctx.reportProgress(50);
+
+      if (result.decision === "rejected") {
+        console.log(`[CatalogSync] Rejected "${listing.name}": ${result.reason}`);
+        await this.finishProduct(syncLogId, "productsRejected");
+        await ctx.reportProgress(100);
+        return result;
+      }
+
+      const product = await this.store.persistProduct(listing);
+      await this.store.saveQualityResult(product.id, result);
+      await this.store.incrementCounters(syncLogId, {
+        [result.decision === "approved" ? "productsApproved" : "productsFlagged"]: 1,
+      });
+
+      await ctx.enqueue("generate-embedding", [{ syncLogId, sellerId: data.sellerId, productId: product.id }]);
+      await ctx.reportProgress(100);
+      return result;
+    });
+  }
+
+  /**
+   * EMBED: generate and store SigLIP image/text/hybrid vectors
+   */
+  async embed(data: CatalogSyncJobData, ctx: StageContext): Promise<number> {
+    const { syncLogId } = this.requireSync(data);
+    const product = await this.requireProduct(data);
+
+    return this.runStage(syncLogId, async () => {
+      const embeddings = await RealSigLIPEmbeddings.generateEmbeddingSet(
+        product.name,
+        product.description || "",
+        product.imageUrl || ""
+      );
+      await ctx.reportProgress(50);
+
+      await this.store.saveEmbeddings(product.id, embeddings);
+      if (this.vectorSink) {
+        await this.vectorSink(product, embeddings);
+      }
+
+      await ctx.enqueue("index-product", [{ syncLogId, sellerId: data.sellerId, productId: product.id }]);
+      await ctx.reportProgress(100);
+      return embeddings.hybridEmbedding.length;
+    });
+  }
+
+  /**
+   * INDEX: make the product searchable; the product's last stage
+   */
+  async index(data: CatalogSyncJobData, ctx: StageContext): Promise<void> {
+    const { syncLogId } = this.requireSync(data);
+    const product = await this.requireProduct(data);
+
+    return this.runStage(syncLogId, async () => {
+      await this.store.indexProduct(product);
+      await this.finishProduct(syncLogId, "productsIndexed");
+      await ctx.reportProgress(100);
+    });
+  }
+
+  private requireSync(data: CatalogSyncJobData): CatalogSyncJobData & { syncLogId: number } {
+    if (!data.syncLogId) {
+      throw new Error("Missing syncLogId");
+    }
+    return data as CatalogSyncJobData & { syncLogId: number };
+  }
+
+  private async requireProduct(data: CatalogSyncJobData): Promise<Product> {
+    const product = data.productId ? await this.store.getProduct(data.productId) : null;
+    if (!product) {
+      await this.finishProduct(data.syncLogId!, "productsFailed");
+      throw new Error(`Product not found: ${data.productId}`);
+    }
+    return product;
+  }
+
+  /**
+   * Count a failed product before rethrowing so the sync can still complete
+   */
+  private async runStage<T>(syncLogId: number, stage: () => Promise<T>): Promise<T> {
+    try {
+      return await stage();
+    } catch (error) {
+      await this.finishProduct(syncLogId, "productsFailed");
+      throw error;
+    }
+  }
+
+  /**
+   * Record a product's terminal outcome and complete the sync once all are accounted for
+   */
+  private async finishProduct(
+    syncLogId: number,
+    outcome: "productsRejected" | "productsIndexed" | "productsFailed"
+  ): Promise<void> {
+    const counts = await this.store.incrementCounters(syncLogId, { [outcome]: 1 });
+    const finished = counts.productsRejected + counts.productsIndexed + counts.productsFailed;
+
+    if (counts.productsFound > 0 && finished >= counts.productsFound) {
+      await this.store.finishSyncLog(syncLogId, "completed");
+      console.log(
+        `[CatalogSync] Sync ${syncLogId} completed: ${counts.productsIndexed} indexed, ` +
+          `${counts.productsRejected} rejected, ${counts.productsFailed} failed`
+      );
+    }
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * CSV
+ *
+ * RFC 4180 output for seller exports: fields with commas, quotes or line
+ * breaks are quoted, quotes doubled, lines end in CRLF. Text that a
+ * spreadsheet would run as a formula (=, +, -, @) is prefixed with a quote,
+ * since product names and lead metadata come from untrusted catalogs and
+ * beacons. Numbers are written as-is.
+ */
+
+export type CsvValue = string | number | boolean | Date | null | undefined;
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+export function csvCell(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  if (typeof value === "number") return Number.isFinite(value) ? String(value) : "";
+  if (typeof value === "boolean") return value ? "true" : "false";
+
+  let text = value instanceof Date ? value.toISOString() : value;
+  if (FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(csvCell).join(",")).join("\r\n") + "\r\n";
+}
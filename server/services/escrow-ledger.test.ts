@@ -0,0 +1,81 @@
+import { describe, expect, it } from "vitest";
+import {
+  holdPostings,
+  payoutPostings,
+  platformFee,
+  reconcileLedger,
+  refundPostings,
+  releasePostings,
+  type Posting,
+} from "./escrow-ledger";
+
+let nextTransactionId = 1;
+
+function entries(orderId: number, postings: Posting[]) {
+  const transactionId = nextTransactionId++;
+  return postings.map(p => ({ transactionId, orderId, account: p.account, amount: p.amount }));
+}
+
+const sum = (postings: Posting[]) => postings.reduce((total, p) => total + p.amount, 0);
+
+describe("escrow postings", () => {
+  it("balances every transaction type and splits the platform fee on release", () => {
+    for (const postings of [holdPostings(2300), releasePostings(2300, 7, 5), refundPostings(2300), payoutPostings(2300)]) {
+      expect(sum(postings)).toBe(0);
+    }
+
+    expect(platformFee(2300, 5)).toBe(115);
+    expect(releasePostings(2300, 7, 5)).toEqual([
+      { account: "escrow", amount: 2300 },
+      { account: "seller_payable", amount: -2185, sellerId: 7 },
+      { account: "platform_fee", amount: -115 },
+    ]);
+  });
+});
+
+describe("reconcileLedger", () => {
+  it("passes for held, released and refunded-and-paid-out orders", () => {
+    const ledger = [
+      ...entries(1, holdPostings(1500)),
+      ...entries(2, holdPostings(800)),
+      ...entries(2, releasePostings(800, 3, 5)),
+      ...entries(3, holdPostings(400)),
+      ...entries(3, refundPostings(400)),
+      ...entries(3, payoutPostings(400)),
+    ];
+    const report = reconcileLedger(ledger, [
+      { id: 1, totalPrice: "1500.00", escrowStatus: "held" },
+      { id: 2, totalPrice: "800.00", escrowStatus: "released" },
+      { id: 3, totalPrice: "400.00", escrowStatus: "refunded" },
+    ]);
+
+    expect(report.ok).toBe(true);
+    expect(report.balances).toMatchObject({
+      escrow: -1500,
+      seller_payable: -760,
+      platform_fee: -40,
+      buyer_wallet: 0,
+      mpesa_clearing: 2300,
+    });
+    expect(report.totals).toMatchObject({ transactions: 6, openHolds: 1, heldAmount: 1500 });
+  });
+
+  it("flags unbalanced transactions and escrow that disagrees with the order", () => {
+    const ledger = [
+      ...entries(1, holdPostings(1500)),
+      ...entries(1, [{ account: "escrow", amount: 100 }]),
+      ...entries(2, holdPostings(800)),
+    ];
+    const report = reconcileLedger(ledger, [
+      { id: 1, totalPrice: "1500.00", escrowStatus: "held" },
+      { id: 2, totalPrice: "800.00", escrowStatus: "released" },
+    ]);
+
+    expect(report.ok).toBe(false);
+    const failed = Object.fromEntries(report.checks.map(c => [c.name, c]));
+    expect(failed.transactions_balanced.passed).toBe(false);
+    expect(failed.trial_balance.discrepancies).toEqual([{ expected: 0, actual: 100 }]);
+    expect(failed.escrow_matches_open_holds.discrepancies.map(d => d.orderId)).toEqual([1, 2]);
+    expect(failed.released_orders_settled.discrepancies).toEqual([{ orderId: 2, expected: -800, actual: 0 }]);
+  });
+});
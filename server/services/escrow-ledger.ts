@@ -0,0 +1,387 @@
+import { and, eq, inArray, ne, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import { ledgerEntries, ledgerTransactions, orders, type LedgerEntry, type LedgerTransaction, type Order } from "../../drizzle/schema";
+import { ENV } from "../_core/env";
+
+/**
+ * Escrow Ledger - double-entry bookkeeping for buyer funds
+ *
+ * Accounts (amounts in whole KES, debit positive / credit negative):
+ * - mpesa_clearing: money received via M-Pesa and not yet paid back out (debit-normal)
+ * - buyer_wallet:   refunds owed to buyers, awaiting the M-Pesa reversal
+ * - escrow:         funds held for orders awaiting delivery confirmation
+ * - seller_payable: released funds owed to sellers
+ * - platform_fee:   commission earned on released orders
+ *
+ * Per order:
+ *   hold    (payment received)    mpesa_clearing +T, buyer_wallet -T, buyer_wallet +T, escrow -T
+ *   release (delivery confirmed)  escrow +T, seller_payable -(T - fee), platform_fee -fee
+ *   refund  (cancelled / dispute) escrow +T, buyer_wallet -T
+ *   payout  (reversal sent)       buyer_wallet +T, mpesa_clearing -T
+ *
+ * Each posting flips orders.escrowStatus with a conditional update inside the
+ * same DB transaction, so a hold/release/refund can't be posted twice. The
+ * order state machine (order-state-machine.ts) decides when each one runs.
+ */
+
+export type LedgerAccount = LedgerEntry["account"];
+export type EscrowStatus = Order["escrowStatus"];
+
+export const LEDGER_ACCOUNTS = ledgerEntries.account.enumValues;
+
+export interface Posting {
+  account: LedgerAccount;
+  amount: number;
+  sellerId?: number | null;
+}
+
+/** Order total in whole KES, as held in escrow */
+export function orderAmount(order: Pick<Order, "totalPrice">): number {
+  return Math.round(parseFloat(order.totalPrice));
+}
+
+export function platformFee(amount: number, percent: number = ENV.platformFeePercent): number {
+  return Math.round((amount * percent) / 100);
+}
+
+export function holdPostings(amount: number): Posting[] {
+  return [
+    { account: "mpesa_clearing", amount },
+    { account: "buyer_wallet", amount: -amount },
+    { account: "buyer_wallet", amount },
+    { account: "escrow", amount: -amount },
+  ];
+}
+
+export function releasePostings(amount: number, sellerId: number, feePercent?: number): Posting[] {
+  const fee = platformFee(amount, feePercent);
+  return [
+    { account: "escrow", amount },
+    { account: "seller_payable", amount: -(amount - fee), sellerId },
+    { account: "platform_fee", amount: -fee },
+  ];
+}
+
+export function refundPostings(amount: number): Posting[] {
+  return [
+    { account: "escrow", amount },
+    { account: "buyer_wallet", amount: -amount },
+  ];
+}
+
+export function payoutPostings(amount: number): Posting[] {
+  return [
+    { account: "buyer_wallet", amount },
+    { account: "mpesa_clearing", amount: -amount },
+  ];
+}
+
+export interface ReconciliationCheck {
+  name: string;
+  description: string;
+  passed: boolean;
+  discrepancies: Array<{ transactionId?: number; orderId?: number; account?: LedgerAccount; expected: number; actual: number }>;
+}
+
+export interface ReconciliationReport {
+  generatedAt: Date;
+  ok: boolean;
+  balances: Record<LedgerAccount, number>;
+  totals: { transactions: number; entries: number; openHolds: number; heldAmount: number };
+  checks: ReconciliationCheck[];
+}
+
+type ReconcilableEntry = Pick<LedgerEntry, "transactionId" | "account" | "orderId" | "amount">;
+type ReconcilableOrder = Pick<Order, "id" | "totalPrice" | "escrowStatus">;
+
+function sumBy<K>(entries: ReconcilableEntry[], key: (entry: ReconcilableEntry) => K): Map<K, number> {
+  const sums = new Map<K, number>();
+  for (const entry of entries) {
+    sums.set(key(entry), (sums.get(key(entry)) ?? 0) + entry.amount);
+  }
+  return sums;
+}
+
+/**
+ * Prove the ledger invariants over every entry and every order with escrow
+ * activity. Pure - no I/O.
+ */
+export function reconcileLedger(entries: ReconcilableEntry[], escrowOrders: ReconcilableOrder[]): ReconciliationReport {
+  const balances = Object.fromEntries(LEDGER_ACCOUNTS.map(account => [account, 0])) as Record<LedgerAccount, number>;
+  for (const entry of entries) balances[entry.account] += entry.amount;
+
+  const checks: ReconciliationCheck[] = [];
+  const check = (name: string, description: string, discrepancies: ReconciliationCheck["discrepancies"]) =>
+    checks.push({ name, description, passed: discrepancies.length === 0, discrepancies });
+
+  check(
+    "transactions_balanced",
+    "Every ledger transaction's debits equal its credits",
+    Array.from(sumBy(entries, e => e.transactionId))
+      .filter(([, sum]) => sum !== 0)
+      .map(([transactionId, actual]) => ({ transactionId, expected: 0, actual }))
+  );
+
+  const trialBalance = Object.values(balances).reduce((sum, balance) => sum + balance, 0);
+  check(
+    "trial_balance",
+    "All account balances sum to zero",
+    trialBalance === 0 ? [] : [{ expected: 0, actual: trialBalance }]
+  );
+
+  const creditNormal: LedgerAccount[] = ["buyer_wallet", "escrow", "seller_payable", "platform_fee"];
+  check(
+    "account_signs",
+    "Liability and revenue accounts carry credit balances; M-Pesa clearing carries a debit balance",
+    LEDGER_ACCOUNTS.filter(account =>
+      creditNormal.includes(account) ? balances[account] > 0 : balances[account] < 0
+    ).map(account => ({ account, expected: 0, actual: balances[account] }))
+  );
+
+  const byOrderAccount = sumBy(entries, e => `${e.orderId}:${e.account}`);
+  const orderBalance = (orderId: number, account: LedgerAccount) => byOrderAccount.get(`${orderId}:${account}`) ?? 0;
+
+  const escrowMismatches: ReconciliationCheck["discrepancies"] = [];
+  const settlementMismatches: ReconciliationCheck["discrepancies"] = [];
+  let openHolds = 0;
+  let heldAmount = 0;
+
+  const knownOrders = new Set<number>();
+  for (const order of escrowOrders) {
+    knownOrders.add(order.id);
+    const amount = orderAmount(order);
+    const open = order.escrowStatus === "held" || order.escrowStatus === "disputed";
+    if (open) {
+      openHolds++;
+      heldAmount += amount;
+    }
+
+    const escrow = orderBalance(order.id, "escrow");
+    const expectedEscrow = open ? -amount : 0;
+    if (escrow !== expectedEscrow) {
+      escrowMismatches.push({ orderId: order.id, account: "escrow", expected: expectedEscrow, actual: escrow });
+    }
+
+    const settled = orderBalance(order.id, "seller_payable") + orderBalance(order.id, "platform_fee");
+    const expectedSettled = order.escrowStatus === "released" ? -amount : 0;
+    if (settled !== expectedSettled) {
+      settlementMismatches.push({ orderId: order.id, expected: expectedSettled, actual: settled });
+    }
+  }
+
+  // Ledger activity for an order that has no escrow state at all
+  for (const orderId of new Set(entries.map(e => e.orderId))) {
+    if (!knownOrders.has(orderId)) {
+      escrowMismatches.push({ orderId, account: "escrow", expected: 0, actual: orderBalance(orderId, "escrow") });
+    }
+  }
+
+  check("escrow_matches_open_holds", "Each order's escrow balance equals its total while held, and zero otherwise", escrowMismatches);
+  check("released_orders_settled", "Released orders are fully split between seller payable and platform fee", settlementMismatches);
+
+  return {
+    generatedAt: new Date(),
+    ok: checks.every(c => c.passed),
+    balances,
+    totals: {
+      transactions: new Set(entries.map(e => e.transactionId)).size,
+      entries: entries.length,
+      openHolds,
+      heldAmount,
+    },
+    checks,
+  };
+}
+
+export class EscrowLedger {
+  /**
+   * Hold a paid order's total in escrow
+   */
+  static async hold(orderId: number, paymentId: number): Promise<boolean> {
+    const db = await this.db();
+    const order = await this.getOrder(db, orderId);
+    return this.transition(db, orderId, ["none"], "held", {
+      type: "hold",
+      reference: `hold:order:${orderId}`,
+      paymentId,
+      memo: `Payment ${paymentId} held for order ${orderId}`,
+      postings: holdPostings(orderAmount(order)),
+    });
+  }
+
+  /**
+   * Release held funds to the seller, less the platform fee
+   */
+  static async release(orderId: number, reason: string): Promise<boolean> {
+    const db = await this.db();
+    const order = await this.getOrder(db, orderId);
+    return this.transition(db, orderId, ["held", "disputed"], "released", {
+      type: "release",
+      reference: `release:order:${orderId}`,
+      memo: reason,
+      postings: releasePostings(orderAmount(order), order.sellerId),
+    });
+  }
+
+  /**
+   * Return held funds to the buyer's wallet
+   */
+  static async refund(orderId: number, reason: string): Promise<boolean> {
+    const db = await this.db();
+    const order = await this.getOrder(db, orderId);
+    return this.transition(db, orderId, ["held", "disputed"], "refunded", {
+      type: "refund",
+      reference: `refund:order:${orderId}`,
+      memo: reason,
+      postings: refundPostings(orderAmount(order)),
+    });
+  }
+
+  /**
+   * Freeze a hold while a dispute is open
+   */
+  static async openDispute(orderId: number): Promise<boolean> {
+    const db = await this.db();
+    const [result] = await db
+      .update(orders)
+      .set({ escrowStatus: "disputed", updatedAt: new Date() })
+      .where(and(eq(orders.id, orderId), eq(orders.escrowStatus, "held")));
+    return !!result?.affectedRows;
+  }
+
+  /**
+   * Record that the buyer's wallet balance for an order was paid back over M-Pesa
+   */
+  static async payoutRefund(orderId: number, paymentId?: number): Promise<number> {
+    const db = await this.db();
+    return db.transaction(async (tx: any) => {
+      const [{ balance }] = await tx
+        .select({ balance: sql<number>`COALESCE(SUM(${ledgerEntries.amount}), 0)` })
+        .from(ledgerEntries)
+        .where(and(eq(ledgerEntries.orderId, orderId), eq(ledgerEntries.account, "buyer_wallet")));
+      const owed = -Number(balance);
+      if (owed <= 0) return 0;
+
+      await this.post(tx, {
+        type: "payout",
+        reference: `payout:order:${orderId}:${Date.now()}`,
+        orderId,
+        paymentId: paymentId ?? null,
+        memo: `Refund of KES ${owed} sent to buyer`,
+        postings: payoutPostings(owed),
+      });
+      return owed;
+    });
+  }
+
+  static async getReconciliationReport(): Promise<ReconciliationReport> {
+    const db = await this.db();
+    const [entries, escrowOrders] = await Promise.all([
+      db
+        .select({
+          transactionId: ledgerEntries.transactionId,
+          account: ledgerEntries.account,
+          orderId: ledgerEntries.orderId,
+          amount: ledgerEntries.amount,
+        })
+        .from(ledgerEntries),
+      db
+        .select({ id: orders.id, totalPrice: orders.totalPrice, escrowStatus: orders.escrowStatus })
+        .from(orders)
+        .where(ne(orders.escrowStatus, "none")),
+    ]);
+
+    return reconcileLedger(entries, escrowOrders);
+  }
+
+  static async getOrderTransactions(orderId: number): Promise<Array<LedgerTransaction & { entries: LedgerEntry[] }>> {
+    const db = await this.db();
+    const transactions: LedgerTransaction[] = await db
+      .select()
+      .from(ledgerTransactions)
+      .where(eq(ledgerTransactions.orderId, orderId))
+      .orderBy(ledgerTransactions.id);
+    if (transactions.length === 0) return [];
+
+    const entries: LedgerEntry[] = await db
+      .select()
+      .from(ledgerEntries)
+      .where(inArray(ledgerEntries.transactionId, transactions.map(t => t.id)));
+    return transactions.map(t => ({ ...t, entries: entries.filter(e => e.transactionId === t.id) }));
+  }
+
+  private static async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db;
+  }
+
+  private static async getOrder(db: any, orderId: number): Promise<Order> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId)).limit(1);
+    if (!order) {
+      throw new Error(`Order ${orderId} not found`);
+    }
+    return order;
+  }
+
+  /**
+   * Move an order's escrow state and post the matching ledger transaction
+   * atomically. Returns false if the order wasn't in an allowed state.
+   */
+  private static async transition(
+    db: any,
+    orderId: number,
+    from: EscrowStatus[],
+    to: EscrowStatus,
+    transaction: { type: LedgerTransaction["type"]; reference: string; paymentId?: number; memo: string; postings: Posting[] }
+  ): Promise<boolean> {
+    const posted = await db.transaction(async (tx: any) => {
+      const [result] = await tx
+        .update(orders)
+        .set({ escrowStatus: to, updatedAt: new Date() })
+        .where(and(eq(orders.id, orderId), inArray(orders.escrowStatus, from)));
+      if (!result?.affectedRows) return false;
+
+      await this.post(tx, { ...transaction, orderId, paymentId: transaction.paymentId ?? null });
+      return true;
+    });
+
+    if (posted) {
+      console.log(`[Escrow] Order ${orderId}: ${transaction.type} (${transaction.memo})`);
+    }
+    return posted;
+  }
+
+  private static async post(
+    tx: any,
+    transaction: { type: LedgerTransaction["type"]; reference: string; orderId: number; paymentId: number | null; memo: string; postings: Posting[] }
+  ): Promise<void> {
+    const total = transaction.postings.reduce((sum, p) => sum + p.amount, 0);
+    if (total !== 0) {
+      throw new Error(`Unbalanced ledger transaction ${transaction.reference}: off by ${total}`);
+    }
+
+    const [created] = await tx
+      .insert(ledgerTransactions)
+      .values({
+        type: transaction.type,
+        reference: transaction.reference,
+        orderId: transaction.orderId,
+        paymentId: transaction.paymentId,
+        memo: transaction.memo,
+      })
+      .$returningId();
+
+    await tx.insert(ledgerEntries).values(
+      transaction.postings.map(p => ({
+        transactionId: created.id,
+        account: p.account,
+        orderId: transaction.orderId,
+        sellerId: p.sellerId ?? null,
+        amount: p.amount,
+      }))
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { AnalyticsEngine } from "./analytics-engine";
+import { backtestSeries, forecastSeries, isPaydayWindow } from "./forecasting";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Weekday revenue with a Saturday peak, a slow upward trend and a salary bump at month end
+function series(days: number, start = "2026-01-01T00:00:00Z") {
+  const dates: Date[] = [];
+  const values: number[] = [];
+  for (let i = 0; i < days; i++) {
+    const date = new Date(new Date(start).getTime() + i * DAY);
+    const weekly = [0.8, 0.9, 1, 1, 1.1, 1.6, 1.2][date.getUTCDay() === 0 ? 6 : date.getUTCDay() - 1];
+    const noise = ((i * 37) % 11) - 5; // Deterministic jitter
+    dates.push(date);
+    values.push(10000 * weekly + 20 * i + (isPaydayWindow(date) ? 3000 : 0) + noise * 100);
+  }
+  return { dates, values };
+}
+
+describe("forecasting", () => {
+  it("picks up the weekly pattern and payday uplift with widening intervals", () => {
+    const { dates, values } = series(120); // Through 2026-04-30
+    const { points, model } = forecastSeries(values, dates, 14);
+
+    expect(model).toMatchObject({ seasonLength: 7 });
+    expect(model!.paydayEffect).toBeGreaterThan(2000);
+    expect(points).toHaveLength(14);
+
+    // 2026-05-02 is a Saturday, 2026-05-05 a Tuesday outside payday
+    expect(points[1].value).toBeGreaterThan(points[4].value * 1.3);
+    expect(points[13].upper - points[13].lower).toBeGreaterThan(points[0].upper - points[0].lower);
+    for (const point of points) {
+      expect(point.lower).toBeLessThanOrEqual(point.value);
+      expect(point.upper).toBeGreaterThanOrEqual(point.value);
+    }
+  });
+
+  it("backtests over rolling windows and beats same-day-last-week", () => {
+    const { dates, values } = series(120);
+    const result = backtestSeries(values, dates, { horizon: 7, windows: 4 });
+
+    expect(result.windows.map(w => w.origin)).toEqual([92, 99, 106, 113]);
+    expect(result.mape).toBeLessThan(0.1);
+    expect(result.mape!).toBeLessThan(result.baselineMape!);
+    expect(backtestSeries(values.slice(0, 10), dates.slice(0, 10)).mape).toBeNull();
+  });
+
+  it("ignores idle days before the seller's first activity", () => {
+    const { dates, values } = series(30);
+    const history = dates.map((timestamp, i) => ({
+      timestamp,
+      clicks: i < 20 ? 0 : 50,
+      conversions: i < 20 ? 0 : 5,
+      revenue: i < 20 ? 0 : values[i],
+    }));
+
+    const forecast = AnalyticsEngine.predictFutureMetrics(history, 3);
+    expect(forecast).toHaveLength(3);
+    expect(forecast[0].timestamp).toEqual(new Date(dates[29].getTime() + DAY));
+    expect(forecast[0].predictedConversions).toBe(5);
+    expect(forecast[0].predictedRevenue).toBeGreaterThan(5000);
+    expect(AnalyticsEngine.predictFutureMetrics(history.slice(0, 20), 3)).toEqual([]);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Forecasting
+ *
+ * Holt-Winters (additive level, trend and weekly season) for daily seller
+ * series, in error-correction form so prediction intervals follow directly
+ * from the one-step errors. On top of the weekly pattern, a flat "payday"
+ * uplift is estimated for the last days of the month and the first few of
+ * the next, when salaries land and Nairobi buying picks up.
+ *
+ * Smoothing parameters are picked by a small grid search on in-sample
+ * one-step error. Everything here is pure; callers bring the series.
+ */
+
+export const WEEKLY_SEASON = 7;
+export const FORECAST_HISTORY_DAYS = 120; // About four salary cycles
+export const MAX_FORECAST_DAYS = 30;
+const PAYDAY_FROM_DAY = 25; // Day of month
+const PAYDAY_TO_DAY = 2; // Day of month, following month
+const MIN_PAYDAY_SAMPLES = 3;
+const PAYDAY_PASSES = 4;
+
+const ALPHAS = [0.1, 0.2, 0.3, 0.5];
+const BETAS = [0, 0.02, 0.05];
+const GAMMAS = [0.05, 0.1, 0.2, 0.3];
+
+const Z_SCORES: Record<ForecastLevel, number> = { 0.8: 1.2816, 0.95: 1.96 };
+
+export type ForecastLevel = 0.8 | 0.95;
+
+export interface ForecastModel {
+  alpha: number;
+  beta: number;
+  gamma: number;
+  seasonLength: number; // 1 when the history is too short for a weekly season
+  paydayEffect: number; // Added on payday days
+  sigma: number; // Std dev of one-step errors
+}
+
+export interface ForecastValue {
+  value: number;
+  lower: number;
+  upper: number;
+}
+
+export interface SeriesForecast {
+  points: ForecastValue[];
+  model: ForecastModel | null; // null when there isn't enough history
+}
+
+export interface BacktestWindow {
+  origin: number; // Index of the first forecast day
+  mape: number | null;
+  points: number; // Days with non-zero actuals that were scored
+}
+
+export interface BacktestResult {
+  horizon: number;
+  mape: number | null; // Mean absolute percentage error, 0-1
+  baselineMape: number | null; // Same-weekday-last-week forecast, for comparison
+  windows: BacktestWindow[];
+}
+
+interface FitState {
+  level: number;
+  trend: number;
+  seasonals: number[];
+  errors: number[]; // One-step errors after the first season
+  t: number;
+}
+
+/**
+ * Salary window: from the 25th to the 2nd of the next month (UTC days)
+ */
+export function isPaydayWindow(date: Date): boolean {
+  const day = date.getUTCDate();
+  return day >= PAYDAY_FROM_DAY || day <= PAYDAY_TO_DAY;
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+}
+
+function fit(values: number[], m: number, alpha: number, beta: number, gamma: number): FitState {
+  const seasonal = m > 1;
+  const first = values.slice(0, m);
+  const level0 = mean(first);
+  const trend0 = seasonal ? (mean(values.slice(m, 2 * m)) - level0) / m : values[1] - values[0];
+  const state: FitState = {
+    level: level0,
+    trend: trend0,
+    seasonals: seasonal ? first.map(v => v - level0) : [0],
+    errors: [],
+    t: 0,
+  };
+
+  for (const y of values) {
+    const s = state.t % m;
+    const error = y - (state.level + state.trend + state.seasonals[s]);
+    state.level = state.level + state.trend + alpha * error;
+    state.trend = state.trend + beta * error;
+    if (seasonal) state.seasonals[s] += gamma * error;
+    if (state.t >= m) state.errors.push(error);
+    state.t++;
+  }
+  return state;
+}
+
+function bestFit(values: number[], m: number): { state: FitState; alpha: number; beta: number; gamma: number } {
+  let best: { state: FitState; alpha: number; beta: number; gamma: number; sse: number } | null = null;
+  for (const alpha of ALPHAS) {
+    for (const beta of BETAS) {
+      for (const gamma of m > 1 ? GAMMAS : [0]) {
+        if (beta > alpha || gamma > 1 - alpha) continue;
+        const state = fit(values, m, alpha, beta, gamma);
+        const sse = state.errors.reduce((sum, e) => sum + e * e, 0);
+        if (!best || sse < best.sse) best = { state, alpha, beta, gamma, sse };
+      }
+    }
+  }
+  return best!;
+}
+
+/**
+ * Forecast the next `horizon` days of a daily series. `dates[i]` is the day
+ * of `values[i]`; the forecast days follow the last one.
+ */
+export function forecastSeries(
+  values: number[],
+  dates: Date[],
+  horizon: number,
+  level: ForecastLevel = 0.95
+): SeriesForecast {
+  if (values.length < 3 || horizon < 1) {
+    return { points: [], model: null };
+  }
+
+  const m = values.length >= 2 * WEEKLY_SEASON ? WEEKLY_SEASON : 1;
+  const payday = dates.map(isPaydayWindow);
+
+  // How far off payday days still are once the weekly pattern is accounted for.
+  // The level soaks up part of the bump, so refit on the adjusted series a few times.
+  const adjust = (effect: number) => values.map((v, i) => v - (payday[i] ? effect : 0));
+  let paydayEffect = 0;
+  for (let pass = 0; pass < PAYDAY_PASSES; pass++) {
+    const paydayErrors: number[] = [];
+    const otherErrors: number[] = [];
+    bestFit(adjust(paydayEffect), m).state.errors.forEach((error, i) =>
+      (payday[i + m] ? paydayErrors : otherErrors).push(error)
+    );
+    if (paydayErrors.length < MIN_PAYDAY_SAMPLES || otherErrors.length < MIN_PAYDAY_SAMPLES) break;
+    paydayEffect += mean(paydayErrors) - mean(otherErrors);
+  }
+
+  const { state, alpha, beta, gamma } = bestFit(adjust(paydayEffect), m);
+  const sigma = Math.sqrt(mean(state.errors.map(e => e * e)));
+  const z = Z_SCORES[level];
+
+  const lastDay = dates[dates.length - 1].getTime();
+  const points: ForecastValue[] = [];
+  let variance = 0; // Sum of c_j^2 for j < h
+  for (let h = 1; h <= horizon; h++) {
+    if (h > 1) {
+      const j = h - 1;
+      const c = alpha + beta * j + (m > 1 && j % m === 0 ? gamma : 0);
+      variance += c * c;
+    }
+    const day = new Date(lastDay + h * 24 * 60 * 60 * 1000);
+    const value =
+      state.level +
+      h * state.trend +
+      state.seasonals[(state.t + h - 1) % m] +
+      (isPaydayWindow(day) ? paydayEffect : 0);
+    const width = z * sigma * Math.sqrt(1 + variance);
+    points.push({
+      value: Math.max(0, value),
+      lower: Math.max(0, value - width),
+      upper: Math.max(0, value + width),
+    });
+  }
+
+  return { points, model: { alpha, beta, gamma, seasonLength: m, paydayEffect, sigma } };
+}
+
+function percentageErrors(actual: number[], predicted: number[]): number[] {
+  const errors: number[] = [];
+  actual.forEach((a, i) => {
+    // MAPE is undefined for zero days; they're skipped
+    if (a > 0) errors.push(Math.abs(a - predicted[i]) / a);
+  });
+  return errors;
+}
+
+/**
+ * Rolling-origin backtest: refit on everything before each window, forecast
+ * `horizon` days and score against what actually happened.
+ */
+export function backtestSeries(
+  values: number[],
+  dates: Date[],
+  options: { horizon?: number; windows?: number; minTraining?: number } = {}
+): BacktestResult {
+  const horizon = options.horizon ?? 7;
+  const windowCount = options.windows ?? 4;
+  const minTraining = Math.max(options.minTraining ?? 2 * WEEKLY_SEASON, WEEKLY_SEASON);
+
+  const windows: BacktestWindow[] = [];
+  const allErrors: number[] = [];
+  const baselineErrors: number[] = [];
+
+  for (let k = windowCount; k >= 1; k--) {
+    const origin = values.length - k * horizon;
+    if (origin < minTraining) continue;
+
+    const actual = values.slice(origin, origin + horizon);
+    const { points } = forecastSeries(values.slice(0, origin), dates.slice(0, origin), horizon);
+    const errors = percentageErrors(actual, points.map(p => p.value));
+    const baseline = actual.map((_, i) => values[origin - WEEKLY_SEASON + (i % WEEKLY_SEASON)]);
+
+    allErrors.push(...errors);
+    baselineErrors.push(...percentageErrors(actual, baseline));
+    windows.push({ origin, mape: errors.length > 0 ? mean(errors) : null, points: errors.length });
+  }
+
+  return {
+    horizon,
+    mape: allErrors.length > 0 ? mean(allErrors) : null,
+    baselineMape: baselineErrors.length > 0 ? mean(baselineErrors) : null,
+    windows,
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeFunnel,
+  FunnelEngine,
+  FunnelQueryError,
+  type FunnelEvent,
+  type FunnelEventKind,
+  type FunnelStepDefinition,
+} from "./funnel-engine";
+
+const MINUTE = 60 * 1000;
+const start = new Date("2026-03-01T10:00:00Z").getTime();
+
+function event(journeyId: string, kind: FunnelEventKind, minutes: number, extra: Partial<FunnelEvent> = {}): FunnelEvent {
+  return { journeyId, sessionId: `${journeyId}-s1`, kind, timestamp: new Date(start + minutes * MINUTE), ...extra };
+}
+
+const steps: FunnelStepDefinition[] = [
+  { label: "Impression", kind: "impression" },
+  { label: "Product view", kind: "product_view" },
+  { label: "Watchlist", kind: "watchlist_add", optional: true },
+  { label: "Order", kind: "order_placed" },
+];
+
+describe("funnel engine", () => {
+  it("walks journeys across sessions, skipping optional steps", () => {
+    const report = computeFunnel([
+      // v1: full journey, orders in a later session
+      event("v1", "impression", 0, { source: "search", deviceType: "mobile" }),
+      event("v1", "product_view", 2),
+      event("v1", "watchlist_add", 3),
+      event("v1", "order_placed", 62, { sessionId: "v1-s2" }),
+      // v2: orders without using the watchlist
+      event("v2", "impression", 0, { source: "homepage", deviceType: "desktop" }),
+      event("v2", "product_view", 4),
+      event("v2", "order_placed", 10),
+      // v3: views only; a view before the impression doesn't count
+      event("v3", "product_view", -5),
+      event("v3", "impression", 0, { source: "search", deviceType: "mobile" }),
+      // v4: no impression, so never enters the funnel
+      event("v4", "product_view", 0),
+      event("v4", "order_placed", 5),
+    ], steps);
+
+    expect(report.journeys).toBe(3);
+    expect(report.sessions).toBe(5);
+    expect(report.steps.map(s => s.count)).toEqual([3, 2, 1, 2]);
+    expect(report.steps[1]).toMatchObject({ rateFromStart: 2 / 3, rateFromPrevious: 2 / 3, dropOff: 1, medianTimeFromPreviousMs: 3 * MINUTE });
+    // The order step is gated by the product view, not the optional watchlist
+    expect(report.steps[3]).toMatchObject({ rateFromPrevious: 1, dropOff: 0, medianTimeFromPreviousMs: 33 * MINUTE });
+
+    expect(report.bySource[0]).toEqual({ key: "search", journeys: 2, counts: [2, 1, 1, 1] });
+    expect(report.byDevice.find(s => s.key === "desktop")).toEqual({ key: "desktop", journeys: 1, counts: [1, 1, 0, 1] });
+    expect(report.byDevice.find(s => s.key === "unknown")?.counts[0]).toBe(0);
+  });
+
+  it("rejects bad ranges and step lists", async () => {
+    const engine = new FunnelEngine({ getEvents: async () => [] });
+    const from = new Date("2026-03-01T00:00:00Z");
+    await expect(engine.getFunnel({ sellerId: 1, from, to: new Date("2026-12-01T00:00:00Z") })).rejects.toBeInstanceOf(FunnelQueryError);
+    await expect(engine.getFunnel({ sellerId: 1, from, to: from })).rejects.toBeInstanceOf(FunnelQueryError);
+    await expect(
+      engine.getFunnel({ sellerId: 1, from, to: new Date("2026-03-02T00:00:00Z") }, [{ label: "Watchlist", kind: "watchlist_add", optional: true }, steps[3]])
+    ).rejects.toThrow(/required first step/);
+
+    const empty = await engine.getFunnel({ sellerId: 1, from, to: new Date("2026-03-02T00:00:00Z") });
+    expect(empty.journeys).toBe(0);
+    expect(empty.steps.every(s => s.count === 0 && s.rateFromStart === 0)).toBe(true);
+  });
+});
@@ -0,0 +1,339 @@
+import { and, eq, gte, inArray, isNotNull, lt } from "drizzle-orm";
+import { getDb } from "../db";
+import { orderEvents, orderItems, orders } from "../../drizzle/schema";
+import { analyticsEvents, type AnalyticsEventService } from "./analytics-event-store";
+
+/**
+ * Funnel Engine
+ *
+ * Multi-step conversion funnels over stitched visitor journeys: every
+ * analytics event and order carrying the same visitor ID (the tracker's
+ * anonymous ID, stored on orders at checkout) is one journey, however many
+ * sessions it spans; WhatsApp sales the seller marked sold count as orders.
+ * A journey reaches a step at the first matching event after the previous
+ * required step. Optional steps (e.g. watchlist) are counted but never
+ * block later steps.
+ *
+ * Each step reports drop-off from the step that gates it, the median time
+ * from that step, and the same counts split by the journey's first-touch
+ * traffic source and device.
+ */
+
+export const FUNNEL_EVENT_KINDS = [
+  "impression",
+  "click",
+  "product_view",
+  "watchlist_add",
+  "whatsapp_start",
+  "order_placed",
+  "order_paid",
+  "order_delivered",
+] as const;
+
+export type FunnelEventKind = (typeof FUNNEL_EVENT_KINDS)[number];
+
+export interface FunnelEvent {
+  journeyId: string; // Visitor ID
+  sessionId: string | null;
+  kind: FunnelEventKind;
+  timestamp: Date;
+  source?: string;
+  deviceType?: string;
+}
+
+export interface FunnelStepDefinition {
+  label: string;
+  kind: FunnelEventKind;
+  optional?: boolean;
+}
+
+export const DEFAULT_FUNNEL_STEPS: FunnelStepDefinition[] = [
+  { label: "Impression", kind: "impression" },
+  { label: "Product view", kind: "product_view" },
+  { label: "Watchlist", kind: "watchlist_add", optional: true },
+  { label: "WhatsApp chat", kind: "whatsapp_start", optional: true },
+  { label: "Order", kind: "order_placed" },
+  { label: "Payment", kind: "order_paid" },
+  { label: "Delivery", kind: "order_delivered" },
+];
+
+export const MAX_FUNNEL_RANGE_DAYS = 180;
+
+export class FunnelQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FunnelQueryError";
+  }
+}
+
+export interface FunnelStepResult {
+  label: string;
+  kind: FunnelEventKind;
+  optional: boolean;
+  count: number;
+  rateFromStart: number; // 0-1
+  rateFromPrevious: number; // 0-1, against the gating step
+  dropOff: number;
+  medianTimeFromPreviousMs: number | null;
+}
+
+export interface FunnelSegment {
+  key: string;
+  journeys: number;
+  counts: number[]; // Per step, same order as steps
+}
+
+export interface FunnelReport {
+  from: Date;
+  to: Date;
+  journeys: number;
+  sessions: number;
+  steps: FunnelStepResult[];
+  bySource: FunnelSegment[];
+  byDevice: FunnelSegment[];
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+}
+
+/**
+ * Step reach times for one journey (null = not reached). Events must be sorted by time.
+ */
+export function walkJourney(events: FunnelEvent[], steps: FunnelStepDefinition[]): Array<{ at: number; sinceGate: number | null } | null> {
+  const reached: Array<{ at: number; sinceGate: number | null } | null> = steps.map(() => null);
+  let gate: number | null = null;
+
+  for (let i = 0; i < steps.length; i++) {
+    const step = steps[i];
+    const match = events.find(e => e.kind === step.kind && (gate === null || e.timestamp.getTime() >= gate));
+    if (!match) {
+      if (step.optional) continue;
+      break;
+    }
+
+    const at = match.timestamp.getTime();
+    reached[i] = { at, sinceGate: gate === null ? null : at - gate };
+    if (!step.optional) gate = at;
+  }
+
+  return reached;
+}
+
+/**
+ * Build a funnel report from stitched events. Pure - no I/O.
+ */
+export function computeFunnel(
+  events: FunnelEvent[],
+  steps: FunnelStepDefinition[] = DEFAULT_FUNNEL_STEPS,
+  range: { from: Date; to: Date } = { from: new Date(0), to: new Date() }
+): FunnelReport {
+  const journeys = new Map<string, FunnelEvent[]>();
+  const sessions = new Set<string>();
+  for (const event of events) {
+    const journey = journeys.get(event.journeyId) ?? [];
+    journey.push(event);
+    journeys.set(event.journeyId, journey);
+    if (event.sessionId) sessions.add(event.sessionId);
+  }
+
+  const counts = steps.map(() => 0);
+  const durations: number[][] = steps.map(() => []);
+  const segments = { source: new Map<string, FunnelSegment>(), device: new Map<string, FunnelSegment>() };
+  const segment = (map: Map<string, FunnelSegment>, key: string) => {
+    const current = map.get(key) ?? { key, journeys: 0, counts: steps.map(() => 0) };
+    map.set(key, current);
+    return current;
+  };
+
+  for (const journey of journeys.values()) {
+    journey.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    const reached = walkJourney(journey, steps);
+
+    // First touch attribution
+    const source = segment(segments.source, journey.find(e => e.source)?.source ?? "unknown");
+    const device = segment(segments.device, journey.find(e => e.deviceType)?.deviceType ?? "unknown");
+    source.journeys++;
+    device.journeys++;
+
+    reached.forEach((step, i) => {
+      if (!step) return;
+      counts[i]++;
+      source.counts[i]++;
+      device.counts[i]++;
+      if (step.sinceGate !== null) durations[i].push(step.sinceGate);
+    });
+  }
+
+  let gateCount: number | null = null;
+  const results: FunnelStepResult[] = steps.map((step, i) => {
+    const previous = gateCount ?? counts[i];
+    const result: FunnelStepResult = {
+      label: step.label,
+      kind: step.kind,
+      optional: !!step.optional,
+      count: counts[i],
+      rateFromStart: counts[0] > 0 ? counts[i] / counts[0] : 0,
+      rateFromPrevious: previous > 0 ? counts[i] / previous : 0,
+      dropOff: previous - counts[i],
+      medianTimeFromPreviousMs: median(durations[i]),
+    };
+    if (!step.optional) gateCount = counts[i];
+    return result;
+  });
+
+  const bySize = (a: FunnelSegment, b: FunnelSegment) => b.journeys - a.journeys;
+  return {
+    from: range.from,
+    to: range.to,
+    journeys: counts[0],
+    sessions: sessions.size,
+    steps: results,
+    bySource: Array.from(segments.source.values()).sort(bySize),
+    byDevice: Array.from(segments.device.values()).sort(bySize),
+  };
+}
+
+export interface FunnelQuery {
+  sellerId: number;
+  productId?: number;
+  from: Date;
+  to: Date; // Exclusive
+}
+
+/**
+ * Where funnel events come from (analytics store + orders by default)
+ */
+export interface FunnelEventSource {
+  getEvents(query: FunnelQuery): Promise<FunnelEvent[]>;
+}
+
+export class DefaultFunnelEventSource implements FunnelEventSource {
+  constructor(private events: AnalyticsEventService = analyticsEvents) {}
+
+  async getEvents(query: FunnelQuery): Promise<FunnelEvent[]> {
+    const [analytics, orderEventsList] = await Promise.all([
+      this.events.getEvents({ sellerId: query.sellerId, productId: query.productId, from: query.from, to: query.to }),
+      this.getOrderEvents(query),
+    ]);
+
+    return [
+      ...analytics.impressions.map(e => ({
+        journeyId: e.userId,
+        sessionId: e.sessionId,
+        kind: "impression" as const,
+        timestamp: e.timestamp,
+        source: e.source,
+        deviceType: e.deviceType,
+      })),
+      ...analytics.clicks.map(e => ({
+        journeyId: e.userId,
+        sessionId: e.sessionId,
+        kind: "click" as const,
+        timestamp: e.timestamp,
+        source: e.source,
+        deviceType: e.deviceType,
+      })),
+      ...analytics.interactions.map(e => ({
+        journeyId: e.userId,
+        sessionId: e.sessionId,
+        kind: e.kind,
+        timestamp: e.timestamp,
+        deviceType: e.deviceType,
+      })),
+      ...analytics.conversions
+        .filter(e => e.conversionType === "whatsapp_click")
+        .map(e => ({
+          journeyId: e.userId,
+          sessionId: e.sessionId ?? null,
+          kind: "whatsapp_start" as const,
+          timestamp: e.timestamp,
+        })),
+      // Sales the seller closed on WhatsApp and marked sold (whatsapp-attribution.ts)
+      ...analytics.conversions
+        .filter(e => e.conversionType === "purchase")
+        .map(e => ({
+          journeyId: e.userId,
+          sessionId: e.sessionId ?? null,
+          kind: "order_placed" as const,
+          timestamp: e.timestamp,
+        })),
+      ...orderEventsList,
+    ];
+  }
+
+  /**
+   * Orders placed in the range by a known visitor, plus when they were paid and delivered
+   */
+  private async getOrderEvents(query: FunnelQuery): Promise<FunnelEvent[]> {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+
+    const conditions = [
+      eq(orders.sellerId, query.sellerId),
+      gte(orders.createdAt, query.from),
+      lt(orders.createdAt, query.to),
+      isNotNull(orders.visitorId),
+    ];
+    if (query.productId !== undefined) {
+      const withProduct = await db
+        .select({ orderId: orderItems.orderId })
+        .from(orderItems)
+        .where(eq(orderItems.productId, query.productId));
+      if (withProduct.length === 0) return [];
+      conditions.push(inArray(orders.id, withProduct.map(row => row.orderId)));
+    }
+
+    const placed = await db
+      .select({ id: orders.id, visitorId: orders.visitorId, createdAt: orders.createdAt, deliveredAt: orders.deliveredAt })
+      .from(orders)
+      .where(and(...conditions));
+    if (placed.length === 0) return [];
+
+    const paid = await db
+      .select({ orderId: orderEvents.orderId, createdAt: orderEvents.createdAt })
+      .from(orderEvents)
+      .where(and(inArray(orderEvents.orderId, placed.map(o => o.id)), eq(orderEvents.toStatus, "paid")));
+    const paidAt = new Map<number, Date>(paid.map(row => [row.orderId, row.createdAt]));
+
+    const events: FunnelEvent[] = [];
+    for (const order of placed) {
+      const journeyId = order.visitorId!;
+      events.push({ journeyId, sessionId: null, kind: "order_placed", timestamp: new Date(order.createdAt) });
+      const paidTime = paidAt.get(order.id);
+      if (paidTime) events.push({ journeyId, sessionId: null, kind: "order_paid", timestamp: new Date(paidTime) });
+      if (order.deliveredAt) {
+        events.push({ journeyId, sessionId: null, kind: "order_delivered", timestamp: new Date(order.deliveredAt) });
+      }
+    }
+    return events;
+  }
+}
+
+export class FunnelEngine {
+  private source: FunnelEventSource;
+
+  constructor(source: FunnelEventSource = new DefaultFunnelEventSource()) {
+    this.source = source;
+  }
+
+  async getFunnel(query: FunnelQuery, steps: FunnelStepDefinition[] = DEFAULT_FUNNEL_STEPS): Promise<FunnelReport> {
+    const days = (query.to.getTime() - query.from.getTime()) / (24 * 60 * 60 * 1000);
+    if (days <= 0 || days > MAX_FUNNEL_RANGE_DAYS) {
+      throw new FunnelQueryError(`Funnel date range must be between 0 and ${MAX_FUNNEL_RANGE_DAYS} days`);
+    }
+    if (steps.length < 2 || steps[0].optional) {
+      throw new FunnelQueryError("A funnel needs at least two steps and a required first step");
+    }
+
+    const events = await this.source.getEvents(query);
+    return computeFunnel(events, steps, { from: query.from, to: query.to });
+  }
+}
+
+export const funnelEngine = new FunnelEngine();
@@ -1,71 +1,57 @@
 import { jobQueueService, JobData, JobResult } from "./job-queue";
-import { RealSigLIPEmbeddings } from "./siglip-real";
-import { GeminiQualityControl } from "./gemini-quality-control";
-import { milvusDB, ProductEmbedding } from "./milvus-client";
-import { redisService } from "./redis-client";
+import { indexProductEmbeddings } from "./vector-index";
+import { listingDedup } from "./listing-dedup";
+import { CatalogSyncPipeline, type CatalogSyncJobData, type StageContext } from "./catalog-sync-pipeline";
 
 /**
  * Job Processors
  * 
- * Define how each job type is processed
+ * Define how each job type is processed. The catalog sync stages
+ * (scrape → hydrate → QC → embed → index) delegate to CatalogSyncPipeline;
+ * every embedded product also gets a duplicate detection job.
  */
 
+const catalogSync = new CatalogSyncPipeline({
+  // Mirror hybrid and image vectors into the vector indexes for visual and semantic
+  // search, then check the product against its neighbours for duplicate listings
+  vectorSink: async (product, embeddings) => {
+    await indexProductEmbeddings(product, embeddings);
+    await jobQueueService.addJob("detect-duplicates", { productId: product.id });
+  },
+});
+
 /**
- * Catalog Scraping Processor
- * Scrapes WhatsApp Business catalog and extracts products
+ * Wire a pipeline stage to BullMQ: fan-out becomes bulk jobs on the next
+ * stage's queue, progress goes to job.updateProgress
  */
-export async function processCatalogScraping(job: any): Promise<JobResult> {
+function stageContext(job: any): StageContext {
+  return {
+    enqueue: async (stage, jobs) => {
+      await jobQueueService.addBulkJobs(stage, jobs);
+    },
+    reportProgress: async (progress) => {
+      await job.updateProgress(progress);
+    },
+  };
+}
+
+/**
+ * Run a pipeline stage and wrap the outcome as a JobResult
+ */
+async function runStage(job: any, name: string, stage: () => Promise<any>): Promise<JobResult> {
   const startTime = Date.now();
 
   try {
-    console.log(`[Processor] Processing catalog scraping job: ${job.id}`);
-
-    const { catalogUrl, sellerId } = job.data as JobData;
-
-    if (!catalogUrl || !sellerId) {
-      throw new Error("Missing catalogUrl or sellerId");
-    }
-
-    // Simulate catalog scraping
-    // In production, use Playwright to scrape the actual catalog
-    const products = [
-      {
-        name: "Product 1",
-        description: "Description 1",
-        price: "1000",
-        imageUrl: "https://example.com/image1.jpg",
-      },
-      {
-        name: "Product 2",
-        description: "Description 2",
-        price: "2000",
-        imageUrl: "https://example.com/image2.jpg",
-      },
-    ];
-
-    console.log(`[Processor] Scraped ${products.length} products from ${catalogUrl}`);
-
-    // Queue embedding generation for each product
-    const embedJobs = products.map((product) => ({
-      ...product,
-      sellerId,
-    }));
-
-    await jobQueueService.addBulkJobs("generate-embedding", embedJobs);
-
-    const duration = Date.now() - startTime;
+    console.log(`[Processor] Processing ${name} job: ${job.id}`);
+    const data = await stage();
 
     return {
       success: true,
-      data: {
-        productsScraped: products.length,
-        catalogUrl,
-        sellerId,
-      },
-      duration,
+      data,
+      duration: Date.now() - startTime,
     };
   } catch (error) {
-    console.error("[Processor] Catalog scraping failed:", error);
+    console.error(`[Processor] ${name} failed:`, error);
 
     return {
       success: false,
@@ -76,164 +62,65 @@ export async function processCatalogScraping(job: any): Promise<JobResult> {
 }
 
 /**
- * Embedding Generation Processor
- * Generates SigLIP embeddings for products
+ * Catalog Scraping Processor
+ * Scouts the seller's WhatsApp catalog and fans out one hydrate job per product
  */
-export async function processEmbeddingGeneration(job: any): Promise<JobResult> {
-  const startTime = Date.now();
-
-  try {
-    console.log(`[Processor] Processing embedding generation job: ${job.id}`);
-
-    const { productName, description, imageUrl, productId, sellerId } = job.data as JobData;
-
-    if (!productName || !description || !imageUrl) {
-      throw new Error("Missing product data");
-    }
-
-    // Generate embeddings
-    const embedding = await RealSigLIPEmbeddings.generateEmbeddings(
-      productName,
-      description,
-      imageUrl
-    );
-
-    // Store in Milvus
-    const productEmbedding: ProductEmbedding = {
-      productId: productId || Math.random() * 10000,
-      embedding,
-      metadata: {
-        productName,
-        category: "General",
-        price: 0,
-        sellerId: sellerId || 0,
-      },
-    };
-
-    await milvusDB.insertEmbeddings([productEmbedding]);
-
-    console.log(`[Processor] Embeddings generated and stored for ${productName}`);
-
-    // Queue quality control
-    await jobQueueService.addJob("quality-control", {
-      productName,
-      description,
-      imageUrl,
-      productId,
-      sellerId,
-    });
-
-    const duration = Date.now() - startTime;
-
-    return {
-      success: true,
-      data: {
-        productName,
-        embeddingDimension: embedding.length,
-      },
-      duration,
-    };
-  } catch (error) {
-    console.error("[Processor] Embedding generation failed:", error);
+export async function processCatalogScraping(job: any): Promise<JobResult> {
+  return runStage(job, "catalog scraping", () =>
+    catalogSync.scout(job.data as CatalogSyncJobData, stageContext(job))
+  );
+}
 
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error",
-      duration: Date.now() - startTime,
-    };
-  }
+/**
+ * Product Hydration Processor
+ * Fetches wa.me/p/ metadata for one scouted product
+ */
+export async function processProductHydration(job: any): Promise<JobResult> {
+  return runStage(job, "product hydration", async () => {
+    const listing = await catalogSync.hydrate(job.data as CatalogSyncJobData, stageContext(job));
+    return { hydrated: listing !== null, productName: listing?.name };
+  });
 }
 
 /**
  * Quality Control Processor
- * Analyzes products with Gemini AI
+ * Analyzes the hydrated listing with Gemini; approved/flagged listings are persisted
  */
 export async function processQualityControl(job: any): Promise<JobResult> {
-  const startTime = Date.now();
-
-  try {
-    console.log(`[Processor] Processing quality control job: ${job.id}`);
-
-    const { productName, description, imageUrl, productId, sellerId } = job.data as JobData;
-
-    if (!productName || !description || !imageUrl) {
-      throw new Error("Missing product data");
-    }
-
-    // Analyze with Gemini
-    const qcResult = await GeminiQualityControl.analyzeProduct(
-      productName,
-      description,
-      "1000", // price
-      imageUrl
-    );
-
-    console.log(`[Processor] QC analysis complete: ${productName} - ${qcResult.decision}`);
-
-    // Cache QC result
-    await redisService.set(`qc:${productId}`, qcResult, { ttl: 86400 }); // 24 hours
-
-    const duration = Date.now() - startTime;
-
-    return {
-      success: true,
-      data: {
-        productName,
-        decision: qcResult.decision,
-        confidence: qcResult.confidence,
-      },
-      duration,
-    };
-  } catch (error) {
-    console.error("[Processor] Quality control failed:", error);
+  return runStage(job, "quality control", async () => {
+    const result = await catalogSync.qualityControl(job.data as CatalogSyncJobData, stageContext(job));
+    return { decision: result.decision, confidence: result.confidence, reason: result.reason };
+  });
+}
 
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error",
-      duration: Date.now() - startTime,
-    };
-  }
+/**
+ * Embedding Generation Processor
+ * Generates SigLIP embeddings and stores them in MySQL and Milvus
+ */
+export async function processEmbeddingGeneration(job: any): Promise<JobResult> {
+  return runStage(job, "embedding generation", async () => {
+    const embeddingDimension = await catalogSync.embed(job.data as CatalogSyncJobData, stageContext(job));
+    return { productId: job.data.productId, embeddingDimension };
+  });
 }
 
 /**
  * Product Indexing Processor
- * Indexes products in search systems
+ * Adds the product to the search index
  */
 export async function processProductIndexing(job: any): Promise<JobResult> {
-  const startTime = Date.now();
-
-  try {
-    console.log(`[Processor] Processing product indexing job: ${job.id}`);
-
-    const { productId, productName } = job.data as JobData;
-
-    if (!productId || !productName) {
-      throw new Error("Missing product data");
-    }
-
-    // Index in search systems (Elasticsearch, etc.)
-    console.log(`[Processor] Indexed product: ${productName}`);
-
-    const duration = Date.now() - startTime;
-
-    return {
-      success: true,
-      data: {
-        productId,
-        productName,
-        indexed: true,
-      },
-      duration,
-    };
-  } catch (error) {
-    console.error("[Processor] Product indexing failed:", error);
+  return runStage(job, "product indexing", async () => {
+    await catalogSync.index(job.data as CatalogSyncJobData, stageContext(job));
+    return { productId: job.data.productId, indexed: true };
+  });
+}
 
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "Unknown error",
-      duration: Date.now() - startTime,
-    };
-  }
+/**
+ * Duplicate Detection Processor
+ * Clusters the product with near-identical listings (vector + photo hash)
+ */
+export async function processDuplicateDetection(job: any): Promise<JobResult> {
+  return runStage(job, "duplicate detection", () => listingDedup.detect(job.data.productId));
 }
 
 /**
@@ -289,10 +176,12 @@ export async function registerAllProcessors(): Promise<void> {
   console.log("[Processors] Registering all job processors...");
 
   await jobQueueService.registerProcessor("scrape-catalog", processCatalogScraping);
+  await jobQueueService.registerProcessor("hydrate-product", processProductHydration);
   await jobQueueService.registerProcessor("generate-embedding", processEmbeddingGeneration);
   await jobQueueService.registerProcessor("quality-control", processQualityControl);
   await jobQueueService.registerProcessor("index-product", processProductIndexing);
   await jobQueueService.registerProcessor("sync-seller", processSyncSeller);
+  await jobQueueService.registerProcessor("detect-duplicates", processDuplicateDetection);
 
   console.log("[Processors] All processors registered");
 }
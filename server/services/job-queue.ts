@@ -6,9 +6,11 @@ import { redisService } from "./redis-client";
  * 
  * Manages background jobs for:
  * - Catalog scraping
+ * - Product hydration
  * - Embedding generation
  * - Quality control
  * - Product indexing
+ * - Duplicate listing detection
  */
 
 export interface JobData {
@@ -30,10 +32,12 @@ export interface JobResult {
 
 export type JobType =
   | "scrape-catalog"
+  | "hydrate-product"
   | "generate-embedding"
   | "quality-control"
   | "index-product"
-  | "sync-seller";
+  | "sync-seller"
+  | "detect-duplicates";
 
 class JobQueueService {
   private queues: Map<JobType, Queue> = new Map();
@@ -56,10 +60,12 @@ class JobQueueService {
       // Create queues for each job type
       const jobTypes: JobType[] = [
         "scrape-catalog",
+        "hydrate-product",
         "generate-embedding",
         "quality-control",
         "index-product",
         "sync-seller",
+        "detect-duplicates",
       ];
 
       for (const jobType of jobTypes) {
@@ -206,7 +212,7 @@ class JobQueueService {
       }
 
       const state = await job.getState();
-      const progress = job.progress();
+      const progress = job.progress;
 
       return {
         id: job.id,
@@ -0,0 +1,204 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import type { ListingDuplicateCluster, Product } from "../../drizzle/schema";
+import { ListingDedupService, type ClusterChanges, type ClusterSummary, type DuplicateStatus, type ListingDedupStore } from "./listing-dedup";
+import { differenceHash, hammingDistance } from "./perceptual-hash";
+import { HnswVectorIndex } from "./vector-index-hnsw";
+import { productVector } from "./vector-index";
+
+class MemoryDedupStore implements ListingDedupStore {
+  clusters = new Map<number, ListingDuplicateCluster>();
+  private nextId = 1;
+
+  constructor(public products: Product[]) {}
+
+  async getProduct(productId: number) {
+    return this.products.find(p => p.id === productId) ?? null;
+  }
+  async getProducts(ids: number[]) {
+    return this.products.filter(p => ids.includes(p.id) && !p.removedAt);
+  }
+  async saveImageHash(productId: number, hash: string) {
+    this.products.find(p => p.id === productId)!.imageHash = hash;
+  }
+  async getClusters(ids: number[]) {
+    return ids.map(id => this.clusters.get(id)).filter((c): c is ListingDuplicateCluster => !!c);
+  }
+  async getClusterMembers(clusterIds: number[]) {
+    return this.products.filter(p => p.duplicateClusterId !== null && clusterIds.includes(p.duplicateClusterId) && !p.removedAt);
+  }
+  async createCluster(summary: ClusterSummary) {
+    const id = this.nextId++;
+    const now = new Date();
+    this.clusters.set(id, { id, ...summary, status: "pending", reviewedBy: null, reviewedAt: null, createdAt: now, updatedAt: now });
+    return id;
+  }
+  async updateCluster(clusterId: number, changes: ClusterChanges) {
+    Object.assign(this.clusters.get(clusterId)!, changes, { updatedAt: new Date() });
+  }
+  async assignCluster(productIds: number[], clusterId: number | null) {
+    this.products.filter(p => productIds.includes(p.id)).forEach(p => (p.duplicateClusterId = clusterId));
+  }
+  async deleteCluster(clusterId: number) {
+    await this.assignCluster(this.products.filter(p => p.duplicateClusterId === clusterId).map(p => p.id), null);
+    this.clusters.delete(clusterId);
+  }
+  async listClusters(status: DuplicateStatus, minSellers: number, limit: number) {
+    return Array.from(this.clusters.values())
+      .filter(c => c.status === status && c.sellerCount >= minSellers)
+      .slice(0, limit);
+  }
+  async getStoreNames(sellerIds: number[]) {
+    return new Map(sellerIds.map(id => [id, `Store ${id}`]));
+  }
+}
+
+const product = (id: number, sellerId: number, priceAmount: number | null, day: number) =>
+  ({
+    id,
+    sellerId,
+    categoryId: 1,
+    name: `Product ${id}`,
+    price: String(priceAmount),
+    priceAmount,
+    imageUrl: `https://cdn.example/${id}.jpg`,
+    imageHash: null,
+    duplicateClusterId: null,
+    removedAt: null,
+    createdAt: new Date(Date.UTC(2026, 9, day)),
+  }) as unknown as Product;
+
+/** Unit vector at the given cosine similarity to [1, 0, 0] */
+const at = (similarity: number) => [similarity, Math.sqrt(1 - similarity * similarity), 0];
+
+// Photo hashes: 1-4 are the same supplier photo (4 re-encoded, a couple of bits off), 5 is another shot
+const HASHES: Readonly<Record<number, string>> = {
+  1: "f0f0f0f0f0f0f0f0",
+  2: "f0f0f0f0f0f0f0f0",
+  3: "f0f0f0f0f0f0f0f1",
+  4: "f0f0f0f0f0f0f0f3",
+  5: "0f0f0f0f0f0f0f0f",
+  6: "f0f0f0f0f0f0f0f0",
+};
+
+async function setup() {
+  const store = new MemoryDedupStore([
+    product(1, 10, 1800, 1),
+    product(2, 11, 1500, 3),
+    product(3, 12, 2000, 5),
+    product(4, 10, null, 7), // Seller 10 reposting its own listing
+    product(5, 13, 1700, 2), // Same vector neighbourhood, different photo
+    product(6, 14, 1600, 4), // Same photo, different item (vector far away)
+  ]);
+  const index = new HnswVectorIndex();
+  await index.upsert([
+    productVector(store.products[0], at(1)),
+    productVector(store.products[1], at(0.995)),
+    productVector(store.products[2], at(0.99)),
+    productVector(store.products[3], at(0.998)),
+    productVector(store.products[4], at(0.996)),
+    productVector(store.products[5], at(0.5)),
+  ]);
+  const hashes = { ...HASHES };
+  const hashed: number[] = [];
+  const service = new ListingDedupService({
+    store,
+    index,
+    hashImage: async url => {
+      const id = Number(url.match(/(\d+)\.jpg$/)![1]);
+      hashed.push(id);
+      return hashes[id];
+    },
+  });
+  return { store, service, hashes, hashed };
+}
+
+describe("perceptual hash", () => {
+  it("barely moves when a photo is resized and recompressed", async () => {
+    const base = await sharp({ create: { width: 600, height: 400, channels: 3, background: { r: 30, g: 30, b: 30 } } })
+      .composite([{ input: { create: { width: 200, height: 400, channels: 3, background: { r: 240, g: 200, b: 20 } } }, left: 0, top: 0 }])
+      .png()
+      .toBuffer();
+    const repost = await sharp(base).resize(300).jpeg({ quality: 60 }).toBuffer();
+    const flipped = await sharp(base).flop().png().toBuffer();
+
+    expect(hammingDistance(await differenceHash(base), await differenceHash(repost))).toBeLessThanOrEqual(2);
+    expect(hammingDistance(await differenceHash(base), await differenceHash(flipped))).toBeGreaterThan(6);
+  });
+});
+
+describe("listing dedup", () => {
+  it("clusters listings only when both the vector and the photo hash match", async () => {
+    const { store, service } = await setup();
+
+    const first = await service.detect(1);
+    expect(first.matchedProductIds.sort()).toEqual([2, 3, 4]);
+    const cluster = store.clusters.get(first.clusterId!)!;
+    expect(cluster).toMatchObject({ canonicalProductId: 1, productCount: 4, sellerCount: 3, minPrice: 1500, maxPrice: 2000 });
+    expect(store.products.filter(p => p.duplicateClusterId === cluster.id).map(p => p.id)).toEqual([1, 2, 3, 4]);
+
+    // Product 5 is in the neighbourhood but its photo differs; 6 has the photo but is another item
+    expect(await service.detect(5)).toMatchObject({ clusterId: null, matchedProductIds: [] });
+    expect(await service.detect(6)).toMatchObject({ clusterId: null, matchedProductIds: [] });
+  });
+
+  it("shows buyers one card per cluster and compares prices across sellers", async () => {
+    const { store, service } = await setup();
+    const { clusterId } = await service.detect(2);
+
+    // Product 3 ranks first; its slot shows the canonical listing (the earliest post) with the offers
+    const page = await service.collapse([3, 5, 2, 6].map(id => store.products.find(p => p.id === id)!));
+    expect(page.map(p => p.id)).toEqual([1, 5, 6]);
+    expect(page[0].offers).toEqual({ clusterId, sellerCount: 3, minPrice: 1500, maxPrice: 2000 });
+
+    const comparison = await service.getPriceComparison(4);
+    expect(comparison).toMatchObject({ clusterId, canonicalProductId: 1, sellerCount: 3 });
+    expect(comparison!.offers.map(o => [o.productId, o.storeName])).toEqual([
+      [2, "Store 11"],
+      [1, "Store 10"],
+      [3, "Store 12"],
+      [4, "Store 10"],
+    ]);
+  });
+
+  it("queues cross-seller clusters for review and respects the admin's decision", async () => {
+    const { store, service } = await setup();
+    const { clusterId } = await service.detect(1);
+
+    const [queued] = await service.getReviewQueue();
+    expect(queued.members.map(m => m.productId)).toEqual([1, 2, 3, 4]);
+
+    await expect(service.review(clusterId!, "confirmed", 99, 5)).rejects.toMatchObject({ code: "INVALID_CANONICAL" });
+    await expect(service.review(404, "dismissed", 99)).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+    await service.review(clusterId!, "confirmed", 99, 2);
+    expect(await service.getReviewQueue()).toEqual([]);
+
+    // Re-running detection keeps the chosen canonical and the review
+    await service.detect(3);
+    expect(store.clusters.get(clusterId!)).toMatchObject({ status: "confirmed", canonicalProductId: 2, reviewedBy: 99 });
+
+    // Dismissed clusters stop collapsing
+    await service.review(clusterId!, "dismissed", 99);
+    expect((await service.collapse(await store.getProducts([1, 2]))).map(p => p.id)).toEqual([1, 2]);
+  });
+
+  it("moves a listing out when its photo no longer matches, and dissolves clusters of one", async () => {
+    const { store, service, hashes, hashed } = await setup();
+    await service.detect(1);
+    await service.detect(2);
+    // Neighbour hashes are stored and reused; the detected listing's own photo is always re-hashed
+    expect(hashed.filter(id => id === 1)).toHaveLength(1);
+
+    hashes[1] = "0000000000000000";
+    await service.detect(1);
+    expect(hashed.filter(id => id === 1)).toHaveLength(2);
+    expect(store.products.map(p => p.duplicateClusterId)).toEqual([null, 1, 1, 1, null, null]);
+
+    store.products[1].removedAt = new Date();
+    store.products[2].removedAt = new Date();
+    await service.detect(4);
+    expect(store.clusters.size).toBe(0);
+    expect(store.products[3].duplicateClusterId).toBeNull();
+  });
+});
@@ -0,0 +1,506 @@
+import axios from "axios";
+import { and, desc, eq, gte, inArray, isNull } from "drizzle-orm";
+import { getDb } from "../db";
+import { listingDuplicateClusters, products, sellers, type ListingDuplicateCluster, type Product } from "../../drizzle/schema";
+import { differenceHash, hammingDistance } from "./perceptual-hash";
+import { vectorIndex, type VectorIndex } from "./vector-index";
+
+/**
+ * Listing Deduplication
+ *
+ * Gikomba sellers repost the same supplier photos, so one item shows up as
+ * many listings. After a product is embedded, a `detect-duplicates` job
+ * compares it with its nearest hybrid vectors: a neighbour is a duplicate
+ * when the vectors are nearly identical AND the photos' perceptual hashes
+ * are within a few bits (the vector alone also matches the same item shot
+ * differently; the hash alone matches unrelated items on the same backdrop).
+ *
+ * Duplicates are grouped into clusters (connected components: a listing that
+ * matches two clusters merges them). Each cluster has a canonical listing,
+ * the earliest posted unless an admin picks another, and keeps it while it
+ * stays a member. Buyers see one card per cluster with the seller count and
+ * price range; clusters spanning several sellers are suspected copies and
+ * wait in the admin review queue until confirmed or dismissed. A dismissed
+ * cluster stops collapsing and goes back to review when a new listing joins.
+ */
+
+export const DUPLICATE_STATUSES = listingDuplicateClusters.status.enumValues;
+export type DuplicateStatus = (typeof DUPLICATE_STATUSES)[number];
+
+/** Cosine similarity of hybrid vectors at or above which listings may be the same item */
+const DEFAULT_MIN_SIMILARITY = 0.97;
+/** Differing dHash bits (of 64) still counted as the same photo */
+const DEFAULT_MAX_HASH_DISTANCE = 6;
+/** Nearest neighbours checked per listing */
+const NEIGHBOURS = 20;
+const MAX_PHOTO_BYTES = 8 * 1024 * 1024;
+
+export interface ClusterSummary {
+  canonicalProductId: number;
+  productCount: number;
+  sellerCount: number;
+  minPrice: number | null;
+  maxPrice: number | null;
+}
+
+/** Attached to a grid card that stands for a whole cluster */
+export interface ListingOffers {
+  clusterId: number;
+  sellerCount: number;
+  minPrice: number | null;
+  maxPrice: number | null;
+}
+
+export interface ListingOffer {
+  productId: number;
+  sellerId: number;
+  storeName: string | null;
+  name: string;
+  price: string;
+  priceAmount: number | null;
+  imageUrl: string | null;
+}
+
+export interface PriceComparison {
+  clusterId: number;
+  canonicalProductId: number;
+  sellerCount: number;
+  /** Cheapest first; listings without a known price last */
+  offers: ListingOffer[];
+}
+
+export interface DuplicateClusterView extends ListingDuplicateCluster {
+  members: Array<ListingOffer & { createdAt: Date }>;
+}
+
+export interface DuplicateDetection {
+  productId: number;
+  clusterId: number | null;
+  matchedProductIds: number[];
+}
+
+export type ClusterChanges = Partial<Omit<ListingDuplicateCluster, "id" | "createdAt" | "updatedAt">>;
+
+export interface ListingDedupStore {
+  getProduct(productId: number): Promise<Product | null>;
+  /** Live products among `ids`, in any order */
+  getProducts(ids: number[]): Promise<Product[]>;
+  saveImageHash(productId: number, hash: string): Promise<void>;
+  getClusters(ids: number[]): Promise<ListingDuplicateCluster[]>;
+  /** Live products assigned to any of the clusters */
+  getClusterMembers(clusterIds: number[]): Promise<Product[]>;
+  createCluster(summary: ClusterSummary): Promise<number>;
+  updateCluster(clusterId: number, changes: ClusterChanges): Promise<void>;
+  /** Point products at a cluster, or detach them with null */
+  assignCluster(productIds: number[], clusterId: number | null): Promise<void>;
+  /** Delete the cluster and detach its members */
+  deleteCluster(clusterId: number): Promise<void>;
+  /** Newest first */
+  listClusters(status: DuplicateStatus, minSellers: number, limit: number): Promise<ListingDuplicateCluster[]>;
+  getStoreNames(sellerIds: number[]): Promise<Map<number, string>>;
+}
+
+export class DrizzleListingDedupStore implements ListingDedupStore {
+  private async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db;
+  }
+
+  async getProduct(productId: number): Promise<Product | null> {
+    const db = await this.db();
+    const [product] = await db.select().from(products).where(eq(products.id, productId)).limit(1);
+    return product ?? null;
+  }
+
+  async getProducts(ids: number[]): Promise<Product[]> {
+    if (ids.length === 0) return [];
+    const db = await this.db();
+    return db
+      .select()
+      .from(products)
+      .where(and(inArray(products.id, ids), isNull(products.removedAt)));
+  }
+
+  async saveImageHash(productId: number, hash: string): Promise<void> {
+    const db = await this.db();
+    await db.update(products).set({ imageHash: hash }).where(eq(products.id, productId));
+  }
+
+  async getClusters(ids: number[]): Promise<ListingDuplicateCluster[]> {
+    if (ids.length === 0) return [];
+    const db = await this.db();
+    return db.select().from(listingDuplicateClusters).where(inArray(listingDuplicateClusters.id, ids));
+  }
+
+  async getClusterMembers(clusterIds: number[]): Promise<Product[]> {
+    if (clusterIds.length === 0) return [];
+    const db = await this.db();
+    return db
+      .select()
+      .from(products)
+      .where(and(inArray(products.duplicateClusterId, clusterIds), isNull(products.removedAt)));
+  }
+
+  async createCluster(summary: ClusterSummary): Promise<number> {
+    const db = await this.db();
+    const [row] = await db.insert(listingDuplicateClusters).values(summary).$returningId();
+    return row.id;
+  }
+
+  async updateCluster(clusterId: number, changes: ClusterChanges): Promise<void> {
+    const db = await this.db();
+    await db.update(listingDuplicateClusters).set(changes).where(eq(listingDuplicateClusters.id, clusterId));
+  }
+
+  async assignCluster(productIds: number[], clusterId: number | null): Promise<void> {
+    if (productIds.length === 0) return;
+    const db = await this.db();
+    await db.update(products).set({ duplicateClusterId: clusterId }).where(inArray(products.id, productIds));
+  }
+
+  async deleteCluster(clusterId: number): Promise<void> {
+    const db = await this.db();
+    await db.update(products).set({ duplicateClusterId: null }).where(eq(products.duplicateClusterId, clusterId));
+    await db.delete(listingDuplicateClusters).where(eq(listingDuplicateClusters.id, clusterId));
+  }
+
+  async listClusters(status: DuplicateStatus, minSellers: number, limit: number): Promise<ListingDuplicateCluster[]> {
+    const db = await this.db();
+    return db
+      .select()
+      .from(listingDuplicateClusters)
+      .where(and(eq(listingDuplicateClusters.status, status), gte(listingDuplicateClusters.sellerCount, minSellers)))
+      .orderBy(desc(listingDuplicateClusters.updatedAt))
+      .limit(limit);
+  }
+
+  async getStoreNames(sellerIds: number[]): Promise<Map<number, string>> {
+    if (sellerIds.length === 0) return new Map();
+    const db = await this.db();
+    const rows = await db
+      .select({ id: sellers.id, storeName: sellers.storeName })
+      .from(sellers)
+      .where(inArray(sellers.id, sellerIds));
+    return new Map(rows.map((row: { id: number; storeName: string }) => [row.id, row.storeName]));
+  }
+}
+
+export class ListingDedupError extends Error {
+  constructor(
+    public code: "NOT_FOUND" | "INVALID_CANONICAL",
+    message: string
+  ) {
+    super(message);
+    this.name = "ListingDedupError";
+  }
+}
+
+/**
+ * Seller count, price range and canonical listing of a cluster's members.
+ * The current canonical is kept while it is still a member; otherwise the
+ * earliest posted listing (lowest id on ties) becomes canonical.
+ */
+export function summarizeCluster(members: Product[], currentCanonicalId?: number): ClusterSummary {
+  const prices = members.map(member => member.priceAmount).filter((price): price is number => price !== null);
+  const earliest = [...members].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id
+  )[0];
+
+  return {
+    canonicalProductId: members.some(member => member.id === currentCanonicalId) ? currentCanonicalId! : earliest.id,
+    productCount: members.length,
+    sellerCount: new Set(members.map(member => member.sellerId)).size,
+    minPrice: prices.length > 0 ? Math.min(...prices) : null,
+    maxPrice: prices.length > 0 ? Math.max(...prices) : null,
+  };
+}
+
+async function fetchImageHash(imageUrl: string): Promise<string> {
+  const response = await axios.get(imageUrl, {
+    responseType: "arraybuffer",
+    timeout: 10000,
+    maxContentLength: MAX_PHOTO_BYTES,
+  });
+  return differenceHash(Buffer.from(response.data));
+}
+
+function toOffer(product: Product, storeNames: Map<number, string>): ListingOffer {
+  return {
+    productId: product.id,
+    sellerId: product.sellerId,
+    storeName: storeNames.get(product.sellerId) ?? null,
+    name: product.name,
+    price: product.price,
+    priceAmount: product.priceAmount,
+    imageUrl: product.imageUrl,
+  };
+}
+
+export interface ListingDedupOptions {
+  store?: ListingDedupStore;
+  index?: Pick<VectorIndex, "search" | "getVector">;
+  hashImage?: (imageUrl: string) => Promise<string>;
+  minSimilarity?: number;
+  maxHashDistance?: number;
+}
+
+export class ListingDedupService {
+  private store: ListingDedupStore;
+  private index: Pick<VectorIndex, "search" | "getVector">;
+  private hashImage: NonNullable<ListingDedupOptions["hashImage"]>;
+  private minSimilarity: number;
+  private maxHashDistance: number;
+
+  constructor(options: ListingDedupOptions = {}) {
+    this.store = options.store ?? new DrizzleListingDedupStore();
+    this.index = options.index ?? vectorIndex;
+    this.hashImage = options.hashImage ?? fetchImageHash;
+    this.minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+    this.maxHashDistance = options.maxHashDistance ?? DEFAULT_MAX_HASH_DISTANCE;
+  }
+
+  /**
+   * Find a freshly embedded listing's duplicates and update its cluster
+   */
+  async detect(productId: number): Promise<DuplicateDetection> {
+    const product = await this.store.getProduct(productId);
+    if (!product || product.removedAt) {
+      return { productId, clusterId: null, matchedProductIds: [] };
+    }
+
+    // The photo may have changed since the last run, so the listing's own hash is recomputed
+    const hash = await this.hashProduct(product, true);
+    const vector = await this.index.getVector(productId);
+    if (!hash || !vector) {
+      return { productId, clusterId: product.duplicateClusterId ?? null, matchedProductIds: [] };
+    }
+
+    const neighbours = (await this.index.search(vector, NEIGHBOURS, { excludeProductIds: [productId] })).filter(
+      match => match.similarity >= this.minSimilarity
+    );
+    const matches: Product[] = [];
+    for (const candidate of await this.store.getProducts(neighbours.map(match => match.productId))) {
+      const candidateHash = await this.hashProduct(candidate, false);
+      if (candidateHash && hammingDistance(hash, candidateHash) <= this.maxHashDistance) {
+        matches.push(candidate);
+      }
+    }
+
+    if (matches.length === 0) {
+      if (product.duplicateClusterId) {
+        await this.leaveCluster(product);
+      }
+      return { productId, clusterId: null, matchedProductIds: [] };
+    }
+
+    const clusterId = await this.joinClusters(product, matches);
+    console.log(`[Dedup] Product ${productId} matches ${matches.map(m => m.id).join(", ")} (cluster ${clusterId})`);
+    return { productId, clusterId, matchedProductIds: matches.map(match => match.id) };
+  }
+
+  /**
+   * One card per active cluster, showing the canonical listing in the slot
+   * of the cluster's best-placed member. Lists are returned unchanged when
+   * clusters can't be loaded.
+   */
+  async collapse<T extends { id: number; duplicateClusterId?: number | null }>(
+    items: T[]
+  ): Promise<Array<T & { offers?: ListingOffers }>> {
+    const clusterIds = Array.from(
+      new Set(items.map(item => item.duplicateClusterId).filter((id): id is number => typeof id === "number"))
+    );
+    if (clusterIds.length === 0) return items;
+
+    let active: Map<number, ListingDuplicateCluster>;
+    const canonicals = new Map<number, Product>();
+    try {
+      const clusters = (await this.store.getClusters(clusterIds)).filter(
+        cluster => cluster.status !== "dismissed" && cluster.productCount > 1
+      );
+      active = new Map(clusters.map(cluster => [cluster.id, cluster]));
+
+      const onPage = new Set(items.map(item => item.id));
+      const missing = clusters.map(cluster => cluster.canonicalProductId).filter(id => !onPage.has(id));
+      for (const product of await this.store.getProducts(missing)) {
+        canonicals.set(product.id, product);
+      }
+    } catch (error) {
+      console.warn("[Dedup] Could not load duplicate clusters, showing every listing:", error);
+      return items;
+    }
+
+    const seen = new Set<number>();
+    const collapsed: Array<T & { offers?: ListingOffers }> = [];
+    for (const item of items) {
+      const cluster = item.duplicateClusterId ? active.get(item.duplicateClusterId) : undefined;
+      if (!cluster) {
+        collapsed.push(item);
+        continue;
+      }
+      if (seen.has(cluster.id)) continue;
+      seen.add(cluster.id);
+
+      const canonical = items.find(other => other.id === cluster.canonicalProductId) ?? canonicals.get(cluster.canonicalProductId);
+      collapsed.push({
+        ...item,
+        ...canonical,
+        offers: { clusterId: cluster.id, sellerCount: cluster.sellerCount, minPrice: cluster.minPrice, maxPrice: cluster.maxPrice },
+      });
+    }
+    return collapsed;
+  }
+
+  /**
+   * Every live listing of the product's cluster, for "available from N sellers"
+   */
+  async getPriceComparison(productId: number): Promise<PriceComparison | null> {
+    const product = await this.store.getProduct(productId);
+    if (!product?.duplicateClusterId) return null;
+
+    const [cluster] = await this.store.getClusters([product.duplicateClusterId]);
+    if (!cluster || cluster.status === "dismissed") return null;
+
+    const members = await this.store.getClusterMembers([cluster.id]);
+    if (members.length < 2) return null;
+
+    const storeNames = await this.store.getStoreNames(Array.from(new Set(members.map(member => member.sellerId))));
+    const offers = members
+      .map(member => toOffer(member, storeNames))
+      .sort(
+        (a, b) =>
+          (a.priceAmount ?? Number.MAX_SAFE_INTEGER) - (b.priceAmount ?? Number.MAX_SAFE_INTEGER) || a.productId - b.productId
+      );
+
+    return {
+      clusterId: cluster.id,
+      canonicalProductId: cluster.canonicalProductId,
+      sellerCount: new Set(members.map(member => member.sellerId)).size,
+      offers,
+    };
+  }
+
+  /**
+   * Admin queue: clusters spanning several sellers, most recently changed first
+   */
+  async getReviewQueue(status: DuplicateStatus = "pending", limit: number = 50): Promise<DuplicateClusterView[]> {
+    const clusters = await this.store.listClusters(status, 2, limit);
+    if (clusters.length === 0) return [];
+
+    const members = await this.store.getClusterMembers(clusters.map(cluster => cluster.id));
+    const storeNames = await this.store.getStoreNames(Array.from(new Set(members.map(member => member.sellerId))));
+
+    return clusters.map(cluster => ({
+      ...cluster,
+      members: members
+        .filter(member => member.duplicateClusterId === cluster.id)
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id)
+        .map(member => ({ ...toOffer(member, storeNames), createdAt: member.createdAt })),
+    }));
+  }
+
+  /**
+   * Confirm or dismiss a suspected duplicate cluster, optionally picking its canonical listing
+   */
+  async review(
+    clusterId: number,
+    decision: "confirmed" | "dismissed",
+    reviewedBy: number,
+    canonicalProductId?: number
+  ): Promise<ListingDuplicateCluster> {
+    const [cluster] = await this.store.getClusters([clusterId]);
+    if (!cluster) {
+      throw new ListingDedupError("NOT_FOUND", "Duplicate cluster not found");
+    }
+
+    if (canonicalProductId !== undefined) {
+      const members = await this.store.getClusterMembers([clusterId]);
+      if (!members.some(member => member.id === canonicalProductId)) {
+        throw new ListingDedupError("INVALID_CANONICAL", "The canonical listing must be a live member of the cluster");
+      }
+    }
+
+    const changes: ClusterChanges = {
+      status: decision,
+      reviewedBy,
+      reviewedAt: new Date(),
+      ...(canonicalProductId !== undefined ? { canonicalProductId } : {}),
+    };
+    await this.store.updateCluster(clusterId, changes);
+    return { ...cluster, ...changes };
+  }
+
+  /**
+   * Stored hash, computed and saved when missing (or always, with `refresh`)
+   */
+  private async hashProduct(product: Product, refresh: boolean): Promise<string | null> {
+    if (product.imageHash && !refresh) return product.imageHash;
+    if (!product.imageUrl) return null;
+
+    try {
+      const hash = await this.hashImage(product.imageUrl);
+      if (hash !== product.imageHash) {
+        await this.store.saveImageHash(product.id, hash);
+      }
+      return hash;
+    } catch (error) {
+      console.warn(`[Dedup] Could not hash the photo of product ${product.id}:`, error);
+      return product.imageHash ?? null;
+    }
+  }
+
+  /**
+   * Put the listing and its matches in one cluster, merging any clusters they already belong to
+   */
+  private async joinClusters(product: Product, matches: Product[]): Promise<number> {
+    const touched = Array.from(
+      new Set([product, ...matches].map(p => p.duplicateClusterId).filter((id): id is number => typeof id === "number"))
+    );
+    const clusters = (await this.store.getClusters(touched)).sort((a, b) => a.id - b.id);
+    const existing = await this.store.getClusterMembers(clusters.map(cluster => cluster.id));
+
+    const members = new Map<number, Product>();
+    for (const member of [...existing, ...matches, product]) {
+      members.set(member.id, member);
+    }
+
+    const [target, ...merged] = clusters;
+    const summary = summarizeCluster(Array.from(members.values()), target?.canonicalProductId);
+    let clusterId: number;
+    if (target) {
+      clusterId = target.id;
+      // A listing joining the cluster is a new suspect, even after a review
+      const grew = members.size > existing.filter(member => member.duplicateClusterId === target.id).length;
+      await this.store.updateCluster(
+        clusterId,
+        grew ? { ...summary, status: "pending", reviewedBy: null, reviewedAt: null } : summary
+      );
+    } else {
+      clusterId = await this.store.createCluster(summary);
+    }
+
+    await this.store.assignCluster(Array.from(members.keys()), clusterId);
+    for (const cluster of merged) {
+      await this.store.deleteCluster(cluster.id);
+    }
+    return clusterId;
+  }
+
+  private async leaveCluster(product: Product): Promise<void> {
+    const clusterId = product.duplicateClusterId!;
+    await this.store.assignCluster([product.id], null);
+
+    const remaining = await this.store.getClusterMembers([clusterId]);
+    if (remaining.length < 2) {
+      await this.store.deleteCluster(clusterId);
+      return;
+    }
+    const [cluster] = await this.store.getClusters([clusterId]);
+    await this.store.updateCluster(clusterId, summarizeCluster(remaining, cluster?.canonicalProductId));
+  }
+}
+
+// Singleton instance
+export const listingDedup = new ListingDedupService();
@@ -0,0 +1,198 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { randomBytes } from "node:crypto";
+import axios from "axios";
+
+/**
+ * Mock Daraja Server
+ *
+ * A local stand-in for the Safaricom Daraja sandbox covering the endpoints
+ * DarajaProvider uses, so the STK Push flow runs end to end offline:
+ * - GET  /oauth/v1/generate              -> access token (requires Basic auth)
+ * - POST /mpesa/stkpush/v1/processrequest -> accepts the push, then POSTs the
+ *                                            result to CallBackURL after a delay
+ * - POST /mpesa/stkpushquery/v1/query     -> pending until the payer "responds"
+ *
+ * The payer's response is decided by `outcome` (default: success). Sandbox-style
+ * magic amounts are handy in manual runs: 1 KES is cancelled by the user (1032),
+ * 2 KES fails for insufficient funds (1).
+ *
+ * Run standalone with `npx tsx server/services/mock-daraja-server.ts [port]`.
+ */
+
+export interface MockStkRequest {
+  phone: string;
+  amount: number;
+  accountReference: string;
+}
+
+export interface MockDarajaOptions {
+  port?: number;
+  /** Delay before the payer "responds" and the callback fires (default 50ms) */
+  callbackDelayMs?: number;
+  /** Daraja ResultCode for a push; 0 = paid */
+  outcome?: (request: MockStkRequest) => number;
+}
+
+export interface MockDarajaServer {
+  url: string;
+  /** Callbacks delivered so far, for assertions */
+  callbacks: unknown[];
+  close(): Promise<void>;
+}
+
+const RESULT_DESCRIPTIONS: Record<number, string> = {
+  0: "The service request is processed successfully.",
+  1: "The balance is insufficient for the transaction.",
+  1032: "Request cancelled by user",
+  1037: "DS timeout user cannot be reached",
+};
+
+export function defaultOutcome(request: MockStkRequest): number {
+  if (request.amount === 1) return 1032;
+  if (request.amount === 2) return 1;
+  return 0;
+}
+
+function readJson(req: http.IncomingMessage): Promise<any> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.on("data", chunk => (body += chunk));
+    req.on("end", () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+function send(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export async function startMockDarajaServer(options: MockDarajaOptions = {}): Promise<MockDarajaServer> {
+  const { callbackDelayMs = 50, outcome = defaultOutcome } = options;
+  const tokens = new Set<string>();
+  const results = new Map<string, { code: number; merchantRequestId: string } | null>();
+  const callbacks: unknown[] = [];
+  const timers = new Set<NodeJS.Timeout>();
+  let counter = 0;
+
+  const server = http.createServer(async (req, res) => {
+    try {
+      const url = req.url || "";
+
+      if (req.method === "GET" && url.startsWith("/oauth/v1/generate")) {
+        if (!req.headers.authorization?.startsWith("Basic ")) {
+          return send(res, 400, { errorCode: "400.008.01", errorMessage: "Invalid Authentication passed" });
+        }
+        const token = randomBytes(16).toString("hex");
+        tokens.add(token);
+        return send(res, 200, { access_token: token, expires_in: "3599" });
+      }
+
+      const bearer = req.headers.authorization?.replace(/^Bearer /, "");
+      if (!bearer || !tokens.has(bearer)) {
+        return send(res, 401, { errorCode: "404.001.03", errorMessage: "Invalid Access Token" });
+      }
+
+      if (req.method === "POST" && url === "/mpesa/stkpush/v1/processrequest") {
+        const body = await readJson(req);
+        if (!body.PhoneNumber || !body.Amount || !body.CallBackURL) {
+          return send(res, 400, { errorCode: "400.002.02", errorMessage: "Bad Request - Invalid request body" });
+        }
+
+        counter++;
+        const merchantRequestId = `mock-${counter}-${Date.now()}`;
+        const checkoutRequestId = `ws_CO_${Date.now()}${counter}`;
+        results.set(checkoutRequestId, null);
+
+        const request = { phone: String(body.PhoneNumber), amount: Number(body.Amount), accountReference: body.AccountReference };
+        const timer = setTimeout(async () => {
+          timers.delete(timer);
+          const code = outcome(request);
+          results.set(checkoutRequestId, { code, merchantRequestId });
+
+          const stkCallback: Record<string, unknown> = {
+            MerchantRequestID: merchantRequestId,
+            CheckoutRequestID: checkoutRequestId,
+            ResultCode: code,
+            ResultDesc: RESULT_DESCRIPTIONS[code] ?? "Transaction failed",
+          };
+          if (code === 0) {
+            stkCallback.CallbackMetadata = {
+              Item: [
+                { Name: "Amount", Value: request.amount },
+                { Name: "MpesaReceiptNumber", Value: `MCK${randomBytes(4).toString("hex").toUpperCase()}` },
+                { Name: "TransactionDate", Value: Number(new Date().toISOString().replace(/\D/g, "").slice(0, 14)) },
+                { Name: "PhoneNumber", Value: Number(request.phone) },
+              ],
+            };
+          }
+
+          const payload = { Body: { stkCallback } };
+          callbacks.push(payload);
+          await axios.post(body.CallBackURL, payload, { timeout: 5000 }).catch(error => {
+            console.warn(`[MockDaraja] Callback to ${body.CallBackURL} failed: ${error.message}`);
+          });
+        }, callbackDelayMs);
+        timers.add(timer);
+
+        return send(res, 200, {
+          MerchantRequestID: merchantRequestId,
+          CheckoutRequestID: checkoutRequestId,
+          ResponseCode: "0",
+          ResponseDescription: "Success. Request accepted for processing",
+          CustomerMessage: "Success. Request accepted for processing",
+        });
+      }
+
+      if (req.method === "POST" && url === "/mpesa/stkpushquery/v1/query") {
+        const body = await readJson(req);
+        if (!results.has(body.CheckoutRequestID)) {
+          return send(res, 400, { errorCode: "400.002.02", errorMessage: "Bad Request - Invalid CheckoutRequestID" });
+        }
+
+        const result = results.get(body.CheckoutRequestID);
+        if (!result) {
+          return send(res, 500, { errorCode: "500.001.1001", errorMessage: "The transaction is being processed" });
+        }
+
+        return send(res, 200, {
+          ResponseCode: "0",
+          ResponseDescription: "The service request has been accepted successfully",
+          MerchantRequestID: result.merchantRequestId,
+          CheckoutRequestID: body.CheckoutRequestID,
+          ResultCode: String(result.code),
+          ResultDesc: RESULT_DESCRIPTIONS[result.code] ?? "Transaction failed",
+        });
+      }
+
+      send(res, 404, { errorMessage: "Not found" });
+    } catch (error: any) {
+      send(res, 500, { errorMessage: error.message });
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(options.port ?? 0, "127.0.0.1", () => resolve()));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    callbacks,
+    close: () => {
+      for (const timer of timers) clearTimeout(timer);
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+if (process.argv[1]?.endsWith("mock-daraja-server.ts")) {
+  startMockDarajaServer({ port: Number(process.argv[2]) || 4010, callbackDelayMs: 3000 }).then(server => {
+    console.log(`[MockDaraja] Listening on ${server.url}`);
+  });
+}
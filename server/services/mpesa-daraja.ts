@@ -0,0 +1,209 @@
+import axios from "axios";
+import { ENV } from "../_core/env";
+
+/**
+ * M-Pesa Payment Provider - Safaricom Daraja STK Push
+ *
+ * PaymentProvider is the seam PaymentService talks to, so another mobile
+ * money rail (or a stub) can be swapped in. DarajaProvider speaks the Daraja
+ * REST API:
+ * - OAuth client-credentials token (cached until shortly before expiry)
+ * - STK Push (Lipa Na M-Pesa Online) initiation
+ * - STK Push transaction status query
+ * - Parsing of the asynchronous result callback
+ *
+ * Point MPESA_BASE_URL at the mock Daraja server (mock-daraja-server.ts)
+ * to run the whole flow offline.
+ */
+
+export interface StkPushRequest {
+  phone: string; // 2547XXXXXXXX
+  amount: number; // Whole KES
+  accountReference: string; // Shown to the payer, max 12 chars
+  description: string;
+  callbackUrl: string;
+}
+
+export interface StkPushResponse {
+  merchantRequestId: string;
+  checkoutRequestId: string;
+  customerMessage: string;
+}
+
+export type StkResultStatus = "pending" | "paid" | "failed";
+
+export interface StkResult {
+  checkoutRequestId: string;
+  merchantRequestId?: string;
+  status: StkResultStatus;
+  resultCode: number | null;
+  resultDesc: string;
+  receiptNumber?: string;
+  amount?: number;
+  phone?: string;
+}
+
+export interface PaymentProvider {
+  readonly name: string;
+  initiateStkPush(request: StkPushRequest): Promise<StkPushResponse>;
+  queryStatus(checkoutRequestId: string): Promise<StkResult>;
+  parseCallback(body: unknown): StkResult;
+}
+
+export interface DarajaConfig {
+  baseUrl: string;
+  consumerKey: string;
+  consumerSecret: string;
+  shortcode: string;
+  passkey: string;
+}
+
+/** Daraja's "request is still being processed" code on the status query */
+const STILL_PROCESSING = 4999;
+
+/**
+ * Map a Daraja ResultCode to a payment outcome (0 = success; 1032 = cancelled by
+ * user, 1037 = phone unreachable, 1 = insufficient funds, ... are all failures)
+ */
+export function statusForResultCode(code: number | null | undefined): StkResultStatus {
+  if (code === null || code === undefined || code === STILL_PROCESSING) return "pending";
+  return code === 0 ? "paid" : "failed";
+}
+
+/**
+ * Daraja timestamps are yyyyMMddHHmmss in East Africa Time (UTC+3)
+ */
+export function darajaTimestamp(date: Date = new Date()): string {
+  const eat = new Date(date.getTime() + 3 * 60 * 60 * 1000);
+  return eat.toISOString().replace(/[-:T]/g, "").slice(0, 14);
+}
+
+/**
+ * Parse a Daraja STK Push callback body (Body.stkCallback)
+ */
+export function parseStkCallback(body: unknown): StkResult {
+  const callback = (body as any)?.Body?.stkCallback;
+  if (!callback?.CheckoutRequestID) {
+    throw new Error("Not an STK Push callback");
+  }
+
+  const metadata = new Map<string, any>(
+    (callback.CallbackMetadata?.Item ?? []).map((item: { Name: string; Value?: any }) => [item.Name, item.Value])
+  );
+  const resultCode = Number(callback.ResultCode);
+
+  return {
+    checkoutRequestId: callback.CheckoutRequestID,
+    merchantRequestId: callback.MerchantRequestID,
+    status: statusForResultCode(resultCode),
+    resultCode,
+    resultDesc: callback.ResultDesc ?? "",
+    receiptNumber: metadata.get("MpesaReceiptNumber"),
+    amount: metadata.has("Amount") ? Number(metadata.get("Amount")) : undefined,
+    phone: metadata.has("PhoneNumber") ? String(metadata.get("PhoneNumber")) : undefined,
+  };
+}
+
+export class DarajaProvider implements PaymentProvider {
+  readonly name = "mpesa";
+  private token: { value: string; expiresAt: number } | null = null;
+
+  constructor(private config: DarajaConfig) {}
+
+  static fromEnv(): DarajaProvider {
+    return new DarajaProvider({
+      baseUrl: ENV.mpesaBaseUrl,
+      consumerKey: ENV.mpesaConsumerKey,
+      consumerSecret: ENV.mpesaConsumerSecret,
+      shortcode: ENV.mpesaShortcode,
+      passkey: ENV.mpesaPasskey,
+    });
+  }
+
+  async initiateStkPush(request: StkPushRequest): Promise<StkPushResponse> {
+    const timestamp = darajaTimestamp();
+    const { data } = await axios.post(
+      `${this.config.baseUrl}/mpesa/stkpush/v1/processrequest`,
+      {
+        BusinessShortCode: this.config.shortcode,
+        Password: this.password(timestamp),
+        Timestamp: timestamp,
+        TransactionType: "CustomerPayBillOnline",
+        Amount: Math.ceil(request.amount),
+        PartyA: request.phone,
+        PartyB: this.config.shortcode,
+        PhoneNumber: request.phone,
+        CallBackURL: request.callbackUrl,
+        AccountReference: request.accountReference.slice(0, 12),
+        TransactionDesc: request.description.slice(0, 13),
+      },
+      { headers: await this.authHeaders(), timeout: 30000 }
+    );
+
+    if (String(data.ResponseCode) !== "0") {
+      throw new Error(`STK Push rejected: ${data.ResponseDescription || data.errorMessage || "unknown error"}`);
+    }
+
+    return {
+      merchantRequestId: data.MerchantRequestID,
+      checkoutRequestId: data.CheckoutRequestID,
+      customerMessage: data.CustomerMessage,
+    };
+  }
+
+  async queryStatus(checkoutRequestId: string): Promise<StkResult> {
+    const timestamp = darajaTimestamp();
+    try {
+      const { data } = await axios.post(
+        `${this.config.baseUrl}/mpesa/stkpushquery/v1/query`,
+        {
+          BusinessShortCode: this.config.shortcode,
+          Password: this.password(timestamp),
+          Timestamp: timestamp,
+          CheckoutRequestID: checkoutRequestId,
+        },
+        { headers: await this.authHeaders(), timeout: 30000 }
+      );
+
+      const resultCode = data.ResultCode === undefined ? null : Number(data.ResultCode);
+      return {
+        checkoutRequestId,
+        merchantRequestId: data.MerchantRequestID,
+        status: statusForResultCode(resultCode),
+        resultCode,
+        resultDesc: data.ResultDesc ?? data.ResponseDescription ?? "",
+      };
+    } catch (error: any) {
+      // Daraja answers 500 with errorCode 500.001.1001 while the payer hasn't responded yet
+      if (error.response?.data?.errorCode === "500.001.1001") {
+        return { checkoutRequestId, status: "pending", resultCode: null, resultDesc: error.response.data.errorMessage };
+      }
+      throw error;
+    }
+  }
+
+  parseCallback(body: unknown): StkResult {
+    return parseStkCallback(body);
+  }
+
+  private password(timestamp: string): string {
+    return Buffer.from(`${this.config.shortcode}${this.config.passkey}${timestamp}`).toString("base64");
+  }
+
+  private async authHeaders(): Promise<Record<string, string>> {
+    if (!this.token || this.token.expiresAt <= Date.now()) {
+      const credentials = Buffer.from(`${this.config.consumerKey}:${this.config.consumerSecret}`).toString("base64");
+      const { data } = await axios.get(`${this.config.baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+        headers: { Authorization: `Basic ${credentials}` },
+        timeout: 15000,
+      });
+      // Refresh a minute early so in-flight requests never carry an expired token
+      this.token = {
+        value: data.access_token,
+        expiresAt: Date.now() + (Number(data.expires_in) - 60) * 1000,
+      };
+    }
+
+    return { Authorization: `Bearer ${this.token.value}` };
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import type { Order } from "../../drizzle/schema";
+import { OrderAccessService } from "./order-access";
+
+const order = (id: number, buyerId: number | null, orderCode: string, buyerPhone: string | null) =>
+  ({ id, buyerId, sellerId: 20, orderCode, buyerPhone, status: "paid" }) as unknown as Order;
+
+const ORDERS = [order(1, 7, "SK7QX2", "0712345678"), order(2, null, "SK9ZB4", "254733000111"), order(3, 8, "SK1AA1", null)];
+
+const access = new OrderAccessService({
+  store: {
+    getOrder: async id => ORDERS.find(o => o.id === id) ?? null,
+    getOrderByCode: async code => ORDERS.find(o => o.orderCode === code.trim().toUpperCase()) ?? null,
+  },
+});
+
+describe("order access", () => {
+  it("finds a guest order by code and phone, whichever way the number is written", async () => {
+    expect((await access.findGuestOrder("sk7qx2", "+254 712 345 678"))?.id).toBe(1);
+    expect((await access.findGuestOrder("SK9ZB4", "0733000111"))?.id).toBe(2);
+    expect((await access.locateBuyerOrder(null, { code: " sk9zb4 ", phone: "0733000111" })).id).toBe(2);
+  });
+
+  it("returns nothing when the phone doesn't match or the order has none", async () => {
+    expect(await access.findGuestOrder("SK7QX2", "0799999999")).toBeNull();
+    expect(await access.findGuestOrder("SK1AA1", "0712345678")).toBeNull();
+    expect(await access.findGuestOrder("NOPE00", "0712345678")).toBeNull();
+    await expect(access.locateBuyerOrder(null, { code: "SK7QX2", phone: "0799999999" })).rejects.toMatchObject({
+      code: "NOT_FOUND",
+    });
+  });
+
+  it("refuses a signed-in buyer someone else's order", async () => {
+    expect((await access.locateBuyerOrder(7, { orderId: 1 })).id).toBe(1);
+    await expect(access.locateBuyerOrder(8, { orderId: 1 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(access.locateBuyerOrder(7, { orderId: 404 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(access.getOwnOrder(1, { sellerId: 21 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("asks guests to sign in and signed-in buyers for an order", async () => {
+    await expect(access.locateBuyerOrder(null, {})).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    await expect(access.locateBuyerOrder(null, { orderId: 1 })).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    await expect(access.locateBuyerOrder(null, { code: "SK7QX2" })).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+    await expect(access.locateBuyerOrder(7, {})).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+});
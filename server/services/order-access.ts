@@ -0,0 +1,102 @@
+import type { Order } from "../../drizzle/schema";
+import { CatalogIngestionService } from "./catalog-ingestion";
+import { OrderManagement } from "./order-management";
+
+/**
+ * Order Access
+ *
+ * Decides which order a caller may act on. Signed-in buyers and sellers reach
+ * their own orders by ID; guests reach an order with its code plus the phone
+ * number used at checkout (compared after normalization, so 07... and
+ * 2547... match). Someone else's order looks the same as a missing one.
+ */
+
+export class OrderAccessError extends Error {
+  constructor(
+    public code: "UNAUTHORIZED" | "BAD_REQUEST" | "NOT_FOUND",
+    message: string
+  ) {
+    super(message);
+    this.name = "OrderAccessError";
+  }
+}
+
+/** Signed-in buyers pass orderId; guests pass the order code and their phone number */
+export interface OrderLocator {
+  orderId?: number;
+  code?: string;
+  phone?: string;
+}
+
+export interface OrderOwner {
+  buyerId?: number;
+  sellerId?: number;
+}
+
+export interface OrderAccessStore {
+  getOrder(orderId: number): Promise<Order | null>;
+  getOrderByCode(orderCode: string): Promise<Order | null>;
+}
+
+export interface OrderAccessOptions {
+  store?: OrderAccessStore;
+}
+
+export class OrderAccessService {
+  private store: OrderAccessStore;
+
+  constructor(options: OrderAccessOptions = {}) {
+    this.store = options.store ?? {
+      getOrder: orderId => OrderManagement.getOrder(orderId),
+      getOrderByCode: orderCode => OrderManagement.getOrderByCode(orderCode),
+    };
+  }
+
+  /**
+   * Guest order lookup: the order code plus the phone number used at checkout
+   */
+  async findGuestOrder(orderCode: string, phone: string): Promise<Order | null> {
+    const order = await this.store.getOrderByCode(orderCode);
+    if (!order?.buyerPhone) return null;
+
+    const matches =
+      CatalogIngestionService.normalizePhone(order.buyerPhone) === CatalogIngestionService.normalizePhone(phone);
+    return matches ? order : null;
+  }
+
+  /**
+   * An order owned by this buyer or seller
+   */
+  async getOwnOrder(orderId: number, owner: OrderOwner): Promise<Order> {
+    const order = await this.store.getOrder(orderId);
+    const owned =
+      order && (owner.buyerId !== undefined ? order.buyerId === owner.buyerId : order.sellerId === owner.sellerId);
+    if (!owned) {
+      throw new OrderAccessError("NOT_FOUND", "Order not found");
+    }
+    return order;
+  }
+
+  /**
+   * The order a buyer (signed in, or a guest with code and phone) is asking about
+   */
+  async locateBuyerOrder(userId: number | null, locator: OrderLocator): Promise<Order> {
+    if (locator.code && locator.phone) {
+      const order = await this.findGuestOrder(locator.code, locator.phone);
+      if (!order) {
+        throw new OrderAccessError("NOT_FOUND", "No order matches that code and phone number");
+      }
+      return order;
+    }
+    if (locator.orderId !== undefined && userId !== null) {
+      return this.getOwnOrder(locator.orderId, { buyerId: userId });
+    }
+    throw new OrderAccessError(
+      userId !== null ? "BAD_REQUEST" : "UNAUTHORIZED",
+      "Sign in, or enter your order code and phone number"
+    );
+  }
+}
+
+// Singleton instance
+export const orderAccess = new OrderAccessService();
@@ -1,56 +1,170 @@
+import { randomBytes, randomUUID } from "node:crypto";
 import { getDb } from "../db";
-import { orders, products, sellers, sellerNotifications } from "../../drizzle/schema";
-import { eq, and } from "drizzle-orm";
+import {
+  orderEvents,
+  orderItems,
+  orders,
+  products,
+  sellerNotifications,
+  sellers,
+  type Order,
+  type OrderEvent,
+  type OrderItem,
+} from "../../drizzle/schema";
+import { and, asc, desc, eq, inArray, isNull, lte, sql } from "drizzle-orm";
+import { getPriceAmount } from "./price-normalizer";
+import { EscrowLedger } from "./escrow-ledger";
+import { ENV } from "../_core/env";
+import {
+  allowedTransitions,
+  OrderTransitionError,
+  resolveTransition,
+  type OrderActor,
+  type OrderStatus,
+} from "./order-state-machine";
 
 /**
  * Order Management Service
  * 
- * Handles order creation, tracking, and notifications
+ * Handles order creation, tracking, and notifications.
+ * An order belongs to one seller and holds one or more line items with
+ * price-at-purchase snapshots. Stock is reserved when the order is placed
+ * and released if it is cancelled. Status changes go through the order state
+ * machine (order-state-machine.ts) and are recorded in order_events. Paid
+ * orders sit in escrow until the buyer confirms delivery (or the auto-confirm
+ * window after shipping runs out).
  */
 
-export interface OrderData {
-  userId: number;
+export interface OrderItemData {
   productId: number;
-  sellerId: number;
   quantity: number;
-  totalPrice: number;
+}
+
+export interface OrderData {
+  userId?: number | null; // Null for guest orders
+  sellerId: number;
+  items: OrderItemData[];
   buyerPhone?: string;
   buyerName?: string;
   notes?: string;
+  checkoutId?: string;
+  visitorId?: string; // Analytics visitor ID, for funnel stitching
 }
 
 export interface OrderResult {
   success: boolean;
   orderId?: number;
+  checkoutId?: string;
+  message: string;
+  error?: string;
+}
+
+export interface PlacedOrder {
+  orderId: number;
+  orderCode: string;
+  sellerId: number;
+  totalAmount: number;
+  items: Array<Pick<OrderItem, "productId" | "productName" | "quantity" | "unitPrice" | "lineTotal">>;
+}
+
+export interface PlaceOrdersResult {
+  success: boolean;
+  checkoutId?: string;
+  orders: PlacedOrder[];
   message: string;
   error?: string;
 }
 
-export type OrderStatus = "initiated" | "confirmed" | "shipped" | "delivered" | "cancelled";
+export type { OrderStatus } from "./order-state-machine";
+
+export interface OrderListOptions {
+  statuses?: OrderStatus[];
+  limit?: number;
+  offset?: number;
+}
+
+export type OrderWithItems = Order & { items: OrderItem[] };
+
+export interface OrderDetail extends OrderWithItems {
+  sellerName: string | null;
+  events: OrderEvent[];
+  buyerActions: OrderStatus[]; // Transitions the buyer can make from here
+}
+
+// No 0/O or 1/I, so codes survive being read out over the phone
+const ORDER_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/**
+ * Random buyer-facing order reference, e.g. "SK7QX4M2PA"
+ */
+export function newOrderCode(): string {
+  const bytes = randomBytes(8);
+  return `SK${Array.from(bytes, byte => ORDER_CODE_ALPHABET[byte % ORDER_CODE_ALPHABET.length]).join("")}`;
+}
+
+/**
+ * Who is moving an order, for the permission check and the order_events history
+ */
+export interface TransitionActor {
+  actor: OrderActor;
+  userId?: number | null;
+  note?: string;
+  paymentId?: number; // Set when a payment triggers the transition
+}
+
+const STATUS_MESSAGES: Record<OrderStatus, string> = {
+  initiated: "Order initiated",
+  confirmed: "Order confirmed by seller",
+  paid: "Order paid",
+  shipped: "Order shipped",
+  delivered: "Order delivered",
+  completed: "Order completed",
+  cancelled: "Order cancelled",
+  refunded: "Order refunded",
+  disputed: "Order disputed",
+};
+
+/**
+ * Validation failure inside the order transaction; rolls back and becomes an OrderResult error code
+ */
+class OrderRejection extends Error {
+  constructor(
+    public code: string,
+    message: string
+  ) {
+    super(message);
+    this.name = "OrderRejection";
+  }
+}
 
 export class OrderManagement {
   /**
    * Create new order
    */
   static async createOrder(data: OrderData): Promise<OrderResult> {
-    try {
-      console.log("[OrderManagement] Creating order for product:", data.productId);
-
-      // Validate data
-      if (!data.userId || !data.productId || !data.sellerId || !data.quantity) {
-        return {
-          success: false,
-          message: "Missing required order data",
-          error: "INVALID_ORDER_DATA",
-        };
-      }
+    const result = await this.placeOrders([data]);
+    return {
+      success: result.success,
+      orderId: result.orders[0]?.orderId,
+      checkoutId: result.checkoutId,
+      message: result.success ? "Order created successfully" : result.message,
+      error: result.error,
+    };
+  }
 
-      if (data.quantity < 1) {
-        return {
-          success: false,
-          message: "Quantity must be at least 1",
-          error: "INVALID_QUANTITY",
-        };
+  /**
+   * Place several orders atomically (e.g. one per seller from a cart checkout).
+   * Either every order is created and its stock reserved, or none are.
+   */
+  static async placeOrders(orderList: OrderData[]): Promise<PlaceOrdersResult> {
+    try {
+      for (const data of orderList) {
+        if (!data.sellerId || !data.items?.length) {
+          throw new OrderRejection("INVALID_ORDER_DATA", "Missing required order data");
+        }
+        if (data.items.some(item => !item.productId || !Number.isInteger(item.quantity) || item.quantity < 1)) {
+          throw new OrderRejection("INVALID_QUANTITY", "Quantity must be at least 1");
+        }
       }
 
       // Get database connection
@@ -59,63 +173,131 @@ export class OrderManagement {
         throw new Error("Database not available");
       }
 
-      // Verify product exists and is available
-      const product = await db
-        .select()
-        .from(products)
-        .where(eq(products.id, data.productId))
-        .limit(1);
-
-      if (!product.length) {
-        return {
-          success: false,
-          message: "Product not found",
-          error: "PRODUCT_NOT_FOUND",
-        };
-      }
-
-      // Create order record
-      const insertResult = await db.insert(orders).values({
-        userId: data.userId,
-        productId: data.productId,
-        sellerId: data.sellerId,
-        quantity: data.quantity,
-        totalPrice: data.totalPrice.toString(),
-        status: "initiated",
-        buyerPhone: data.buyerPhone || null,
-        buyerName: data.buyerName || null,
-        notes: data.notes || null,
-        createdAt: new Date(),
-        updatedAt: new Date(),
+      // Every order belongs to a checkout; payments are taken per checkout
+      const checkoutId = orderList[0].checkoutId ?? randomUUID();
+      const placed: PlacedOrder[] = await db.transaction(async (tx: any) => {
+        const created: PlacedOrder[] = [];
+        for (const data of orderList) {
+          created.push(await this.insertOrder(tx, { ...data, checkoutId: data.checkoutId ?? checkoutId }));
+        }
+        return created;
       });
 
-      const orderId = (insertResult as any).insertId;
-
-      console.log("[OrderManagement] Order created:", orderId);
-
-      // Send notification to seller
-      await this.notifySeller(
-        data.sellerId,
-        "new_order",
-        `New order received! Product: ${product[0].title}, Quantity: ${data.quantity}`
-      );
+      for (const order of placed) {
+        console.log(`[OrderManagement] Order created: ${order.orderId} (seller ${order.sellerId})`);
+        const summary = order.items.map(item => `${item.productName} x${item.quantity}`).join(", ");
+        await this.notifySeller(order.sellerId, "New order received", `${summary} - KES ${order.totalAmount}`, {
+          orderId: order.orderId,
+        });
+      }
 
       return {
         success: true,
-        orderId,
-        message: "Order created successfully",
+        checkoutId,
+        orders: placed,
+        message: `${placed.length} order(s) created successfully`,
       };
     } catch (error) {
+      if (error instanceof OrderRejection) {
+        return { success: false, orders: [], message: error.message, error: error.code };
+      }
+
       console.error("[OrderManagement] Create order failed:", error);
 
       return {
         success: false,
+        orders: [],
         message: "Order creation failed",
         error: error instanceof Error ? error.message : "Unknown error",
       };
     }
   }
 
+  /**
+   * Validate items, reserve stock and write the order with its line items
+   */
+  private static async insertOrder(tx: any, data: OrderData): Promise<PlacedOrder> {
+    // Merge duplicate lines for the same product
+    const quantities = new Map<number, number>();
+    for (const item of data.items) {
+      quantities.set(item.productId, (quantities.get(item.productId) ?? 0) + item.quantity);
+    }
+
+    const rows = await tx
+      .select()
+      .from(products)
+      .where(and(inArray(products.id, Array.from(quantities.keys())), isNull(products.removedAt)));
+    const byId = new Map<number, any>(rows.map((p: any) => [p.id, p]));
+
+    const lines: PlacedOrder["items"] = [];
+    for (const [productId, quantity] of quantities) {
+      const product = byId.get(productId);
+      if (!product) {
+        throw new OrderRejection("PRODUCT_NOT_FOUND", `Product ${productId} not found`);
+      }
+      if (product.sellerId !== data.sellerId) {
+        throw new OrderRejection("SELLER_MISMATCH", `${product.name} is not sold by seller ${data.sellerId}`);
+      }
+
+      const unitPrice = getPriceAmount(product);
+      if (unitPrice === null) {
+        throw new OrderRejection("PRODUCT_UNPRICED", `${product.name} has no price`);
+      }
+
+      // Conditional decrement: fails instead of overselling under concurrent checkouts
+      const [reserved] = await tx
+        .update(products)
+        .set({ stock: sql`${products.stock} - ${quantity}` })
+        .where(and(eq(products.id, productId), sql`${products.stock} >= ${quantity}`));
+      if (!reserved?.affectedRows) {
+        throw new OrderRejection("OUT_OF_STOCK", `${product.name} is out of stock`);
+      }
+
+      lines.push({ productId, productName: product.name, quantity, unitPrice, lineTotal: unitPrice * quantity });
+    }
+
+    const totalAmount = lines.reduce((sum, line) => sum + line.lineTotal, 0);
+
+    // Create order record
+    const orderCode = newOrderCode();
+    const [order] = await tx
+      .insert(orders)
+      .values({
+        orderCode,
+        buyerId: data.userId ?? null,
+        productId: lines.length === 1 ? lines[0].productId : null,
+        sellerId: data.sellerId,
+        checkoutId: data.checkoutId ?? null,
+        quantity: lines.reduce((sum, line) => sum + line.quantity, 0),
+        totalPrice: totalAmount.toFixed(2),
+        status: "initiated",
+        buyerPhone: data.buyerPhone || null,
+        buyerName: data.buyerName || null,
+        visitorId: data.visitorId || null,
+        notes: data.notes || null,
+      })
+      .$returningId();
+
+    await tx.insert(orderItems).values(
+      lines.map(line => ({
+        ...line,
+        orderId: order.id,
+        imageUrl: byId.get(line.productId)?.imageUrl ?? null,
+      }))
+    );
+
+    await tx.insert(orderEvents).values({
+      orderId: order.id,
+      fromStatus: null,
+      toStatus: "initiated",
+      actor: "buyer",
+      actorUserId: data.userId ?? null,
+      note: "Order placed",
+    });
+
+    return { orderId: order.id, orderCode, sellerId: data.sellerId, totalAmount, items: lines };
+  }
+
   /**
    * Get order by ID
    */
@@ -138,25 +320,82 @@ export class OrderManagement {
   }
 
   /**
-   * Get orders by user ID
+   * Get the line items of an order
+   */
+  static async getOrderItems(orderId: number): Promise<OrderItem[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db.select().from(orderItems).where(eq(orderItems.orderId, orderId));
+  }
+
+  /**
+   * Get a buyer's orders with their line items, newest first
    */
-  static async getOrdersByUser(userId: number): Promise<any[]> {
+  static async getOrdersByUser(userId: number, options: OrderListOptions = {}): Promise<OrderWithItems[]> {
     try {
       const db = await getDb();
       if (!db) throw new Error("Database not available");
 
-      const userOrders = await db
+      const conditions = [eq(orders.buyerId, userId)];
+      if (options.statuses?.length) {
+        conditions.push(inArray(orders.status, options.statuses));
+      }
+
+      const userOrders: Order[] = await db
         .select()
         .from(orders)
-        .where(eq(orders.userId, userId));
+        .where(and(...conditions))
+        .orderBy(desc(orders.createdAt), desc(orders.id))
+        .limit(options.limit ?? 50)
+        .offset(options.offset ?? 0);
 
-      return userOrders;
+      return this.withItems(userOrders);
     } catch (error) {
       console.error("[OrderManagement] Get user orders failed:", error);
       throw error;
     }
   }
 
+  /**
+   * Order with its items, seller, status timeline and the buyer's next actions
+   */
+  static async getOrderDetail(orderId: number): Promise<OrderDetail | null> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const order: Order | null = await this.getOrder(orderId);
+    if (!order) return null;
+
+    const [[withItems], events, [seller]] = await Promise.all([
+      this.withItems([order]),
+      this.getOrderEvents(orderId),
+      db.select({ storeName: sellers.storeName }).from(sellers).where(eq(sellers.id, order.sellerId)).limit(1),
+    ]);
+
+    return {
+      ...withItems,
+      sellerName: seller?.storeName ?? null,
+      events,
+      buyerActions: allowedTransitions(order.status, "buyer"),
+    };
+  }
+
+  /**
+   * Order by its buyer-facing code (case-insensitive)
+   */
+  static async getOrderByCode(orderCode: string): Promise<Order | null> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const [order] = await db
+      .select()
+      .from(orders)
+      .where(eq(orders.orderCode, orderCode.trim().toUpperCase()))
+      .limit(1);
+    return order ?? null;
+  }
+
   /**
    * Get orders by seller ID
    */
@@ -178,70 +417,119 @@ export class OrderManagement {
   }
 
   /**
-   * Update order status
+   * Update order status (admin override; still has to be a legal transition)
    */
   static async updateOrderStatus(
     orderId: number,
-    status: OrderStatus
+    status: OrderStatus,
+    by: TransitionActor = { actor: "admin" }
   ): Promise<boolean> {
     try {
-      const db = await getDb();
-      if (!db) throw new Error("Database not available");
+      await this.transition(orderId, status, by);
+      return true;
+    } catch (error) {
+      console.error("[OrderManagement] Update order status failed:", error);
+      throw error;
+    }
+  }
 
-      // Get order to notify seller
-      const order = await this.getOrder(orderId);
-      if (!order) {
-        throw new Error("Order not found");
-      }
+  /**
+   * Move an order through the state machine: checks the transition and the
+   * actor, records an order_events row, then runs the transition's effects.
+   * The status update is conditional on the status we read, so concurrent
+   * transitions can't both apply.
+   */
+  static async transition(orderId: number, to: OrderStatus, by: TransitionActor): Promise<Order> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
 
-      // Update order
-      await db
+    const order: Order | null = await this.getOrder(orderId);
+    if (!order) {
+      throw new OrderTransitionError("INVALID_TRANSITION", "Order not found");
+    }
+
+    const transition = resolveTransition(order.status, to, by.actor);
+    const effects = new Set(transition.effects);
+    const now = new Date();
+
+    await db.transaction(async (tx: any) => {
+      const [result] = await tx
         .update(orders)
         .set({
-          status,
-          updatedAt: new Date(),
+          status: to,
+          ...(effects.has("record_shipment")
+            ? { shippedAt: now, autoConfirmAt: new Date(now.getTime() + ENV.escrowAutoConfirmDays * 24 * 60 * 60 * 1000) }
+            : {}),
+          ...(effects.has("record_delivery") && !order.deliveredAt ? { deliveredAt: now } : {}),
+          updatedAt: now,
         })
-        .where(eq(orders.id, orderId));
+        .where(and(eq(orders.id, orderId), eq(orders.status, order.status)));
+      if (!result?.affectedRows) {
+        throw new OrderTransitionError("INVALID_TRANSITION", `Order ${orderId} changed while updating; try again`);
+      }
 
-      console.log(`[OrderManagement] Order ${orderId} status updated to ${status}`);
+      await tx.insert(orderEvents).values({
+        orderId,
+        fromStatus: order.status,
+        toStatus: to,
+        actor: by.actor,
+        actorUserId: by.userId ?? null,
+        note: by.note ?? null,
+      });
 
-      // Notify seller of status change
-      const statusMessages: Record<OrderStatus, string> = {
-        initiated: "Order initiated",
-        confirmed: "Order confirmed by seller",
-        shipped: "Order shipped",
-        delivered: "Order delivered",
-        cancelled: "Order cancelled",
-      };
+      if (effects.has("release_stock")) {
+        await this.releaseStock(tx, order);
+      }
+    });
 
-      await this.notifySeller(
-        order.sellerId,
-        "order_status_update",
-        statusMessages[status]
-      );
+    console.log(`[OrderManagement] Order ${orderId}: ${order.status} -> ${to} (${by.actor})`);
 
-      return true;
-    } catch (error) {
-      console.error("[OrderManagement] Update order status failed:", error);
-      throw error;
+    // Escrow postings run in their own transactions and are idempotent per order
+    if (effects.has("hold_escrow") && by.paymentId) {
+      await EscrowLedger.hold(orderId, by.paymentId);
+    }
+    if (effects.has("freeze_escrow")) {
+      await EscrowLedger.openDispute(orderId);
     }
+    if (effects.has("release_escrow")) {
+      await EscrowLedger.release(orderId, by.note ?? `Order ${to}`);
+    }
+    if (effects.has("refund_escrow")) {
+      await EscrowLedger.refund(orderId, by.note ?? `Order ${to}`);
+    }
+    if (effects.has("notify_seller")) {
+      const detail = by.note ? `Order #${orderId}: ${by.note}` : `Order #${orderId}`;
+      await this.notifySeller(order.sellerId, STATUS_MESSAGES[to], detail, { orderId, status: to });
+    }
+
+    return (await this.getOrder(orderId))!;
+  }
+
+  /**
+   * Status history of an order, oldest first
+   */
+  static async getOrderEvents(orderId: number): Promise<OrderEvent[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db
+      .select()
+      .from(orderEvents)
+      .where(eq(orderEvents.orderId, orderId))
+      .orderBy(asc(orderEvents.createdAt), asc(orderEvents.id));
   }
 
   /**
    * Cancel order
    */
-  static async cancelOrder(orderId: number): Promise<boolean> {
+  static async cancelOrder(orderId: number, by: TransitionActor = { actor: "admin" }): Promise<boolean> {
     try {
       const order = await this.getOrder(orderId);
-      if (!order) {
-        throw new Error("Order not found");
+      if (order?.status === "cancelled") {
+        return true;
       }
 
-      if (order.status === "delivered") {
-        throw new Error("Cannot cancel delivered order");
-      }
-
-      await this.updateOrderStatus(orderId, "cancelled");
+      await this.transition(orderId, "cancelled", by);
       return true;
     } catch (error) {
       console.error("[OrderManagement] Cancel order failed:", error);
@@ -249,6 +537,130 @@ export class OrderManagement {
     }
   }
 
+  /**
+   * Buyer confirms receipt: completes the order and releases escrow to the seller
+   */
+  static async confirmDelivery(orderId: number, buyerId: number | null): Promise<Order> {
+    return this.transition(orderId, "completed", { actor: "buyer", userId: buyerId, note: "Buyer confirmed receipt" });
+  }
+
+  /**
+   * Buyer disputes an order: freezes escrow until an admin resolves it
+   */
+  static async openDispute(orderId: number, buyerId: number, reason: string): Promise<Order> {
+    return this.transition(orderId, "disputed", { actor: "buyer", userId: buyerId, note: reason });
+  }
+
+  /**
+   * Settle a dispute: the buyer winning refunds the order, the seller winning completes it
+   */
+  static async resolveDispute(orderId: number, winner: "buyer" | "seller", note: string, adminId: number): Promise<Order> {
+    return this.transition(orderId, winner === "buyer" ? "refunded" : "completed", {
+      actor: "admin",
+      userId: adminId,
+      note: `Dispute resolved for the ${winner}: ${note}`,
+    });
+  }
+
+  /**
+   * Payment for a checkout arrived: every open order moves to paid and its
+   * total goes into escrow. Orders cancelled before the money landed are held
+   * and refunded straight away so the buyer can be paid back.
+   */
+  static async markCheckoutPaid(checkoutId: string, paymentId: number): Promise<void> {
+    for (const order of await this.getCheckoutOrders(checkoutId)) {
+      if (order.status === "cancelled") {
+        await EscrowLedger.hold(order.id, paymentId);
+        await this.transition(order.id, "refunded", {
+          actor: "system",
+          paymentId,
+          note: "Payment received after the order was cancelled",
+        });
+      } else if (order.status === "initiated" || order.status === "confirmed") {
+        await this.transition(order.id, "paid", { actor: "system", paymentId, note: `Payment ${paymentId} received` });
+      }
+    }
+  }
+
+  /**
+   * A checkout's payment was reversed: refund every order that can still be
+   * refunded and record the payout of the buyer's wallet balance
+   */
+  static async refundCheckout(checkoutId: string, paymentId: number, reason: string): Promise<void> {
+    for (const order of await this.getCheckoutOrders(checkoutId)) {
+      if (allowedTransitions(order.status, "system").includes("refunded")) {
+        await this.transition(order.id, "refunded", { actor: "system", paymentId, note: reason });
+      } else if (order.status !== "refunded") {
+        console.warn(`[OrderManagement] Payment ${paymentId} refunded but order ${order.id} is ${order.status}`);
+        continue;
+      }
+      await EscrowLedger.payoutRefund(order.id, paymentId);
+    }
+  }
+
+  /**
+   * Complete shipped/delivered orders whose confirmation window has passed
+   */
+  static async autoConfirmDue(now: Date = new Date()): Promise<number> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const due: Array<{ id: number }> = await db
+      .select({ id: orders.id })
+      .from(orders)
+      .where(and(inArray(orders.status, ["shipped", "delivered"]), lte(orders.autoConfirmAt, now)));
+
+    let completed = 0;
+    for (const order of due) {
+      try {
+        await this.transition(order.id, "completed", { actor: "system", note: "Auto-confirmed after the delivery window" });
+        completed++;
+      } catch (error) {
+        console.warn(`[OrderManagement] Auto-confirm skipped order ${order.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    return completed;
+  }
+
+  private static async withItems(orderRows: Order[]): Promise<OrderWithItems[]> {
+    if (orderRows.length === 0) return [];
+
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    const items: OrderItem[] = await db
+      .select()
+      .from(orderItems)
+      .where(inArray(orderItems.orderId, orderRows.map(o => o.id)));
+    return orderRows.map(order => ({ ...order, items: items.filter(item => item.orderId === order.id) }));
+  }
+
+  private static async getCheckoutOrders(checkoutId: string): Promise<Order[]> {
+    const db = await getDb();
+    if (!db) throw new Error("Database not available");
+
+    return db.select().from(orders).where(eq(orders.checkoutId, checkoutId)).orderBy(asc(orders.id));
+  }
+
+  private static async releaseStock(tx: any, order: Order): Promise<void> {
+    const items: Array<{ productId: number; quantity: number }> = await tx
+      .select({ productId: orderItems.productId, quantity: orderItems.quantity })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, order.id));
+
+    // Legacy single-item orders have no line items
+    if (items.length === 0 && order.productId) {
+      items.push({ productId: order.productId, quantity: order.quantity });
+    }
+
+    for (const item of items) {
+      await tx
+        .update(products)
+        .set({ stock: sql`${products.stock} + ${item.quantity}` })
+        .where(eq(products.id, item.productId));
+    }
+  }
+
   /**
    * Get order statistics for seller
    */
@@ -267,6 +679,7 @@ export class OrderManagement {
         confirmedOrders: sellerOrders.filter((o) => o.status === "confirmed").length,
         shippedOrders: sellerOrders.filter((o) => o.status === "shipped").length,
         deliveredOrders: sellerOrders.filter((o) => o.status === "delivered").length,
+        completedOrders: sellerOrders.filter((o) => o.status === "completed").length,
         cancelledOrders: sellerOrders.filter((o) => o.status === "cancelled").length,
         totalRevenue: sellerOrders.reduce((sum, o) => sum + parseFloat(o.totalPrice), 0),
       };
@@ -283,8 +696,9 @@ export class OrderManagement {
    */
   private static async notifySeller(
     sellerId: number,
-    type: string,
-    message: string
+    title: string,
+    message: string,
+    data?: Record<string, unknown>
   ): Promise<void> {
     try {
       const db = await getDb();
@@ -292,8 +706,10 @@ export class OrderManagement {
 
       await db.insert(sellerNotifications).values({
         sellerId,
-        type,
+        type: "order",
+        title,
         message,
+        data: data ? JSON.stringify(data) : null,
         read: false,
         createdAt: new Date(),
       });
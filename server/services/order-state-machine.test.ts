@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import {
+  allowedTransitions,
+  isTerminal,
+  ORDER_STATUSES,
+  ORDER_TRANSITIONS,
+  OrderTransitionError,
+  resolveTransition,
+} from "./order-state-machine";
+
+describe("order state machine", () => {
+  it("never lets a finished order move backwards", () => {
+    expect(() => resolveTransition("delivered", "initiated", "admin")).toThrow(OrderTransitionError);
+    expect(isTerminal("completed")).toBe(true);
+    expect(isTerminal("refunded")).toBe(true);
+    expect(allowedTransitions("completed", "admin")).toEqual([]);
+  });
+
+  it("checks who may trigger each transition", () => {
+    expect(allowedTransitions("initiated", "buyer")).toEqual(["cancelled"]);
+    expect(allowedTransitions("initiated", "seller")).toEqual(["confirmed", "cancelled"]);
+    expect(allowedTransitions("shipped", "buyer").sort()).toEqual(["completed", "disputed"]);
+
+    try {
+      resolveTransition("initiated", "paid", "buyer");
+      expect.unreachable();
+    } catch (error) {
+      expect((error as OrderTransitionError).code).toBe("FORBIDDEN");
+    }
+    expect(() => resolveTransition("shipped", "cancelled", "seller")).toThrow(/can't go from shipped/);
+  });
+
+  it("ties escrow and stock effects to the right transitions", () => {
+    expect(resolveTransition("confirmed", "paid", "system").effects).toContain("hold_escrow");
+    expect(resolveTransition("paid", "cancelled", "buyer").effects).toEqual(
+      expect.arrayContaining(["release_stock", "refund_escrow"])
+    );
+    expect(resolveTransition("shipped", "completed", "system").effects).toContain("release_escrow");
+    expect(resolveTransition("paid", "disputed", "buyer").effects).toContain("freeze_escrow");
+
+    // Money only leaves escrow through completed (to the seller) or refunds (to the buyer)
+    for (const t of ORDER_TRANSITIONS) {
+      if (t.effects.includes("release_escrow")) expect(t.to).toBe("completed");
+      if (t.effects.includes("refund_escrow")) expect(["cancelled", "refunded"]).toContain(t.to);
+    }
+
+    // Every status is reachable from a placed order
+    const reachable = new Set(["initiated"]);
+    for (let grew = true; grew; ) {
+      grew = false;
+      for (const t of ORDER_TRANSITIONS) {
+        if (reachable.has(t.from) && !reachable.has(t.to)) {
+          reachable.add(t.to);
+          grew = true;
+        }
+      }
+    }
+    expect(Array.from(reachable).sort()).toEqual([...ORDER_STATUSES].sort());
+  });
+});
@@ -0,0 +1,92 @@
+import { orderEvents, orders } from "../../drizzle/schema";
+
+/**
+ * Order State Machine
+ *
+ * Every order status change goes through this table: which transitions exist,
+ * who may trigger them, and which side effects OrderManagement runs.
+ *
+ * Happy paths:
+ *   initiated -> confirmed -> shipped -> delivered -> completed   (pay on delivery)
+ *   initiated -> paid -> shipped -> delivered -> completed        (M-Pesa, held in escrow)
+ *
+ * Orders can be cancelled before shipping, disputed by the buyer after
+ * paying, and refunded by an admin. completed and refunded are terminal.
+ * Pure - no I/O, so the rules are testable on their own.
+ */
+
+export const ORDER_STATUSES = orders.status.enumValues;
+export const ORDER_ACTORS = orderEvents.actor.enumValues;
+
+export type OrderStatus = (typeof ORDER_STATUSES)[number];
+export type OrderActor = (typeof ORDER_ACTORS)[number];
+
+export type OrderEffect =
+  | "hold_escrow" // Move the checkout payment into escrow
+  | "release_escrow" // Pay the seller (less platform fee)
+  | "refund_escrow" // Return held funds to the buyer's wallet
+  | "freeze_escrow" // Stop auto-confirm while a dispute is open
+  | "release_stock" // Put reserved stock back
+  | "record_shipment" // shippedAt + auto-confirm deadline
+  | "record_delivery" // deliveredAt
+  | "notify_seller";
+
+export interface OrderTransition {
+  from: OrderStatus;
+  to: OrderStatus;
+  actors: OrderActor[];
+  effects: OrderEffect[];
+}
+
+function transitions(from: OrderStatus[], to: OrderStatus, actors: OrderActor[], effects: OrderEffect[]): OrderTransition[] {
+  return from.map(f => ({ from: f, to, actors, effects }));
+}
+
+export const ORDER_TRANSITIONS: OrderTransition[] = [
+  ...transitions(["initiated"], "confirmed", ["seller", "admin"], []),
+  ...transitions(["initiated", "confirmed"], "paid", ["system"], ["hold_escrow", "notify_seller"]),
+  ...transitions(["confirmed", "paid"], "shipped", ["seller", "admin"], ["record_shipment"]),
+  ...transitions(["shipped"], "delivered", ["seller", "admin"], ["record_delivery"]),
+  ...transitions(["shipped", "delivered"], "completed", ["buyer", "admin", "system"], ["record_delivery", "release_escrow", "notify_seller"]),
+  ...transitions(["initiated", "confirmed"], "cancelled", ["buyer", "seller", "admin", "system"], ["release_stock", "notify_seller"]),
+  ...transitions(["paid"], "cancelled", ["buyer", "seller", "admin"], ["release_stock", "refund_escrow", "notify_seller"]),
+  ...transitions(["paid", "shipped", "delivered"], "disputed", ["buyer"], ["freeze_escrow", "notify_seller"]),
+  ...transitions(["disputed"], "completed", ["admin"], ["release_escrow", "notify_seller"]),
+  ...transitions(["paid"], "refunded", ["admin", "system"], ["release_stock", "refund_escrow", "notify_seller"]),
+  ...transitions(["shipped", "disputed", "cancelled"], "refunded", ["admin", "system"], ["refund_escrow", "notify_seller"]),
+];
+
+export class OrderTransitionError extends Error {
+  constructor(
+    public code: "INVALID_TRANSITION" | "FORBIDDEN",
+    message: string
+  ) {
+    super(message);
+    this.name = "OrderTransitionError";
+  }
+}
+
+export function isTerminal(status: OrderStatus): boolean {
+  return !ORDER_TRANSITIONS.some(t => t.from === status);
+}
+
+/**
+ * Statuses an actor may move an order to from its current status
+ */
+export function allowedTransitions(from: OrderStatus, actor: OrderActor): OrderStatus[] {
+  return ORDER_TRANSITIONS.filter(t => t.from === from && t.actors.includes(actor)).map(t => t.to);
+}
+
+/**
+ * Look up a transition, throwing if it doesn't exist or the actor may not trigger it
+ */
+export function resolveTransition(from: OrderStatus, to: OrderStatus, actor: OrderActor): OrderTransition {
+  const transition = ORDER_TRANSITIONS.find(t => t.from === from && t.to === to);
+  if (!transition) {
+    throw new OrderTransitionError("INVALID_TRANSITION", `An order can't go from ${from} to ${to}`);
+  }
+  if (!transition.actors.includes(actor)) {
+    throw new OrderTransitionError("FORBIDDEN", `A ${actor} can't move an order from ${from} to ${to}`);
+  }
+  return transition;
+}
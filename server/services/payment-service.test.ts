@@ -0,0 +1,248 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import type { InsertPayment, Order, Payment } from "../../drizzle/schema";
+import { startMockDarajaServer, type MockDarajaServer } from "./mock-daraja-server";
+import { DarajaProvider } from "./mpesa-daraja";
+import { PaymentError, PaymentService, toPaymentSummary, type CheckoutSettlement, type PaymentStore } from "./payment-service";
+
+class MemoryStore implements PaymentStore {
+  orders = new Map<string, Array<Pick<Order, "id" | "totalPrice" | "status" | "paymentStatus">>>();
+  payments = new Map<number, Payment>();
+
+  async getCheckoutOrders(checkoutId: string) {
+    return this.orders.get(checkoutId) ?? [];
+  }
+
+  async setOrdersPaymentStatus(checkoutId: string, status: Order["paymentStatus"]) {
+    for (const order of this.orders.get(checkoutId) ?? []) {
+      if (order.status !== "cancelled") order.paymentStatus = status;
+    }
+  }
+
+  async createPayment(values: InsertPayment) {
+    const payment = { ...values, id: this.payments.size + 1, createdAt: new Date() } as Payment;
+    this.payments.set(payment.id, payment);
+    return payment;
+  }
+
+  async updatePayment(paymentId: number, fields: Partial<Payment>) {
+    const payment = Object.assign(this.payments.get(paymentId)!, fields);
+    return { ...payment };
+  }
+
+  async getPayment(paymentId: number) {
+    const payment = this.payments.get(paymentId);
+    return payment ? { ...payment } : null;
+  }
+
+  async getPaymentByCheckoutRequestId(checkoutRequestId: string) {
+    const payment = Array.from(this.payments.values()).find(p => p.checkoutRequestId === checkoutRequestId);
+    return payment ? { ...payment } : null;
+  }
+
+  async getLatestPayment(checkoutId: string) {
+    const payment = Array.from(this.payments.values()).filter(p => p.checkoutId === checkoutId).pop();
+    return payment ? { ...payment } : null;
+  }
+}
+
+class RecordingSettlement implements CheckoutSettlement {
+  events: string[] = [];
+
+  async paid(checkoutId: string, paymentId: number) {
+    this.events.push(`paid:${checkoutId}:${paymentId}`);
+  }
+
+  async refunded(checkoutId: string, paymentId: number) {
+    this.events.push(`refunded:${checkoutId}:${paymentId}`);
+  }
+}
+
+const CHECKOUT = "6f1c1b1e-8a8b-4c53-9d5e-2f1f2c3d4e5f";
+
+function waitFor(predicate: () => boolean, timeoutMs = 2000): Promise<void> {
+  const started = Date.now();
+  return new Promise((resolve, reject) => {
+    const tick = () => {
+      if (predicate()) return resolve();
+      if (Date.now() - started > timeoutMs) return reject(new Error("Timed out"));
+      setTimeout(tick, 10);
+    };
+    tick();
+  });
+}
+
+describe("PaymentService against the mock Daraja server", () => {
+  let daraja: MockDarajaServer;
+  let receiver: http.Server;
+  let callbackUrl: string;
+  let onCallback: (body: unknown) => Promise<unknown> = async () => null;
+
+  beforeAll(async () => {
+    daraja = await startMockDarajaServer({ callbackDelayMs: 20 });
+
+    // Stand-in for /api/payments/mpesa/callback
+    receiver = http.createServer((req, res) => {
+      let body = "";
+      req.on("data", chunk => (body += chunk));
+      req.on("end", async () => {
+        await onCallback(JSON.parse(body));
+        res.writeHead(200, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ ResultCode: 0, ResultDesc: "Accepted" }));
+      });
+    });
+    await new Promise<void>(resolve => receiver.listen(0, "127.0.0.1", () => resolve()));
+    callbackUrl = `http://127.0.0.1:${(receiver.address() as AddressInfo).port}/callback`;
+  });
+
+  afterAll(async () => {
+    await daraja.close();
+    await new Promise(resolve => receiver.close(resolve));
+  });
+
+  function setup(totals: string[], statusQueryIntervalMs = 0) {
+    const store = new MemoryStore();
+    store.orders.set(
+      CHECKOUT,
+      totals.map((totalPrice, i) => ({ id: i + 1, totalPrice, status: "initiated" as const, paymentStatus: "unpaid" as const }))
+    );
+    const provider = new DarajaProvider({
+      baseUrl: daraja.url,
+      consumerKey: "key",
+      consumerSecret: "secret",
+      shortcode: "174379",
+      passkey: "passkey",
+    });
+    const settlement = new RecordingSettlement();
+    const service = new PaymentService({ store, provider, settlement, callbackUrl, pendingReuseMs: 0, statusQueryIntervalMs });
+    onCallback = body => service.handleCallback(body);
+    return { store, service, settlement, provider };
+  }
+
+  it("charges the checkout total and marks every order paid on the callback", async () => {
+    const { store, service, settlement } = setup(["1500.00", "800.00"]);
+
+    const payment = await service.initiate(CHECKOUT, "0712345678");
+    expect(payment).toMatchObject({ status: "pending", amount: 2300, phone: "254712345678" });
+    expect(payment.checkoutRequestId).toMatch(/^ws_CO_/);
+    expect(store.orders.get(CHECKOUT)!.map(o => o.paymentStatus)).toEqual(["pending", "pending"]);
+
+    await waitFor(() => store.payments.get(payment.id)!.status !== "pending");
+    expect(store.payments.get(payment.id)).toMatchObject({ status: "paid", resultCode: 0 });
+    expect(store.payments.get(payment.id)!.receiptNumber).toMatch(/^MCK/);
+    expect(store.orders.get(CHECKOUT)!.map(o => o.paymentStatus)).toEqual(["paid", "paid"]);
+
+    // Duplicate callbacks don't change a settled payment
+    const settled = await service.handleCallback(daraja.callbacks[daraja.callbacks.length - 1]);
+    expect(settled?.status).toBe("paid");
+    expect(settlement.events).toEqual([`paid:${CHECKOUT}:${payment.id}`]);
+
+    await expect(service.initiate(CHECKOUT, "0712345678")).rejects.toBeInstanceOf(PaymentError);
+  });
+
+  it("fails the payment when the payer cancels the prompt", async () => {
+    const { store, service, settlement } = setup(["1.00"]);
+
+    const payment = await service.initiate(CHECKOUT, "254712345678");
+    await waitFor(() => store.payments.get(payment.id)!.status !== "pending");
+
+    expect(store.payments.get(payment.id)).toMatchObject({ status: "failed", resultCode: 1032 });
+    expect(store.orders.get(CHECKOUT)![0].paymentStatus).toBe("failed");
+    expect(settlement.events).toEqual([]);
+  });
+
+  it("settles through the status query when the callback never arrives", async () => {
+    const { store, service, settlement } = setup(["2500.00"]);
+    onCallback = async () => null; // Callback lost
+
+    const payment = await service.initiate(CHECKOUT, "254712345678");
+
+    // Daraja answers "still processing" until the payer responds
+    let refreshed = await service.refreshStatus(payment.id);
+    for (let attempt = 0; refreshed.status === "pending" && attempt < 100; attempt++) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      refreshed = await service.refreshStatus(payment.id);
+    }
+
+    expect(refreshed).toMatchObject({ status: "paid", resultCode: 0 });
+    expect(store.orders.get(CHECKOUT)![0].paymentStatus).toBe("paid");
+
+    const refunded = await service.markRefunded(payment.id, "Seller out of stock");
+    expect(refunded.status).toBe("refunded");
+    expect(store.orders.get(CHECKOUT)![0].paymentStatus).toBe("refunded");
+    expect(settlement.events).toEqual([`paid:${CHECKOUT}:${payment.id}`, `refunded:${CHECKOUT}:${payment.id}`]);
+  });
+
+  it("rejects a success callback that doesn't carry the full amount", async () => {
+    const { store, service, settlement } = setup(["1500.00"]);
+    onCallback = async () => null; // Only the forged callbacks below arrive
+
+    const payment = await service.initiate(CHECKOUT, "254712345678");
+    expect(toPaymentSummary(payment)).not.toHaveProperty("checkoutRequestId");
+
+    const forged = (items: Array<{ Name: string; Value: unknown }>) => ({
+      Body: {
+        stkCallback: {
+          CheckoutRequestID: payment.checkoutRequestId,
+          ResultCode: 0,
+          ResultDesc: "The service request is processed successfully.",
+          CallbackMetadata: { Item: items },
+        },
+      },
+    });
+
+    const settled = await service.handleCallback(forged([{ Name: "MpesaReceiptNumber", Value: "FAKE123" }]));
+    expect(settled).toMatchObject({ status: "failed", resultDesc: expect.stringContaining("Amount mismatch") });
+    expect(store.orders.get(CHECKOUT)![0].paymentStatus).toBe("failed");
+    expect(settlement.events).toEqual([]);
+
+    const retry = await service.initiate(CHECKOUT, "254712345678");
+    const underpaid = forged([{ Name: "Amount", Value: 1 }]);
+    underpaid.Body.stkCallback.CheckoutRequestID = retry.checkoutRequestId;
+    expect((await service.handleCallback(underpaid))?.status).toBe("failed");
+    expect(settlement.events).toEqual([]);
+  });
+
+  it("asks the provider at most once per interval while the checkout page polls", async () => {
+    const { service, provider } = setup(["900.00"], 10_000);
+    onCallback = async () => null;
+    const queries: string[] = [];
+    const queryStatus = provider.queryStatus.bind(provider);
+    provider.queryStatus = async checkoutRequestId => {
+      queries.push(checkoutRequestId);
+      return queryStatus(checkoutRequestId);
+    };
+
+    const payment = await service.initiate(CHECKOUT, "254712345678");
+    const started = new Date(payment.createdAt).getTime();
+
+    expect((await service.refreshStatus(payment.id, new Date(started + 1_000))).status).toBe("pending");
+    expect(queries).toHaveLength(0);
+
+    await new Promise(resolve => setTimeout(resolve, 100)); // Payer has answered by now
+    const asked = await service.refreshStatus(payment.id, new Date(started + 10_000));
+    expect(queries).toHaveLength(1);
+    expect(asked).toMatchObject({ status: "paid", lastQueriedAt: new Date(started + 10_000) });
+  });
+
+  it("doesn't query again until the interval since the last query has passed", async () => {
+    const { service, provider } = setup(["900.00"], 10_000);
+    onCallback = async () => null;
+    let queries = 0;
+    const queryStatus = provider.queryStatus.bind(provider);
+    provider.queryStatus = async checkoutRequestId => {
+      queries++;
+      return { ...(await queryStatus(checkoutRequestId)), status: "pending" as const, resultCode: null };
+    };
+
+    const payment = await service.initiate(CHECKOUT, "254712345678");
+    const started = new Date(payment.createdAt).getTime();
+
+    await service.refreshStatus(payment.id, new Date(started + 10_000));
+    await service.refreshStatus(payment.id, new Date(started + 15_000));
+    expect(queries).toBe(1);
+    await service.refreshStatus(payment.id, new Date(started + 20_000));
+    expect(queries).toBe(2);
+  });
+});
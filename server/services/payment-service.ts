@@ -0,0 +1,354 @@
+import { and, desc, eq, ne } from "drizzle-orm";
+import { getDb } from "../db";
+import { orders, payments, type InsertPayment, type Order, type Payment } from "../../drizzle/schema";
+import { ENV } from "../_core/env";
+import { CatalogIngestionService } from "./catalog-ingestion";
+import { OrderManagement } from "./order-management";
+import { DarajaProvider, type PaymentProvider, type StkResult } from "./mpesa-daraja";
+
+/**
+ * Payment Service
+ *
+ * Takes M-Pesa payments for a checkout (all per-seller orders placed together)
+ * through a PaymentProvider:
+ *   initiate -> STK Push sent, payment "pending"
+ *   callback / status query -> "paid" or "failed"
+ *   admin refund -> "refunded"
+ *
+ * Settlement is idempotent: only a pending payment can change state, so a
+ * duplicate callback or a callback racing a status query is a no-op.
+ * Orders mirror the outcome in orders.paymentStatus; a paid checkout moves its
+ * orders to "paid" and holds the funds in escrow until delivery is confirmed.
+ */
+
+export type PaymentStatus = Payment["status"];
+
+export class PaymentError extends Error {
+  constructor(
+    public code: "NOT_FOUND" | "ALREADY_PAID" | "INVALID_AMOUNT" | "INVALID_STATE" | "PROVIDER_ERROR",
+    message: string
+  ) {
+    super(message);
+    this.name = "PaymentError";
+  }
+}
+
+type CheckoutOrder = Pick<Order, "id" | "totalPrice" | "status" | "paymentStatus">;
+
+/**
+ * What payers see of a payment. Provider request IDs and the raw callback stay
+ * server-side: knowing a CheckoutRequestID is all a forged callback needs.
+ */
+export type PaymentSummary = Pick<
+  Payment,
+  "id" | "checkoutId" | "status" | "amount" | "currency" | "receiptNumber" | "resultDesc" | "paidAt" | "createdAt"
+>;
+
+export function toPaymentSummary(payment: Payment): PaymentSummary {
+  return {
+    id: payment.id,
+    checkoutId: payment.checkoutId,
+    status: payment.status,
+    amount: payment.amount,
+    currency: payment.currency,
+    receiptNumber: payment.receiptNumber,
+    resultDesc: payment.resultDesc,
+    paidAt: payment.paidAt,
+    createdAt: payment.createdAt,
+  };
+}
+
+/**
+ * Persistence used by PaymentService (drizzle-backed by default)
+ */
+export interface PaymentStore {
+  getCheckoutOrders(checkoutId: string): Promise<CheckoutOrder[]>;
+  setOrdersPaymentStatus(checkoutId: string, status: Order["paymentStatus"]): Promise<void>;
+  createPayment(values: InsertPayment): Promise<Payment>;
+  updatePayment(paymentId: number, fields: Partial<Payment>): Promise<Payment>;
+  getPayment(paymentId: number): Promise<Payment | null>;
+  getPaymentByCheckoutRequestId(checkoutRequestId: string): Promise<Payment | null>;
+  getLatestPayment(checkoutId: string): Promise<Payment | null>;
+}
+
+export class DrizzlePaymentStore implements PaymentStore {
+  private async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db;
+  }
+
+  async getCheckoutOrders(checkoutId: string): Promise<CheckoutOrder[]> {
+    const db = await this.db();
+    return db
+      .select({ id: orders.id, totalPrice: orders.totalPrice, status: orders.status, paymentStatus: orders.paymentStatus })
+      .from(orders)
+      .where(eq(orders.checkoutId, checkoutId));
+  }
+
+  async setOrdersPaymentStatus(checkoutId: string, status: Order["paymentStatus"]): Promise<void> {
+    const db = await this.db();
+    await db
+      .update(orders)
+      .set({ paymentStatus: status, updatedAt: new Date() })
+      .where(and(eq(orders.checkoutId, checkoutId), ne(orders.status, "cancelled")));
+  }
+
+  async createPayment(values: InsertPayment): Promise<Payment> {
+    const db = await this.db();
+    const [inserted] = await db.insert(payments).values(values).$returningId();
+    return (await this.getPayment(inserted.id))!;
+  }
+
+  async updatePayment(paymentId: number, fields: Partial<Payment>): Promise<Payment> {
+    const db = await this.db();
+    await db.update(payments).set(fields).where(eq(payments.id, paymentId));
+    return (await this.getPayment(paymentId))!;
+  }
+
+  async getPayment(paymentId: number): Promise<Payment | null> {
+    const db = await this.db();
+    const [payment] = await db.select().from(payments).where(eq(payments.id, paymentId)).limit(1);
+    return payment || null;
+  }
+
+  async getPaymentByCheckoutRequestId(checkoutRequestId: string): Promise<Payment | null> {
+    const db = await this.db();
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(eq(payments.checkoutRequestId, checkoutRequestId))
+      .limit(1);
+    return payment || null;
+  }
+
+  async getLatestPayment(checkoutId: string): Promise<Payment | null> {
+    const db = await this.db();
+    const [payment] = await db
+      .select()
+      .from(payments)
+      .where(eq(payments.checkoutId, checkoutId))
+      .orderBy(desc(payments.createdAt), desc(payments.id))
+      .limit(1);
+    return payment || null;
+  }
+}
+
+/**
+ * What happens to a checkout's orders once its payment settles
+ * (OrderManagement's state machine by default)
+ */
+export interface CheckoutSettlement {
+  paid(checkoutId: string, paymentId: number): Promise<void>;
+  refunded(checkoutId: string, paymentId: number, reason: string): Promise<void>;
+}
+
+const orderSettlement: CheckoutSettlement = {
+  paid: (checkoutId, paymentId) => OrderManagement.markCheckoutPaid(checkoutId, paymentId),
+  refunded: (checkoutId, paymentId, reason) => OrderManagement.refundCheckout(checkoutId, paymentId, reason),
+};
+
+export interface PaymentServiceOptions {
+  store?: PaymentStore;
+  provider?: PaymentProvider;
+  settlement?: CheckoutSettlement;
+  /** Public URL Daraja posts results to (defaults to MPESA_CALLBACK_URL + token) */
+  callbackUrl?: string;
+  /** A pending push younger than this is reused instead of prompting the payer again */
+  pendingReuseMs?: number;
+  /** Minimum gap between status queries to the provider for one payment */
+  statusQueryIntervalMs?: number;
+}
+
+export class PaymentService {
+  private store: PaymentStore;
+  private provider: PaymentProvider;
+  private settlement: CheckoutSettlement;
+  private callbackUrl: string;
+  private pendingReuseMs: number;
+  private statusQueryIntervalMs: number;
+
+  constructor(options: PaymentServiceOptions = {}) {
+    this.store = options.store ?? new DrizzlePaymentStore();
+    this.provider = options.provider ?? DarajaProvider.fromEnv();
+    this.settlement = options.settlement ?? orderSettlement;
+    this.callbackUrl = options.callbackUrl ?? PaymentService.defaultCallbackUrl();
+    this.pendingReuseMs = options.pendingReuseMs ?? 2 * 60 * 1000;
+    this.statusQueryIntervalMs = options.statusQueryIntervalMs ?? 15 * 1000;
+  }
+
+  static defaultCallbackUrl(): string {
+    if (!ENV.mpesaCallbackUrl || !ENV.mpesaCallbackToken) return ENV.mpesaCallbackUrl;
+    const separator = ENV.mpesaCallbackUrl.includes("?") ? "&" : "?";
+    return `${ENV.mpesaCallbackUrl}${separator}token=${encodeURIComponent(ENV.mpesaCallbackToken)}`;
+  }
+
+  /**
+   * Send an STK Push for everything still payable in a checkout
+   */
+  async initiate(checkoutId: string, phone: string): Promise<Payment> {
+    const checkoutOrders = (await this.store.getCheckoutOrders(checkoutId)).filter(o => o.status !== "cancelled");
+    if (checkoutOrders.length === 0) {
+      throw new PaymentError("NOT_FOUND", "No payable orders for this checkout");
+    }
+    if (checkoutOrders.some(o => o.paymentStatus === "paid")) {
+      throw new PaymentError("ALREADY_PAID", "This checkout has already been paid");
+    }
+
+    const amount = checkoutTotal(checkoutOrders);
+    if (!Number.isFinite(amount) || amount < 1) {
+      throw new PaymentError("INVALID_AMOUNT", "Checkout total must be at least KES 1");
+    }
+
+    const latest = await this.store.getLatestPayment(checkoutId);
+    if (
+      latest?.status === "pending" &&
+      latest.amount === amount &&
+      Date.now() - new Date(latest.createdAt).getTime() < this.pendingReuseMs
+    ) {
+      return latest;
+    }
+
+    const msisdn = CatalogIngestionService.normalizePhone(phone);
+    let payment = await this.store.createPayment({
+      checkoutId,
+      provider: this.provider.name,
+      phone: msisdn,
+      amount,
+      status: "pending",
+    });
+
+    try {
+      const push = await this.provider.initiateStkPush({
+        phone: msisdn,
+        amount,
+        accountReference: `SOKO${payment.id}`,
+        description: "Soko order",
+        callbackUrl: this.callbackUrl,
+      });
+      payment = await this.store.updatePayment(payment.id, {
+        merchantRequestId: push.merchantRequestId,
+        checkoutRequestId: push.checkoutRequestId,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      await this.store.updatePayment(payment.id, { status: "failed", resultDesc: message });
+      console.error(`[Payments] STK Push failed for checkout ${checkoutId}:`, message);
+      throw new PaymentError("PROVIDER_ERROR", "Could not send the M-Pesa prompt. Please try again.");
+    }
+
+    await this.store.setOrdersPaymentStatus(checkoutId, "pending");
+    console.log(`[Payments] STK Push sent for checkout ${checkoutId}: KES ${amount} (payment ${payment.id})`);
+    return payment;
+  }
+
+  /**
+   * Apply a provider callback. Returns the settled payment, or null for an
+   * unknown CheckoutRequestID.
+   */
+  async handleCallback(body: unknown): Promise<Payment | null> {
+    const result = this.provider.parseCallback(body);
+    const payment = await this.store.getPaymentByCheckoutRequestId(result.checkoutRequestId);
+    if (!payment) {
+      console.warn(`[Payments] Callback for unknown CheckoutRequestID ${result.checkoutRequestId}`);
+      return null;
+    }
+
+    return this.settle(payment, result, body);
+  }
+
+  /**
+   * Ask the provider about a pending payment (for when the callback is late or lost).
+   * Checkout pages poll this, and Daraja rate-limits status queries, so the
+   * provider is asked at most once per statusQueryIntervalMs; in between the
+   * stored payment is returned.
+   */
+  async refreshStatus(paymentId: number, now: Date = new Date()): Promise<Payment> {
+    const payment = await this.store.getPayment(paymentId);
+    if (!payment) {
+      throw new PaymentError("NOT_FOUND", "Payment not found");
+    }
+    if (payment.status !== "pending" || !payment.checkoutRequestId) {
+      return payment;
+    }
+
+    const lastAsked = payment.lastQueriedAt ?? payment.createdAt;
+    if (now.getTime() - new Date(lastAsked).getTime() < this.statusQueryIntervalMs) {
+      return payment;
+    }
+
+    const queried = await this.store.updatePayment(payment.id, { lastQueriedAt: now });
+    const result = await this.provider.queryStatus(payment.checkoutRequestId);
+    return this.settle(queried, result);
+  }
+
+  async getCheckoutPayment(checkoutId: string): Promise<Payment | null> {
+    return this.store.getLatestPayment(checkoutId);
+  }
+
+  /**
+   * Record a refund (reversal done through the M-Pesa org portal or reversal API)
+   */
+  async markRefunded(paymentId: number, reason: string): Promise<Payment> {
+    const payment = await this.store.getPayment(paymentId);
+    if (!payment) {
+      throw new PaymentError("NOT_FOUND", "Payment not found");
+    }
+    if (payment.status !== "paid") {
+      throw new PaymentError("INVALID_STATE", `Only paid payments can be refunded (payment is ${payment.status})`);
+    }
+
+    const refunded = await this.store.updatePayment(paymentId, { status: "refunded", resultDesc: reason });
+    await this.store.setOrdersPaymentStatus(payment.checkoutId, "refunded");
+    await this.settlement.refunded(payment.checkoutId, paymentId, reason);
+    console.log(`[Payments] Payment ${paymentId} refunded: ${reason}`);
+    return refunded;
+  }
+
+  private async settle(payment: Payment, result: StkResult, rawCallback?: unknown): Promise<Payment> {
+    if (payment.status !== "pending" || result.status === "pending") {
+      return payment;
+    }
+
+    let status: PaymentStatus = result.status;
+    let resultDesc = result.resultDesc;
+    // A successful callback must say what was paid, and cover what the orders cost now.
+    // Status queries go to Daraja directly and carry no amount.
+    if (status === "paid" && rawCallback !== undefined) {
+      const payable = (await this.store.getCheckoutOrders(payment.checkoutId)).filter(o => o.status !== "cancelled");
+      const expected = Math.max(payment.amount, checkoutTotal(payable));
+      if (result.amount === undefined || !Number.isFinite(result.amount) || result.amount < expected) {
+        console.warn(`[Payments] Payment ${payment.id} underpaid: KES ${result.amount ?? "unknown"} of ${expected}`);
+        status = "failed";
+        resultDesc = `Amount mismatch: received KES ${result.amount ?? "unknown"}, expected KES ${expected}`;
+      }
+    }
+
+    const settled = await this.store.updatePayment(payment.id, {
+      status,
+      resultCode: result.resultCode,
+      resultDesc,
+      receiptNumber: result.receiptNumber ?? null,
+      rawCallback: rawCallback === undefined ? payment.rawCallback : JSON.stringify(rawCallback),
+      paidAt: status === "paid" ? new Date() : null,
+    });
+    await this.store.setOrdersPaymentStatus(payment.checkoutId, status);
+    if (status === "paid") {
+      await this.settlement.paid(payment.checkoutId, payment.id);
+    }
+
+    console.log(`[Payments] Payment ${payment.id} ${status}${result.receiptNumber ? ` (${result.receiptNumber})` : ""}`);
+    return settled;
+  }
+}
+
+/**
+ * Whole KES due for a checkout's payable orders
+ */
+function checkoutTotal(checkoutOrders: CheckoutOrder[]): number {
+  return Math.ceil(checkoutOrders.reduce((sum, o) => sum + parseFloat(o.totalPrice), 0));
+}
+
+export const paymentService = new PaymentService();
@@ -0,0 +1,193 @@
+/**
+ * PDF Document
+ *
+ * Just enough PDF 1.4 to lay out seller reports: A4 pages, Helvetica and
+ * Helvetica-Bold (standard fonts, so nothing is embedded), text, rules,
+ * filled bars and simple tables that break across pages. The cursor moves
+ * down the page as content is added. Text is WinAnsi; characters outside
+ * Latin-1 are replaced with "?".
+ */
+
+export const A4 = { width: 595, height: 842 };
+
+const MARGIN = 48;
+const AVERAGE_GLYPH_WIDTH = 0.52; // Of the font size, for Helvetica; good enough to truncate and right-align
+
+export type Rgb = [number, number, number]; // 0-1
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: Rgb;
+  x?: number; // Absolute; defaults to the left margin
+}
+
+export interface TableColumn {
+  header: string;
+  width: number;
+  align?: "left" | "right";
+}
+
+function escapeText(text: string): string {
+  return text
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+}
+
+function num(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+export function textWidth(text: string, size: number): number {
+  return text.length * size * AVERAGE_GLYPH_WIDTH;
+}
+
+function fit(text: string, width: number, size: number): string {
+  const max = Math.floor(width / (size * AVERAGE_GLYPH_WIDTH));
+  return text.length <= max ? text : `${text.slice(0, Math.max(0, max - 3))}...`;
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private y = 0;
+  readonly contentWidth = A4.width - 2 * MARGIN;
+
+  constructor(private footer?: string) {
+    this.addPage();
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+    this.y = A4.height - MARGIN;
+  }
+
+  /**
+   * Start a new page unless `height` more points fit on this one
+   */
+  ensureSpace(height: number): void {
+    if (this.y - height < MARGIN + 16) this.addPage();
+  }
+
+  moveDown(points: number): void {
+    this.y -= points;
+  }
+
+  text(value: string, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    this.ensureSpace(size * 1.4);
+    this.y -= size * 1.4;
+    this.drawText(value, options.x ?? MARGIN, this.y, size, options.bold ?? false, options.color);
+  }
+
+  heading(value: string): void {
+    this.ensureSpace(40);
+    this.moveDown(10);
+    this.text(value, { size: 13, bold: true });
+    this.rule();
+  }
+
+  rule(color: Rgb = [0.85, 0.85, 0.85]): void {
+    this.y -= 4;
+    this.page().push(`${color.map(num).join(" ")} RG 0.5 w ${MARGIN} ${num(this.y)} m ${A4.width - MARGIN} ${num(this.y)} l S`);
+    this.y -= 4;
+  }
+
+  /**
+   * A label, a horizontal bar scaled to `fraction` of the width and a value
+   */
+  bar(label: string, fraction: number, value: string, color: Rgb = [0.96, 0.62, 0.04]): void {
+    const labelWidth = 150;
+    const valueWidth = 110;
+    const barWidth = this.contentWidth - labelWidth - valueWidth - 10;
+    this.ensureSpace(18);
+    this.y -= 16;
+    this.drawText(fit(label, labelWidth - 6, 9), MARGIN, this.y, 9, false);
+    this.page().push(
+      `${color.map(num).join(" ")} rg ${MARGIN + labelWidth} ${num(this.y - 2)} ${num(Math.max(0, Math.min(1, fraction)) * barWidth)} 10 re f`
+    );
+    this.drawText(value, A4.width - MARGIN - textWidth(value, 9), this.y, 9, false);
+  }
+
+  /**
+   * Header row plus rows; long cells are truncated, the header repeats after a page break
+   */
+  table(columns: TableColumn[], rows: string[][]): void {
+    const size = 9;
+    const rowHeight = 15;
+    const drawRow = (cells: string[], bold: boolean) => {
+      this.y -= rowHeight;
+      let x = MARGIN;
+      cells.forEach((cell, i) => {
+        const column = columns[i];
+        const text = fit(cell, column.width - 6, size);
+        const left = column.align === "right" ? x + column.width - 6 - textWidth(text, size) : x;
+        this.drawText(text, left, this.y, size, bold);
+        x += column.width;
+      });
+    };
+
+    this.ensureSpace(rowHeight * 2 + 8);
+    drawRow(columns.map(c => c.header), true);
+    this.rule();
+    for (const row of rows) {
+      if (this.y - rowHeight < MARGIN + 16) {
+        this.addPage();
+        drawRow(columns.map(c => c.header), true);
+        this.rule();
+      }
+      drawRow(row, false);
+    }
+  }
+
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const add = (body: string) => objects.push(body);
+
+    add("<< /Type /Catalog /Pages 2 0 R >>");
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+    add(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(" ")}] /Count ${this.pages.length} >>`);
+    add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+    this.pages.forEach((ops, i) => {
+      const content = [...ops, ...this.footerOps(i)].join("\n");
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4.width} ${A4.height}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+      );
+      add(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+    });
+
+    let out = "%PDF-1.4\n%\xe2\xe3\xcf\xd3\n";
+    const offsets: number[] = [];
+    objects.forEach((body, i) => {
+      offsets.push(Buffer.byteLength(out, "latin1"));
+      out += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    });
+
+    const xref = Buffer.byteLength(out, "latin1");
+    out += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    out += offsets.map(offset => `${String(offset).padStart(10, "0")} 00000 n \n`).join("");
+    out += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return Buffer.from(out, "latin1");
+  }
+
+  private page(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private footerOps(index: number): string[] {
+    const label = `${this.footer ? `${this.footer}  ·  ` : ""}Page ${index + 1} of ${this.pages.length}`;
+    return [this.textOp(label, MARGIN, MARGIN - 20, 8, false, [0.5, 0.5, 0.5])];
+  }
+
+  private drawText(value: string, x: number, y: number, size: number, bold: boolean, color?: Rgb): void {
+    this.page().push(this.textOp(value, x, y, size, bold, color));
+  }
+
+  private textOp(value: string, x: number, y: number, size: number, bold: boolean, color: Rgb = [0.1, 0.1, 0.1]): string {
+    return `BT ${color.map(num).join(" ")} rg /${bold ? "F2" : "F1"} ${size} Tf ${num(x)} ${num(y)} Td (${escapeText(value)}) Tj ET`;
+  }
+}
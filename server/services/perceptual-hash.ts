@@ -0,0 +1,50 @@
+import sharp from "sharp";
+
+/**
+ * Perceptual image hashing (dHash)
+ *
+ * The photo is shrunk to 9x8 grayscale and each bit records whether a pixel
+ * is brighter than its right-hand neighbour. Re-encoding, resizing, mild
+ * colour grading and WhatsApp's recompression barely move the hash, so the
+ * same supplier photo posted by different sellers lands within a few bits.
+ */
+
+export const HASH_BITS = 64;
+
+/**
+ * 64-bit difference hash of an image, as 16 hex characters
+ */
+export async function differenceHash(image: Buffer): Promise<string> {
+  const pixels = await sharp(image, { limitInputPixels: 50_000_000 })
+    .rotate()
+    .grayscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer();
+
+  let hash = "";
+  for (let row = 0; row < 8; row++) {
+    let byte = 0;
+    for (let col = 0; col < 8; col++) {
+      byte = (byte << 1) | (pixels[row * 9 + col] > pixels[row * 9 + col + 1] ? 1 : 0);
+    }
+    hash += byte.toString(16).padStart(2, "0");
+  }
+  return hash;
+}
+
+/**
+ * Number of differing bits between two hashes of the same length
+ */
+export function hammingDistance(a: string, b: string): number {
+  if (a.length !== b.length) return HASH_BITS;
+  let distance = 0;
+  for (let i = 0; i < a.length; i++) {
+    let diff = parseInt(a[i], 16) ^ parseInt(b[i], 16);
+    while (diff) {
+      distance += diff & 1;
+      diff >>= 1;
+    }
+  }
+  return distance;
+}
@@ -0,0 +1,37 @@
+/**
+ * Price Normalization
+ *
+ * Listing prices arrive as free text ("KES 4,500", "KSh 2,800.00", "45,000",
+ * "1.5k") from WhatsApp catalogs and the seed data. This turns them into a
+ * whole-shilling integer for the products.priceAmount column so prices can be
+ * range-filtered and sorted.
+ */
+
+const PRICE_PATTERN = /(\d[\d,]*(?:\.\d+)?)\s*(k\b)?/i;
+
+/**
+ * Parse a price string into whole KES, or null if it contains no amount
+ */
+export function parsePriceAmount(price: string | number | null | undefined): number | null {
+  if (price === null || price === undefined) return null;
+  if (typeof price === "number") {
+    return Number.isFinite(price) && price >= 0 ? Math.round(price) : null;
+  }
+
+  const match = price.match(PRICE_PATTERN);
+  if (!match) return null;
+
+  const amount = parseFloat(match[1].replace(/,/g, ""));
+  if (!Number.isFinite(amount)) return null;
+
+  return Math.round(match[2] ? amount * 1000 : amount);
+}
+
+/**
+ * Numeric price for a product row, falling back to parsing the display string
+ * for rows written before priceAmount existed
+ */
+export function getPriceAmount(product: { price?: string | null; priceAmount?: number | null }): number | null {
+  if (typeof product.priceAmount === "number") return product.priceAmount;
+  return parsePriceAmount(product.price);
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { browseCatalog } from "./product-browse";
+import { parsePriceAmount } from "./price-normalizer";
+
+const catalog = [
+  { id: 1, name: "Leather Boots", price: "KES 4,500", categoryId: 3, sellerId: 1, stock: 2, source: "whatsapp" },
+  { id: 2, name: "Summer Dress", price: "KSh 2,800.00", categoryId: 2, sellerId: 1, stock: 0, source: "whatsapp" },
+  { id: 3, name: "Velvet Bed", price: "45,000", categoryId: 1, sellerId: 2, stock: 1, source: "nairobi_market" },
+  { id: 4, name: "Office Wear", price: "1.5k", categoryId: 2, sellerId: 2, stock: 5, source: "nairobi_market" },
+  { id: 5, name: "Abstract Art", price: "Call for price", categoryId: 4, sellerId: 3, stock: 1, source: "whatsapp" },
+];
+
+describe("parsePriceAmount", () => {
+  it("normalizes free-text prices to whole shillings", () => {
+    expect(parsePriceAmount("KES 4,500")).toBe(4500);
+    expect(parsePriceAmount("KSh 2,800.00")).toBe(2800);
+    expect(parsePriceAmount("1.5k")).toBe(1500);
+    expect(parsePriceAmount("Call for price")).toBeNull();
+  });
+});
+
+describe("browseCatalog", () => {
+  it("combines price range, category and stock filters", () => {
+    const result = browseCatalog(catalog, { minPrice: 1000, maxPrice: 5000, categoryIds: [2, 3], inStock: true });
+
+    expect(result.products.map(p => p.id).sort()).toEqual([1, 4]);
+    expect(result.total).toBe(2);
+  });
+
+  it("counts each facet without applying its own filter", () => {
+    const { facets } = browseCatalog(catalog, { categoryIds: [2], sellerId: 1 });
+
+    // Category counts ignore the category filter but keep the seller filter
+    expect(Object.fromEntries(facets.categories.map(b => [b.value, b.count]))).toEqual({ 2: 1, 3: 1 });
+    // Seller counts ignore the seller filter but keep the category filter
+    expect(Object.fromEntries(facets.sellers.map(b => [b.value, b.count]))).toEqual({ 1: 1, 2: 1 });
+    expect(facets.inStock).toBe(0);
+  });
+
+  it("sorts by price with unpriced listings last", () => {
+    const asc = browseCatalog(catalog, { sort: "price_asc" }).products.map(p => p.id);
+    const descending = browseCatalog(catalog, { sort: "price_desc" }).products.map(p => p.id);
+
+    expect(asc).toEqual([4, 2, 1, 3, 5]);
+    expect(descending).toEqual([3, 1, 2, 4, 5]);
+  });
+
+  it("reports the price range of results outside the price filter", () => {
+    const { facets, products } = browseCatalog(catalog, { maxPrice: 2000, limit: 1 });
+
+    expect(products.map(p => p.id)).toEqual([4]);
+    expect(facets.price).toEqual({ min: 1500, max: 45000 });
+  });
+});
@@ -0,0 +1,303 @@
+import { and, asc, desc, eq, gt, gte, inArray, isNull, lte, sql, type SQL } from "drizzle-orm";
+import { getDb, getCatalogProducts, getCategories } from "../db";
+import { categories, products, sellers } from "../../drizzle/schema";
+import { getPriceAmount } from "./price-normalizer";
+
+/**
+ * Product Browse Service - Faceted Filtering
+ *
+ * Combinable filters over the catalog with facet counts for filter chips:
+ * - Price range on the normalized priceAmount column
+ * - Multiple categories, seller, in-stock only, source
+ * - Sort by newest, price or name
+ *
+ * Facet counts are disjunctive: each facet is counted with every other active
+ * filter applied but not its own, so selecting one category still shows how
+ * many results the other categories would add.
+ */
+
+export type BrowseSort = "newest" | "price_asc" | "price_desc" | "name";
+
+export interface BrowseFilters {
+  minPrice?: number;
+  maxPrice?: number;
+  categoryIds?: number[];
+  sellerId?: number;
+  inStock?: boolean;
+  source?: string;
+  sort?: BrowseSort;
+  limit?: number;
+  offset?: number;
+}
+
+export interface FacetBucket<V extends string | number = number> {
+  value: V;
+  label: string;
+  count: number;
+}
+
+export interface BrowseFacets {
+  categories: FacetBucket[];
+  sellers: FacetBucket[];
+  sources: FacetBucket<string>[];
+  inStock: number;
+  price: { min: number | null; max: number | null };
+}
+
+export interface BrowseResult<T = any> {
+  total: number;
+  products: T[];
+  facets: BrowseFacets;
+}
+
+type FacetKey = "price" | "category" | "seller" | "stock" | "source";
+
+type BrowsableProduct = {
+  id: number;
+  name: string;
+  price?: string | null;
+  priceAmount?: number | null;
+  categoryId: number;
+  categoryName?: string;
+  sellerId: number;
+  stock?: number | null;
+  source?: string | null;
+  createdAt?: Date | string | null;
+};
+
+/**
+ * In-memory predicates for each active filter, keyed by the facet they belong to
+ */
+function buildPredicates(filters: BrowseFilters): Partial<Record<FacetKey, (p: BrowsableProduct) => boolean>> {
+  const predicates: Partial<Record<FacetKey, (p: BrowsableProduct) => boolean>> = {};
+
+  if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+    predicates.price = p => {
+      const amount = getPriceAmount(p);
+      if (amount === null) return false;
+      if (filters.minPrice !== undefined && amount < filters.minPrice) return false;
+      if (filters.maxPrice !== undefined && amount > filters.maxPrice) return false;
+      return true;
+    };
+  }
+  if (filters.categoryIds && filters.categoryIds.length > 0) {
+    const ids = new Set(filters.categoryIds);
+    predicates.category = p => ids.has(p.categoryId);
+  }
+  if (filters.sellerId !== undefined) {
+    predicates.seller = p => p.sellerId === filters.sellerId;
+  }
+  if (filters.inStock) {
+    predicates.stock = p => (p.stock ?? 0) > 0;
+  }
+  if (filters.source) {
+    predicates.source = p => p.source === filters.source;
+  }
+
+  return predicates;
+}
+
+function toTime(value: Date | string | null | undefined): number {
+  return value ? new Date(value).getTime() : 0;
+}
+
+function compareProducts(sort: BrowseSort): (a: BrowsableProduct, b: BrowsableProduct) => number {
+  switch (sort) {
+    case "price_asc":
+    case "price_desc": {
+      const direction = sort === "price_asc" ? 1 : -1;
+      return (a, b) => {
+        const pa = getPriceAmount(a);
+        const pb = getPriceAmount(b);
+        // Unpriced listings always sort last
+        if (pa === null || pb === null) return (pa === null ? 1 : 0) - (pb === null ? 1 : 0) || a.id - b.id;
+        return (pa - pb) * direction || a.id - b.id;
+      };
+    }
+    case "name":
+      return (a, b) => a.name.localeCompare(b.name) || a.id - b.id;
+    case "newest":
+    default:
+      return (a, b) => toTime(b.createdAt) - toTime(a.createdAt) || b.id - a.id;
+  }
+}
+
+function countBy<V extends string | number>(
+  items: BrowsableProduct[],
+  key: (p: BrowsableProduct) => V | null | undefined,
+  label: (value: V, sample: BrowsableProduct) => string
+): FacetBucket<V>[] {
+  const buckets = new Map<V, FacetBucket<V>>();
+  for (const item of items) {
+    const value = key(item);
+    if (value === null || value === undefined) continue;
+    const bucket = buckets.get(value);
+    if (bucket) {
+      bucket.count++;
+    } else {
+      buckets.set(value, { value, label: label(value, item), count: 1 });
+    }
+  }
+  return Array.from(buckets.values()).sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Filter, facet, sort and paginate an in-memory product list. Pure - no I/O.
+ */
+export function browseCatalog<T extends BrowsableProduct>(
+  catalog: T[],
+  filters: BrowseFilters,
+  categoryNames: Map<number, string> = new Map()
+): BrowseResult<T> {
+  const { sort = "newest", limit = 20, offset = 0 } = filters;
+  const predicates = buildPredicates(filters);
+  const activeKeys = Object.keys(predicates) as FacetKey[];
+
+  const matchesExcept = (product: T, except?: FacetKey) =>
+    activeKeys.every(key => key === except || predicates[key]!(product));
+
+  const matching = catalog.filter(p => matchesExcept(p));
+  const priced = catalog
+    .filter(p => matchesExcept(p, "price"))
+    .map(p => getPriceAmount(p))
+    .filter((amount): amount is number => amount !== null);
+
+  const facets: BrowseFacets = {
+    categories: countBy(
+      catalog.filter(p => matchesExcept(p, "category")),
+      p => p.categoryId,
+      (id, sample) => categoryNames.get(id) || sample.categoryName || `Category ${id}`
+    ),
+    sellers: countBy(
+      catalog.filter(p => matchesExcept(p, "seller")),
+      p => p.sellerId,
+      id => `Seller ${id}`
+    ),
+    sources: countBy(
+      catalog.filter(p => matchesExcept(p, "source")),
+      p => p.source,
+      source => source
+    ),
+    inStock: catalog.filter(p => matchesExcept(p, "stock") && (p.stock ?? 0) > 0).length,
+    price: {
+      min: priced.length > 0 ? Math.min(...priced) : null,
+      max: priced.length > 0 ? Math.max(...priced) : null,
+    },
+  };
+
+  return {
+    total: matching.length,
+    products: matching.sort(compareProducts(sort)).slice(offset, offset + limit),
+    facets,
+  };
+}
+
+export class ProductBrowseService {
+  /**
+   * Browse the catalog. Uses SQL against the products table when MySQL is
+   * configured, otherwise filters the in-memory catalog.
+   */
+  static async browse(filters: BrowseFilters): Promise<BrowseResult> {
+    const db = await getDb();
+    if (db) {
+      return this.browseDatabase(db, filters);
+    }
+
+    const [catalog, categoryList] = await Promise.all([getCatalogProducts(), getCategories()]);
+    const categoryNames = new Map<number, string>(categoryList.map((c: any) => [c.id, c.name]));
+    return browseCatalog(catalog, filters, categoryNames);
+  }
+
+  private static async browseDatabase(db: any, filters: BrowseFilters): Promise<BrowseResult> {
+    const { sort = "newest", limit = 20, offset = 0 } = filters;
+
+    const conditions: Partial<Record<FacetKey, SQL>> = {};
+    if (filters.minPrice !== undefined || filters.maxPrice !== undefined) {
+      conditions.price = and(
+        filters.minPrice !== undefined ? gte(products.priceAmount, filters.minPrice) : undefined,
+        filters.maxPrice !== undefined ? lte(products.priceAmount, filters.maxPrice) : undefined
+      );
+    }
+    if (filters.categoryIds && filters.categoryIds.length > 0) {
+      conditions.category = inArray(products.categoryId, filters.categoryIds);
+    }
+    if (filters.sellerId !== undefined) {
+      conditions.seller = eq(products.sellerId, filters.sellerId);
+    }
+    if (filters.inStock) {
+      conditions.stock = gt(products.stock, 0);
+    }
+    if (filters.source) {
+      conditions.source = eq(products.source, filters.source);
+    }
+
+    const whereExcept = (except?: FacetKey) =>
+      and(
+        isNull(products.removedAt),
+        ...(Object.keys(conditions) as FacetKey[]).filter(key => key !== except).map(key => conditions[key])
+      );
+
+    const orderBy = {
+      newest: [desc(products.createdAt), desc(products.id)],
+      price_asc: [sql`${products.priceAmount} IS NULL`, asc(products.priceAmount), asc(products.id)],
+      price_desc: [sql`${products.priceAmount} IS NULL`, desc(products.priceAmount), asc(products.id)],
+      name: [asc(products.name), asc(products.id)],
+    }[sort];
+
+    const count = sql<number>`count(*)`;
+
+    const [rows, [{ total }], categoryRows, sellerRows, sourceRows, [{ inStock }], [priceRange]] = await Promise.all([
+      db.select().from(products).where(whereExcept()).orderBy(...orderBy).limit(limit).offset(offset),
+      db.select({ total: count }).from(products).where(whereExcept()),
+      db
+        .select({ value: products.categoryId, label: categories.name, count })
+        .from(products)
+        .leftJoin(categories, eq(categories.id, products.categoryId))
+        .where(whereExcept("category"))
+        .groupBy(products.categoryId, categories.name),
+      db
+        .select({ value: products.sellerId, label: sellers.storeName, count })
+        .from(products)
+        .leftJoin(sellers, eq(sellers.id, products.sellerId))
+        .where(whereExcept("seller"))
+        .groupBy(products.sellerId, sellers.storeName),
+      db
+        .select({ value: products.source, count })
+        .from(products)
+        .where(whereExcept("source"))
+        .groupBy(products.source),
+      db.select({ inStock: count }).from(products).where(and(whereExcept("stock"), gt(products.stock, 0))),
+      db
+        .select({
+          min: sql<number | null>`min(${products.priceAmount})`,
+          max: sql<number | null>`max(${products.priceAmount})`,
+        })
+        .from(products)
+        .where(whereExcept("price")),
+    ]);
+
+    const byCount = (a: { count: number }, b: { count: number }) => b.count - a.count;
+
+    return {
+      total: Number(total),
+      products: rows,
+      facets: {
+        categories: categoryRows
+          .map((r: any) => ({ value: r.value, label: r.label || `Category ${r.value}`, count: Number(r.count) }))
+          .sort(byCount),
+        sellers: sellerRows
+          .map((r: any) => ({ value: r.value, label: r.label || `Seller ${r.value}`, count: Number(r.count) }))
+          .sort(byCount),
+        sources: sourceRows
+          .filter((r: any) => r.value !== null)
+          .map((r: any) => ({ value: r.value, label: r.value, count: Number(r.count) }))
+          .sort(byCount),
+        inStock: Number(inStock),
+        price: {
+          min: priceRange?.min !== null && priceRange?.min !== undefined ? Number(priceRange.min) : null,
+          max: priceRange?.max !== null && priceRange?.max !== undefined ? Number(priceRange.max) : null,
+        },
+      },
+    };
+  }
+}
@@ -1,7 +1,7 @@
 import axios from "axios";
 import * as cheerio from "cheerio";
 import { ENV } from "../_core/env";
-import { RealSigLIPEmbeddings } from "./siglip-real";
+import { RealSigLIPEmbeddings, type ProductEmbeddingSet } from "./siglip-real";
 
 export interface ScrapedProduct {
   name: string;
@@ -10,6 +10,7 @@ export interface ScrapedProduct {
   imageUrl: string;
   sourceUrl: string;
   vector?: number[];
+  embeddings?: ProductEmbeddingSet;
 }
 
 /**
@@ -47,9 +48,9 @@ export class ScoutHydrateService {
       console.log(`[Hydrate] Successfully extracted: ${name} with hotlink: ${imageUrl}`);
 
       // Vectorize for Visual Discovery
-      let vector: number[] | undefined;
+      let embeddings: ProductEmbeddingSet | undefined;
       try {
-        vector = await RealSigLIPEmbeddings.generateEmbeddings(name, description, imageUrl);
+        embeddings = await RealSigLIPEmbeddings.generateEmbeddingSet(name, description, imageUrl);
         console.log(`[Vectorize] Generated SigLIP-768 embeddings for ${name}`);
       } catch (err) {
         console.warn(`[Vectorize] Failed to generate embeddings, falling back to text-only: ${err}`);
@@ -61,7 +62,8 @@ export class ScoutHydrateService {
         description,
         imageUrl,
         sourceUrl: url,
-        vector,
+        vector: embeddings?.hybridEmbedding,
+        embeddings,
       };
     } catch (error) {
       console.error(`[Scout-Hydrate] Error processing ${url}:`, error);
@@ -0,0 +1,162 @@
+/**
+ * Search Text Analyzer
+ *
+ * Turns product names, descriptions and buyer queries into index terms:
+ * - Unicode-aware tokenization (diacritics folded, punctuation dropped)
+ * - English + Swahili stop-word removal
+ * - Light English suffix stemming (Porter-style, no dictionary)
+ * - Swahili noun-class normalization against a marketplace lexicon, so
+ *   "viatu" (shoes) and "kiatu" (shoe) land on the same term as "shoe"
+ */
+
+const ENGLISH_STOP_WORDS = [
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in",
+  "is", "it", "of", "on", "or", "the", "this", "to", "with", "your",
+];
+
+const SWAHILI_STOP_WORDS = [
+  "au", "cha", "hii", "hizi", "huu", "ila", "kwa", "kwenye", "katika", "la",
+  "na", "ni", "sana", "tu", "vya", "wa", "ya", "za",
+];
+
+const STOP_WORDS = new Set([...ENGLISH_STOP_WORDS, ...SWAHILI_STOP_WORDS]);
+
+/**
+ * Swahili stems (singular noun class) mapped to the English term the
+ * English stemmer produces, so cross-language queries hit the same postings.
+ */
+const SWAHILI_LEXICON: Record<string, string> = {
+  kiatu: "shoe",
+  nguo: "cloth",
+  gauni: "dress",
+  rinda: "dress",
+  suruali: "trouser",
+  shati: "shirt",
+  koti: "jacket",
+  mkoba: "bag",
+  begi: "bag",
+  saa: "watch",
+  pete: "ring",
+  mkufu: "necklace",
+  bangili: "bracelet",
+  shanga: "bead",
+  kiti: "chair",
+  meza: "table",
+  kitanda: "bed",
+  zulia: "rug",
+  taa: "lamp",
+  mto: "cushion",
+  simu: "phone",
+  kompyuta: "computer",
+  ngozi: "leather",
+  kitambaa: "fabric",
+  nyeusi: "black",
+  nyeupe: "white",
+  nyekundu: "red",
+  kijani: "green",
+  bluu: "blue",
+};
+
+/**
+ * English plurals the suffix rules would get wrong
+ */
+const ENGLISH_IRREGULARS: Record<string, string> = {
+  clothes: "cloth",
+  women: "woman",
+  men: "man",
+};
+
+/**
+ * Plural → singular noun-class prefix swaps (ki/vi, m/mi, m/wa, ji/ma)
+ */
+const SWAHILI_PLURAL_PREFIXES: Array<[string, string]> = [
+  ["vi", "ki"],
+  ["mi", "m"],
+  ["wa", "m"],
+  ["ma", ""],
+];
+
+/**
+ * Fold case and diacritics, then split on anything that is not a letter or digit
+ */
+export function tokenize(text: string): string[] {
+  if (!text) return [];
+
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+/**
+ * Normalize a Swahili token to its lexicon term, or null if it is not a known noun
+ */
+export function stemSwahili(token: string): string | null {
+  if (SWAHILI_LEXICON[token]) return SWAHILI_LEXICON[token];
+
+  for (const [plural, singular] of SWAHILI_PLURAL_PREFIXES) {
+    if (token.startsWith(plural) && token.length > plural.length + 2) {
+      const candidate = singular + token.slice(plural.length);
+      if (SWAHILI_LEXICON[candidate]) return SWAHILI_LEXICON[candidate];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Strip common English inflectional suffixes ("dresses" → "dress", "running" → "run")
+ */
+export function stemEnglish(token: string): string {
+  if (ENGLISH_IRREGULARS[token]) return ENGLISH_IRREGULARS[token];
+  if (token.length <= 3 || /\d/.test(token)) return token;
+
+  let stem = token;
+
+  if (stem.endsWith("ies") && stem.length > 4) {
+    stem = stem.slice(0, -3) + "y";
+  } else if (stem.endsWith("sses")) {
+    stem = stem.slice(0, -2);
+  } else if (/(ches|shes|xes|zes)$/.test(stem)) {
+    stem = stem.slice(0, -2);
+  } else if (stem.endsWith("s") && !/(ss|us|is)$/.test(stem)) {
+    stem = stem.slice(0, -1);
+  }
+
+  if (stem.endsWith("ing") && stem.length > 5) {
+    stem = undouble(stem.slice(0, -3));
+  } else if (stem.endsWith("ed") && stem.length > 4) {
+    stem = undouble(stem.slice(0, -2));
+  } else if (stem.endsWith("ly") && stem.length > 4) {
+    stem = stem.slice(0, -2);
+  }
+
+  return stem;
+}
+
+/**
+ * "runn" → "run", "shipp" → "ship" (but keep "dress", "fall")
+ */
+function undouble(stem: string): string {
+  const last = stem[stem.length - 1];
+  if (stem.length > 2 && last === stem[stem.length - 2] && !"lsz".includes(last)) {
+    return stem.slice(0, -1);
+  }
+  return stem;
+}
+
+/**
+ * Stem a single token, preferring the Swahili lexicon when it matches
+ */
+export function stem(token: string): string {
+  return stemSwahili(token) ?? stemEnglish(token);
+}
+
+/**
+ * Full analysis pipeline: tokenize then stem
+ */
+export function analyze(text: string): string[] {
+  return tokenize(text).map(stem);
+}
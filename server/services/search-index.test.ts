@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { SearchIndex } from "./search-index";
+import { analyze, stem } from "./search-analyzer";
+
+function buildIndex() {
+  const index = new SearchIndex();
+  index.upsert({ id: 1, name: "Leather Boots", description: "Handmade ankle boots in brown leather" });
+  index.upsert({ id: 2, name: "Summer Dress", description: "Light cotton dress for hot days" });
+  index.upsert({ id: 3, name: "Evening Dresses", description: "Silk gown, also available as a summer dress" });
+  index.upsert({ id: 4, name: "Velvet Bed", description: "King size bed with leather headboard" });
+  return index;
+}
+
+describe("search analyzer", () => {
+  it("stems English inflections and Swahili plurals to the same term", () => {
+    expect(stem("dresses")).toBe("dress");
+    expect(stem("shoes")).toBe("shoe");
+    expect(stem("viatu")).toBe("shoe");
+    expect(stem("kiatu")).toBe("shoe");
+    expect(stem("vitanda")).toBe("bed");
+  });
+
+  it("drops English and Swahili stop words", () => {
+    expect(analyze("the dress na viatu kwa wedding")).toEqual(["dress", "shoe", "wed"]);
+  });
+});
+
+describe("SearchIndex", () => {
+  it("ranks name matches above description-only matches", () => {
+    const { hits } = buildIndex().search("dress");
+
+    expect(hits.map(h => h.product.id)).toEqual([2, 3]);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it("matches Swahili queries against English listings", () => {
+    const { hits } = buildIndex().search("kitanda");
+
+    expect(hits.map(h => h.product.id)).toEqual([4]);
+  });
+
+  it("prefers documents matching every query term", () => {
+    const { hits } = buildIndex().search("leather boots");
+
+    expect(hits[0].product.id).toBe(1);
+    expect(hits[0].matchedTerms.sort()).toEqual(["boot", "leather"]);
+  });
+
+  it("expands the last term as a prefix", () => {
+    const { hits } = buildIndex().search("velv");
+
+    expect(hits.map(h => h.product.id)).toEqual([4]);
+  });
+
+  it("paginates over the full ranked result set", () => {
+    const index = new SearchIndex();
+    for (let id = 1; id <= 1500; id++) {
+      index.upsert({ id, name: `Chesterfield Sofa ${id}`, description: "" });
+    }
+
+    const page = index.search("sofa", { limit: 20, offset: 1480 });
+
+    expect(page.total).toBe(1500);
+    expect(page.hits).toHaveLength(20);
+    expect(page.hits[19].product.id).toBe(1500);
+  });
+
+  it("drops removed products from results", () => {
+    const index = buildIndex();
+    index.remove(2);
+
+    expect(index.search("dress").hits.map(h => h.product.id)).toEqual([3]);
+  });
+});
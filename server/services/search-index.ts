@@ -0,0 +1,307 @@
+/**
+ * Product Search Index - BM25F Full-Text Retrieval
+ *
+ * In-process inverted index over product name + description:
+ * - Field-weighted BM25 (name counts more than description)
+ * - English/Swahili analysis via search-analyzer
+ * - Prefix expansion on the last query term for search-as-you-type
+ * - Real offset pagination over the full ranked result set
+ *
+ * The index is built from getCatalogProducts(), so it covers the drizzle
+ * products table when MySQL is configured and the db-init catalog otherwise.
+ */
+
+import { getCatalogProducts } from "../db";
+import type { Product } from "../../drizzle/schema";
+import { analyze } from "./search-analyzer";
+
+export interface SearchableProduct {
+  id: number;
+  name: string;
+  description?: string | null;
+  [key: string]: any;
+}
+
+export interface SearchHit<T extends SearchableProduct = SearchableProduct> {
+  product: T;
+  score: number;
+  matchedTerms: string[];
+}
+
+export interface SearchPage<T extends SearchableProduct = SearchableProduct> {
+  total: number;
+  hits: SearchHit<T>[];
+}
+
+export interface SearchOptions {
+  limit?: number;
+  offset?: number;
+}
+
+type SearchField = "name" | "description";
+
+interface IndexedDocument {
+  product: SearchableProduct;
+  fieldLengths: Record<SearchField, number>;
+  terms: Set<string>;
+}
+
+const FIELD_BOOSTS: Record<SearchField, number> = {
+  name: 2.5,
+  description: 1.0,
+};
+
+const FIELD_B: Record<SearchField, number> = {
+  name: 0.5,
+  description: 0.75,
+};
+
+const K1 = 1.2;
+const PREFIX_MIN_LENGTH = 3;
+const PREFIX_DISCOUNT = 0.6;
+
+/**
+ * BM25F inverted index. Pure data structure - no I/O.
+ */
+export class SearchIndex<T extends SearchableProduct = SearchableProduct> {
+  // term -> docId -> per-field term frequency
+  private postings: Map<string, Map<number, Record<SearchField, number>>> = new Map();
+  private documents: Map<number, IndexedDocument> = new Map();
+  private totalFieldLength: Record<SearchField, number> = { name: 0, description: 0 };
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  get(productId: number): T | undefined {
+    return this.documents.get(productId)?.product as T | undefined;
+  }
+
+  /**
+   * Add or replace a product in the index
+   */
+  upsert(product: T): void {
+    if (this.documents.has(product.id)) {
+      this.remove(product.id);
+    }
+
+    const fields: Record<SearchField, string[]> = {
+      name: analyze(product.name || ""),
+      description: analyze(product.description || ""),
+    };
+
+    const terms = new Set<string>();
+    for (const field of Object.keys(fields) as SearchField[]) {
+      for (const term of fields[field]) {
+        let docs = this.postings.get(term);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(term, docs);
+        }
+        let tf = docs.get(product.id);
+        if (!tf) {
+          tf = { name: 0, description: 0 };
+          docs.set(product.id, tf);
+        }
+        tf[field]++;
+        terms.add(term);
+      }
+      this.totalFieldLength[field] += fields[field].length;
+    }
+
+    this.documents.set(product.id, {
+      product,
+      fieldLengths: { name: fields.name.length, description: fields.description.length },
+      terms,
+    });
+  }
+
+  /**
+   * Remove a product from the index
+   */
+  remove(productId: number): void {
+    const doc = this.documents.get(productId);
+    if (!doc) return;
+
+    for (const term of doc.terms) {
+      const docs = this.postings.get(term);
+      docs?.delete(productId);
+      if (docs && docs.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.totalFieldLength.name -= doc.fieldLengths.name;
+    this.totalFieldLength.description -= doc.fieldLengths.description;
+    this.documents.delete(productId);
+  }
+
+  /**
+   * Rank every matching document and return the requested page
+   */
+  search(query: string, options: SearchOptions = {}): SearchPage<T> {
+    const { limit = 20, offset = 0 } = options;
+    const queryTerms = Array.from(new Set(analyze(query)));
+
+    if (queryTerms.length === 0 || this.documents.size === 0) {
+      return { total: 0, hits: [] };
+    }
+
+    const scores = new Map<number, { score: number; matchedTerms: Set<string> }>();
+
+    queryTerms.forEach((term, index) => {
+      const isLast = index === queryTerms.length - 1;
+      for (const [indexTerm, weight] of this.expandTerm(term, isLast)) {
+        const docs = this.postings.get(indexTerm)!;
+        const idf = this.idf(docs.size);
+
+        for (const [docId, tf] of docs) {
+          const termScore = weight * idf * this.saturate(docId, tf);
+          const current = scores.get(docId) || { score: 0, matchedTerms: new Set<string>() };
+          current.score += termScore;
+          current.matchedTerms.add(term);
+          scores.set(docId, current);
+        }
+      }
+    });
+
+    const ranked = Array.from(scores.entries())
+      .map(([docId, { score, matchedTerms }]) => ({
+        product: this.documents.get(docId)!.product as T,
+        // Reward documents matching more distinct query terms
+        score: score * (matchedTerms.size / queryTerms.length),
+        matchedTerms: Array.from(matchedTerms),
+      }))
+      .sort((a, b) => b.score - a.score || a.product.id - b.product.id);
+
+    return {
+      total: ranked.length,
+      hits: ranked.slice(offset, offset + limit),
+    };
+  }
+
+  /**
+   * Exact term, plus prefix matches for the term being typed
+   */
+  private expandTerm(term: string, allowPrefix: boolean): Array<[string, number]> {
+    const expansions: Array<[string, number]> = [];
+    if (this.postings.has(term)) {
+      expansions.push([term, 1]);
+    }
+
+    if (allowPrefix && term.length >= PREFIX_MIN_LENGTH) {
+      for (const indexTerm of this.postings.keys()) {
+        if (indexTerm !== term && indexTerm.startsWith(term)) {
+          expansions.push([indexTerm, PREFIX_DISCOUNT]);
+        }
+      }
+    }
+
+    return expansions;
+  }
+
+  /**
+   * Robertson-Sparck Jones IDF (always positive)
+   */
+  private idf(documentFrequency: number): number {
+    const n = this.documents.size;
+    return Math.log(1 + (n - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+
+  /**
+   * BM25F: length-normalize each field, combine with boosts, then saturate once
+   */
+  private saturate(docId: number, tf: Record<SearchField, number>): number {
+    const doc = this.documents.get(docId)!;
+    const n = this.documents.size;
+    let combined = 0;
+
+    for (const field of Object.keys(FIELD_BOOSTS) as SearchField[]) {
+      if (tf[field] === 0) continue;
+      const avgLength = this.totalFieldLength[field] / n || 1;
+      const norm = 1 - FIELD_B[field] + FIELD_B[field] * (doc.fieldLengths[field] / avgLength);
+      combined += (FIELD_BOOSTS[field] * tf[field]) / norm;
+    }
+
+    return combined / (K1 + combined);
+  }
+}
+
+/**
+ * Catalog-backed index with lazy (re)build
+ */
+class ProductSearchService {
+  private static readonly REBUILD_INTERVAL_MS = 5 * 60 * 1000;
+
+  private index: SearchIndex<Product> = new SearchIndex<Product>();
+  private builtAt = 0;
+  private buildPromise: Promise<void> | null = null;
+
+  /**
+   * Build the index if it is missing or older than the rebuild interval
+   */
+  async ensureIndex(): Promise<void> {
+    const isFresh = Date.now() - this.builtAt < ProductSearchService.REBUILD_INTERVAL_MS;
+    if (this.builtAt > 0 && isFresh) return;
+    if (this.buildPromise) return this.buildPromise;
+
+    this.buildPromise = (async () => {
+      try {
+        const startTime = Date.now();
+        const products = await getCatalogProducts();
+        const index = new SearchIndex<Product>();
+        for (const product of products) {
+          index.upsert(product);
+        }
+        this.index = index;
+        this.builtAt = Date.now();
+        console.log(`[Search] Indexed ${index.size} products in ${Date.now() - startTime}ms`);
+      } finally {
+        this.buildPromise = null;
+      }
+    })();
+
+    return this.buildPromise;
+  }
+
+  async search(query: string, options: SearchOptions = {}): Promise<SearchPage<Product>> {
+    await this.ensureIndex();
+    return this.index.search(query, options);
+  }
+
+  /**
+   * Indexed (live) products among `ids`, in the order given
+   */
+  async getProducts(ids: number[]): Promise<Product[]> {
+    await this.ensureIndex();
+    return ids.map(id => this.index.get(id)).filter((product): product is Product => product !== undefined);
+  }
+
+  /**
+   * Keep the index current after a product write without a full rebuild
+   */
+  upsertProduct(product: Product): void {
+    this.index.upsert(product);
+  }
+
+  removeProduct(productId: number): void {
+    this.index.remove(productId);
+  }
+
+  /**
+   * Force a full rebuild on the next query
+   */
+  invalidate(): void {
+    this.builtAt = 0;
+  }
+
+  getStats(): { documents: number; builtAt: Date | null } {
+    return {
+      documents: this.index.size,
+      builtAt: this.builtAt > 0 ? new Date(this.builtAt) : null,
+    };
+  }
+}
+
+// Singleton instance
+export const productSearch = new ProductSearchService();
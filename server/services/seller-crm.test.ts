@@ -0,0 +1,183 @@
+import { describe, expect, it } from "vitest";
+import type { CrmLeadNote, InsertCrmLead } from "../../drizzle/schema";
+import {
+  LeadError,
+  SellerCRMService,
+  summarizeLeads,
+  type LeadCountRow,
+  type LeadFilter,
+  type LeadRow,
+  type SellerCRMStore,
+} from "./seller-crm";
+
+const now = new Date("2026-03-10T09:00:00Z");
+
+class MemoryCRMStore implements SellerCRMStore {
+  leads: LeadRow[] = [];
+  notes: CrmLeadNote[] = [];
+  notifications: Array<{ sellerId: number; title: string; message: string }> = [];
+
+  async insertLead(lead: InsertCrmLead) {
+    const row = {
+      sessionId: null,
+      referenceCode: null,
+      customerPhone: null,
+      deviceType: null,
+      referralSource: null,
+      status: "new",
+      statusChangedAt: null,
+      followUpAt: null,
+      reminderSentAt: null,
+      orderId: null,
+      flags: null,
+      createdAt: now,
+      updatedAt: now,
+      ...lead,
+      id: this.leads.length + 1,
+      productName: `Product ${lead.productId}`,
+    } as LeadRow;
+    this.leads.push(row);
+    return row;
+  }
+
+  async findLead(sellerId: number, leadId: number) {
+    return this.leads.find(l => l.id === leadId && l.sellerId === sellerId) ?? null;
+  }
+
+  async findLeadByReference(sellerId: number, referenceCode: string) {
+    return this.leads.find(l => l.referenceCode === referenceCode && l.sellerId === sellerId) ?? null;
+  }
+
+  async findRecentLead(visitorId: string, productId: number, interactionType: LeadRow["interactionType"], since: Date) {
+    return (
+      this.leads
+        .filter(l => l.visitorId === visitorId && l.productId === productId && l.interactionType === interactionType && l.createdAt >= since)
+        .pop() ?? null
+    );
+  }
+
+  async listLeads(sellerId: number, filter: LeadFilter, limit: number, offset: number) {
+    return this.leads
+      .filter(l => l.sellerId === sellerId && (filter.includeFlagged || !l.flags))
+      .filter(l => !filter.status || l.status === filter.status)
+      .slice(offset, offset + limit);
+  }
+
+  async countLeads(sellerId: number, includeFlagged: boolean) {
+    return this.leads
+      .filter(l => l.sellerId === sellerId && (includeFlagged || !l.flags))
+      .map(l => ({ productId: l.productId, productName: l.productName, interactionType: l.interactionType, status: l.status, count: 1 }));
+  }
+
+  async updateLead(leadId: number, patch: Partial<InsertCrmLead>) {
+    Object.assign(this.leads.find(l => l.id === leadId)!, patch);
+  }
+
+  async insertNote(leadId: number, sellerId: number, body: string) {
+    const note = { id: this.notes.length + 1, leadId, sellerId, body, createdAt: now };
+    this.notes.push(note);
+    return note;
+  }
+
+  async listNotes(leadId: number) {
+    return this.notes.filter(n => n.leadId === leadId);
+  }
+
+  async findOrder(sellerId: number, orderId: number) {
+    return sellerId === 1 && orderId === 500 ? { id: 500, orderCode: "SK7Q2M" } : null;
+  }
+
+  async dueFollowUps(at: Date) {
+    return this.leads.filter(l => l.followUpAt && l.followUpAt <= at && !l.reminderSentAt);
+  }
+
+  async notifyFollowUp(lead: LeadRow, title: string, message: string, at: Date) {
+    this.notifications.push({ sellerId: lead.sellerId, title, message });
+    lead.reminderSentAt = at;
+    return this.notifications.length;
+  }
+
+  async flagCounts() {
+    return [];
+  }
+
+  async systemCounts() {
+    return { totalLeads: 0, flaggedLeads: 0, uniqueSellers: 0, leadsSince: 0 };
+  }
+}
+
+function setup() {
+  const store = new MemoryCRMStore();
+  return { store, crm: new SellerCRMService({ store }) };
+}
+
+describe("seller CRM", () => {
+  it("summarizes the funnel and per-product conversion from grouped counts", () => {
+    const row = (productId: number, interactionType: LeadCountRow["interactionType"], status: LeadCountRow["status"], count: number) =>
+      ({ productId, productName: null, interactionType, status, count });
+
+    const summary = summarizeLeads([
+      row(1, "view", "new", 6),
+      row(1, "whatsapp_start", "converted", 2),
+      row(2, "click", "lost", 1),
+      row(2, "whatsapp_start", "converted", 1),
+    ]);
+
+    expect(summary.totalLeads).toBe(10);
+    expect(summary.byStatus).toEqual({ new: 6, contacted: 0, converted: 3, lost: 1 });
+    expect(summary.funnel).toMatchObject({ views: 6, clicks: 1, whatsappStarts: 3, conversions: 3, conversionRate: 30 });
+    expect(summary.topProducts.map(p => [p.productId, p.leadCount, p.conversionRate])).toEqual([[1, 8, 25], [2, 2, 50]]);
+  });
+
+  it("moves leads through their lifecycle and links the order they became", async () => {
+    const { store, crm } = setup();
+    const lead = await crm.recordLead({ sellerId: 1, productId: 9, visitorId: "v-1", interactionType: "whatsapp_start" });
+    const bot = await crm.recordLead({ sellerId: 1, productId: 9, visitorId: "v-2", interactionType: "click", flags: ["bot_user_agent"] });
+    expect(bot.flags).toEqual(["bot_user_agent"]);
+    expect((await crm.listLeads(1)).map(l => l.id)).toEqual([lead.id]);
+
+    const contacted = await crm.updateStatus(1, lead.id, "contacted", "  Sent price on WhatsApp ", now);
+    expect(contacted).toMatchObject({ status: "contacted", statusChangedAt: now });
+    expect(contacted.notes.map(n => n.body)).toEqual(["Sent price on WhatsApp"]);
+    await expect(crm.updateStatus(1, lead.id, "new")).rejects.toMatchObject({ code: "INVALID_TRANSITION" });
+
+    // Another seller's lead and orders are invisible
+    await expect(crm.getLead(2, lead.id)).rejects.toBeInstanceOf(LeadError);
+    await expect(crm.linkOrder(1, lead.id, 501)).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+    const converted = await crm.linkOrder(1, lead.id, 500, now);
+    expect(converted).toMatchObject({ status: "converted", orderId: 500 });
+    await expect(crm.updateStatus(1, lead.id, "lost")).rejects.toMatchObject({ code: "INVALID_TRANSITION" });
+    expect(store.leads[0].orderId).toBe(500);
+
+    const csv = await crm.exportLeadsAsCSV(1);
+    expect(csv.split("\r\n")[1]).toContain(",whatsapp_start,");
+    expect(csv).not.toContain("v-2");
+  });
+
+  it("reminds the seller once when a follow-up comes due", async () => {
+    const { store, crm } = setup();
+    const lead = await crm.recordLead({
+      sellerId: 1,
+      productId: 4,
+      visitorId: "v-1",
+      customerPhone: "+254700000001",
+      interactionType: "click",
+    });
+
+    await expect(crm.setFollowUp(1, lead.id, new Date(now.getTime() - 1000), now)).rejects.toMatchObject({ code: "INVALID_INPUT" });
+    const due = new Date(now.getTime() + 60 * 60 * 1000);
+    expect((await crm.setFollowUp(1, lead.id, due, now)).followUpAt).toEqual(due);
+
+    expect(await crm.sendDueReminders(now)).toEqual({ sent: 0, failed: 0 });
+    expect(await crm.sendDueReminders(due)).toEqual({ sent: 1, failed: 0 });
+    expect(await crm.sendDueReminders(new Date(due.getTime() + 5 * 60 * 1000))).toEqual({ sent: 0, failed: 0 });
+    expect(store.notifications).toEqual([
+      { sellerId: 1, title: "Follow up: Product 4", message: expect.stringContaining("+254700000001") },
+    ]);
+
+    // Closing the lead clears any pending follow-up
+    await crm.setFollowUp(1, lead.id, new Date(due.getTime() + 60 * 60 * 1000), due);
+    expect((await crm.updateStatus(1, lead.id, "lost")).followUpAt).toBeNull();
+  });
+});
@@ -1,174 +1,729 @@
 /**
  * Seller CRM Lead Capture System
- * 
- * Tracks all customer interactions with seller products:
- * - Product views
- * - Clicks to WhatsApp
- * - Wishlist additions
- * - Potential conversions
- * 
- * This data is aggregated and displayed in the Commercial Dashboard
- * so sellers can see exactly which customers are interested in their products.
+ *
+ * Tracks customer interactions with seller products (views, clicks,
+ * wishlist additions, WhatsApp chats) as leads in `crm_leads`, and lets the
+ * seller work each one:
+ *
+ *   new -> contacted -> converted (linked to the order it became)
+ *                    -> lost -> contacted (the buyer came back)
+ *
+ * Sellers add notes and set a follow-up time; once it passes, the reminder
+ * worker sends a seller notification. Leads are shown in the Commercial
+ * Dashboard with a funnel, top products and a CSV export.
+ *
+ * Leads flagged by the traffic quality filter are kept but left out of
+ * seller views, funnels and exports unless asked for.
  */
 
+import { and, asc, count, countDistinct, desc, eq, gte, isNotNull, isNull, lte, sql } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  crmLeadNotes,
+  crmLeads,
+  orders,
+  products,
+  sellerNotifications,
+  type CrmLead,
+  type CrmLeadNote,
+  type InsertCrmLead,
+} from "../../drizzle/schema";
+import { toCsv } from "./csv";
+import { flagsColumn, parseFlagsColumn, type TrafficFlag } from "./traffic-quality";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPORT_LIMIT = 10000;
+const REMINDER_BATCH = 200;
+
+export const LEAD_STATUSES = crmLeads.status.enumValues;
+export const LEAD_INTERACTIONS = crmLeads.interactionType.enumValues;
+
+export type LeadStatus = (typeof LEAD_STATUSES)[number];
+export type LeadInteraction = (typeof LEAD_INTERACTIONS)[number];
+
+/**
+ * Where a lead can go from each status; converted is terminal
+ */
+export const LEAD_TRANSITIONS: Record<LeadStatus, LeadStatus[]> = {
+  new: ["contacted", "converted", "lost"],
+  contacted: ["converted", "lost"],
+  lost: ["contacted", "converted"],
+  converted: [],
+};
+
+export function canTransitionLead(from: LeadStatus, to: LeadStatus): boolean {
+  return LEAD_TRANSITIONS[from].includes(to);
+}
+
 export interface Lead {
-  leadId: string;
-  sellerId: string;
+  id: number;
+  sellerId: number;
   productId: number;
-  customerId: string;
+  productName: string | null;
+  visitorId: string;
+  sessionId: string | null;
+  referenceCode: string | null; // WhatsApp chat reference (see whatsapp-attribution.ts)
+  customerPhone: string | null;
+  interactionType: LeadInteraction;
+  deviceType: string | null;
+  referralSource: string | null;
+  status: LeadStatus;
+  statusChangedAt: Date | null;
+  followUpAt: Date | null;
+  orderId: number | null;
+  flags: TrafficFlag[]; // Empty for clean leads
+  createdAt: Date;
+}
+
+export interface LeadDetail extends Lead {
+  notes: CrmLeadNote[];
+}
+
+export interface NewLead {
+  sellerId: number;
+  productId: number;
+  visitorId: string;
+  sessionId?: string;
+  referenceCode?: string;
   customerPhone?: string;
-  interactionType: "view" | "click" | "wishlist" | "whatsapp_start";
-  timestamp: Date;
-  metadata: {
-    deviceType: string;
-    location?: string;
-    referralSource: string;
-  };
+  interactionType: LeadInteraction;
+  deviceType?: string;
+  referralSource?: string;
+  flags?: TrafficFlag[];
+}
+
+export interface LeadFilter {
+  status?: LeadStatus;
+  interactionType?: LeadInteraction;
+  productId?: number;
+  followUpBefore?: Date; // Only leads with a follow-up due by then, soonest first
+  includeFlagged?: boolean;
+}
+
+export interface ConversionFunnel {
+  views: number;
+  clicks: number;
+  wishlists: number;
+  whatsappStarts: number;
+  conversions: number;
+  conversionRate: number; // Converted leads as a % of all leads
 }
 
-export interface SellerLeads {
-  sellerId: string;
+export interface LeadSummary {
   totalLeads: number;
-  leadsLast24h: number;
-  leadsLast7d: number;
+  byStatus: Record<LeadStatus, number>;
+  funnel: ConversionFunnel;
   topProducts: Array<{
     productId: number;
-    productName: string;
+    productName: string | null;
     leadCount: number;
-    conversionRate: number;
+    conversions: number;
+    conversionRate: number; // %
   }>;
+}
+
+export interface SellerLeads extends LeadSummary {
+  sellerId: number;
+  leadsLast24h: number;
+  leadsLast7d: number;
   recentLeads: Lead[];
 }
 
+export type LeadRow = CrmLead & { productName: string | null };
+
+/** Lead count for one product, interaction and status */
+export interface LeadCountRow {
+  productId: number;
+  productName: string | null;
+  interactionType: LeadInteraction;
+  status: LeadStatus;
+  count: number;
+}
+
+export class LeadError extends Error {
+  constructor(
+    public code: "NOT_FOUND" | "INVALID_TRANSITION" | "INVALID_INPUT",
+    message: string
+  ) {
+    super(message);
+    this.name = "LeadError";
+  }
+}
+
+function toLead(row: LeadRow): Lead {
+  return {
+    id: row.id,
+    sellerId: row.sellerId,
+    productId: row.productId,
+    productName: row.productName,
+    visitorId: row.visitorId,
+    sessionId: row.sessionId,
+    referenceCode: row.referenceCode,
+    customerPhone: row.customerPhone,
+    interactionType: row.interactionType,
+    deviceType: row.deviceType,
+    referralSource: row.referralSource,
+    status: row.status,
+    statusChangedAt: row.statusChangedAt,
+    followUpAt: row.followUpAt,
+    orderId: row.orderId,
+    flags: parseFlagsColumn(row.flags),
+    createdAt: row.createdAt,
+  };
+}
+
 /**
- * Seller CRM Manager
+ * Funnel, status counts and top products from grouped lead counts. Pure - no I/O.
  */
-export class SellerCRMManager {
-  private leads: Map<string, Lead[]> = new Map(); // sellerId -> leads
-  private leadHistory: Lead[] = [];
+export function summarizeLeads(rows: LeadCountRow[], productLimit = 10): LeadSummary {
+  const byStatus = Object.fromEntries(LEAD_STATUSES.map(status => [status, 0])) as Record<LeadStatus, number>;
+  const interactions = Object.fromEntries(LEAD_INTERACTIONS.map(type => [type, 0])) as Record<LeadInteraction, number>;
+  const productMap = new Map<number, { productName: string | null; leadCount: number; conversions: number }>();
+  let totalLeads = 0;
 
-  /**
-   * Record a new lead
-   */
-  recordLead(lead: Lead): void {
-    if (!this.leads.has(lead.sellerId)) {
-      this.leads.set(lead.sellerId, []);
+  for (const row of rows) {
+    totalLeads += row.count;
+    byStatus[row.status] += row.count;
+    interactions[row.interactionType] += row.count;
+
+    const product = productMap.get(row.productId) ?? { productName: row.productName, leadCount: 0, conversions: 0 };
+    product.leadCount += row.count;
+    if (row.status === "converted") product.conversions += row.count;
+    productMap.set(row.productId, product);
+  }
+
+  return {
+    totalLeads,
+    byStatus,
+    funnel: {
+      views: interactions.view,
+      clicks: interactions.click,
+      wishlists: interactions.wishlist,
+      whatsappStarts: interactions.whatsapp_start,
+      conversions: byStatus.converted,
+      conversionRate: totalLeads > 0 ? (byStatus.converted / totalLeads) * 100 : 0,
+    },
+    topProducts: Array.from(productMap.entries())
+      .map(([productId, data]) => ({
+        productId,
+        ...data,
+        conversionRate: data.leadCount > 0 ? (data.conversions / data.leadCount) * 100 : 0,
+      }))
+      .sort((a, b) => b.leadCount - a.leadCount)
+      .slice(0, productLimit),
+  };
+}
+
+export interface SellerCRMStore {
+  insertLead(lead: InsertCrmLead): Promise<LeadRow>;
+  findLead(sellerId: number, leadId: number): Promise<LeadRow | null>;
+  findLeadByReference(sellerId: number, referenceCode: string): Promise<LeadRow | null>;
+  /** The visitor's latest lead of this kind on a product since a point in time */
+  findRecentLead(visitorId: string, productId: number, interactionType: LeadInteraction, since: Date): Promise<LeadRow | null>;
+  listLeads(sellerId: number, filter: LeadFilter, limit: number, offset: number): Promise<LeadRow[]>;
+  /** Leads grouped by product, interaction and status, optionally since a point in time */
+  countLeads(sellerId: number, includeFlagged: boolean, since?: Date): Promise<LeadCountRow[]>;
+  updateLead(leadId: number, patch: Partial<InsertCrmLead>): Promise<void>;
+  insertNote(leadId: number, sellerId: number, body: string): Promise<CrmLeadNote>;
+  listNotes(leadId: number): Promise<CrmLeadNote[]>;
+  /** The seller's own order, or null */
+  findOrder(sellerId: number, orderId: number): Promise<{ id: number; orderCode: string | null } | null>;
+  /** Leads whose follow-up has passed and hasn't been reminded yet */
+  dueFollowUps(now: Date, limit: number): Promise<LeadRow[]>;
+  /** Notify the seller and mark the reminder sent, together */
+  notifyFollowUp(lead: LeadRow, title: string, message: string, now: Date): Promise<number>;
+  flagCounts(since: Date): Promise<Array<{ flags: string | null; count: number }>>;
+  systemCounts(since: Date): Promise<{ totalLeads: number; flaggedLeads: number; uniqueSellers: number; leadsSince: number }>;
+}
+
+const leadColumns = {
+  id: crmLeads.id,
+  sellerId: crmLeads.sellerId,
+  productId: crmLeads.productId,
+  visitorId: crmLeads.visitorId,
+  sessionId: crmLeads.sessionId,
+  referenceCode: crmLeads.referenceCode,
+  customerPhone: crmLeads.customerPhone,
+  interactionType: crmLeads.interactionType,
+  deviceType: crmLeads.deviceType,
+  referralSource: crmLeads.referralSource,
+  status: crmLeads.status,
+  statusChangedAt: crmLeads.statusChangedAt,
+  followUpAt: crmLeads.followUpAt,
+  reminderSentAt: crmLeads.reminderSentAt,
+  orderId: crmLeads.orderId,
+  flags: crmLeads.flags,
+  createdAt: crmLeads.createdAt,
+  updatedAt: crmLeads.updatedAt,
+  productName: products.name,
+};
+
+export class DrizzleSellerCRMStore implements SellerCRMStore {
+  private async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
     }
+    return db;
+  }
 
-    this.leads.get(lead.sellerId)!.push(lead);
-    this.leadHistory.push(lead);
+  private selectLeads(db: any) {
+    return db.select(leadColumns).from(crmLeads).leftJoin(products, eq(products.id, crmLeads.productId));
+  }
+
+  async insertLead(lead: InsertCrmLead): Promise<LeadRow> {
+    const db = await this.db();
+    const [row] = await db.insert(crmLeads).values(lead).$returningId();
+    const [inserted] = await this.selectLeads(db).where(eq(crmLeads.id, row.id)).limit(1);
+    return inserted;
+  }
+
+  async findLead(sellerId: number, leadId: number): Promise<LeadRow | null> {
+    const db = await this.db();
+    const [lead] = await this.selectLeads(db)
+      .where(and(eq(crmLeads.id, leadId), eq(crmLeads.sellerId, sellerId)))
+      .limit(1);
+    return lead ?? null;
+  }
+
+  async findLeadByReference(sellerId: number, referenceCode: string): Promise<LeadRow | null> {
+    const db = await this.db();
+    const [lead] = await this.selectLeads(db)
+      .where(and(eq(crmLeads.referenceCode, referenceCode), eq(crmLeads.sellerId, sellerId)))
+      .limit(1);
+    return lead ?? null;
+  }
+
+  async findRecentLead(
+    visitorId: string,
+    productId: number,
+    interactionType: LeadInteraction,
+    since: Date
+  ): Promise<LeadRow | null> {
+    const db = await this.db();
+    const [lead] = await this.selectLeads(db)
+      .where(
+        and(
+          eq(crmLeads.visitorId, visitorId),
+          eq(crmLeads.productId, productId),
+          eq(crmLeads.interactionType, interactionType),
+          gte(crmLeads.createdAt, since)
+        )
+      )
+      .orderBy(desc(crmLeads.createdAt))
+      .limit(1);
+    return lead ?? null;
+  }
+
+  async listLeads(sellerId: number, filter: LeadFilter, limit: number, offset: number): Promise<LeadRow[]> {
+    const db = await this.db();
+    const conditions = [eq(crmLeads.sellerId, sellerId)];
+    if (!filter.includeFlagged) conditions.push(isNull(crmLeads.flags));
+    if (filter.status) conditions.push(eq(crmLeads.status, filter.status));
+    if (filter.interactionType) conditions.push(eq(crmLeads.interactionType, filter.interactionType));
+    if (filter.productId) conditions.push(eq(crmLeads.productId, filter.productId));
+    if (filter.followUpBefore) conditions.push(lte(crmLeads.followUpAt, filter.followUpBefore));
+
+    return this.selectLeads(db)
+      .where(and(...conditions))
+      .orderBy(filter.followUpBefore ? asc(crmLeads.followUpAt) : desc(crmLeads.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  async countLeads(sellerId: number, includeFlagged: boolean, since?: Date): Promise<LeadCountRow[]> {
+    const db = await this.db();
+    const conditions = [eq(crmLeads.sellerId, sellerId)];
+    if (!includeFlagged) conditions.push(isNull(crmLeads.flags));
+    if (since) conditions.push(gte(crmLeads.createdAt, since));
+
+    return db
+      .select({
+        productId: crmLeads.productId,
+        productName: products.name,
+        interactionType: crmLeads.interactionType,
+        status: crmLeads.status,
+        count: count(),
+      })
+      .from(crmLeads)
+      .leftJoin(products, eq(products.id, crmLeads.productId))
+      .where(and(...conditions))
+      .groupBy(crmLeads.productId, products.name, crmLeads.interactionType, crmLeads.status);
+  }
+
+  async updateLead(leadId: number, patch: Partial<InsertCrmLead>): Promise<void> {
+    const db = await this.db();
+    await db.update(crmLeads).set(patch).where(eq(crmLeads.id, leadId));
+  }
+
+  async insertNote(leadId: number, sellerId: number, body: string): Promise<CrmLeadNote> {
+    const db = await this.db();
+    const [row] = await db.insert(crmLeadNotes).values({ leadId, sellerId, body }).$returningId();
+    const [note] = await db.select().from(crmLeadNotes).where(eq(crmLeadNotes.id, row.id)).limit(1);
+    return note;
+  }
+
+  async listNotes(leadId: number): Promise<CrmLeadNote[]> {
+    const db = await this.db();
+    return db.select().from(crmLeadNotes).where(eq(crmLeadNotes.leadId, leadId)).orderBy(asc(crmLeadNotes.createdAt));
+  }
+
+  async findOrder(sellerId: number, orderId: number): Promise<{ id: number; orderCode: string | null } | null> {
+    const db = await this.db();
+    const [order] = await db
+      .select({ id: orders.id, orderCode: orders.orderCode })
+      .from(orders)
+      .where(and(eq(orders.id, orderId), eq(orders.sellerId, sellerId)))
+      .limit(1);
+    return order ?? null;
+  }
 
-    console.log(`[CRM] Recorded ${lead.interactionType} lead for seller ${lead.sellerId}, product ${lead.productId}`);
+  async dueFollowUps(now: Date, limit: number): Promise<LeadRow[]> {
+    const db = await this.db();
+    return this.selectLeads(db)
+      .where(and(isNotNull(crmLeads.followUpAt), lte(crmLeads.followUpAt, now), isNull(crmLeads.reminderSentAt)))
+      .orderBy(asc(crmLeads.followUpAt))
+      .limit(limit);
+  }
+
+  async notifyFollowUp(lead: LeadRow, title: string, message: string, now: Date): Promise<number> {
+    const db = await this.db();
+    return db.transaction(async (tx: any) => {
+      const [notification] = await tx
+        .insert(sellerNotifications)
+        .values({
+          sellerId: lead.sellerId,
+          type: "lead_follow_up",
+          title,
+          message,
+          data: JSON.stringify({ leadId: lead.id, productId: lead.productId }),
+          read: false,
+        })
+        .$returningId();
+      await tx.update(crmLeads).set({ reminderSentAt: now }).where(eq(crmLeads.id, lead.id));
+      return notification.id;
+    });
+  }
+
+  async flagCounts(since: Date): Promise<Array<{ flags: string | null; count: number }>> {
+    const db = await this.db();
+    return db
+      .select({ flags: crmLeads.flags, count: count() })
+      .from(crmLeads)
+      .where(gte(crmLeads.createdAt, since))
+      .groupBy(crmLeads.flags);
+  }
+
+  async systemCounts(since: Date): Promise<{ totalLeads: number; flaggedLeads: number; uniqueSellers: number; leadsSince: number }> {
+    const db = await this.db();
+    const [row] = await db
+      .select({
+        totalLeads: count(),
+        flaggedLeads: count(crmLeads.flags),
+        uniqueSellers: countDistinct(crmLeads.sellerId),
+        leadsSince: sql<number>`sum(case when ${crmLeads.createdAt} >= ${since} then 1 else 0 end)`,
+      })
+      .from(crmLeads);
+    return {
+      totalLeads: row?.totalLeads ?? 0,
+      flaggedLeads: row?.flaggedLeads ?? 0,
+      uniqueSellers: row?.uniqueSellers ?? 0,
+      leadsSince: Number(row?.leadsSince ?? 0),
+    };
+  }
+}
+
+export interface SellerCRMServiceOptions {
+  store?: SellerCRMStore;
+}
+
+export class SellerCRMService {
+  private store: SellerCRMStore;
+
+  constructor(options: SellerCRMServiceOptions = {}) {
+    this.store = options.store ?? new DrizzleSellerCRMStore();
   }
 
   /**
-   * Get all leads for a seller
+   * Record a new lead
    */
-  getSellerLeads(sellerId: string, limit: number = 50): SellerLeads {
-    const sellerLeads = this.leads.get(sellerId) || [];
+  async recordLead(input: NewLead): Promise<Lead> {
+    const row = await this.store.insertLead({
+      sellerId: input.sellerId,
+      productId: input.productId,
+      visitorId: input.visitorId,
+      sessionId: input.sessionId ?? null,
+      referenceCode: input.referenceCode ?? null,
+      customerPhone: input.customerPhone ?? null,
+      interactionType: input.interactionType,
+      deviceType: input.deviceType ?? null,
+      referralSource: input.referralSource ?? null,
+      flags: flagsColumn(input.flags ?? []),
+    });
 
-    const now = new Date();
-    const last24h = new Date(now.getTime() - 24 * 60 * 60 * 1000);
-    const last7d = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+    console.log(`[CRM] Recorded ${input.interactionType} lead for seller ${input.sellerId}, product ${input.productId}`);
+    return toLead(row);
+  }
 
-    const leadsLast24h = sellerLeads.filter((l) => l.timestamp > last24h).length;
-    const leadsLast7d = sellerLeads.filter((l) => l.timestamp > last7d).length;
+  async listLeads(sellerId: number, filter: LeadFilter = {}, limit = 50, offset = 0): Promise<Lead[]> {
+    const rows = await this.store.listLeads(sellerId, filter, limit, offset);
+    return rows.map(toLead);
+  }
 
-    // Calculate top products
-    const productMap = new Map<number, { name: string; count: number }>();
-    for (const lead of sellerLeads) {
-      if (!productMap.has(lead.productId)) {
-        productMap.set(lead.productId, { name: `Product ${lead.productId}`, count: 0 });
-      }
-      productMap.get(lead.productId)!.count++;
+  /**
+   * One of the seller's leads with its notes
+   */
+  async getLead(sellerId: number, leadId: number): Promise<LeadDetail> {
+    const row = await this.requireLead(sellerId, leadId);
+    return { ...toLead(row), notes: await this.store.listNotes(leadId) };
+  }
+
+  /**
+   * A lead by its WhatsApp reference code, as the buyer quoted it
+   */
+  async getLeadByReference(sellerId: number, referenceCode: string): Promise<LeadDetail> {
+    const row = await this.store.findLeadByReference(sellerId, referenceCode.trim().toUpperCase());
+    if (!row) {
+      throw new LeadError("NOT_FOUND", `No lead with reference ${referenceCode.trim()}`);
     }
+    return { ...toLead(row), notes: await this.store.listNotes(row.id) };
+  }
 
-    const topProducts = Array.from(productMap.entries())
-      .map(([productId, data]) => ({
-        productId,
-        productName: data.name,
-        leadCount: data.count,
-        conversionRate: 0.15, // Placeholder
-      }))
-      .sort((a, b) => b.leadCount - a.leadCount)
-      .slice(0, 10);
+  async findRecentLead(visitorId: string, productId: number, interactionType: LeadInteraction, since: Date): Promise<Lead | null> {
+    const row = await this.store.findRecentLead(visitorId, productId, interactionType, since);
+    return row ? toLead(row) : null;
+  }
+
+  /**
+   * Lead totals, status counts, top products and the most recent leads for a seller
+   */
+  async getSellerLeads(sellerId: number, limit = 50, includeFlagged = false, now: Date = new Date()): Promise<SellerLeads> {
+    const [all, last7d, last24h, recent] = await Promise.all([
+      this.store.countLeads(sellerId, includeFlagged),
+      this.store.countLeads(sellerId, includeFlagged, new Date(now.getTime() - 7 * DAY_MS)),
+      this.store.countLeads(sellerId, includeFlagged, new Date(now.getTime() - DAY_MS)),
+      this.store.listLeads(sellerId, { includeFlagged }, limit, 0),
+    ]);
 
+    const total = (rows: LeadCountRow[]) => rows.reduce((sum, row) => sum + row.count, 0);
     return {
       sellerId,
-      totalLeads: sellerLeads.length,
-      leadsLast24h,
-      leadsLast7d,
-      topProducts,
-      recentLeads: sellerLeads.slice(-limit),
+      ...summarizeLeads(all),
+      leadsLast24h: total(last24h),
+      leadsLast7d: total(last7d),
+      recentLeads: recent.map(toLead),
     };
   }
 
   /**
-   * Get lead conversion funnel for a seller
+   * Lead conversion funnel for a seller
    */
-  getConversionFunnel(sellerId: string): {
-    views: number;
-    clicks: number;
-    whatsappStarts: number;
-    conversionRate: number;
-  } {
-    const sellerLeads = this.leads.get(sellerId) || [];
-
-    const views = sellerLeads.filter((l) => l.interactionType === "view").length;
-    const clicks = sellerLeads.filter((l) => l.interactionType === "click").length;
-    const whatsappStarts = sellerLeads.filter((l) => l.interactionType === "whatsapp_start").length;
+  async getConversionFunnel(sellerId: number, includeFlagged = false): Promise<ConversionFunnel> {
+    return summarizeLeads(await this.store.countLeads(sellerId, includeFlagged)).funnel;
+  }
 
-    return {
-      views,
-      clicks,
-      whatsappStarts,
-      conversionRate: views > 0 ? (whatsappStarts / views) * 100 : 0,
-    };
+  /**
+   * Export leads as CSV for seller, newest first
+   */
+  async exportLeadsAsCSV(sellerId: number, includeFlagged = false): Promise<string> {
+    const leads = await this.listLeads(sellerId, { includeFlagged }, EXPORT_LIMIT);
+
+    return toCsv([
+      [
+        "Lead ID",
+        "Product ID",
+        "Product Name",
+        "Visitor ID",
+        "Reference",
+        "Phone",
+        "Interaction Type",
+        "Timestamp",
+        "Device Type",
+        "Referral Source",
+        "Status",
+        "Follow Up",
+        "Order ID",
+        "Flags",
+      ],
+      ...leads.map(lead => [
+        lead.id,
+        lead.productId,
+        lead.productName,
+        lead.visitorId,
+        lead.referenceCode,
+        lead.customerPhone,
+        lead.interactionType,
+        lead.createdAt,
+        lead.deviceType,
+        lead.referralSource,
+        lead.status,
+        lead.followUpAt,
+        lead.orderId,
+        lead.flags.join(" "),
+      ]),
+    ]);
   }
 
   /**
-   * Export leads as CSV for seller
+   * Move a lead along its lifecycle, optionally noting why
    */
-  exportLeadsAsCSV(sellerId: string): string {
-    const sellerLeads = this.leads.get(sellerId) || [];
+  async updateStatus(sellerId: number, leadId: number, status: LeadStatus, note?: string, now: Date = new Date()): Promise<LeadDetail> {
+    const lead = await this.requireLead(sellerId, leadId);
+    if (!canTransitionLead(lead.status, status)) {
+      throw new LeadError("INVALID_TRANSITION", `A ${lead.status} lead can't be marked ${status}`);
+    }
 
-    let csv = "Lead ID,Product ID,Customer ID,Interaction Type,Timestamp,Device Type,Referral Source\n";
+    await this.store.updateLead(leadId, {
+      status,
+      statusChangedAt: now,
+      // Nothing left to follow up on a closed lead
+      ...(status === "converted" || status === "lost" ? { followUpAt: null } : {}),
+    });
+    if (note?.trim()) await this.store.insertNote(leadId, sellerId, note.trim());
+
+    console.log(`[CRM] Lead ${leadId} marked ${status}`);
+    return this.getLead(sellerId, leadId);
+  }
 
-    for (const lead of sellerLeads) {
-      csv += `${lead.leadId},${lead.productId},${lead.customerId},${lead.interactionType},${lead.timestamp.toISOString()},${lead.metadata.deviceType},${lead.metadata.referralSource}\n`;
+  async addNote(sellerId: number, leadId: number, body: string): Promise<CrmLeadNote> {
+    await this.requireLead(sellerId, leadId);
+    const text = body.trim();
+    if (!text) {
+      throw new LeadError("INVALID_INPUT", "Note is empty");
     }
+    return this.store.insertNote(leadId, sellerId, text);
+  }
 
-    return csv;
+  /**
+   * Set (or clear, with null) when the seller wants to be reminded about a lead
+   */
+  async setFollowUp(sellerId: number, leadId: number, at: Date | null, now: Date = new Date()): Promise<LeadDetail> {
+    const lead = await this.requireLead(sellerId, leadId);
+    if (at) {
+      if (at.getTime() <= now.getTime()) {
+        throw new LeadError("INVALID_INPUT", "Follow-up time must be in the future");
+      }
+      if (lead.status === "converted" || lead.status === "lost") {
+        throw new LeadError("INVALID_TRANSITION", `A ${lead.status} lead has nothing to follow up`);
+      }
+    }
+
+    await this.store.updateLead(leadId, { followUpAt: at, reminderSentAt: null });
+    return this.getLead(sellerId, leadId);
+  }
+
+  /**
+   * Link the order a lead turned into; the lead becomes converted
+   */
+  async linkOrder(sellerId: number, leadId: number, orderId: number, now: Date = new Date()): Promise<LeadDetail> {
+    const lead = await this.requireLead(sellerId, leadId);
+    const order = await this.store.findOrder(sellerId, orderId);
+    if (!order) {
+      throw new LeadError("NOT_FOUND", `Order ${orderId} not found`);
+    }
+    if (lead.orderId !== null && lead.orderId !== orderId) {
+      throw new LeadError("INVALID_TRANSITION", `Lead ${leadId} is already linked to order ${lead.orderId}`);
+    }
+    if (lead.status !== "converted" && !canTransitionLead(lead.status, "converted")) {
+      throw new LeadError("INVALID_TRANSITION", `A ${lead.status} lead can't be marked converted`);
+    }
+
+    await this.store.updateLead(leadId, {
+      orderId,
+      status: "converted",
+      followUpAt: null,
+      ...(lead.status !== "converted" ? { statusChangedAt: now } : {}),
+    });
+    return this.getLead(sellerId, leadId);
+  }
+
+  /**
+   * Notify sellers about leads whose follow-up time has passed
+   */
+  async sendDueReminders(now: Date = new Date()): Promise<{ sent: number; failed: number }> {
+    const due = await this.store.dueFollowUps(now, REMINDER_BATCH);
+    let sent = 0;
+    let failed = 0;
+
+    for (const lead of due) {
+      const product = lead.productName ?? `product ${lead.productId}`;
+      const who = lead.customerPhone ?? `visitor ${lead.visitorId.slice(0, 8)}`;
+      try {
+        await this.store.notifyFollowUp(
+          lead,
+          `Follow up: ${product}`,
+          `You asked to be reminded about ${who}, who showed interest in ${product} (${lead.status} lead).`,
+          now
+        );
+        sent++;
+      } catch (error) {
+        failed++;
+        console.error(`[CRM] Follow-up reminder for lead ${lead.id} failed:`, error);
+      }
+    }
+
+    return { sent, failed };
   }
 
   /**
    * Get statistics about the CRM system
    */
-  getStats(): {
+  async getStats(now: Date = new Date()): Promise<{
     totalLeads: number;
+    flaggedLeads: number;
     uniqueSellers: number;
     leadsLast24h: number;
     avgLeadsPerSeller: number;
-  } {
-    const now = new Date();
-    const last24h = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  }> {
+    const counts = await this.store.systemCounts(new Date(now.getTime() - DAY_MS));
+    return {
+      totalLeads: counts.totalLeads,
+      flaggedLeads: counts.flaggedLeads,
+      uniqueSellers: counts.uniqueSellers,
+      leadsLast24h: counts.leadsSince,
+      avgLeadsPerSeller: counts.uniqueSellers > 0 ? counts.totalLeads / counts.uniqueSellers : 0,
+    };
+  }
 
-    let totalLeads = 0;
-    let leadsLast24h = 0;
+  /**
+   * Flagged leads since a point in time, by reason, for the admin traffic view
+   */
+  async getFlaggedSummary(since: Date): Promise<{
+    total: number;
+    flagged: number;
+    byReason: Array<{ reason: string; count: number }>;
+  }> {
+    const rows = await this.store.flagCounts(since);
+    const reasons = new Map<string, number>();
+    let total = 0;
+    let flagged = 0;
 
-    for (const leads of this.leads.values()) {
-      totalLeads += leads.length;
-      leadsLast24h += leads.filter((l) => l.timestamp > last24h).length;
+    for (const row of rows) {
+      total += row.count;
+      if (!row.flags) continue;
+      flagged += row.count;
+      for (const reason of parseFlagsColumn(row.flags)) {
+        reasons.set(reason, (reasons.get(reason) ?? 0) + row.count);
+      }
     }
 
     return {
-      totalLeads,
-      uniqueSellers: this.leads.size,
-      leadsLast24h,
-      avgLeadsPerSeller: this.leads.size > 0 ? totalLeads / this.leads.size : 0,
+      total,
+      flagged,
+      byReason: Array.from(reasons.entries())
+        .map(([reason, count]) => ({ reason, count }))
+        .sort((a, b) => b.count - a.count),
     };
   }
+
+  private async requireLead(sellerId: number, leadId: number): Promise<LeadRow> {
+    const lead = await this.store.findLead(sellerId, leadId);
+    if (!lead) {
+      throw new LeadError("NOT_FOUND", `Lead ${leadId} not found`);
+    }
+    return lead;
+  }
 }
 
 // Singleton instance
-export const sellerCRM = new SellerCRMManager();
+export const sellerCRM = new SellerCRMService();
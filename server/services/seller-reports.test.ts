@@ -0,0 +1,176 @@
+import { describe, expect, it } from "vitest";
+import type { InsertSellerReport, SellerReport } from "../../drizzle/schema";
+import { AnalyticsEngine } from "./analytics-engine";
+import type { RollupBucket } from "./analytics-rollups";
+import { toCsv } from "./csv";
+import { computeFunnel } from "./funnel-engine";
+import {
+  renderReportCsv,
+  renderReportPdf,
+  reportPeriod,
+  SellerReportService,
+  type CatalogHealth,
+  type SellerReportStore,
+} from "./seller-reports";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const monday = new Date("2026-03-09T04:30:00Z");
+
+const catalog: CatalogHealth = {
+  activeListings: 40,
+  listingsAdded: 3,
+  deadLinksRemoved: 2,
+  pendingPurge: 1,
+  priceChanges: 5,
+  qcApproved: 3,
+  qcRejected: 1,
+  qcFlagged: 0,
+};
+
+class MemoryReportStore implements SellerReportStore {
+  reports: SellerReport[] = [];
+  notifications: Array<{ sellerId: number; title: string; message: string }> = [];
+
+  async listSellers() {
+    return [{ id: 1, storeName: "Gikomba Threads" }, { id: 2, storeName: "Toi Kicks" }];
+  }
+
+  async getSeller(sellerId: number) {
+    return (await this.listSellers()).find(s => s.id === sellerId) ?? null;
+  }
+
+  async getProductNames(ids: number[]) {
+    return new Map(ids.map(id => [id, `Denim jacket, "size ${id}"`]));
+  }
+
+  async getCatalogHealth() {
+    return catalog;
+  }
+
+  async findReport(sellerId: number, periodStart: Date, trigger: SellerReport["trigger"]) {
+    return (
+      this.reports
+        .filter(r => r.sellerId === sellerId && r.periodStart.getTime() === periodStart.getTime() && r.trigger === trigger)
+        .pop() ?? null
+    );
+  }
+
+  async insertReport(report: InsertSellerReport) {
+    const row = { ...report, id: this.reports.length + 1, summary: report.summary ?? null, notificationId: null, createdAt: new Date() } as SellerReport;
+    this.reports.push(row);
+    return row;
+  }
+
+  async notifySeller(report: SellerReport, title: string, message: string) {
+    this.notifications.push({ sellerId: report.sellerId, title, message });
+    return this.notifications.length;
+  }
+
+  async listReports(sellerId: number) {
+    return this.reports.filter(r => r.sellerId === sellerId).reverse();
+  }
+}
+
+function dayBucket(sellerId: number, day: Date, productId: number, clicks: number, revenue: number): RollupBucket {
+  return {
+    granularity: "day",
+    bucketStart: day,
+    sellerId,
+    productId,
+    impressions: clicks * 10,
+    clicks,
+    conversions: revenue > 0 ? 1 : 0,
+    revenue,
+    uniqueSessions: clicks,
+    deviceBreakdown: {},
+    sourceBreakdown: {},
+  };
+}
+
+function setup(failFor?: number) {
+  const store = new MemoryReportStore();
+  const uploads: Array<{ key: string; contentType: string; data: Buffer | string }> = [];
+  const service = new SellerReportService({
+    store,
+    rollups: {
+      async getRangeMetrics(sellerId, from) {
+        if (sellerId === failFor) throw new Error("rollups unavailable");
+        const day = new Date(from.getTime() + DAY_MS);
+        const thisWeek = from.getTime() === reportPeriod(monday).from.getTime();
+        return AnalyticsEngine.metricsFromBuckets(String(sellerId), [
+          dayBucket(sellerId, day, 0, 20, thisWeek ? 3000 : 2000),
+          dayBucket(sellerId, day, 7, 20, thisWeek ? 3000 : 2000),
+        ]);
+      },
+      async getDailySeries() {
+        return [];
+      },
+    },
+    funnel: {
+      async getFunnel(query) {
+        return computeFunnel([], undefined, query);
+      },
+    },
+    upload: async (key, data, contentType) => {
+      uploads.push({ key, contentType, data });
+      return { key, url: `https://files.example/${key}` };
+    },
+  });
+  return { store, uploads, service };
+}
+
+describe("seller reports", () => {
+  it("escapes CSV cells and neutralises spreadsheet formulas", () => {
+    expect(toCsv([["a,b", 'say "hi"', "=HYPERLINK(1)", -5, null, "two\nlines"]])).toBe(
+      '"a,b","say ""hi""",\'=HYPERLINK(1),-5,,"two\nlines"\r\n'
+    );
+  });
+
+  it("renders the weekly CSV and a well-formed PDF", async () => {
+    const { service } = setup();
+    const data = await service.buildReport({ id: 1, storeName: "Gikomba Threads" }, monday);
+
+    expect(data.period).toEqual({ from: new Date("2026-03-02T00:00:00Z"), to: new Date("2026-03-09T00:00:00Z") });
+    expect(data.current.revenue).toBe(3000);
+    expect(data.previous.revenue).toBe(2000);
+    expect(data.topProducts[0]).toMatchObject({ productId: 7, clicks: 20 });
+
+    const csv = renderReportCsv(data);
+    expect(csv).toContain('7,"Denim jacket, ""size 7""",200,20,0.1,1\r\n');
+    expect(csv).toContain("Dead links removed,2\r\n");
+
+    const pdf = renderReportPdf(data).toString("latin1");
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("(Weekly performance report) Tj");
+    // Every xref offset points at its object
+    const xref = pdf.slice(pdf.lastIndexOf("xref"));
+    const offsets = xref.split("\n").slice(3).filter(line => line.endsWith(" n ")).map(line => Number(line.slice(0, 10)));
+    offsets.forEach((offset, i) => expect(pdf.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+    expect(Number(pdf.match(/startxref\n(\d+)/)![1])).toBe(pdf.lastIndexOf("xref\n0"));
+  });
+
+  it("runs weekly once per seller, notifies, and reuses a fresh on-demand report", async () => {
+    const { store, uploads, service } = setup(2);
+
+    const first = await service.runWeekly(monday);
+    expect(first).toMatchObject({ generated: 1, skipped: 0, failed: 1 });
+    expect(uploads.map(u => u.contentType)).toEqual(["text/csv; charset=utf-8", "application/pdf"]);
+    expect(uploads[0].key).toMatch(/^reports\/seller-1\/2026-03-02-scheduled-[0-9a-f]{16}\.csv$/);
+    expect(store.notifications).toEqual([
+      expect.objectContaining({ sellerId: 1, title: expect.stringContaining("weekly report") }),
+    ]);
+    expect(store.notifications[0].message).toContain("+50% on the week before");
+
+    const rerun = await service.runWeekly(new Date(monday.getTime() + 60 * 60 * 1000));
+    expect(rerun).toMatchObject({ generated: 0, skipped: 1, failed: 1 });
+
+    const onDemand = await service.generate(1, "on_demand", monday);
+    const again = await service.generate(1, "on_demand", new Date(monday.getTime() + 60 * 1000));
+    expect(again.id).toBe(onDemand.id);
+    expect(store.notifications).toHaveLength(1);
+
+    const listed = await service.list(1);
+    expect(listed.map(r => r.trigger)).toEqual(["on_demand", "scheduled"]);
+    expect(listed[1].summary).toEqual({ revenue: 3000, previousRevenue: 2000, conversions: 1, clicks: 20 });
+  });
+});
@@ -0,0 +1,591 @@
+import { randomBytes } from "node:crypto";
+import { and, count, desc, eq, gte, inArray, isNotNull, isNull, lt, sum } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  catalogChangeEvents,
+  catalogSyncLogs,
+  products,
+  sellerNotifications,
+  sellerReports,
+  sellers,
+  type InsertSellerReport,
+  type SellerReport,
+} from "../../drizzle/schema";
+import { storagePut } from "../storage";
+import { AnalyticsEngine, type MetricsForecast, type SellerMetrics } from "./analytics-engine";
+import { analyticsRollupService, bucketStart, type AnalyticsRollupService } from "./analytics-rollups";
+import { toCsv, type CsvValue } from "./csv";
+import { FORECAST_HISTORY_DAYS } from "./forecasting";
+import { funnelEngine, type FunnelEngine, type FunnelReport } from "./funnel-engine";
+import { PdfDocument, type TableColumn } from "./pdf-document";
+
+/**
+ * Seller Reports
+ *
+ * A weekly performance report per seller: traffic and revenue against the
+ * week before, top products, the visitor funnel, catalog health (listings
+ * added, dead links removed, QC decisions from catalog syncs) and the next
+ * week's revenue forecast. Each report is rendered as a CSV and a PDF,
+ * uploaded to object storage and recorded in `seller_reports`; scheduled
+ * reports also notify the seller with links to both files.
+ *
+ * The period is the last seven closed UTC days, so the Monday morning run
+ * covers Monday to Sunday. Sellers can generate the same report on demand
+ * from the dashboard.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+export const REPORT_PERIOD_DAYS = 7;
+const FORECAST_DAYS = 7;
+/** A repeat on-demand request within this window gets the report just made */
+const ON_DEMAND_REUSE_MS = 10 * 60 * 1000;
+
+export type ReportTrigger = SellerReport["trigger"];
+
+export interface CatalogHealth {
+  activeListings: number;
+  listingsAdded: number;
+  deadLinksRemoved: number; // Listings that disappeared from the WhatsApp catalog
+  pendingPurge: number; // Removed, still inside the restore grace period
+  priceChanges: number;
+  qcApproved: number;
+  qcRejected: number;
+  qcFlagged: number;
+}
+
+export interface ReportMetrics {
+  impressions: number;
+  clicks: number;
+  ctr: number;
+  conversions: number;
+  conversionRate: number;
+  revenue: number;
+  averageOrderValue: number;
+}
+
+export interface SellerReportData {
+  seller: { id: number; storeName: string };
+  period: { from: Date; to: Date };
+  generatedAt: Date;
+  current: ReportMetrics;
+  previous: ReportMetrics;
+  topProducts: Array<{ productId: number; name: string; impressions: number; clicks: number; ctr: number; conversions: number }>;
+  funnel: FunnelReport["steps"];
+  catalog: CatalogHealth;
+  forecast: MetricsForecast[];
+}
+
+export interface ReportSummary {
+  revenue: number;
+  previousRevenue: number;
+  conversions: number;
+  clicks: number;
+}
+
+export interface SellerReportListItem extends Omit<SellerReport, "summary"> {
+  summary: ReportSummary | null;
+}
+
+/**
+ * The last REPORT_PERIOD_DAYS closed UTC days before `now`
+ */
+export function reportPeriod(now: Date): { from: Date; to: Date } {
+  const to = bucketStart(now, "day");
+  return { from: new Date(to.getTime() - REPORT_PERIOD_DAYS * DAY_MS), to };
+}
+
+function reportMetrics(metrics: SellerMetrics): ReportMetrics {
+  return {
+    impressions: metrics.impressions,
+    clicks: metrics.totalClicks,
+    ctr: metrics.ctr,
+    conversions: metrics.totalConversions,
+    conversionRate: metrics.conversionRate,
+    revenue: metrics.revenue,
+    averageOrderValue: metrics.averageOrderValue,
+  };
+}
+
+function formatDay(date: Date): string {
+  return date.toLocaleDateString("en-KE", { timeZone: "Africa/Nairobi", day: "numeric", month: "short", year: "numeric" });
+}
+
+/**
+ * "6 Oct 2026 - 12 Oct 2026" (the end is exclusive, so the label shows the last day)
+ */
+export function periodLabel(period: { from: Date; to: Date }): string {
+  return `${formatDay(period.from)} - ${formatDay(new Date(period.to.getTime() - DAY_MS))}`;
+}
+
+function kes(value: number): string {
+  return `KES ${Math.round(value).toLocaleString("en-KE")}`;
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function change(current: number, previous: number): string {
+  if (previous === 0) return current === 0 ? "0%" : "new";
+  const delta = (current - previous) / previous;
+  return `${delta >= 0 ? "+" : ""}${(delta * 100).toFixed(0)}%`;
+}
+
+const METRIC_ROWS: Array<{ label: string; key: keyof ReportMetrics; format: (value: number) => string }> = [
+  { label: "Impressions", key: "impressions", format: v => v.toLocaleString("en-KE") },
+  { label: "Clicks", key: "clicks", format: v => v.toLocaleString("en-KE") },
+  { label: "Click-through rate", key: "ctr", format: percent },
+  { label: "Conversions", key: "conversions", format: v => v.toLocaleString("en-KE") },
+  { label: "Conversion rate", key: "conversionRate", format: percent },
+  { label: "Revenue", key: "revenue", format: kes },
+  { label: "Average order value", key: "averageOrderValue", format: kes },
+];
+
+const CATALOG_ROWS: Array<{ label: string; key: keyof CatalogHealth }> = [
+  { label: "Active listings", key: "activeListings" },
+  { label: "Listings added", key: "listingsAdded" },
+  { label: "Dead links removed", key: "deadLinksRemoved" },
+  { label: "Removed, pending purge", key: "pendingPurge" },
+  { label: "Price changes", key: "priceChanges" },
+  { label: "QC approved", key: "qcApproved" },
+  { label: "QC rejected", key: "qcRejected" },
+  { label: "QC flagged for review", key: "qcFlagged" },
+];
+
+/**
+ * One CSV with a section per table, separated by blank lines. Pure.
+ */
+export function renderReportCsv(report: SellerReportData): string {
+  const rows: CsvValue[][] = [
+    ["Seller", report.seller.storeName],
+    ["Period start", report.period.from],
+    ["Period end (exclusive)", report.period.to],
+    ["Generated", report.generatedAt],
+    [],
+    ["Metric", "This period", "Previous period"],
+    ...METRIC_ROWS.map(row => [row.label, report.current[row.key], report.previous[row.key]]),
+    [],
+    ["Top products"],
+    ["Product ID", "Name", "Impressions", "Clicks", "CTR", "Conversions"],
+    ...report.topProducts.map(p => [p.productId, p.name, p.impressions, p.clicks, p.ctr, p.conversions]),
+    [],
+    ["Funnel step", "Visitors", "Rate from start", "Rate from previous", "Drop-off"],
+    ...report.funnel.map(step => [step.label, step.count, step.rateFromStart, step.rateFromPrevious, step.dropOff]),
+    [],
+    ["Catalog health", "Count"],
+    ...CATALOG_ROWS.map(row => [row.label, report.catalog[row.key]]),
+    [],
+    ["Forecast day", "Predicted revenue", "Revenue low", "Revenue high", "Predicted conversions"],
+    ...report.forecast.map(f => [f.timestamp, f.predictedRevenue, f.revenueLower, f.revenueUpper, f.predictedConversions]),
+  ];
+  return toCsv(rows);
+}
+
+/**
+ * The same report laid out for reading. Pure.
+ */
+export function renderReportPdf(report: SellerReportData): Buffer {
+  const doc = new PdfDocument(`${report.seller.storeName} · ${periodLabel(report.period)}`);
+
+  doc.text("Weekly performance report", { size: 20, bold: true });
+  doc.text(`${report.seller.storeName}  ·  ${periodLabel(report.period)}`, { size: 11, color: [0.4, 0.4, 0.4] });
+  doc.moveDown(6);
+
+  doc.heading("Overview");
+  const metricColumns: TableColumn[] = [
+    { header: "Metric", width: 200 },
+    { header: "This week", width: 110, align: "right" },
+    { header: "Week before", width: 110, align: "right" },
+    { header: "Change", width: 79, align: "right" },
+  ];
+  doc.table(
+    metricColumns,
+    METRIC_ROWS.map(row => [
+      row.label,
+      row.format(report.current[row.key]),
+      row.format(report.previous[row.key]),
+      change(report.current[row.key], report.previous[row.key]),
+    ])
+  );
+
+  doc.heading("Top products");
+  if (report.topProducts.length === 0) {
+    doc.text("No product clicks this week.", { color: [0.4, 0.4, 0.4] });
+  } else {
+    doc.table(
+      [
+        { header: "Product", width: 239 },
+        { header: "Impressions", width: 70, align: "right" },
+        { header: "Clicks", width: 60, align: "right" },
+        { header: "CTR", width: 60, align: "right" },
+        { header: "Conversions", width: 70, align: "right" },
+      ],
+      report.topProducts.map(p => [p.name, String(p.impressions), String(p.clicks), percent(p.ctr), String(p.conversions)])
+    );
+  }
+
+  doc.heading("Visitor funnel");
+  const start = report.funnel[0]?.count ?? 0;
+  if (start === 0) {
+    doc.text("No tracked visitors this week.", { color: [0.4, 0.4, 0.4] });
+  } else {
+    for (const step of report.funnel) {
+      doc.bar(step.label, step.count / start, `${step.count.toLocaleString("en-KE")} (${percent(step.rateFromStart)})`);
+    }
+  }
+
+  doc.heading("Catalog health");
+  doc.table(
+    [
+      { header: "", width: 250 },
+      { header: "Count", width: 80, align: "right" },
+    ],
+    CATALOG_ROWS.map(row => [row.label, report.catalog[row.key].toLocaleString("en-KE")])
+  );
+
+  doc.heading("Revenue forecast, next 7 days");
+  if (report.forecast.length === 0) {
+    doc.text("Not enough sales history for a forecast yet.", { color: [0.4, 0.4, 0.4] });
+  } else {
+    const total = report.forecast.reduce((sum, f) => sum + f.predictedRevenue, 0);
+    doc.text(`Expected ${kes(total)} over the next 7 days.`, { bold: true });
+    doc.moveDown(4);
+    doc.table(
+      [
+        { header: "Day", width: 160 },
+        { header: "Expected", width: 110, align: "right" },
+        { header: "Likely range", width: 180, align: "right" },
+      ],
+      report.forecast.map(f => [formatDay(f.timestamp), kes(f.predictedRevenue), `${kes(f.revenueLower)} - ${kes(f.revenueUpper)}`])
+    );
+  }
+
+  return doc.toBuffer();
+}
+
+/**
+ * Persistence and lookups used by SellerReportService (drizzle-backed by default)
+ */
+export interface SellerReportStore {
+  listSellers(): Promise<Array<{ id: number; storeName: string }>>;
+  getSeller(sellerId: number): Promise<{ id: number; storeName: string } | null>;
+  getProductNames(productIds: number[]): Promise<Map<number, string>>;
+  getCatalogHealth(sellerId: number, from: Date, to: Date): Promise<CatalogHealth>;
+  /** Latest report for this seller, period start and trigger */
+  findReport(sellerId: number, periodStart: Date, trigger: ReportTrigger): Promise<SellerReport | null>;
+  insertReport(report: InsertSellerReport): Promise<SellerReport>;
+  notifySeller(report: SellerReport, title: string, message: string): Promise<number>;
+  listReports(sellerId: number, limit: number): Promise<SellerReport[]>;
+}
+
+export class DrizzleSellerReportStore implements SellerReportStore {
+  private async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db;
+  }
+
+  async listSellers(): Promise<Array<{ id: number; storeName: string }>> {
+    const db = await this.db();
+    return db.select({ id: sellers.id, storeName: sellers.storeName }).from(sellers);
+  }
+
+  async getSeller(sellerId: number): Promise<{ id: number; storeName: string } | null> {
+    const db = await this.db();
+    const [seller] = await db
+      .select({ id: sellers.id, storeName: sellers.storeName })
+      .from(sellers)
+      .where(eq(sellers.id, sellerId))
+      .limit(1);
+    return seller ?? null;
+  }
+
+  async getProductNames(productIds: number[]): Promise<Map<number, string>> {
+    if (productIds.length === 0) return new Map();
+    const db = await this.db();
+    const rows = await db
+      .select({ id: products.id, name: products.name })
+      .from(products)
+      .where(inArray(products.id, productIds));
+    return new Map<number, string>(rows.map(row => [row.id, row.name]));
+  }
+
+  async getCatalogHealth(sellerId: number, from: Date, to: Date): Promise<CatalogHealth> {
+    const db = await this.db();
+    const [[active], [pending], changes, [qc]] = await Promise.all([
+      db
+        .select({ value: count() })
+        .from(products)
+        .where(and(eq(products.sellerId, sellerId), isNull(products.removedAt))),
+      db
+        .select({ value: count() })
+        .from(products)
+        .where(and(eq(products.sellerId, sellerId), isNotNull(products.removedAt))),
+      db
+        .select({ type: catalogChangeEvents.type, value: count() })
+        .from(catalogChangeEvents)
+        .where(
+          and(
+            eq(catalogChangeEvents.sellerId, sellerId),
+            gte(catalogChangeEvents.detectedAt, from),
+            lt(catalogChangeEvents.detectedAt, to)
+          )
+        )
+        .groupBy(catalogChangeEvents.type),
+      db
+        .select({
+          approved: sum(catalogSyncLogs.productsApproved),
+          rejected: sum(catalogSyncLogs.productsRejected),
+          flagged: sum(catalogSyncLogs.productsFlagged),
+        })
+        .from(catalogSyncLogs)
+        .where(
+          and(
+            eq(catalogSyncLogs.sellerId, sellerId),
+            gte(catalogSyncLogs.startedAt, from),
+            lt(catalogSyncLogs.startedAt, to)
+          )
+        ),
+    ]);
+
+    const changed = (type: string) => changes.find((row: { type: string }) => row.type === type)?.value ?? 0;
+    return {
+      activeListings: active.value,
+      listingsAdded: changed("added"),
+      deadLinksRemoved: changed("removed"),
+      pendingPurge: pending.value,
+      priceChanges: changed("price_changed"),
+      qcApproved: Number(qc?.approved ?? 0),
+      qcRejected: Number(qc?.rejected ?? 0),
+      qcFlagged: Number(qc?.flagged ?? 0),
+    };
+  }
+
+  async findReport(sellerId: number, periodStart: Date, trigger: ReportTrigger): Promise<SellerReport | null> {
+    const db = await this.db();
+    const [report] = await db
+      .select()
+      .from(sellerReports)
+      .where(
+        and(
+          eq(sellerReports.sellerId, sellerId),
+          eq(sellerReports.periodStart, periodStart),
+          eq(sellerReports.trigger, trigger)
+        )
+      )
+      .orderBy(desc(sellerReports.createdAt))
+      .limit(1);
+    return report ?? null;
+  }
+
+  async insertReport(report: InsertSellerReport): Promise<SellerReport> {
+    const db = await this.db();
+    const [row] = await db.insert(sellerReports).values(report).$returningId();
+    const [inserted] = await db.select().from(sellerReports).where(eq(sellerReports.id, row.id)).limit(1);
+    return inserted;
+  }
+
+  async notifySeller(report: SellerReport, title: string, message: string): Promise<number> {
+    const db = await this.db();
+    return db.transaction(async (tx: any) => {
+      const [notification] = await tx
+        .insert(sellerNotifications)
+        .values({
+          sellerId: report.sellerId,
+          type: "report_ready",
+          title,
+          message,
+          data: JSON.stringify({ reportId: report.id, csvUrl: report.csvUrl, pdfUrl: report.pdfUrl }),
+          read: false,
+        })
+        .$returningId();
+      await tx
+        .update(sellerReports)
+        .set({ notificationId: notification.id })
+        .where(eq(sellerReports.id, report.id));
+      return notification.id;
+    });
+  }
+
+  async listReports(sellerId: number, limit: number): Promise<SellerReport[]> {
+    const db = await this.db();
+    return db
+      .select()
+      .from(sellerReports)
+      .where(eq(sellerReports.sellerId, sellerId))
+      .orderBy(desc(sellerReports.createdAt))
+      .limit(limit);
+  }
+}
+
+export class SellerReportNotFoundError extends Error {
+  constructor(sellerId: number) {
+    super(`Seller ${sellerId} not found`);
+    this.name = "SellerReportNotFoundError";
+  }
+}
+
+export interface WeeklyRunResult {
+  period: { from: Date; to: Date };
+  generated: number;
+  skipped: number; // Already had this week's report
+  failed: number;
+}
+
+type Upload = (key: string, data: Buffer | string, contentType: string) => Promise<{ key: string; url: string }>;
+
+export interface SellerReportServiceOptions {
+  store?: SellerReportStore;
+  rollups?: Pick<AnalyticsRollupService, "getRangeMetrics" | "getDailySeries">;
+  funnel?: Pick<FunnelEngine, "getFunnel">;
+  upload?: Upload;
+}
+
+export class SellerReportService {
+  private store: SellerReportStore;
+  private rollups: Pick<AnalyticsRollupService, "getRangeMetrics" | "getDailySeries">;
+  private funnel: Pick<FunnelEngine, "getFunnel">;
+  private upload: Upload;
+
+  constructor(options: SellerReportServiceOptions = {}) {
+    this.store = options.store ?? new DrizzleSellerReportStore();
+    this.rollups = options.rollups ?? analyticsRollupService;
+    this.funnel = options.funnel ?? funnelEngine;
+    this.upload = options.upload ?? storagePut;
+  }
+
+  /**
+   * Gather everything the report shows for the period ending before `now`
+   */
+  async buildReport(seller: { id: number; storeName: string }, now: Date = new Date()): Promise<SellerReportData> {
+    const period = reportPeriod(now);
+    const previousFrom = new Date(period.from.getTime() - REPORT_PERIOD_DAYS * DAY_MS);
+
+    const [current, previous, funnel, catalog, history] = await Promise.all([
+      this.rollups.getRangeMetrics(seller.id, period.from, period.to),
+      this.rollups.getRangeMetrics(seller.id, previousFrom, period.from),
+      this.funnel.getFunnel({ sellerId: seller.id, from: period.from, to: period.to }),
+      this.store.getCatalogHealth(seller.id, period.from, period.to),
+      this.rollups.getDailySeries(seller.id, FORECAST_HISTORY_DAYS, period.to),
+    ]);
+
+    const productIds = current.topProducts.map(p => Number(p.productId));
+    const names = await this.store.getProductNames(productIds);
+
+    return {
+      seller,
+      period,
+      generatedAt: now,
+      current: reportMetrics(current),
+      previous: reportMetrics(previous),
+      topProducts: current.topProducts.map(p => ({
+        productId: Number(p.productId),
+        name: names.get(Number(p.productId)) ?? `Product ${p.productId}`,
+        impressions: p.impressions,
+        clicks: p.clicks,
+        ctr: p.ctr,
+        conversions: p.conversions,
+      })),
+      funnel: funnel.steps,
+      catalog,
+      forecast: AnalyticsEngine.predictFutureMetrics(history, FORECAST_DAYS),
+    };
+  }
+
+  /**
+   * Build, render and upload a report, and record it. Scheduled reports also
+   * notify the seller.
+   */
+  async generate(sellerId: number, trigger: ReportTrigger, now: Date = new Date()): Promise<SellerReport> {
+    const seller = await this.store.getSeller(sellerId);
+    if (!seller) {
+      throw new SellerReportNotFoundError(sellerId);
+    }
+
+    const period = reportPeriod(now);
+    if (trigger === "on_demand") {
+      const recent = await this.store.findReport(sellerId, period.from, trigger);
+      if (recent && now.getTime() - new Date(recent.createdAt).getTime() < ON_DEMAND_REUSE_MS) return recent;
+    }
+
+    const data = await this.buildReport(seller, now);
+    // Unguessable names: storage URLs are shared in notifications
+    const base = `reports/seller-${sellerId}/${period.from.toISOString().slice(0, 10)}-${trigger}-${randomBytes(8).toString("hex")}`;
+    const [csv, pdf] = await Promise.all([
+      this.upload(`${base}.csv`, renderReportCsv(data), "text/csv; charset=utf-8"),
+      this.upload(`${base}.pdf`, renderReportPdf(data), "application/pdf"),
+    ]);
+
+    const summary: ReportSummary = {
+      revenue: data.current.revenue,
+      previousRevenue: data.previous.revenue,
+      conversions: data.current.conversions,
+      clicks: data.current.clicks,
+    };
+    const report = await this.store.insertReport({
+      sellerId,
+      trigger,
+      periodStart: period.from,
+      periodEnd: period.to,
+      csvKey: csv.key,
+      csvUrl: csv.url,
+      pdfKey: pdf.key,
+      pdfUrl: pdf.url,
+      summary: JSON.stringify(summary),
+    });
+
+    if (trigger === "scheduled") {
+      const notificationId = await this.store.notifySeller(
+        report,
+        `Your weekly report is ready (${periodLabel(period)})`,
+        `${kes(summary.revenue)} revenue from ${summary.conversions} conversions (${change(summary.revenue, summary.previousRevenue)} on the week before). Download the PDF or CSV from your dashboard.`
+      );
+      return { ...report, notificationId };
+    }
+    return report;
+  }
+
+  /**
+   * Weekly job: one scheduled report per seller for the week just closed.
+   * Sellers that already have it (a rerun) are skipped; one failure doesn't stop the rest.
+   */
+  async runWeekly(now: Date = new Date()): Promise<WeeklyRunResult> {
+    const period = reportPeriod(now);
+    const result: WeeklyRunResult = { period, generated: 0, skipped: 0, failed: 0 };
+
+    for (const seller of await this.store.listSellers()) {
+      try {
+        if (await this.store.findReport(seller.id, period.from, "scheduled")) {
+          result.skipped++;
+          continue;
+        }
+        await this.generate(seller.id, "scheduled", now);
+        result.generated++;
+      } catch (error) {
+        result.failed++;
+        console.error(`[Reports] Failed to generate weekly report for seller ${seller.id}:`, error);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * A seller's reports, newest first
+   */
+  async list(sellerId: number, limit = 20): Promise<SellerReportListItem[]> {
+    const reports = await this.store.listReports(sellerId, limit);
+    return reports.map(report => {
+      let summary: ReportSummary | null = null;
+      try {
+        summary = report.summary ? JSON.parse(report.summary) : null;
+      } catch {
+        summary = null;
+      }
+      return { ...report, summary };
+    });
+  }
+}
+
+export const sellerReportService = new SellerReportService();
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import type { Product } from "../../drizzle/schema";
+import { SearchIndex } from "./search-index";
+import { reciprocalRankFusion, SemanticSearchService } from "./semantic-search";
+import { HnswVectorIndex } from "./vector-index-hnsw";
+import { productVector } from "./vector-index";
+
+const product = (id: number, name: string, description = "") =>
+  ({ id, sellerId: 1, categoryId: 1, name, description, priceAmount: 1000, removedAt: null }) as Product;
+
+const catalog = [
+  product(1, "Red dress", "Cotton, size 10"),
+  product(2, "Kitenge maxi", "Wax print, fits size 12"),
+  product(3, "Leather sandals", "Handmade"),
+  product(4, "Dress shoes", "Black leather"),
+];
+
+/** Unit vector at the given cosine similarity to the query [1, 0, 0] */
+const at = (similarity: number) => [similarity, Math.sqrt(1 - similarity * similarity), 0];
+
+async function setup(embedText: (query: string) => Promise<number[]> = async () => [1, 0, 0]) {
+  const lexicalIndex = new SearchIndex<Product>();
+  catalog.forEach(p => lexicalIndex.upsert(p));
+
+  const index = new HnswVectorIndex();
+  await index.upsert([
+    productVector(catalog[1], at(0.3)),
+    productVector(catalog[0], at(0.2)),
+    productVector({ id: 9, sellerId: 1, categoryId: 1, priceAmount: 1000 }, at(0.25)), // Vector but no live listing
+    productVector(catalog[2], at(0.01)), // Below the noise floor
+  ]);
+
+  return new SemanticSearchService({
+    lexical: {
+      search: async (query, options) => lexicalIndex.search(query, options),
+      getProducts: async ids => ids.map(id => lexicalIndex.get(id)).filter((p): p is Product => !!p),
+    },
+    embedText,
+    index,
+  });
+}
+
+describe("reciprocal rank fusion", () => {
+  it("sums weighted reciprocal ranks across signals", () => {
+    const fused = reciprocalRankFusion({ lexical: [1, 2], semantic: [2, 3] }, { lexical: 1, semantic: 2 }, 60);
+    expect(fused.map(f => f.productId)).toEqual([2, 3, 1]);
+    expect(fused[0]).toEqual({ productId: 2, score: 1 / 62 + 2 / 61, ranks: { lexical: 2, semantic: 1 } });
+    expect(fused[2]).toEqual({ productId: 1, score: 1 / 61, ranks: { lexical: 1 } });
+  });
+
+  it("ignores signals without weight", () => {
+    const fused = reciprocalRankFusion({ lexical: [1], semantic: [2] }, { lexical: 1, semantic: 0 });
+    expect(fused.map(f => f.productId)).toEqual([1]);
+  });
+});
+
+describe("semantic search", () => {
+  it("blends keyword and text-to-image matches and reports what surfaced each hit", async () => {
+    const service = await setup();
+    const { total, hits } = await service.search("red dress");
+
+    expect(total).toBe(3);
+    expect(hits.map(h => h.product.id)).toEqual([1, 2, 4]);
+    expect(hits[0].matchedBy).toEqual(["lexical", "semantic"]);
+    expect(hits[0].signals.semantic).toEqual({ rank: 3, similarity: expect.closeTo(0.2, 5) });
+    expect(hits[1].matchedBy).toEqual(["semantic"]);
+    expect(hits[2]).toMatchObject({ matchedBy: ["lexical"], signals: { lexical: { rank: 2 } } });
+  });
+
+  it("lets the weights decide between the signals", async () => {
+    const service = await setup();
+    const keywordLeaning = await service.search("red dress", { weights: { semantic: 0.5 } });
+    expect(keywordLeaning.hits.map(h => h.product.id)).toEqual([1, 4, 2]);
+
+    const lexicalOnly = await service.search("red dress", { weights: { semantic: 0 }, limit: 1, offset: 1 });
+    expect(lexicalOnly).toMatchObject({ total: 2, hits: [{ product: { id: 4 }, matchedBy: ["lexical"] }] });
+
+    const imageOnly = await service.search("red dress", { weights: { lexical: 0 } });
+    expect(imageOnly.hits.map(h => h.product.id)).toEqual([2, 1]);
+  });
+
+  it("falls back to keyword matches when the text model is unavailable", async () => {
+    const service = await setup(async () => {
+      throw new Error("HF down");
+    });
+    const { hits } = await service.search("kitenge");
+    expect(hits.map(h => [h.product.id, h.matchedBy])).toEqual([[2, ["lexical"]]]);
+  });
+});
@@ -0,0 +1,177 @@
+import type { Product } from "../../drizzle/schema";
+import { productSearch, type SearchHit } from "./search-index";
+import { RealSigLIPEmbeddings } from "./siglip-real";
+import { imageVectorIndex, type VectorIndex, type VectorMatch } from "./vector-index";
+
+/**
+ * Semantic Search
+ *
+ * "red ankara dress for wedding" rarely shares words with a listing called
+ * "Kitenge maxi, size 12". SigLIP embeds text and images into one space, so
+ * the query is embedded with the text tower and matched against the
+ * catalog's image vectors, next to the BM25F lexical index. The two
+ * rankings are merged with weighted reciprocal rank fusion:
+ *
+ *   score(product) = Σ weight(signal) / (RRF_K + rank(signal, product))
+ *
+ * Ranks are fused rather than scores because BM25 scores and cosine
+ * similarities live on different scales. Every hit reports the signals that
+ * surfaced it. When the text model is unavailable the search degrades to
+ * lexical results instead of failing.
+ */
+
+export type SearchSignal = "lexical" | "semantic";
+
+export type FusionWeights = Record<SearchSignal, number>;
+
+export const DEFAULT_FUSION_WEIGHTS: FusionWeights = { lexical: 1, semantic: 1 };
+/** Damping constant from the original RRF paper; flattens the head of each ranking */
+const RRF_K = 60;
+/** Candidates taken from each signal before fusing */
+const CANDIDATES = 100;
+/** Text-to-image cosine similarities run low; below this the match is noise */
+const DEFAULT_MIN_SIMILARITY = 0.05;
+
+export interface FusedRank {
+  productId: number;
+  score: number;
+  /** 1-based rank in each signal that returned the product */
+  ranks: Partial<Record<SearchSignal, number>>;
+}
+
+/**
+ * Weighted reciprocal rank fusion of per-signal rankings (best first).
+ * Ties go to the lower product id so pages are stable.
+ */
+export function reciprocalRankFusion(
+  rankings: Partial<Record<SearchSignal, number[]>>,
+  weights: FusionWeights,
+  k: number = RRF_K
+): FusedRank[] {
+  const fused = new Map<number, FusedRank>();
+  for (const signal of Object.keys(rankings) as SearchSignal[]) {
+    const weight = weights[signal];
+    if (!(weight > 0)) continue;
+    rankings[signal]!.forEach((productId, index) => {
+      let entry = fused.get(productId);
+      if (!entry) {
+        entry = { productId, score: 0, ranks: {} };
+        fused.set(productId, entry);
+      }
+      if (entry.ranks[signal] !== undefined) return; // Duplicate in one ranking: keep the better rank
+      entry.ranks[signal] = index + 1;
+      entry.score += weight / (k + index + 1);
+    });
+  }
+  return Array.from(fused.values()).sort((a, b) => b.score - a.score || a.productId - b.productId);
+}
+
+export interface SemanticSearchHit {
+  product: Product;
+  /** Fused RRF score */
+  score: number;
+  matchedBy: SearchSignal[];
+  signals: {
+    lexical?: { rank: number; score: number }; // BM25F
+    semantic?: { rank: number; similarity: number }; // Cosine, text to image
+  };
+}
+
+export interface SemanticSearchPage {
+  total: number;
+  hits: SemanticSearchHit[];
+}
+
+export interface SemanticSearchRequest {
+  limit?: number;
+  offset?: number;
+  weights?: Partial<FusionWeights>;
+}
+
+export interface SemanticSearchOptions {
+  lexical?: Pick<typeof productSearch, "search" | "getProducts">;
+  embedText?: (query: string) => Promise<number[]>;
+  index?: Pick<VectorIndex, "search">;
+  weights?: FusionWeights;
+  minSimilarity?: number;
+}
+
+export class SemanticSearchService {
+  private lexical: NonNullable<SemanticSearchOptions["lexical"]>;
+  private embedText: NonNullable<SemanticSearchOptions["embedText"]>;
+  private index: Pick<VectorIndex, "search">;
+  private weights: FusionWeights;
+  private minSimilarity: number;
+
+  constructor(options: SemanticSearchOptions = {}) {
+    this.lexical = options.lexical ?? productSearch;
+    this.embedText = options.embedText ?? (query => RealSigLIPEmbeddings.embedText(query));
+    this.index = options.index ?? imageVectorIndex;
+    this.weights = options.weights ?? DEFAULT_FUSION_WEIGHTS;
+    this.minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+  }
+
+  /**
+   * Lexical and text-to-image matches fused into one ranked page
+   */
+  async search(query: string, request: SemanticSearchRequest = {}): Promise<SemanticSearchPage> {
+    const { limit = 20, offset = 0 } = request;
+    const weights = { ...this.weights, ...request.weights };
+    const depth = Math.max(CANDIDATES, offset + limit);
+
+    // A signal with no weight can't move the ranking, so it isn't queried
+    const [lexical, semantic] = await Promise.all([
+      weights.lexical > 0
+        ? this.lexical.search(query, { limit: depth }).then(page => page.hits)
+        : Promise.resolve([] as SearchHit<Product>[]),
+      weights.semantic > 0 ? this.semanticMatches(query, depth) : Promise.resolve([] as VectorMatch[]),
+    ]);
+
+    const fused = reciprocalRankFusion(
+      { lexical: lexical.map(hit => hit.product.id), semantic: semantic.map(match => match.productId) },
+      weights
+    );
+
+    // Lexical hits carry their product; semantic-only hits are looked up, which also drops removed listings
+    const products = new Map(lexical.map(hit => [hit.product.id, hit.product]));
+    const missing = fused.filter(entry => !products.has(entry.productId)).map(entry => entry.productId);
+    for (const product of missing.length > 0 ? await this.lexical.getProducts(missing) : []) {
+      products.set(product.id, product);
+    }
+
+    const hits = fused
+      .filter(entry => products.has(entry.productId))
+      .map(entry => {
+        const signals: SemanticSearchHit["signals"] = {};
+        if (entry.ranks.lexical !== undefined) {
+          signals.lexical = { rank: entry.ranks.lexical, score: lexical[entry.ranks.lexical - 1].score };
+        }
+        if (entry.ranks.semantic !== undefined) {
+          signals.semantic = { rank: entry.ranks.semantic, similarity: semantic[entry.ranks.semantic - 1].similarity };
+        }
+        return {
+          product: products.get(entry.productId)!,
+          score: entry.score,
+          matchedBy: Object.keys(signals) as SearchSignal[],
+          signals,
+        };
+      });
+
+    return { total: hits.length, hits: hits.slice(offset, offset + limit) };
+  }
+
+  private async semanticMatches(query: string, k: number): Promise<VectorMatch[]> {
+    if (!query.trim()) return [];
+
+    try {
+      const matches = await this.index.search(await this.embedText(query), k);
+      return matches.filter(match => match.similarity >= this.minSimilarity);
+    } catch (error) {
+      console.warn("[SemanticSearch] Semantic matching unavailable, using lexical results only:", error);
+      return [];
+    }
+  }
+}
+
+// Singleton instance
+export const semanticSearch = new SemanticSearchService();
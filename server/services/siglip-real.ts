@@ -17,6 +17,14 @@ export interface EmbeddingOptions {
   normalize?: boolean; // Default: true
 }
 
+export interface ProductEmbeddingSet {
+  imageEmbedding: number[];
+  textEmbedding: number[];
+  hybridEmbedding: number[];
+}
+
+const SIGLIP_MODEL_URL = "https://api-inference.huggingface.co/models/google/siglip-base-patch16-224";
+
 export class RealSigLIPEmbeddings {
   private static readonly EMBEDDING_DIMENSION = 768;
   private static readonly DEFAULT_IMAGE_WEIGHT = 0.6;
@@ -69,6 +77,20 @@ export class RealSigLIPEmbeddings {
     imageUrl: string,
     options: EmbeddingOptions = {}
   ): Promise<number[]> {
+    const { hybridEmbedding } = await this.generateEmbeddingSet(productName, description, imageUrl, options);
+    return hybridEmbedding;
+  }
+
+  /**
+   * Generate the image, text and hybrid embeddings together
+   * (the three vectors persisted in product_embeddings)
+   */
+  static async generateEmbeddingSet(
+    productName: string,
+    description: string,
+    imageUrl: string,
+    options: EmbeddingOptions = {}
+  ): Promise<ProductEmbeddingSet> {
     const {
       imageWeight = this.DEFAULT_IMAGE_WEIGHT,
       textWeight = this.DEFAULT_TEXT_WEIGHT,
@@ -93,11 +115,11 @@ export class RealSigLIPEmbeddings {
       }
 
       // Normalize to unit vector
-      if (normalize) {
-        return this.normalizeVector(hybridEmbedding);
-      }
-
-      return hybridEmbedding;
+      return {
+        imageEmbedding,
+        textEmbedding,
+        hybridEmbedding: normalize ? this.normalizeVector(hybridEmbedding) : hybridEmbedding,
+      };
     } catch (error) {
       console.error("[SigLIP] Error generating embeddings:", error);
       throw error;
@@ -117,7 +139,7 @@ export class RealSigLIPEmbeddings {
       if (hfToken && hfToken !== "your_hugging_face_token_here") {
         try {
           const response = await axios.post(
-            "https://api-inference.huggingface.co/models/google/siglip-base-patch16-224",
+            SIGLIP_MODEL_URL,
             { inputs: { image: imageUrl } },
             {
               headers: { Authorization: `Bearer ${hfToken}` },
@@ -143,6 +165,52 @@ export class RealSigLIPEmbeddings {
     }
   }
 
+  /**
+   * Embed uploaded image bytes with the SigLIP image tower (visual search).
+   * The bytes go straight from memory to the model; unlike catalog images
+   * there is no URL to fall back on, so this throws when the model is unavailable.
+   */
+  static async embedImage(image: Buffer, contentType: string = "image/jpeg"): Promise<number[]> {
+    const hfToken = ENV.hfToken;
+    if (!hfToken || hfToken === "your_hugging_face_token_here") {
+      throw new Error("SigLIP image model is not configured (HF_TOKEN)");
+    }
+
+    const response = await axios.post(SIGLIP_MODEL_URL, image, {
+      headers: { Authorization: `Bearer ${hfToken}`, "Content-Type": contentType },
+      timeout: 10000,
+    });
+    if (!Array.isArray(response.data) || response.data.length !== this.EMBEDDING_DIMENSION) {
+      throw new Error("SigLIP returned an unexpected image embedding");
+    }
+
+    // Catalog vectors are unit length, so the query is too
+    return this.normalizeVector(response.data);
+  }
+
+  /**
+   * Embed a search query with the SigLIP text tower (semantic search).
+   * Text and images share one space, so the result is compared against
+   * stored image embeddings; throws when the model is unavailable.
+   */
+  static async embedText(query: string): Promise<number[]> {
+    const hfToken = ENV.hfToken;
+    if (!hfToken || hfToken === "your_hugging_face_token_here") {
+      throw new Error("SigLIP text model is not configured (HF_TOKEN)");
+    }
+
+    const response = await axios.post(
+      SIGLIP_MODEL_URL,
+      { inputs: query.trim() },
+      { headers: { Authorization: `Bearer ${hfToken}` }, timeout: 10000 }
+    );
+    if (!Array.isArray(response.data) || response.data.length !== this.EMBEDDING_DIMENSION) {
+      throw new Error("SigLIP returned an unexpected text embedding");
+    }
+
+    return this.normalizeVector(response.data);
+  }
+
   /**
    * Extract semantic features from product text
    * Handles Sheng, broken English, and minimal descriptions
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import type { Product } from "../../drizzle/schema";
+import { SimilarProductsService } from "./similar-products";
+import { HnswVectorIndex } from "./vector-index-hnsw";
+import { productVector } from "./vector-index";
+
+const product = (id: number, sellerId: number, priceAmount: number | null, removed = false) =>
+  ({ id, sellerId, categoryId: 1, name: `Product ${id}`, price: String(priceAmount), priceAmount, removedAt: removed ? new Date() : null }) as Product;
+
+/** Unit vector at the given cosine similarity to the source vector [1, 0, 0] */
+const at = (similarity: number) => [similarity, Math.sqrt(1 - similarity * similarity), 0];
+
+const catalog: Array<[Product, number]> = [
+  [product(1, 1, 2000), 1],
+  [product(2, 1, 2000), 0.99], // Same seller relisting the same item
+  [product(3, 1, 2500), 0.93],
+  [product(4, 2, 2200), 0.95],
+  [product(5, 2, 2100), 0.94],
+  [product(6, 2, 2300), 0.92],
+  [product(7, 3, 1900), 0.9],
+  [product(8, 4, 3000, true), 0.96], // Removed since it was indexed
+  [product(9, 5, 1500), 0.6], // Cheaper but far down the ranking
+  [product(10, 6, 1000), 0.3], // Cheapest, but not similar
+];
+
+async function setup(options: { indexed?: boolean } = {}) {
+  const index = new HnswVectorIndex();
+  await index.upsert(
+    catalog.filter(([p]) => options.indexed !== false || p.id !== 1).map(([p, similarity]) => productVector(p, at(similarity)))
+  );
+
+  return new SimilarProductsService({
+    index,
+    store: {
+      getProduct: async id => catalog.find(([p]) => p.id === id)?.[0] ?? null,
+      getStoredVector: async id => (id === 1 ? at(1) : null),
+      getProducts: async ids => catalog.map(([p]) => p).filter(p => ids.includes(p.id) && !p.removedAt),
+    },
+  });
+}
+
+describe("similar products", () => {
+  it("drops the seller's near-duplicates and spreads the rail across sellers", async () => {
+    const service = await setup();
+    const { items } = await service.getSimilar(1, 4);
+
+    // Seller 2 leads, seller 3 beats seller 2's second item, and the source seller only gets one slot
+    expect(items.map(p => p.id)).toEqual([4, 7, 5, 3]);
+    expect(items[0].similarity).toBeCloseTo(0.95, 5);
+    expect(items.map(p => p.id)).not.toContain(2);
+    expect(items.map(p => p.id)).not.toContain(8);
+  });
+
+  it("finds a cheaper option in a lower price band", async () => {
+    const service = await setup();
+    const { items, cheaperOption } = await service.getSimilar(1, 10);
+
+    expect(cheaperOption).toMatchObject({ id: 9, priceAmount: 1500 });
+    expect(items.map(p => p.id)).not.toContain(9);
+    expect(items.map(p => p.id)).not.toContain(10);
+  });
+
+  it("falls back to the stored embedding and handles unknown products", async () => {
+    const service = await setup({ indexed: false });
+    expect((await service.getSimilar(1, 1)).items.map(p => p.id)).toEqual([4]);
+    expect(await service.getSimilar(404)).toEqual({ items: [], cheaperOption: null });
+  });
+});
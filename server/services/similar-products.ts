@@ -0,0 +1,184 @@
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { getDb } from "../db";
+import { productEmbeddings, products, type Product } from "../../drizzle/schema";
+import { vectorIndex, type VectorIndex, type VectorMatch } from "./vector-index";
+
+/**
+ * Similar Items ("more like this" on the product page)
+ *
+ * The product's stored SigLIP hybrid vector (0.6 image / 0.4 text, so both
+ * visual and semantic) is the query for a kNN over the vector index. The raw
+ * neighbours are mostly the same seller's relistings and colour variants,
+ * so the rail is shaped before it is shown:
+ * - the seller's own near-duplicates of the product are dropped
+ * - each further pick from an already-shown seller costs a little similarity,
+ *   and no seller gets more than MAX_PER_SELLER slots
+ * - a "cheaper option" is searched for separately, inside a lower price band,
+ *   so there is one even when the nearest neighbours all cost more
+ */
+
+/** Cosine similarity below which an item isn't similar enough to show */
+const DEFAULT_MIN_SIMILARITY = 0.5;
+/** At or above this, a listing from the same seller is the same item */
+const NEAR_DUPLICATE_SIMILARITY = 0.97;
+/** Neighbours fetched before filtering and diversifying */
+const CANDIDATES = 60;
+const MAX_PER_SELLER = 2;
+/** Similarity given up per item already picked from the same seller */
+const SELLER_REPEAT_PENALTY = 0.05;
+/** The cheaper option costs at most this share of the product's price */
+const CHEAPER_PRICE_RATIO = 0.85;
+
+export interface SimilarProduct extends Product {
+  similarity: number;
+}
+
+export interface SimilarProductsResult {
+  items: SimilarProduct[];
+  cheaperOption: SimilarProduct | null;
+}
+
+export interface SimilarProductsStore {
+  getProduct(productId: number): Promise<Product | null>;
+  /** Hybrid vector from product_embeddings, for products missing from the index */
+  getStoredVector(productId: number): Promise<number[] | null>;
+  /** Live products among `ids`, in any order */
+  getProducts(ids: number[]): Promise<Product[]>;
+}
+
+export class DrizzleSimilarProductsStore implements SimilarProductsStore {
+  private async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db;
+  }
+
+  async getProduct(productId: number): Promise<Product | null> {
+    const db = await this.db();
+    const [product] = await db.select().from(products).where(eq(products.id, productId)).limit(1);
+    return product ?? null;
+  }
+
+  async getStoredVector(productId: number): Promise<number[] | null> {
+    const db = await this.db();
+    const [row] = await db
+      .select({ hybridEmbedding: productEmbeddings.hybridEmbedding })
+      .from(productEmbeddings)
+      .where(eq(productEmbeddings.productId, productId))
+      .limit(1);
+    return row ? JSON.parse(row.hybridEmbedding) : null;
+  }
+
+  async getProducts(ids: number[]): Promise<Product[]> {
+    const db = await this.db();
+    return db
+      .select()
+      .from(products)
+      .where(and(inArray(products.id, ids), isNull(products.removedAt)));
+  }
+}
+
+export interface SimilarProductsOptions {
+  store?: SimilarProductsStore;
+  index?: Pick<VectorIndex, "search" | "getVector">;
+  minSimilarity?: number;
+}
+
+export class SimilarProductsService {
+  private store: SimilarProductsStore;
+  private index: Pick<VectorIndex, "search" | "getVector">;
+  private minSimilarity: number;
+
+  constructor(options: SimilarProductsOptions = {}) {
+    this.store = options.store ?? new DrizzleSimilarProductsStore();
+    this.index = options.index ?? vectorIndex;
+    this.minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+  }
+
+  /**
+   * Diversified similar items for a product, plus a cheaper alternative
+   */
+  async getSimilar(productId: number, limit: number = 10): Promise<SimilarProductsResult> {
+    const empty: SimilarProductsResult = { items: [], cheaperOption: null };
+    const source = await this.store.getProduct(productId);
+    if (!source || source.removedAt) return empty;
+
+    const vector = (await this.index.getVector(productId)) ?? (await this.store.getStoredVector(productId));
+    if (!vector) return empty;
+
+    const cheaperBelow = source.priceAmount ? Math.floor(source.priceAmount * CHEAPER_PRICE_RATIO) : null;
+    const [neighbours, cheaperNeighbours] = await Promise.all([
+      this.index.search(vector, CANDIDATES, { excludeProductIds: [productId] }),
+      cheaperBelow !== null
+        ? this.index.search(vector, CANDIDATES, { excludeProductIds: [productId], maxPrice: cheaperBelow })
+        : Promise.resolve([] as VectorMatch[]),
+    ]);
+
+    const similarity = new Map<number, number>();
+    for (const match of [...neighbours, ...cheaperNeighbours]) {
+      if (match.similarity >= this.minSimilarity) similarity.set(match.productId, match.similarity);
+    }
+    if (similarity.size === 0) return empty;
+
+    // The index's copy of prices can lag, so the price band is re-checked on the live rows
+    const candidates = (await this.store.getProducts(Array.from(similarity.keys())))
+      .filter(product => !(product.sellerId === source.sellerId && similarity.get(product.id)! >= NEAR_DUPLICATE_SIMILARITY))
+      .map(product => ({ ...product, similarity: similarity.get(product.id)! }))
+      .sort((a, b) => b.similarity - a.similarity || a.id - b.id);
+
+    const cheaperOption =
+      cheaperBelow !== null
+        ? candidates.find(product => product.priceAmount !== null && product.priceAmount <= cheaperBelow) ?? null
+        : null;
+
+    return {
+      items: diversifyBySeller(
+        candidates.filter(product => product.id !== cheaperOption?.id),
+        limit,
+        source.sellerId
+      ),
+      cheaperOption,
+    };
+  }
+}
+
+/**
+ * Greedy pick by similarity minus a penalty per item already taken from the
+ * same seller. The product's own seller starts with one "taken" slot, so its
+ * other listings don't crowd the rail.
+ */
+export function diversifyBySeller(
+  candidates: SimilarProduct[],
+  limit: number,
+  sourceSellerId?: number
+): SimilarProduct[] {
+  const taken = new Map<number, number>();
+  if (sourceSellerId !== undefined) taken.set(sourceSellerId, 1);
+
+  const remaining = [...candidates];
+  const picked: SimilarProduct[] = [];
+  while (picked.length < limit) {
+    let best = -1;
+    let bestScore = -Infinity;
+    remaining.forEach((product, i) => {
+      const count = taken.get(product.sellerId) ?? 0;
+      if (count >= MAX_PER_SELLER) return;
+      const score = product.similarity - SELLER_REPEAT_PENALTY * count;
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    if (best < 0) break;
+
+    const [product] = remaining.splice(best, 1);
+    taken.set(product.sellerId, (taken.get(product.sellerId) ?? 0) + 1);
+    picked.push(product);
+  }
+  return picked;
+}
+
+// Singleton instance
+export const similarProducts = new SimilarProductsService();
@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import type { InsertAnalyticsClickEvent, InsertAnalyticsImpressionEvent } from "../../drizzle/schema";
+import { AnalyticsEventService, type AnalyticsEventStore } from "./analytics-event-store";
+import {
+  signBeaconToken,
+  summarizeFlagCounts,
+  TrafficQualityFilter,
+  userAgentFlags,
+  verifyBeaconToken,
+  type ScreenedEvent,
+} from "./traffic-quality";
+
+const SECRET = "test-secret";
+const BROWSER = "Mozilla/5.0 (Linux; Android 13; SM-A135F) AppleWebKit/537.36 Chrome/124.0 Mobile Safari/537.36";
+const now = new Date("2026-03-01T10:00:00Z");
+
+function filter(limits = {}) {
+  return new TrafficQualityFilter({ secret: SECRET, requireSignature: true, limits });
+}
+
+function click(sessionId: string, offsetMs: number, userId = "v_1"): ScreenedEvent {
+  return { type: "click", userId, sessionId, occurredAt: new Date(now.getTime() + offsetMs) };
+}
+
+describe("traffic quality", () => {
+  it("signs beacon tokens and rejects forged, expired or re-bound ones", () => {
+    const token = signBeaconToken("v_abc", new Date(now.getTime() + 60_000), SECRET);
+    expect(verifyBeaconToken(token, SECRET, now)).toBe("v_abc");
+    expect(verifyBeaconToken(token, "other-secret", now)).toBeNull();
+    expect(verifyBeaconToken(token, SECRET, new Date(now.getTime() + 120_000))).toBeNull();
+    expect(verifyBeaconToken(token.replace("v_abc", "v_xyz"), SECRET, now)).toBeNull();
+    expect(verifyBeaconToken("garbage", SECRET, now)).toBeNull();
+  });
+
+  it("flags bots, unsigned beacons and tokens issued to another visitor", () => {
+    expect(userAgentFlags(BROWSER)).toEqual([]);
+    expect(userAgentFlags("python-requests/2.31")).toEqual(["bot_user_agent"]);
+    expect(userAgentFlags("Mozilla/5.0 (compatible; Googlebot/2.1)")).toEqual(["bot_user_agent"]);
+    expect(userAgentFlags(undefined)).toEqual(["missing_user_agent"]);
+
+    const quality = filter();
+    const { token } = quality.issueToken("v_1", "1.1.1.1", now)!;
+    const [clean, mismatched] = quality.assess(
+      [click("s1", 0), click("s2", 0, "v_2")],
+      { ip: "1.1.1.1", userAgent: BROWSER, token },
+      now
+    );
+    expect(clean).toEqual([]);
+    expect(mismatched).toEqual(["visitor_mismatch"]);
+
+    const [unsigned] = quality.assess([click("s3", 0)], { ip: "1.1.1.1", userAgent: "curl/8.4.0" }, now);
+    expect(unsigned).toEqual(["bot_user_agent", "unsigned"]);
+  });
+
+  it("rate-limits per IP and session, and catches impossibly fast clicks", () => {
+    const quality = filter({ eventsPerIp: 5, clicksPerSession: 3 });
+    const context = { ip: "2.2.2.2", userAgent: BROWSER, token: quality.issueToken("v_1", "9.9.9.9", now)!.token };
+
+    const flags = quality.assess(
+      [click("s1", 0), click("s1", 2000), click("s1", 2100), click("s1", 5000), click("s2", 0), click("s2", 9000)],
+      context,
+      now
+    );
+    expect(flags).toEqual([
+      [],
+      [],
+      ["impossible_velocity"],
+      ["click_rate"],
+      [],
+      ["ip_rate"],
+    ]);
+
+    // The next minute starts clean
+    const [later] = quality.assess([click("s1", 70_000)], context, new Date(now.getTime() + 60_000));
+    expect(later).toEqual([]);
+  });
+
+  it("stores flagged beacons and leaves them out of reads unless asked", async () => {
+    const clicks: InsertAnalyticsClickEvent[] = [];
+    const impressions: InsertAnalyticsImpressionEvent[] = [];
+    const visible = <T extends { flags?: string | null }>(rows: T[], includeFlagged?: boolean) =>
+      rows.filter(row => includeFlagged || !row.flags) as any[];
+    const store = {
+      appendClicks: async (rows: InsertAnalyticsClickEvent[]) => void clicks.push(...rows),
+      appendImpressions: async (rows: InsertAnalyticsImpressionEvent[]) => void impressions.push(...rows),
+      getClicks: async (query: { includeFlagged?: boolean }) => visible(clicks, query.includeFlagged),
+      getImpressions: async (query: { includeFlagged?: boolean }) => visible(impressions, query.includeFlagged),
+      getConversions: async () => [],
+      getInteractions: async () => [],
+    } as unknown as AnalyticsEventStore;
+
+    const quality = filter();
+    const events = new AnalyticsEventService({ store, quality, retention: { rawRetentionDays: 90, hourlyRollupRetentionDays: 35, dailyRollupRetentionDays: 730 } });
+    const beacon = { productId: 10, sellerId: 1, userId: "v_1", sessionId: "s1", source: "search", position: 0, timestamp: now };
+    const { token } = quality.issueToken("v_1", "3.3.3.3", now)!;
+
+    await events.ingestBatch(
+      [{ type: "impression", ...beacon }, { type: "click", eventId: "click-aaaa", ...beacon }],
+      now,
+      { ip: "3.3.3.3", userAgent: BROWSER, token }
+    );
+    await events.ingestBatch([{ type: "click", eventId: "click-bbbb", ...beacon, sessionId: "s2" }], now, { ip: "4.4.4.4", userAgent: "Scrapy/2.11" });
+    // Internal callers without a request context aren't screened
+    await events.ingestBatch([{ type: "click", eventId: "click-cccc", ...beacon }], now);
+
+    expect(clicks.map(row => row.flags ?? null)).toEqual([null, "bot_user_agent,unsigned", null]);
+
+    const range = { sellerId: 1, from: new Date(now.getTime() - 60_000), to: new Date(now.getTime() + 60_000) };
+    expect((await events.getEvents(range)).clicks.map(c => c.id)).toEqual(["click-aaaa", "click-cccc"]);
+    expect((await events.getEvents({ ...range, includeFlagged: true })).clicks).toHaveLength(3);
+  });
+
+  it("summarizes flagged counts by reason and seller", () => {
+    const summary = summarizeFlagCounts([
+      { type: "clicks", sellerId: 1, flags: null, count: 90 },
+      { type: "clicks", sellerId: 1, flags: "bot_user_agent,unsigned", count: 10 },
+      { type: "impressions", sellerId: 2, flags: "unsigned", count: 5 },
+      { type: "impressions", sellerId: 2, flags: null, count: 45 },
+    ]);
+
+    expect(summary.totals.clicks).toEqual({ total: 100, flagged: 10 });
+    expect(summary.totals.impressions).toEqual({ total: 50, flagged: 5 });
+    expect(summary.byReason).toEqual([
+      { reason: "unsigned", count: 15 },
+      { reason: "bot_user_agent", count: 10 },
+    ]);
+    expect(summary.bySeller).toEqual([
+      { sellerId: 1, total: 100, flagged: 10 },
+      { sellerId: 2, total: 50, flagged: 5 },
+    ]);
+  });
+});
@@ -0,0 +1,395 @@
+import { createHmac, timingSafeEqual } from "node:crypto";
+import { and, count, desc, gte, isNotNull, lt } from "drizzle-orm";
+import { getDb } from "../db";
+import {
+  analyticsClickEvents,
+  analyticsConversionEvents,
+  analyticsImpressionEvents,
+  analyticsInteractionEvents,
+} from "../../drizzle/schema";
+import { ENV } from "../_core/env";
+
+/**
+ * Traffic Quality
+ *
+ * Anyone can post beacons and leads with whatever sellerId/userId they like,
+ * so each event is screened before it is stored: per-IP and per-session rate
+ * limits, user-agent heuristics, clicks closer together than a person can
+ * manage, and an HMAC-signed token that binds a batch to the visitor it
+ * claims to come from. The tracker fetches the token from
+ * GET /api/analytics/token and sends it in the body, since sendBeacon can't
+ * set headers.
+ *
+ * Nothing is dropped: events that fail a check are stored with the reasons in
+ * their `flags` column, and reads leave them out unless asked. Counters live
+ * in process memory, which is fine for a single API node; a restart just
+ * forgets the current minute.
+ */
+
+export const TRAFFIC_FLAGS = [
+  "bot_user_agent",
+  "missing_user_agent",
+  "ip_rate",
+  "session_rate",
+  "click_rate",
+  "impossible_velocity",
+  "unsigned",
+  "bad_signature",
+  "visitor_mismatch",
+] as const;
+
+export type TrafficFlag = (typeof TRAFFIC_FLAGS)[number];
+
+export const BEACON_TOKEN_TTL_MS = 24 * 60 * 60 * 1000;
+const RATE_WINDOW_MS = 60 * 1000;
+const MIN_CLICK_INTERVAL_MS = 250; // Faster than anyone taps two different cards
+const MAX_TRACKED_KEYS = 50_000;
+
+export interface TrafficLimits {
+  eventsPerIp: number; // Per minute; generous because mobile carriers NAT many phones behind one IP
+  eventsPerSession: number; // Per minute, impressions included
+  clicksPerSession: number; // Per minute, clicks and leads
+}
+
+export const DEFAULT_TRAFFIC_LIMITS: TrafficLimits = {
+  eventsPerIp: 1200,
+  eventsPerSession: 300,
+  clicksPerSession: 30,
+};
+
+const BOT_USER_AGENT =
+  /bot\b|bot\/|crawler|spider|slurp|curl\/|wget\/|python-requests|python-urllib|aiohttp|httpclient|okhttp|go-http-client|java\/|libwww|scrapy|headlesschrome|phantomjs|selenium|puppeteer|playwright|lighthouse/i;
+
+/**
+ * Where a request came from, as far as the screen is concerned
+ */
+export interface TrafficContext {
+  ip: string;
+  userAgent?: string;
+  token?: string;
+  verifiedVisitor?: string; // Visitor already proven by a server-signed link; stands in for the token
+}
+
+/**
+ * One event as screened; leads count as clicks for rate and velocity
+ */
+export interface ScreenedEvent {
+  type: "impression" | "interaction" | "click" | "conversion" | "lead";
+  userId: string;
+  sessionId: string;
+  occurredAt: Date;
+}
+
+export function trafficContext(req: any, token?: unknown): TrafficContext {
+  const userAgent = req.get?.("user-agent") ?? req.headers?.["user-agent"];
+  return {
+    ip: req.ip ?? req.socket?.remoteAddress ?? "unknown",
+    userAgent: typeof userAgent === "string" && userAgent.trim() ? userAgent : undefined,
+    token: typeof token === "string" && token ? token : undefined,
+  };
+}
+
+/**
+ * Comma-separated for the `flags` column; null when the event is clean
+ */
+export function flagsColumn(flags: TrafficFlag[]): string | null {
+  return flags.length > 0 ? flags.join(",") : null;
+}
+
+export function parseFlagsColumn(value: string | null | undefined): TrafficFlag[] {
+  return value ? (value.split(",") as TrafficFlag[]) : [];
+}
+
+export function userAgentFlags(userAgent: string | undefined): TrafficFlag[] {
+  if (!userAgent) return ["missing_user_agent"];
+  return BOT_USER_AGENT.test(userAgent) ? ["bot_user_agent"] : [];
+}
+
+function sign(payload: string, secret: string): string {
+  return createHmac("sha256", secret).update(payload).digest("base64url");
+}
+
+/**
+ * `visitorId.expiresAtSeconds.signature`
+ */
+export function signBeaconToken(visitorId: string, expiresAt: Date, secret: string): string {
+  const payload = `${visitorId}.${Math.floor(expiresAt.getTime() / 1000)}`;
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * The visitor a token was issued to, or null if it is forged, malformed or expired
+ */
+export function verifyBeaconToken(token: string, secret: string, now: Date): string | null {
+  const sigAt = token.lastIndexOf(".");
+  const expAt = token.lastIndexOf(".", sigAt - 1);
+  if (sigAt <= 0 || expAt <= 0) return null;
+
+  const payload = token.slice(0, sigAt);
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(token.slice(sigAt + 1));
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  const expiresAt = Number(token.slice(expAt + 1, sigAt)) * 1000;
+  if (!Number.isFinite(expiresAt) || expiresAt <= now.getTime()) return null;
+  return token.slice(0, expAt);
+}
+
+/**
+ * Fixed one-minute windows keyed by IP or session
+ */
+class WindowCounter {
+  private counts = new Map<string, { window: number; count: number }>();
+
+  hit(key: string, at: number): number {
+    const window = Math.floor(at / RATE_WINDOW_MS);
+    const current = this.counts.get(key);
+    if (current && current.window === window) {
+      return ++current.count;
+    }
+    if (this.counts.size >= MAX_TRACKED_KEYS) this.prune(window);
+    this.counts.set(key, { window, count: 1 });
+    return 1;
+  }
+
+  private prune(window: number) {
+    for (const [key, value] of this.counts) {
+      if (value.window < window) this.counts.delete(key);
+    }
+  }
+}
+
+export interface TrafficQualityOptions {
+  secret?: string;
+  requireSignature?: boolean;
+  limits?: Partial<TrafficLimits>;
+}
+
+export class TrafficQualityFilter {
+  private secret: string;
+  private requireSignature: boolean;
+  private limits: TrafficLimits;
+  private ipEvents = new WindowCounter();
+  private sessionEvents = new WindowCounter();
+  private sessionClicks = new WindowCounter();
+  private lastClick = new Map<string, number>();
+
+  constructor(options: TrafficQualityOptions = {}) {
+    this.secret = options.secret ?? ENV.cookieSecret;
+    this.requireSignature = options.requireSignature ?? ENV.analyticsRequireSignedBeacons;
+    this.limits = { ...DEFAULT_TRAFFIC_LIMITS, ...options.limits };
+  }
+
+  /**
+   * A beacon token for a visitor, or null when the IP is already over its limit
+   */
+  issueToken(visitorId: string, ip: string, now: Date = new Date()): { token: string; expiresAt: Date } | null {
+    if (this.ipEvents.hit(ip, now.getTime()) > this.limits.eventsPerIp) return null;
+    const expiresAt = new Date(now.getTime() + BEACON_TOKEN_TTL_MS);
+    return { token: signBeaconToken(visitorId, expiresAt, this.secret), expiresAt };
+  }
+
+  /**
+   * Flags for each event of one request, in order. Counts every event,
+   * flagged or not, so a flood stays over the limit.
+   */
+  assess(events: ScreenedEvent[], context: TrafficContext, now: Date = new Date()): TrafficFlag[][] {
+    const requestFlags = userAgentFlags(context.userAgent);
+    let tokenVisitor: string | null = null;
+    if (context.verifiedVisitor) {
+      tokenVisitor = context.verifiedVisitor;
+    } else if (context.token) {
+      tokenVisitor = verifyBeaconToken(context.token, this.secret, now);
+      if (!tokenVisitor) requestFlags.push("bad_signature");
+    } else if (this.requireSignature) {
+      requestFlags.push("unsigned");
+    }
+
+    const at = now.getTime();
+    return events.map(event => {
+      const flags = [...requestFlags];
+      if (tokenVisitor && event.userId !== tokenVisitor) flags.push("visitor_mismatch");
+
+      if (this.ipEvents.hit(context.ip, at) > this.limits.eventsPerIp) flags.push("ip_rate");
+      if (this.sessionEvents.hit(event.sessionId, at) > this.limits.eventsPerSession) flags.push("session_rate");
+
+      if (event.type === "click" || event.type === "lead") {
+        if (this.sessionClicks.hit(event.sessionId, at) > this.limits.clicksPerSession) flags.push("click_rate");
+
+        const clickedAt = event.occurredAt.getTime();
+        const previous = this.lastClick.get(event.sessionId);
+        if (previous !== undefined && Math.abs(clickedAt - previous) < MIN_CLICK_INTERVAL_MS) {
+          flags.push("impossible_velocity");
+        }
+        if (this.lastClick.size >= MAX_TRACKED_KEYS) this.pruneClicks(at);
+        this.lastClick.set(event.sessionId, clickedAt);
+      }
+      return flags;
+    });
+  }
+
+  private pruneClicks(at: number) {
+    for (const [sessionId, clickedAt] of this.lastClick) {
+      if (at - clickedAt > RATE_WINDOW_MS) this.lastClick.delete(sessionId);
+    }
+  }
+}
+
+export const trafficQuality = new TrafficQualityFilter();
+
+export type TrafficEventType = "impressions" | "interactions" | "clicks" | "conversions";
+
+export interface FlagCountRow {
+  type: TrafficEventType;
+  sellerId: number;
+  flags: string | null;
+  count: number;
+}
+
+export interface FlaggedEventRow {
+  type: TrafficEventType;
+  eventId: string;
+  sellerId: number;
+  productId: number;
+  userId: string;
+  sessionId: string | null;
+  flags: string;
+  occurredAt: Date;
+}
+
+/**
+ * Reads behind the admin traffic-quality view (drizzle-backed by default)
+ */
+export interface TrafficQualityStore {
+  countByFlags(from: Date, to: Date): Promise<FlagCountRow[]>;
+  recentFlagged(from: Date, to: Date, limit: number): Promise<FlaggedEventRow[]>;
+}
+
+const EVENT_TABLES = {
+  impressions: analyticsImpressionEvents,
+  interactions: analyticsInteractionEvents,
+  clicks: analyticsClickEvents,
+  conversions: analyticsConversionEvents,
+} as const;
+
+export class DrizzleTrafficQualityStore implements TrafficQualityStore {
+  private async db() {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db;
+  }
+
+  async countByFlags(from: Date, to: Date): Promise<FlagCountRow[]> {
+    const db = await this.db();
+    const results = await Promise.all(
+      (Object.keys(EVENT_TABLES) as TrafficEventType[]).map(async type => {
+        const table: any = EVENT_TABLES[type];
+        const rows = await db
+          .select({ sellerId: table.sellerId, flags: table.flags, count: count() })
+          .from(table)
+          .where(and(gte(table.occurredAt, from), lt(table.occurredAt, to)))
+          .groupBy(table.sellerId, table.flags);
+        return rows.map((row: any) => ({ type, sellerId: row.sellerId, flags: row.flags, count: row.count }));
+      })
+    );
+    return results.flat();
+  }
+
+  async recentFlagged(from: Date, to: Date, limit: number): Promise<FlaggedEventRow[]> {
+    const db = await this.db();
+    const results = await Promise.all(
+      (Object.keys(EVENT_TABLES) as TrafficEventType[]).map(async type => {
+        const table: any = EVENT_TABLES[type];
+        const rows = await db
+          .select({
+            eventId: table.eventId,
+            sellerId: table.sellerId,
+            productId: table.productId,
+            userId: table.userId,
+            sessionId: table.sessionId,
+            flags: table.flags,
+            occurredAt: table.occurredAt,
+          })
+          .from(table)
+          .where(and(gte(table.occurredAt, from), lt(table.occurredAt, to), isNotNull(table.flags)))
+          .orderBy(desc(table.occurredAt))
+          .limit(limit);
+        return rows.map((row: any) => ({ type, ...row }));
+      })
+    );
+    return results
+      .flat()
+      .sort((a, b) => new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime())
+      .slice(0, limit);
+  }
+}
+
+export interface TrafficQualityReport {
+  from: Date;
+  to: Date;
+  totals: Record<TrafficEventType, { total: number; flagged: number }>;
+  byReason: Array<{ reason: TrafficFlag; count: number }>;
+  bySeller: Array<{ sellerId: number; total: number; flagged: number }>;
+  recent: Array<Omit<FlaggedEventRow, "flags"> & { flags: TrafficFlag[] }>;
+}
+
+/**
+ * Tally flag rows into the admin report. Pure - no I/O.
+ */
+export function summarizeFlagCounts(rows: FlagCountRow[], sellerLimit = 10): Omit<TrafficQualityReport, "from" | "to" | "recent"> {
+  const totals: TrafficQualityReport["totals"] = {
+    impressions: { total: 0, flagged: 0 },
+    interactions: { total: 0, flagged: 0 },
+    clicks: { total: 0, flagged: 0 },
+    conversions: { total: 0, flagged: 0 },
+  };
+  const reasons = new Map<TrafficFlag, number>();
+  const sellers = new Map<number, { sellerId: number; total: number; flagged: number }>();
+
+  for (const row of rows) {
+    const flagged = row.flags ? row.count : 0;
+    totals[row.type].total += row.count;
+    totals[row.type].flagged += flagged;
+
+    const seller = sellers.get(row.sellerId) ?? { sellerId: row.sellerId, total: 0, flagged: 0 };
+    seller.total += row.count;
+    seller.flagged += flagged;
+    sellers.set(row.sellerId, seller);
+
+    for (const reason of parseFlagsColumn(row.flags)) {
+      reasons.set(reason, (reasons.get(reason) ?? 0) + row.count);
+    }
+  }
+
+  return {
+    totals,
+    byReason: Array.from(reasons.entries())
+      .map(([reason, value]) => ({ reason, count: value }))
+      .sort((a, b) => b.count - a.count),
+    bySeller: Array.from(sellers.values())
+      .filter(s => s.flagged > 0)
+      .sort((a, b) => b.flagged - a.flagged)
+      .slice(0, sellerLimit),
+  };
+}
+
+export class TrafficQualityReportService {
+  constructor(private store: TrafficQualityStore = new DrizzleTrafficQualityStore()) {}
+
+  async getReport(from: Date, to: Date, sampleSize = 25): Promise<TrafficQualityReport> {
+    const [counts, recent] = await Promise.all([
+      this.store.countByFlags(from, to),
+      this.store.recentFlagged(from, to, sampleSize),
+    ]);
+    return {
+      from,
+      to,
+      ...summarizeFlagCounts(counts),
+      recent: recent.map(row => ({ ...row, flags: parseFlagsColumn(row.flags) })),
+    };
+  }
+}
+
+export const trafficQualityReports = new TrafficQualityReportService();
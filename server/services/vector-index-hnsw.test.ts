@@ -0,0 +1,109 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, describe, expect, it } from "vitest";
+import { HnswVectorIndex } from "./vector-index-hnsw";
+import type { VectorRecord } from "./vector-index";
+
+// Seeded so graph layout and recall are reproducible
+function mulberry32(seed: number) {
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function randomRecords(count: number, dimension: number, random: () => number): VectorRecord[] {
+  return Array.from({ length: count }, (_, i) => ({
+    productId: i + 1,
+    sellerId: (i % 7) + 1,
+    categoryId: (i % 5) + 1,
+    price: i % 11 === 0 ? null : 100 * (i % 50),
+    vector: Array.from({ length: dimension }, () => random() - 0.5),
+  }));
+}
+
+function exactTopK(records: VectorRecord[], query: number[], k: number): number[] {
+  const norm = (v: number[]) => Math.sqrt(v.reduce((sum, x) => sum + x * x, 0));
+  const cosine = (a: number[], b: number[]) => a.reduce((sum, x, i) => sum + x * b[i], 0) / (norm(a) * norm(b));
+  return records
+    .map(r => ({ id: r.productId, similarity: cosine(query, r.vector) }))
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, k)
+    .map(r => r.id);
+}
+
+let tempDir: string | null = null;
+
+afterEach(async () => {
+  if (tempDir) await rm(tempDir, { recursive: true, force: true });
+  tempDir = null;
+});
+
+describe("HNSW vector index", () => {
+  it("finds nearly the same neighbours as an exact scan", async () => {
+    const random = mulberry32(7);
+    const records = randomRecords(800, 24, random);
+    const index = new HnswVectorIndex({ random });
+    await index.upsert(records);
+
+    let found = 0;
+    for (let q = 0; q < 20; q++) {
+      const query = Array.from({ length: 24 }, () => random() - 0.5);
+      const expected = new Set(exactTopK(records, query, 10));
+      const matches = await index.search(query, 10);
+      expect(matches.map(m => m.similarity)).toEqual([...matches.map(m => m.similarity)].sort((a, b) => b - a));
+      found += matches.filter(m => expected.has(m.productId)).length;
+    }
+    expect(found / 200).toBeGreaterThanOrEqual(0.95);
+  });
+
+  it("filters by seller, category and price, and honours upserts and deletes", async () => {
+    const random = mulberry32(11);
+    const records = randomRecords(300, 16, random);
+    const index = new HnswVectorIndex({ random });
+    await index.upsert(records);
+    const query = records[41].vector;
+
+    const inCategory = await index.search(query, 5, { categoryId: 2, maxPrice: 2500 });
+    const eligible = records.filter(r => r.categoryId === 2 && r.price !== null && r.price <= 2500);
+    expect(inCategory.map(m => m.productId)).toEqual(exactTopK(eligible, query, 5));
+
+    expect((await index.search(query, 1))[0].productId).toBe(42);
+    expect((await index.search(query, 3, { excludeProductIds: [42] })).map(m => m.productId)).not.toContain(42);
+
+    // Moving product 42 far away and deleting 43 both show up immediately
+    const opposite = query.map(x => -x);
+    await index.upsert([{ ...records[41], vector: opposite }]);
+    await index.delete([43]);
+    expect((await index.search(query, 300)).map(m => m.productId)).not.toContain(43);
+    expect((await index.search(query, 1))[0].productId).not.toBe(42);
+    expect(await index.search(opposite, 1)).toEqual([{ productId: 42, similarity: expect.closeTo(1, 5) }]);
+    expect(await index.stats()).toEqual({ backend: "hnsw", vectors: 299, dimension: 16 });
+
+    await expect(index.upsert([{ ...records[0], vector: [1, 2, 3] }])).rejects.toThrow(/dimensions/);
+  });
+
+  it("saves to disk and loads the same graph back", async () => {
+    tempDir = await mkdtemp(join(tmpdir(), "hnsw-"));
+    const path = join(tempDir, "nested", "index.json");
+    const random = mulberry32(3);
+    const records = randomRecords(200, 12, random);
+
+    const index = new HnswVectorIndex({ path, random });
+    await index.upsert(records);
+    await index.delete([5]);
+    await index.flush();
+
+    const reloaded = new HnswVectorIndex({ path });
+    const query = records[9].vector;
+    expect(await reloaded.search(query, 10)).toEqual(await index.search(query, 10));
+    expect(await reloaded.getVector(5)).toBeNull();
+    expect(await reloaded.stats()).toEqual({ backend: "hnsw", vectors: 199, dimension: 12 });
+
+    // A missing file is just an empty index
+    expect(await new HnswVectorIndex({ path: join(tempDir, "none.json") }).search(query, 3)).toEqual([]);
+  });
+});
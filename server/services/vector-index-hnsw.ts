@@ -0,0 +1,374 @@
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+import type { VectorFilter, VectorIndex, VectorIndexStats, VectorMatch, VectorMetadata, VectorRecord } from "./vector-index";
+
+/**
+ * Local HNSW Vector Index
+ *
+ * In-process Hierarchical Navigable Small World graph (Malkov & Yashunin)
+ * over unit-length vectors, so similarity is a dot product. Used when
+ * Milvus isn't configured: dev, tests and small deployments.
+ *
+ * - Upserts replace a product's node; the old node stays as a tombstone
+ *   (still walkable, never returned) until tombstones pass a quarter of
+ *   the graph and it is rebuilt
+ * - Filtered kNN scans the matching vectors exactly when the filter is
+ *   selective, otherwise widens the beam by the filter's selectivity
+ * - With a `path`, the graph is saved as JSON a moment after each change
+ *   (write to temp, then rename) and loaded on first use
+ */
+
+const FILE_VERSION = 1;
+/** Filters matching at most this many vectors are answered by exact scan */
+const EXACT_SCAN_MAX = 2048;
+const COMPACT_MIN_NODES = 64;
+const COMPACT_TOMBSTONE_RATIO = 0.25;
+
+export interface HnswOptions {
+  path?: string; // Save file; memory-only without one
+  M?: number; // Links per node per layer (twice that on layer 0)
+  efConstruction?: number;
+  efSearch?: number;
+  saveDelayMs?: number;
+  random?: () => number;
+}
+
+interface HnswNode extends VectorMetadata {
+  productId: number;
+  vector: Float32Array;
+  level: number;
+  neighbors: number[][]; // Node ids per layer, 0..level
+  deleted: boolean;
+}
+
+interface Candidate {
+  id: number;
+  similarity: number;
+}
+
+interface SavedNode extends VectorMetadata {
+  productId: number;
+  vector: string; // base64 Float32Array
+  level: number;
+  neighbors: number[][];
+  deleted: boolean;
+}
+
+interface SavedIndex {
+  version: number;
+  dimension: number | null;
+  entry: number;
+  nodes: SavedNode[];
+}
+
+function normalize(vector: number[]): Float32Array {
+  const unit = Float32Array.from(vector);
+  let magnitude = 0;
+  for (const v of unit) magnitude += v * v;
+  magnitude = Math.sqrt(magnitude);
+  if (magnitude > 0) {
+    for (let i = 0; i < unit.length; i++) unit[i] /= magnitude;
+  }
+  return unit;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/** Keep `list` sorted most similar first */
+function insertSorted(list: Candidate[], candidate: Candidate): void {
+  let at = list.length;
+  while (at > 0 && list[at - 1].similarity < candidate.similarity) at--;
+  list.splice(at, 0, candidate);
+}
+
+export function matchesFilter(metadata: VectorMetadata & { productId: number }, filter: VectorFilter): boolean {
+  if (filter.sellerId !== undefined && metadata.sellerId !== filter.sellerId) return false;
+  if (filter.categoryId !== undefined && metadata.categoryId !== filter.categoryId) return false;
+  if (filter.minPrice !== undefined && (metadata.price === null || metadata.price < filter.minPrice)) return false;
+  if (filter.maxPrice !== undefined && (metadata.price === null || metadata.price > filter.maxPrice)) return false;
+  if (filter.excludeProductIds?.includes(metadata.productId)) return false;
+  return true;
+}
+
+export class HnswVectorIndex implements VectorIndex {
+  private nodes: HnswNode[] = [];
+  private byProduct = new Map<number, number>();
+  private entry = -1;
+  private dimension: number | null = null;
+  private tombstones = 0;
+
+  private readonly path?: string;
+  private readonly M: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly saveDelayMs: number;
+  private readonly random: () => number;
+  private readonly levelFactor: number;
+
+  private loaded: Promise<void> | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: HnswOptions = {}) {
+    this.path = options.path;
+    this.M = options.M ?? 16;
+    this.efConstruction = options.efConstruction ?? 200;
+    this.efSearch = options.efSearch ?? 64;
+    this.saveDelayMs = options.saveDelayMs ?? 1000;
+    this.random = options.random ?? Math.random;
+    this.levelFactor = 1 / Math.log(this.M);
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    await this.load();
+    for (const record of records) {
+      if (this.dimension === null) {
+        this.dimension = record.vector.length;
+      } else if (record.vector.length !== this.dimension) {
+        throw new Error(`Vector for product ${record.productId} has ${record.vector.length} dimensions, index has ${this.dimension}`);
+      }
+      this.retire(record.productId);
+      this.insert({ ...record, vector: normalize(record.vector), level: this.randomLevel(), neighbors: [], deleted: false });
+    }
+    this.compactIfNeeded();
+    this.scheduleSave();
+  }
+
+  async delete(productIds: number[]): Promise<void> {
+    await this.load();
+    for (const productId of productIds) this.retire(productId);
+    this.compactIfNeeded();
+    this.scheduleSave();
+  }
+
+  async search(query: number[], k: number, filter: VectorFilter = {}): Promise<VectorMatch[]> {
+    await this.load();
+    if (this.entry < 0 || k <= 0) return [];
+    if (query.length !== this.dimension) {
+      throw new Error(`Query has ${query.length} dimensions, index has ${this.dimension}`);
+    }
+
+    const q = normalize(query);
+    const live = this.nodes.length - this.tombstones;
+    const accepts = (node: HnswNode) => !node.deleted && matchesFilter(node, filter);
+
+    let ef = Math.max(this.efSearch, k + (filter.excludeProductIds?.length ?? 0));
+    const restricts =
+      filter.sellerId !== undefined || filter.categoryId !== undefined || filter.minPrice !== undefined || filter.maxPrice !== undefined;
+    if (restricts) {
+      const matching = this.nodes.filter(accepts);
+      if (matching.length <= EXACT_SCAN_MAX) {
+        return matching
+          .map(node => ({ productId: node.productId, similarity: dot(q, node.vector) }))
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, k);
+      }
+      ef = Math.min(this.nodes.length, Math.ceil((ef * live) / matching.length));
+    }
+
+    let entry: Candidate[] = [{ id: this.entry, similarity: dot(q, this.nodes[this.entry].vector) }];
+    for (let layer = this.nodes[this.entry].level; layer > 0; layer--) {
+      entry = this.searchLayer(q, entry, 1, layer);
+    }
+    return this.searchLayer(q, entry, ef, 0)
+      .filter(c => accepts(this.nodes[c.id]))
+      .slice(0, k)
+      .map(c => ({ productId: this.nodes[c.id].productId, similarity: c.similarity }));
+  }
+
+  async getVector(productId: number): Promise<number[] | null> {
+    await this.load();
+    const id = this.byProduct.get(productId);
+    return id === undefined ? null : Array.from(this.nodes[id].vector);
+  }
+
+  async stats(): Promise<VectorIndexStats> {
+    await this.load();
+    return { backend: "hnsw", vectors: this.byProduct.size, dimension: this.dimension };
+  }
+
+  /**
+   * Write pending changes now (tests, shutdown)
+   */
+  async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    if (!this.path) return;
+
+    const saved: SavedIndex = {
+      version: FILE_VERSION,
+      dimension: this.dimension,
+      entry: this.entry,
+      nodes: this.nodes.map(({ vector, ...node }) => ({
+        ...node,
+        vector: Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString("base64"),
+      })),
+    };
+    await mkdir(dirname(this.path), { recursive: true });
+    const temp = `${this.path}.tmp`;
+    await writeFile(temp, JSON.stringify(saved));
+    await rename(temp, this.path);
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.path ? this.readFile(this.path) : Promise.resolve();
+    }
+    return this.loaded;
+  }
+
+  private async readFile(path: string): Promise<void> {
+    let saved: SavedIndex;
+    try {
+      saved = JSON.parse(await readFile(path, "utf8"));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") {
+        console.warn(`[VectorIndex] Could not read ${path}, starting empty:`, error);
+      }
+      return;
+    }
+    if (saved.version !== FILE_VERSION) {
+      console.warn(`[VectorIndex] ${path} has format version ${saved.version}, starting empty`);
+      return;
+    }
+
+    this.dimension = saved.dimension;
+    this.entry = saved.entry;
+    this.nodes = saved.nodes.map(node => {
+      const bytes = Buffer.from(node.vector, "base64");
+      return { ...node, vector: new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4) };
+    });
+    this.nodes.forEach((node, id) => {
+      if (node.deleted) this.tombstones++;
+      else this.byProduct.set(node.productId, id);
+    });
+  }
+
+  private scheduleSave(): void {
+    if (!this.path || this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.flush().catch(error => console.error("[VectorIndex] Failed to save local index:", error));
+    }, this.saveDelayMs);
+    this.saveTimer.unref?.();
+  }
+
+  private randomLevel(): number {
+    return Math.floor(-Math.log(1 - this.random()) * this.levelFactor);
+  }
+
+  private retire(productId: number): void {
+    const id = this.byProduct.get(productId);
+    if (id === undefined) return;
+    this.nodes[id].deleted = true;
+    this.byProduct.delete(productId);
+    this.tombstones++;
+  }
+
+  private insert(node: HnswNode): void {
+    const id = this.nodes.length;
+    node.neighbors = Array.from({ length: node.level + 1 }, () => []);
+    this.nodes.push(node);
+    this.byProduct.set(node.productId, id);
+
+    if (this.entry < 0) {
+      this.entry = id;
+      return;
+    }
+
+    const top = this.nodes[this.entry].level;
+    let entry: Candidate[] = [{ id: this.entry, similarity: dot(node.vector, this.nodes[this.entry].vector) }];
+    for (let layer = top; layer > node.level; layer--) {
+      entry = this.searchLayer(node.vector, entry, 1, layer);
+    }
+
+    for (let layer = Math.min(top, node.level); layer >= 0; layer--) {
+      const found = this.searchLayer(node.vector, entry, this.efConstruction, layer);
+      const maxLinks = layer === 0 ? this.M * 2 : this.M;
+      node.neighbors[layer] = this.selectNeighbors(found, this.M);
+
+      for (const neighborId of node.neighbors[layer]) {
+        const neighbor = this.nodes[neighborId];
+        neighbor.neighbors[layer].push(id);
+        if (neighbor.neighbors[layer].length > maxLinks) {
+          const candidates = neighbor.neighbors[layer]
+            .map(n => ({ id: n, similarity: dot(neighbor.vector, this.nodes[n].vector) }))
+            .sort((a, b) => b.similarity - a.similarity);
+          neighbor.neighbors[layer] = this.selectNeighbors(candidates, maxLinks);
+        }
+      }
+      entry = found;
+    }
+
+    if (node.level > top) this.entry = id;
+  }
+
+  /**
+   * Best-first beam search of one layer; results most similar first
+   */
+  private searchLayer(query: Float32Array, entry: Candidate[], ef: number, layer: number): Candidate[] {
+    const visited = new Set(entry.map(c => c.id));
+    const candidates = [...entry].sort((a, b) => b.similarity - a.similarity);
+    const results = [...candidates];
+
+    while (candidates.length > 0) {
+      const closest = candidates.shift()!;
+      if (results.length >= ef && closest.similarity < results[results.length - 1].similarity) break;
+
+      for (const neighborId of this.nodes[closest.id].neighbors[layer] ?? []) {
+        if (visited.has(neighborId)) continue;
+        visited.add(neighborId);
+
+        const similarity = dot(query, this.nodes[neighborId].vector);
+        if (results.length < ef || similarity > results[results.length - 1].similarity) {
+          insertSorted(candidates, { id: neighborId, similarity });
+          insertSorted(results, { id: neighborId, similarity });
+          if (results.length > ef) results.pop();
+        }
+      }
+    }
+    return results;
+  }
+
+  /**
+   * The paper's neighbour heuristic: prefer candidates closer to the base
+   * than to any neighbour already picked (keeps links spread out), then top
+   * up with the closest of the rest. `candidates` is most similar first.
+   */
+  private selectNeighbors(candidates: Candidate[], max: number): number[] {
+    const picked: Candidate[] = [];
+    const skipped: Candidate[] = [];
+    for (const candidate of candidates) {
+      if (picked.length >= max) break;
+      const vector = this.nodes[candidate.id].vector;
+      const diverse = picked.every(p => dot(vector, this.nodes[p.id].vector) < candidate.similarity);
+      (diverse ? picked : skipped).push(candidate);
+    }
+    for (const candidate of skipped) {
+      if (picked.length >= max) break;
+      picked.push(candidate);
+    }
+    return picked.map(c => c.id);
+  }
+
+  /**
+   * Rebuild the graph from live nodes once tombstones pile up
+   */
+  private compactIfNeeded(): void {
+    if (this.nodes.length < COMPACT_MIN_NODES || this.tombstones <= this.nodes.length * COMPACT_TOMBSTONE_RATIO) return;
+
+    const live = this.nodes.filter(node => !node.deleted);
+    this.nodes = [];
+    this.byProduct.clear();
+    this.entry = -1;
+    this.tombstones = 0;
+    for (const node of live) {
+      this.insert({ ...node, level: this.randomLevel(), neighbors: [] });
+    }
+    if (live.length === 0) this.dimension = null;
+  }
+}
@@ -0,0 +1,150 @@
+import { DataType, MetricType, MilvusClient } from "@zilliz/milvus2-sdk-node";
+import type { VectorFilter, VectorIndex, VectorIndexStats, VectorMatch, VectorRecord } from "./vector-index";
+
+/**
+ * Milvus Vector Index (Zilliz Cloud or self-hosted)
+ *
+ * Collection `product_vectors`: product_id (primary key), the hybrid vector
+ * in an HNSW/COSINE index, and seller_id, category_id and price scalars for
+ * filtered search. Unknown prices are stored as -1 so price filters skip them.
+ */
+
+const UNKNOWN_PRICE = -1;
+
+export interface MilvusVectorIndexOptions {
+  address: string;
+  username?: string;
+  password?: string;
+  collection?: string;
+  dimension?: number; // Only used when creating the collection
+}
+
+/**
+ * Boolean expression for a filter, e.g. "category_id == 2 && price <= 5000"
+ */
+export function milvusFilterExpr(filter: VectorFilter = {}): string {
+  const conditions: string[] = [];
+  if (filter.sellerId !== undefined) conditions.push(`seller_id == ${Math.trunc(filter.sellerId)}`);
+  if (filter.categoryId !== undefined) conditions.push(`category_id == ${Math.trunc(filter.categoryId)}`);
+  if (filter.minPrice !== undefined) conditions.push(`price >= ${Number(filter.minPrice)}`);
+  if (filter.maxPrice !== undefined) conditions.push(`price >= 0 && price <= ${Number(filter.maxPrice)}`);
+  if (filter.excludeProductIds?.length) {
+    conditions.push(`product_id not in [${filter.excludeProductIds.map(id => Math.trunc(id)).join(", ")}]`);
+  }
+  return conditions.join(" && ");
+}
+
+export class MilvusVectorIndex implements VectorIndex {
+  private readonly collection: string;
+  private readonly dimension: number;
+  private client: Promise<MilvusClient> | null = null;
+
+  constructor(private options: MilvusVectorIndexOptions) {
+    this.collection = options.collection ?? "product_vectors";
+    this.dimension = options.dimension ?? 768;
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    const client = await this.connect();
+    await client.upsert({
+      collection_name: this.collection,
+      data: records.map(record => ({
+        product_id: record.productId,
+        vector: record.vector,
+        seller_id: record.sellerId,
+        category_id: record.categoryId,
+        price: record.price ?? UNKNOWN_PRICE,
+      })),
+    });
+  }
+
+  async delete(productIds: number[]): Promise<void> {
+    if (productIds.length === 0) return;
+    const client = await this.connect();
+    await client.delete({ collection_name: this.collection, filter: `product_id in [${productIds.join(", ")}]` });
+  }
+
+  async search(query: number[], k: number, filter: VectorFilter = {}): Promise<VectorMatch[]> {
+    if (k <= 0) return [];
+    const client = await this.connect();
+    const expr = milvusFilterExpr(filter);
+    const response = await client.search({
+      collection_name: this.collection,
+      data: query,
+      limit: k,
+      filter: expr || undefined,
+      output_fields: ["product_id"],
+      metric_type: MetricType.COSINE,
+      params: { ef: Math.max(64, k) },
+    });
+
+    // One query vector: a flat list of hits
+    const hits: any[] = Array.isArray(response.results[0]) ? (response.results[0] as any[]) : response.results;
+    return hits.map(hit => ({ productId: Number(hit.product_id), similarity: hit.score }));
+  }
+
+  async getVector(productId: number): Promise<number[] | null> {
+    const client = await this.connect();
+    const response = await client.query({
+      collection_name: this.collection,
+      filter: `product_id == ${Math.trunc(productId)}`,
+      output_fields: ["vector"],
+      limit: 1,
+    });
+    return response.data[0]?.vector ?? null;
+  }
+
+  async stats(): Promise<VectorIndexStats> {
+    const client = await this.connect();
+    const stats = await client.getCollectionStatistics({ collection_name: this.collection });
+    return { backend: "milvus", vectors: Number(stats.data.row_count ?? 0), dimension: this.dimension };
+  }
+
+  private connect(): Promise<MilvusClient> {
+    if (!this.client) {
+      this.client = this.open().catch(error => {
+        this.client = null;
+        throw error;
+      });
+    }
+    return this.client;
+  }
+
+  private async open(): Promise<MilvusClient> {
+    const client = new MilvusClient({
+      address: this.options.address,
+      username: this.options.username || undefined,
+      password: this.options.password || undefined,
+      timeout: 30000,
+    });
+    const health = await client.checkHealth();
+    if (!health.isHealthy) {
+      throw new Error("Milvus health check failed");
+    }
+
+    const { value: exists } = await client.hasCollection({ collection_name: this.collection });
+    if (!exists) {
+      console.log(`[VectorIndex] Creating Milvus collection ${this.collection}`);
+      await client.createCollection({
+        collection_name: this.collection,
+        fields: [
+          { name: "product_id", data_type: DataType.Int64, is_primary_key: true, autoID: false },
+          { name: "vector", data_type: DataType.FloatVector, dim: this.dimension },
+          { name: "seller_id", data_type: DataType.Int64 },
+          { name: "category_id", data_type: DataType.Int64 },
+          { name: "price", data_type: DataType.Float },
+        ],
+      });
+      await client.createIndex({
+        collection_name: this.collection,
+        field_name: "vector",
+        index_type: "HNSW",
+        metric_type: MetricType.COSINE,
+        params: { M: 16, efConstruction: 200 },
+      });
+    }
+    await client.loadCollectionSync({ collection_name: this.collection });
+    return client;
+  }
+}
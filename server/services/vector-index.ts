@@ -0,0 +1,225 @@
+import { eq, isNull } from "drizzle-orm";
+import { getDb } from "../db";
+import { productEmbeddings, products, type Product } from "../../drizzle/schema";
+import { ENV } from "../_core/env";
+import type { ProductEmbeddingSet } from "./siglip-real";
+import { HnswVectorIndex } from "./vector-index-hnsw";
+import { MilvusVectorIndex } from "./vector-index-milvus";
+
+/**
+ * Product Vector Index
+ *
+ * The one place product vectors are stored and searched. Visual search,
+ * similar products and the catalog pipelines talk to `vectorIndex`, which
+ * picks a backend at startup:
+ * - MilvusVectorIndex when Milvus is enabled and MILVUS_ADDRESS is reachable
+ * - HnswVectorIndex otherwise: in-process, saved to VECTOR_INDEX_PATH and
+ *   seeded from the product_embeddings table when the file is missing
+ *
+ * Similarity is cosine (1 = same direction). There is one index per vector
+ * space: `vectorIndex` holds the SigLIP hybrid vectors, `imageVectorIndex`
+ * the pure image vectors that text queries are matched against (SigLIP
+ * embeds text and images into the same space). Seller, category and price
+ * travel with each vector so kNN is filtered inside the index instead of
+ * after it.
+ */
+
+export type VectorSpace = "hybrid" | "image";
+
+const SPACES: Record<VectorSpace, { collection: string; path: () => string }> = {
+  hybrid: { collection: "product_vectors", path: () => ENV.vectorIndexPath },
+  image: { collection: "product_image_vectors", path: () => ENV.imageVectorIndexPath },
+};
+
+export interface VectorMetadata {
+  sellerId: number;
+  categoryId: number;
+  price: number | null; // Whole KES (products.priceAmount)
+}
+
+export interface VectorRecord extends VectorMetadata {
+  productId: number;
+  vector: number[];
+}
+
+export interface VectorFilter {
+  sellerId?: number;
+  categoryId?: number;
+  minPrice?: number;
+  maxPrice?: number;
+  excludeProductIds?: number[];
+}
+
+export interface VectorMatch {
+  productId: number;
+  similarity: number;
+}
+
+export interface VectorIndexStats {
+  backend: "milvus" | "hnsw";
+  vectors: number;
+  dimension: number | null;
+}
+
+export interface VectorIndex {
+  /** Add or replace vectors, keyed by product */
+  upsert(records: VectorRecord[]): Promise<void>;
+  delete(productIds: number[]): Promise<void>;
+  /** Up to k nearest vectors that pass the filter, most similar first */
+  search(query: number[], k: number, filter?: VectorFilter): Promise<VectorMatch[]>;
+  /** The stored vector for a product, e.g. as the query for "more like this" */
+  getVector(productId: number): Promise<number[] | null>;
+  stats(): Promise<VectorIndexStats>;
+}
+
+/**
+ * Index record for a product's vector, carrying its filterable fields
+ */
+export function productVector(
+  product: Pick<Product, "id" | "sellerId" | "categoryId" | "priceAmount">,
+  vector: number[]
+): VectorRecord {
+  return {
+    productId: product.id,
+    sellerId: product.sellerId,
+    categoryId: product.categoryId,
+    price: product.priceAmount ?? null,
+    vector,
+  };
+}
+
+/**
+ * A failed image fetch embeds as all zeros, which would match nothing
+ */
+function isZeroVector(vector: number[]): boolean {
+  return vector.every(v => v === 0);
+}
+
+/**
+ * Vectors of live products from product_embeddings, to seed an empty local index
+ */
+async function loadStoredVectors(space: VectorSpace): Promise<VectorRecord[]> {
+  const db = await getDb();
+  if (!db) return [];
+
+  const rows = await db
+    .select({
+      id: products.id,
+      sellerId: products.sellerId,
+      categoryId: products.categoryId,
+      priceAmount: products.priceAmount,
+      embedding: space === "image" ? productEmbeddings.imageEmbedding : productEmbeddings.hybridEmbedding,
+    })
+    .from(productEmbeddings)
+    .innerJoin(products, eq(products.id, productEmbeddings.productId))
+    .where(isNull(products.removedAt));
+  return rows
+    .map((row: any) => productVector(row, JSON.parse(row.embedding)))
+    .filter(record => !isZeroVector(record.vector));
+}
+
+/**
+ * Delegates to the backend chosen on first use (or at startup via initialize)
+ */
+class ProductVectorIndex implements VectorIndex {
+  private backend: Promise<VectorIndex> | null = null;
+
+  constructor(private readonly space: VectorSpace) {}
+
+  initialize(): Promise<VectorIndex> {
+    if (!this.backend) {
+      this.backend = this.open().catch(error => {
+        this.backend = null;
+        throw error;
+      });
+    }
+    return this.backend;
+  }
+
+  private async open(): Promise<VectorIndex> {
+    if (ENV.enableMilvus && ENV.milvusAddress) {
+      const milvus = new MilvusVectorIndex({
+        address: ENV.milvusAddress,
+        username: ENV.milvusUsername,
+        password: ENV.milvusPassword,
+        collection: SPACES[this.space].collection,
+      });
+      try {
+        const { vectors } = await milvus.stats();
+        console.log(`[VectorIndex] Using Milvus for ${this.space} vectors (${vectors} vectors)`);
+        return milvus;
+      } catch (error) {
+        console.warn("[VectorIndex] Milvus unavailable, falling back to the local index:", error);
+      }
+    }
+
+    const path = SPACES[this.space].path();
+    const local = new HnswVectorIndex({ path });
+    let { vectors } = await local.stats();
+    if (vectors === 0) {
+      const stored = await loadStoredVectors(this.space);
+      if (stored.length > 0) {
+        await local.upsert(stored);
+        vectors = stored.length;
+        console.log(`[VectorIndex] Seeded local ${this.space} index from ${stored.length} stored embeddings`);
+      }
+    }
+    console.log(`[VectorIndex] Using local HNSW index at ${path} (${vectors} vectors)`);
+    return local;
+  }
+
+  async upsert(records: VectorRecord[]): Promise<void> {
+    if (records.length === 0) return;
+    return (await this.initialize()).upsert(records);
+  }
+
+  async delete(productIds: number[]): Promise<void> {
+    if (productIds.length === 0) return;
+    return (await this.initialize()).delete(productIds);
+  }
+
+  async search(query: number[], k: number, filter?: VectorFilter): Promise<VectorMatch[]> {
+    return (await this.initialize()).search(query, k, filter);
+  }
+
+  async getVector(productId: number): Promise<number[] | null> {
+    return (await this.initialize()).getVector(productId);
+  }
+
+  async stats(): Promise<VectorIndexStats> {
+    return (await this.initialize()).stats();
+  }
+}
+
+// Singleton instances
+export const vectorIndex = new ProductVectorIndex("hybrid");
+export const imageVectorIndex = new ProductVectorIndex("image");
+
+/**
+ * Open both indexes (server startup)
+ */
+export async function initializeVectorIndexes(): Promise<void> {
+  await Promise.all([vectorIndex.initialize(), imageVectorIndex.initialize()]);
+}
+
+/**
+ * Mirror a product's freshly generated embeddings into every index
+ */
+export async function indexProductEmbeddings(
+  product: Pick<Product, "id" | "sellerId" | "categoryId" | "priceAmount">,
+  embeddings: Pick<ProductEmbeddingSet, "imageEmbedding" | "hybridEmbedding">
+): Promise<void> {
+  await vectorIndex.upsert([productVector(product, embeddings.hybridEmbedding)]);
+  if (!isZeroVector(embeddings.imageEmbedding)) {
+    await imageVectorIndex.upsert([productVector(product, embeddings.imageEmbedding)]);
+  } else {
+    await imageVectorIndex.delete([product.id]);
+  }
+}
+
+/**
+ * Drop products from every index
+ */
+export async function deleteProductVectors(productIds: number[]): Promise<void> {
+  await Promise.all([vectorIndex.delete(productIds), imageVectorIndex.delete(productIds)]);
+}
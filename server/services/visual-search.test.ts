@@ -0,0 +1,93 @@
+import sharp from "sharp";
+import { describe, expect, it } from "vitest";
+import type { Product } from "../../drizzle/schema";
+import { HnswVectorIndex } from "./vector-index-hnsw";
+import { productVector, type VectorFilter } from "./vector-index";
+import { preparePhoto, VisualSearchService, type VisualSearchFilters } from "./visual-search";
+
+const product = (id: number, categoryId: number, priceAmount: number) =>
+  ({ id, sellerId: 1, categoryId, name: `Product ${id}`, price: String(priceAmount), priceAmount, removedAt: null }) as Product;
+
+const catalog = [product(1, 2, 1500), product(2, 2, 4000), product(3, 5, 900), product(4, 2, 1200)];
+
+/** Unit vector at the given cosine similarity to the query [1, 0, 0] */
+const at = (similarity: number) => [similarity, Math.sqrt(1 - similarity * similarity), 0];
+
+function photo(width = 1200, height = 800) {
+  return sharp({ create: { width, height, channels: 3, background: { r: 200, g: 120, b: 40 } } }).jpeg().toBuffer();
+}
+
+async function setup(embed: (image: Buffer) => Promise<number[]> = async () => [1, 0, 0]) {
+  const calls: { embedded: Buffer[]; searches: Array<{ k: number; filter?: VectorFilter }> } = { embedded: [], searches: [] };
+  const index = new HnswVectorIndex();
+  await index.upsert([
+    productVector(catalog[2], at(0.91)),
+    productVector(catalog[1], at(0.88)),
+    productVector({ id: 5, sellerId: 1, categoryId: 2, priceAmount: 1000 }, at(0.8)), // Vector but no live listing
+    productVector(catalog[0], at(0.74)),
+    productVector(catalog[3], at(0.62)),
+    productVector({ id: 6, sellerId: 1, categoryId: 2, priceAmount: 1000 }, at(0.3)), // Too dissimilar
+  ]);
+
+  const service = new VisualSearchService({
+    embed: async image => {
+      calls.embedded.push(image);
+      return embed(image);
+    },
+    index: {
+      search: (query, k, filter) => {
+        calls.searches.push({ k, filter });
+        return index.search(query, k, filter);
+      },
+    },
+    store: {
+      async getProducts(ids: number[], filters: VisualSearchFilters) {
+        return catalog.filter(
+          p =>
+            ids.includes(p.id) &&
+            (filters.categoryId === undefined || p.categoryId === filters.categoryId) &&
+            (filters.minPrice === undefined || p.priceAmount! >= filters.minPrice) &&
+            (filters.maxPrice === undefined || p.priceAmount! <= filters.maxPrice)
+        );
+      },
+    },
+  });
+  return { service, calls };
+}
+
+describe("visual search", () => {
+  it("ranks live products by similarity and applies category and price filters", async () => {
+    const { service, calls } = await setup();
+    const image = await photo();
+
+    const all = await service.searchByPhoto(image, {}, 10);
+    expect(all.map(r => r.id)).toEqual([3, 2, 1, 4]);
+    expect(all[0].similarity).toBeCloseTo(0.91, 5);
+
+    const filtered = await service.searchByPhoto(image, { categoryId: 2, maxPrice: 2000 }, 1);
+    expect(filtered.map(r => r.id)).toEqual([1]);
+    // Filters go to the index, over-fetched so the products check still leaves enough results
+    expect(calls.searches).toEqual([
+      { k: 20, filter: {} },
+      { k: 2, filter: { categoryId: 2, maxPrice: 2000 } },
+    ]);
+  });
+
+  it("shrinks the photo in memory before embedding it", async () => {
+    const { service, calls } = await setup();
+    await service.searchByPhoto(await photo(2400, 1600));
+
+    const sent = await sharp(calls.embedded[0]).metadata();
+    expect(sent).toMatchObject({ format: "jpeg", width: 448, height: 299 });
+  });
+
+  it("rejects unreadable photos and reports an unavailable model", async () => {
+    await expect(preparePhoto(Buffer.from("not an image"))).rejects.toMatchObject({ code: "INVALID_IMAGE" });
+    await expect(preparePhoto(Buffer.alloc(0))).rejects.toMatchObject({ code: "INVALID_IMAGE" });
+
+    const { service } = await setup(async () => {
+      throw new Error("HF down");
+    });
+    await expect(service.searchByPhoto(await photo())).rejects.toMatchObject({ code: "UNAVAILABLE" });
+  });
+});
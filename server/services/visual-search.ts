@@ -0,0 +1,145 @@
+import sharp from "sharp";
+import { and, eq, gte, inArray, isNull, lte } from "drizzle-orm";
+import { getDb } from "../db";
+import { products, type Product } from "../../drizzle/schema";
+import { RealSigLIPEmbeddings } from "./siglip-real";
+import { vectorIndex, type VectorIndex } from "./vector-index";
+
+/**
+ * Visual Search ("search by photo")
+ *
+ * A buyer snaps or picks a photo on the home page; it is decoded, oriented
+ * and shrunk in memory, embedded with the SigLIP image tower and matched
+ * against the catalog's vectors. Nothing about the upload is written to
+ * disk or the database - the buffers are dropped when the request ends.
+ *
+ * Category and price filters run inside the vector index. Its copy of
+ * prices can lag a catalog edit and it keeps soft-removed listings, so hits
+ * are over-fetched and checked against the products table before ranking.
+ */
+
+/** Largest photo the endpoint accepts (phone cameras are 3-6 MB) */
+export const MAX_PHOTO_BYTES = 8 * 1024 * 1024;
+/** SigLIP works at 224px; a little headroom keeps the centre crop sharp */
+const MODEL_INPUT_PX = 448;
+/** Hits fetched from the index per result asked for, to survive the products check */
+const OVERFETCH = 2;
+const MAX_CANDIDATES = 100;
+/** Cosine similarity below which a hit isn't shown */
+const DEFAULT_MIN_SIMILARITY = 0.5;
+
+export interface VisualSearchFilters {
+  categoryId?: number;
+  minPrice?: number; // Whole KES
+  maxPrice?: number;
+}
+
+export interface VisualSearchResult extends Product {
+  similarity: number;
+}
+
+export interface VisualSearchStore {
+  /** Live products among `ids` that pass the filters, in any order */
+  getProducts(ids: number[], filters: VisualSearchFilters): Promise<Product[]>;
+}
+
+export class DrizzleVisualSearchStore implements VisualSearchStore {
+  async getProducts(ids: number[], filters: VisualSearchFilters): Promise<Product[]> {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    return db
+      .select()
+      .from(products)
+      .where(
+        and(
+          inArray(products.id, ids),
+          isNull(products.removedAt),
+          filters.categoryId !== undefined ? eq(products.categoryId, filters.categoryId) : undefined,
+          filters.minPrice !== undefined ? gte(products.priceAmount, filters.minPrice) : undefined,
+          filters.maxPrice !== undefined ? lte(products.priceAmount, filters.maxPrice) : undefined
+        )
+      );
+  }
+}
+
+export class VisualSearchError extends Error {
+  constructor(
+    public code: "INVALID_IMAGE" | "UNAVAILABLE",
+    message: string
+  ) {
+    super(message);
+    this.name = "VisualSearchError";
+  }
+}
+
+/**
+ * Decode, apply EXIF orientation and shrink the photo to model size as JPEG.
+ * Also strips metadata (GPS etc.) before the bytes leave the server.
+ */
+export async function preparePhoto(photo: Buffer): Promise<Buffer> {
+  if (photo.length === 0 || photo.length > MAX_PHOTO_BYTES) {
+    throw new VisualSearchError("INVALID_IMAGE", "Photo is empty or larger than 8 MB");
+  }
+  try {
+    return await sharp(photo, { limitInputPixels: 50_000_000 })
+      .rotate()
+      .resize(MODEL_INPUT_PX, MODEL_INPUT_PX, { fit: "inside", withoutEnlargement: true })
+      .jpeg({ quality: 85 })
+      .toBuffer();
+  } catch {
+    throw new VisualSearchError("INVALID_IMAGE", "Could not read the photo; use a JPEG, PNG or WebP image");
+  }
+}
+
+export interface VisualSearchOptions {
+  store?: VisualSearchStore;
+  embed?: (image: Buffer) => Promise<number[]>;
+  index?: Pick<VectorIndex, "search">;
+  minSimilarity?: number;
+}
+
+export class VisualSearchService {
+  private store: VisualSearchStore;
+  private embed: NonNullable<VisualSearchOptions["embed"]>;
+  private index: Pick<VectorIndex, "search">;
+  private minSimilarity: number;
+
+  constructor(options: VisualSearchOptions = {}) {
+    this.store = options.store ?? new DrizzleVisualSearchStore();
+    this.embed = options.embed ?? (image => RealSigLIPEmbeddings.embedImage(image, "image/jpeg"));
+    this.index = options.index ?? vectorIndex;
+    this.minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
+  }
+
+  /**
+   * Products that look like the photo, most similar first
+   */
+  async searchByPhoto(photo: Buffer, filters: VisualSearchFilters = {}, limit: number = 20): Promise<VisualSearchResult[]> {
+    const image = await preparePhoto(photo);
+
+    let query: number[];
+    try {
+      query = await this.embed(image);
+    } catch (error) {
+      console.error("[VisualSearch] Embedding failed:", error);
+      throw new VisualSearchError("UNAVAILABLE", "Photo search is unavailable right now");
+    }
+
+    const hits = (await this.index.search(query, Math.min(limit * OVERFETCH, MAX_CANDIDATES), filters)).filter(
+      hit => hit.similarity >= this.minSimilarity
+    );
+    if (hits.length === 0) return [];
+
+    const similarity = new Map(hits.map(hit => [hit.productId, hit.similarity]));
+    const matches = await this.store.getProducts(Array.from(similarity.keys()), filters);
+
+    return matches
+      .map(product => ({ ...product, similarity: similarity.get(product.id)! }))
+      .sort((a, b) => b.similarity - a.similarity || a.id - b.id)
+      .slice(0, limit);
+  }
+}
+
+export const visualSearch = new VisualSearchService();
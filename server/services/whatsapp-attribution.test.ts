@@ -0,0 +1,152 @@
+import { describe, expect, it } from "vitest";
+import { LeadError, type LeadDetail, type NewLead } from "./seller-crm";
+import { TrafficQualityFilter } from "./traffic-quality";
+import {
+  chatMessage,
+  signChatToken,
+  verifyChatToken,
+  WhatsAppAttributionService,
+  type ChatLinkPayload,
+} from "./whatsapp-attribution";
+
+const secret = "test-secret";
+const now = new Date("2026-03-10T09:00:00Z");
+const payload: ChatLinkPayload = { productId: 7, visitorId: "v_abc", sessionId: "s_1", source: "search", deviceType: "mobile" };
+
+function setup() {
+  const leads: LeadDetail[] = [];
+  const conversions: any[] = [];
+  const crm = {
+    async recordLead(input: NewLead) {
+      const lead = {
+        id: leads.length + 1,
+        productName: null,
+        customerPhone: null,
+        deviceType: null,
+        referralSource: null,
+        status: "new",
+        statusChangedAt: null,
+        followUpAt: null,
+        orderId: null,
+        createdAt: now,
+        notes: [],
+        ...input,
+        sessionId: input.sessionId ?? null,
+        referenceCode: input.referenceCode ?? null,
+        flags: input.flags ?? [],
+      } as LeadDetail;
+      leads.push(lead);
+      return lead;
+    },
+    async findRecentLead(visitorId: string, productId: number, _type: string, since: Date) {
+      return leads.filter(l => l.visitorId === visitorId && l.productId === productId && l.createdAt >= since).pop() ?? null;
+    },
+    async getLeadByReference(sellerId: number, code: string) {
+      const lead = leads.find(l => l.sellerId === sellerId && l.referenceCode === code.trim().toUpperCase());
+      if (!lead) throw new LeadError("NOT_FOUND", "No lead");
+      return lead;
+    },
+    async getLead(_sellerId: number, leadId: number) {
+      return leads.find(l => l.id === leadId)!;
+    },
+    async updateStatus(_sellerId: number, leadId: number, status: LeadDetail["status"]) {
+      const lead = leads.find(l => l.id === leadId)!;
+      lead.status = status;
+      return lead;
+    },
+    async linkOrder(_sellerId: number, leadId: number, orderId: number) {
+      const lead = leads.find(l => l.id === leadId)!;
+      Object.assign(lead, { orderId, status: "converted" });
+      return lead;
+    },
+  };
+
+  const service = new WhatsAppAttributionService({
+    secret,
+    businessPhone: "254700000000",
+    crm,
+    store: {
+      async getChatTarget(productId) {
+        return productId === 7
+          ? { productId, sellerId: 3, name: "Ankara dress", price: "2,500", priceAmount: 2500, whatsappPhone: "+254 711 222 333" }
+          : null;
+      },
+    },
+    events: {
+      async trackConversion(beacon) {
+        conversions.push(beacon);
+        return beacon.eventId!;
+      },
+    },
+    quality: new TrafficQualityFilter({ secret, requireSignature: true }),
+  });
+  return { service, leads, conversions };
+}
+
+describe("WhatsApp attribution", () => {
+  it("rejects tampered chat tokens and reports expiry", () => {
+    const token = signChatToken(payload, new Date(now.getTime() + 60_000), secret);
+    expect(verifyChatToken(token, secret, now)).toEqual({ payload, expired: false });
+    expect(verifyChatToken(token, secret, new Date(now.getTime() + 120_000))?.expired).toBe(true);
+
+    const [body, signature] = token.split(".");
+    const forged = Buffer.from(JSON.stringify({ ...payload, productId: 8, exp: 9e9 })).toString("base64url");
+    expect(verifyChatToken(`${forged}.${signature}`, secret, now)).toBeNull();
+    expect(verifyChatToken(token, "other-secret", now)).toBeNull();
+    expect(verifyChatToken(body, secret, now)).toBeNull();
+  });
+
+  it("logs the chat as a lead with a reference code in the prefilled message", async () => {
+    const { service, leads } = setup();
+    const { path } = service.createLink(payload, now);
+    const token = path.replace("/go/wa/", "");
+
+    const chat = await service.openChat(token, { ip: "10.0.0.1", userAgent: "Mozilla/5.0" }, now);
+    expect(chat.referenceCode).toMatch(/^WA[A-HJ-NP-Z2-9]{6}$/);
+    expect(chat.url).toBe(
+      `https://wa.me/254711222333?text=${encodeURIComponent(chatMessage({ name: "Ankara dress", price: "2,500" }, chat.referenceCode))}`
+    );
+    expect(decodeURIComponent(chat.url)).toContain(`Ref: ${chat.referenceCode}`);
+    expect(leads[0]).toMatchObject({
+      sellerId: 3,
+      productId: 7,
+      visitorId: "v_abc",
+      sessionId: "s_1",
+      interactionType: "whatsapp_start",
+      referralSource: "search",
+      flags: [], // The signed link vouches for the visitor
+    });
+
+    // Tapping the button again soon after reuses the lead and its code
+    const again = await service.openChat(token, { ip: "10.0.0.1", userAgent: "Mozilla/5.0" }, new Date(now.getTime() + 5 * 60_000));
+    expect(again.referenceCode).toBe(chat.referenceCode);
+    expect(leads).toHaveLength(1);
+
+    // After the link expires it sends the visitor back to the product page
+    const expired = await service.openChat(token, { ip: "10.0.0.1" }, new Date(now.getTime() + 8 * 24 * 60 * 60_000));
+    expect(expired).toEqual({ url: "/product/7", leadId: null, referenceCode: null });
+    await expect(service.openChat("garbage.token", { ip: "10.0.0.1" }, now)).rejects.toMatchObject({ code: "INVALID" });
+  });
+
+  it("marks the sale by reference and records one purchase for the journey", async () => {
+    const { service, conversions } = setup();
+    const token = service.createLink(payload, now).path.replace("/go/wa/", "");
+    const { referenceCode } = await service.openChat(token, { ip: "10.0.0.1", userAgent: "Mozilla/5.0" }, now);
+
+    const sold = await service.markSold(3, ` ${referenceCode!.toLowerCase()} `, {}, now);
+    expect(sold.status).toBe("converted");
+    expect(conversions).toEqual([
+      expect.objectContaining({
+        eventId: `wa_sale_${sold.id}`,
+        productId: 7,
+        sellerId: 3,
+        userId: "v_abc",
+        sessionId: "s_1",
+        amount: 2500,
+        conversionType: "purchase",
+      }),
+    ]);
+
+    await expect(service.markSold(4, referenceCode!, {}, now)).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+});
@@ -0,0 +1,274 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
+import { eq } from "drizzle-orm";
+import { getDb } from "../db";
+import { products, sellers } from "../../drizzle/schema";
+import { ENV } from "../_core/env";
+import { analyticsEvents, CLICK_SOURCES, DEVICE_TYPES, type AnalyticsEventService } from "./analytics-event-store";
+import { LeadError, sellerCRM, type LeadDetail, type SellerCRMService } from "./seller-crm";
+import { trafficQuality, type TrafficContext, type TrafficQualityFilter } from "./traffic-quality";
+
+/**
+ * WhatsApp Click-to-Chat Attribution
+ *
+ * The product page's chat button opens /go/wa/:token instead of wa.me. The
+ * token is signed here and carries the product, visitor, session, list
+ * source and device, so the redirect can record a `whatsapp_start` lead
+ * without trusting the query string. Each chat gets a short reference code
+ * ("WA7QX4M2") that goes into the prefilled message; when the seller closes
+ * the sale on WhatsApp they enter the code to mark the lead sold, which
+ * records a purchase conversion for the visitor's journey.
+ *
+ * Chats go to the seller's WhatsApp number, or the platform business number
+ * when the seller has none on file.
+ */
+
+const CHAT_LINK_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+/** Opening the same product's chat again within this window reuses the lead and code */
+const CHAT_REUSE_MS = 30 * 60 * 1000;
+
+export const CHAT_SOURCES = [...CLICK_SOURCES, "direct"] as const;
+
+export type ChatSource = (typeof CHAT_SOURCES)[number];
+
+export interface ChatLinkPayload {
+  productId: number;
+  visitorId: string;
+  sessionId: string;
+  source: ChatSource;
+  deviceType: (typeof DEVICE_TYPES)[number];
+}
+
+function sign(payload: string, secret: string): string {
+  // Prefixed so a chat token can never pass as a beacon token or vice versa
+  return createHmac("sha256", secret).update(`wa-chat.${payload}`).digest("base64url");
+}
+
+/**
+ * `base64url(JSON payload + expiry).signature`
+ */
+export function signChatToken(payload: ChatLinkPayload, expiresAt: Date, secret: string): string {
+  const body = Buffer.from(JSON.stringify({ ...payload, exp: Math.floor(expiresAt.getTime() / 1000) })).toString("base64url");
+  return `${body}.${sign(body, secret)}`;
+}
+
+/**
+ * The payload of a genuine token, and whether it has expired; null if forged or malformed
+ */
+export function verifyChatToken(token: string, secret: string, now: Date): { payload: ChatLinkPayload; expired: boolean } | null {
+  const sigAt = token.lastIndexOf(".");
+  if (sigAt <= 0) return null;
+
+  const body = token.slice(0, sigAt);
+  const expected = Buffer.from(sign(body, secret));
+  const actual = Buffer.from(token.slice(sigAt + 1));
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const { exp, ...payload } = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+    if (!Number.isInteger(payload.productId) || typeof payload.visitorId !== "string" || !Number.isFinite(exp)) return null;
+    return { payload: payload as ChatLinkPayload, expired: exp * 1000 <= now.getTime() };
+  } catch {
+    return null;
+  }
+}
+
+// No 0/O or 1/I, as with order codes
+const REFERENCE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+/**
+ * Short chat reference for the buyer's message, e.g. "WA7QX4M2"
+ */
+export function newReferenceCode(): string {
+  const bytes = randomBytes(6);
+  return `WA${Array.from(bytes, byte => REFERENCE_ALPHABET[byte % REFERENCE_ALPHABET.length]).join("")}`;
+}
+
+export function chatMessage(product: { name: string; price: string }, referenceCode: string | null): string {
+  const lines = [`Hi! I'm interested in your product: ${product.name}`, `Price: KES ${product.price}`, "Is this available for delivery?"];
+  if (referenceCode) lines.push(`Ref: ${referenceCode}`);
+  return lines.join("\n\n");
+}
+
+export function whatsappChatUrl(phone: string, message: string): string {
+  return `${ENV.whatsappBaseUrl}/${phone.replace(/\D/g, "")}?text=${encodeURIComponent(message)}`;
+}
+
+export interface ChatTarget {
+  productId: number;
+  sellerId: number;
+  name: string;
+  price: string;
+  priceAmount: number | null;
+  whatsappPhone: string | null;
+}
+
+export interface WhatsAppAttributionStore {
+  getChatTarget(productId: number): Promise<ChatTarget | null>;
+}
+
+export class DrizzleWhatsAppAttributionStore implements WhatsAppAttributionStore {
+  async getChatTarget(productId: number): Promise<ChatTarget | null> {
+    const db = await getDb();
+    if (!db) {
+      throw new Error("Database not available");
+    }
+    const [target] = await db
+      .select({
+        productId: products.id,
+        sellerId: products.sellerId,
+        name: products.name,
+        price: products.price,
+        priceAmount: products.priceAmount,
+        whatsappPhone: sellers.whatsappPhone,
+      })
+      .from(products)
+      .leftJoin(sellers, eq(sellers.id, products.sellerId))
+      .where(eq(products.id, productId))
+      .limit(1);
+    return target ?? null;
+  }
+}
+
+export class ChatLinkError extends Error {
+  constructor(
+    public code: "INVALID" | "NOT_FOUND",
+    message: string
+  ) {
+    super(message);
+    this.name = "ChatLinkError";
+  }
+}
+
+export interface OpenedChat {
+  url: string; // Where to redirect: WhatsApp, or back to the product page for an expired link
+  leadId: number | null;
+  referenceCode: string | null;
+}
+
+export interface MarkSoldInput {
+  amount?: number; // Whole KES; defaults to the listed price
+  orderId?: number; // Link the order too, when the sale went through checkout
+}
+
+export interface WhatsAppAttributionOptions {
+  store?: WhatsAppAttributionStore;
+  crm?: Pick<SellerCRMService, "recordLead" | "findRecentLead" | "getLeadByReference" | "getLead" | "updateStatus" | "linkOrder">;
+  events?: Pick<AnalyticsEventService, "trackConversion">;
+  quality?: Pick<TrafficQualityFilter, "assess">;
+  secret?: string;
+  businessPhone?: string;
+}
+
+export class WhatsAppAttributionService {
+  private store: WhatsAppAttributionStore;
+  private crm: NonNullable<WhatsAppAttributionOptions["crm"]>;
+  private events: Pick<AnalyticsEventService, "trackConversion">;
+  private quality: Pick<TrafficQualityFilter, "assess">;
+  private secret: string;
+  private businessPhone: string;
+
+  constructor(options: WhatsAppAttributionOptions = {}) {
+    this.store = options.store ?? new DrizzleWhatsAppAttributionStore();
+    this.crm = options.crm ?? sellerCRM;
+    this.events = options.events ?? analyticsEvents;
+    this.quality = options.quality ?? trafficQuality;
+    this.secret = options.secret ?? ENV.cookieSecret;
+    this.businessPhone = options.businessPhone ?? ENV.whatsappBusinessPhone;
+  }
+
+  /**
+   * Tracked chat link for the product page's WhatsApp button
+   */
+  createLink(payload: ChatLinkPayload, now: Date = new Date()): { path: string; expiresAt: Date } {
+    const expiresAt = new Date(now.getTime() + CHAT_LINK_TTL_MS);
+    return { path: `/go/wa/${signChatToken(payload, expiresAt, this.secret)}`, expiresAt };
+  }
+
+  /**
+   * Record the chat start as a lead and build the wa.me URL with its reference
+   */
+  async openChat(token: string, context: TrafficContext, now: Date = new Date()): Promise<OpenedChat> {
+    const verified = verifyChatToken(token, this.secret, now);
+    if (!verified) {
+      throw new ChatLinkError("INVALID", "Invalid chat link");
+    }
+    const { payload, expired } = verified;
+
+    const target = await this.store.getChatTarget(payload.productId);
+    if (!target) {
+      throw new ChatLinkError("NOT_FOUND", `Product ${payload.productId} not found`);
+    }
+    // Old (probably shared) links go back to the product page, which hands out a fresh one
+    if (expired) {
+      return { url: `/product/${target.productId}`, leadId: null, referenceCode: null };
+    }
+
+    let lead = await this.crm.findRecentLead(
+      payload.visitorId,
+      target.productId,
+      "whatsapp_start",
+      new Date(now.getTime() - CHAT_REUSE_MS)
+    );
+    if (!lead?.referenceCode) {
+      const [flags] = this.quality.assess(
+        [{ type: "lead", userId: payload.visitorId, sessionId: payload.sessionId, occurredAt: now }],
+        { ...context, verifiedVisitor: payload.visitorId },
+        now
+      );
+      lead = await this.crm.recordLead({
+        sellerId: target.sellerId,
+        productId: target.productId,
+        visitorId: payload.visitorId,
+        sessionId: payload.sessionId,
+        referenceCode: newReferenceCode(),
+        interactionType: "whatsapp_start",
+        deviceType: payload.deviceType,
+        referralSource: payload.source,
+        flags,
+      });
+    }
+
+    return {
+      url: whatsappChatUrl(target.whatsappPhone || this.businessPhone, chatMessage(target, lead.referenceCode)),
+      leadId: lead.id,
+      referenceCode: lead.referenceCode,
+    };
+  }
+
+  /**
+   * Seller closed a WhatsApp sale: convert the lead with this reference and
+   * record the purchase against the visitor's journey. Repeating it is harmless.
+   */
+  async markSold(sellerId: number, referenceCode: string, input: MarkSoldInput = {}, now: Date = new Date()): Promise<LeadDetail> {
+    const lead = await this.crm.getLeadByReference(sellerId, referenceCode);
+    const amount = input.amount ?? (await this.store.getChatTarget(lead.productId))?.priceAmount;
+    if (!amount || amount <= 0) {
+      throw new LeadError("INVALID_INPUT", "Enter the sale amount; this product has no listed price");
+    }
+
+    if (input.orderId !== undefined) {
+      await this.crm.linkOrder(sellerId, lead.id, input.orderId, now);
+    } else if (lead.status !== "converted") {
+      await this.crm.updateStatus(sellerId, lead.id, "converted", `Sold on WhatsApp (ref ${lead.referenceCode})`, now);
+    }
+
+    await this.events.trackConversion(
+      {
+        eventId: `wa_sale_${lead.id}`, // One purchase per lead
+        productId: lead.productId,
+        sellerId,
+        userId: lead.visitorId,
+        sessionId: lead.sessionId ?? undefined,
+        amount,
+        currency: "KES",
+        conversionType: "purchase",
+      },
+      now
+    );
+    console.log(`[WhatsApp] Lead ${lead.id} (ref ${lead.referenceCode}) marked sold for KES ${amount}`);
+
+    return this.crm.getLead(sellerId, lead.id);
+  }
+}
+
+export const whatsAppAttribution = new WhatsAppAttributionService();
@@ -2,12 +2,14 @@ import { chromium, Browser } from "playwright";
 import axios from "axios";
 import * as cheerio from "cheerio";
 import pLimit from "p-limit";
+import { ENV } from "../_core/env";
 
 /**
  * WhatsApp Business Catalog Scraper v3 - Scout & Hydrate Pipeline
  * 
  * Phase 3 Architecture:
- * - Scout: Lightweight Playwright extraction of Product IDs from catalog
+ * - Scout: Product IDs from the catalog page - static HTML first, Playwright
+ *   only when the page needs JavaScript to render its product links
  * - Hydrator: Concurrent metadata extraction from wa.me/p/ links using Cheerio
  * - Zero-Copy: Images processed in memory, no temporary storage
  */
@@ -26,6 +28,11 @@ export interface HydrationResult {
   fetchedAt: Date;
 }
 
+export type ProductFetchOutcome =
+  | { status: "ok"; result: HydrationResult }
+  | { status: "gone" }
+  | { status: "error" };
+
 export interface ScrapedProduct {
   productId: string;
   sellerPhone: string;
@@ -77,17 +84,54 @@ export class WhatsAppScraperV3 {
 
   /**
    * SCOUT: Extract Product IDs from seller's catalog URL
-   * Fast, minimal browser interaction. Does not wait for images.
+   * Tries a plain HTTP fetch first and falls back to the browser when the
+   * static HTML has no product links.
    * 
    * @param catalogUrl WhatsApp catalog URL (e.g., wa.me/c/254712345678)
    * @returns Array of { productId, sellerPhone }
    */
   static async scout(catalogUrl: string): Promise<ScoutResult[]> {
     console.log(`[Scout] Starting product ID extraction from: ${catalogUrl}`);
-    
+
+    const staticResults = await this.scoutStatic(catalogUrl);
+    if (staticResults.length > 0) {
+      return staticResults;
+    }
+
+    return this.scoutWithBrowser(catalogUrl);
+  }
+
+  /**
+   * Scout from server-rendered HTML (no browser)
+   */
+  static async scoutStatic(catalogUrl: string): Promise<ScoutResult[]> {
+    try {
+      const response = await axios.get(catalogUrl, {
+        headers: { "User-Agent": getRandomUserAgent() },
+        timeout: 10000,
+        maxRedirects: 5,
+      });
+
+      const $ = cheerio.load(response.data);
+      const hrefs = $("a[href*='/p/']")
+        .map((_, el) => $(el).attr("href") || "")
+        .get();
+
+      const results = this.extractProductIds(catalogUrl, hrefs);
+      console.log(`[Scout] Extracted ${results.length} unique product IDs from static HTML`);
+      return results;
+    } catch (error: any) {
+      console.warn(`[Scout] Static fetch failed for ${catalogUrl}: ${error.message}`);
+      return [];
+    }
+  }
+
+  /**
+   * Scout with Playwright for catalogs rendered client-side
+   */
+  private static async scoutWithBrowser(catalogUrl: string): Promise<ScoutResult[]> {
     const browser = await this.initBrowser();
     const page: any = await browser.newPage();
-    const results: ScoutResult[] = [];
 
     try {
       // Set mobile user agent for authenticity
@@ -97,36 +141,12 @@ export class WhatsAppScraperV3 {
       console.log(`[Scout] Navigating to catalog...`);
       await page.goto(catalogUrl, { waitUntil: "domcontentloaded", timeout: 30000 });
 
-      // Extract seller phone from URL
-      const sellerPhoneMatch = catalogUrl.match(/wa\.me\/c\/(\d+)/);
-      const sellerPhone = sellerPhoneMatch ? sellerPhoneMatch[1] : "unknown";
-
-      // Extract all product IDs from links
-      // WhatsApp product links follow pattern: wa.me/p/[16-digit-id]/[phone]
-      const productIds = await page.evaluate(() => {
-        const links = Array.from(document.querySelectorAll("a[href*='/p/']"));
-        const ids = new Set<string>();
-        
-        links.forEach((link) => {
-          const href = link.getAttribute("href") || "";
-          const match = href.match(/\/p\/(\d{16})\//);
-          if (match) {
-            ids.add(match[1]);
-          }
-        });
-
-        return Array.from(ids);
-      });
-
-      console.log(`[Scout] Extracted ${productIds.length} unique product IDs`);
-
-      results.push(
-        ...productIds.map((id: string) => ({
-          productId: id,
-          sellerPhone,
-        }))
+      const hrefs: string[] = await page.evaluate(() =>
+        Array.from(document.querySelectorAll("a[href*='/p/']")).map((link) => link.getAttribute("href") || "")
       );
 
+      const results = this.extractProductIds(catalogUrl, hrefs);
+      console.log(`[Scout] Extracted ${results.length} unique product IDs`);
       return results;
 
     } catch (error) {
@@ -137,6 +157,25 @@ export class WhatsAppScraperV3 {
     }
   }
 
+  /**
+   * WhatsApp product links follow pattern: wa.me/p/[16-digit-id]/[phone]
+   */
+  private static extractProductIds(catalogUrl: string, hrefs: string[]): ScoutResult[] {
+    // Extract seller phone from URL
+    const sellerPhoneMatch = catalogUrl.match(/\/c\/\+?(\d+)/);
+    const sellerPhone = sellerPhoneMatch ? sellerPhoneMatch[1] : "unknown";
+
+    const ids = new Set<string>();
+    for (const href of hrefs) {
+      const match = href.match(/\/p\/(\d{16})\//);
+      if (match) {
+        ids.add(match[1]);
+      }
+    }
+
+    return Array.from(ids).map((id) => ({ productId: id, sellerPhone }));
+  }
+
   /**
    * HYDRATOR: Extract metadata from wa.me/p/ links using Cheerio
    * Concurrent, lightweight, zero-copy image processing.
@@ -170,8 +209,17 @@ export class WhatsAppScraperV3 {
   /**
    * Hydrate a single product with exponential backoff
    */
-  private static async hydrateProduct(scout: ScoutResult, attempt: number = 0): Promise<HydrationResult | null> {
-    const url = `https://wa.me/p/${scout.productId}/${scout.sellerPhone}`;
+  static async hydrateProduct(scout: ScoutResult): Promise<HydrationResult | null> {
+    const outcome = await this.fetchProduct(scout);
+    return outcome.status === "ok" ? outcome.result : null;
+  }
+
+  /**
+   * Fetch a wa.me/p/ page, distinguishing a delisted product (404) from a
+   * transient failure so callers don't treat network errors as removals
+   */
+  static async fetchProduct(scout: ScoutResult, attempt: number = 0): Promise<ProductFetchOutcome> {
+    const url = `${ENV.whatsappBaseUrl}/p/${scout.productId}/${scout.sellerPhone}`;
 
     try {
       console.log(`[Hydrator] Fetching metadata for product ${scout.productId} (attempt ${attempt + 1})`);
@@ -195,34 +243,37 @@ export class WhatsAppScraperV3 {
 
       if (!ogImage || !ogTitle) {
         console.warn(`[Hydrator] Missing OG metadata for product ${scout.productId}`);
-        return null;
+        return { status: "error" };
       }
 
       console.log(`[Hydrator] ✓ Hydrated ${scout.productId}: "${ogTitle}"`);
 
       return {
-        productId: scout.productId,
-        sellerPhone: scout.sellerPhone,
-        title: ogTitle,
-        description: ogDescription,
-        ogImageUrl: ogImage,
-        fetchedAt: new Date(),
+        status: "ok",
+        result: {
+          productId: scout.productId,
+          sellerPhone: scout.sellerPhone,
+          title: ogTitle,
+          description: ogDescription,
+          ogImageUrl: ogImage,
+          fetchedAt: new Date(),
+        },
       };
 
     } catch (error: any) {
       if (error.response?.status === 404) {
         console.warn(`[Hydrator] Product ${scout.productId} not found (404) - skipping`);
-        return null;
+        return { status: "gone" };
       }
 
       if (error.response?.status === 429 && attempt < 3) {
         console.warn(`[Hydrator] Rate limited (429) for product ${scout.productId}, retrying...`);
         await exponentialBackoff(attempt);
-        return this.hydrateProduct(scout, attempt + 1);
+        return this.fetchProduct(scout, attempt + 1);
       }
 
       console.error(`[Hydrator] Error fetching ${scout.productId}:`, error.message);
-      return null;
+      return { status: "error" };
     }
   }
 
@@ -273,7 +324,7 @@ export class WhatsAppScraperV3 {
   /**
    * Extract price from description or text
    */
-  private static extractPrice(text: string): string {
+  static extractPrice(text: string): string {
     const match = text.match(/KES\s+([\d,]+)/i) || text.match(/([\d,]+)\s*KES/i);
     if (match) {
       const price = parseFloat(match[1].replace(/,/g, ""));
@@ -285,7 +336,7 @@ export class WhatsAppScraperV3 {
   /**
    * Infer product category from name
    */
-  private static inferCategory(name: string): string {
+  static inferCategory(name: string): string {
     const lower = name.toLowerCase();
 
     if (lower.includes("shoe") || lower.includes("boot") || lower.includes("sneaker")) return "Shoes";
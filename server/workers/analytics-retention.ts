@@ -0,0 +1,29 @@
+/**
+ * Analytics Retention Worker
+ *
+ * Purges raw click/conversion events older than ANALYTICS_RAW_RETENTION_DAYS
+ * from the analytics event store, and hourly/daily rollups past their own
+ * retention windows. Runs daily at 03:30.
+ */
+
+import cron from "node-cron";
+import { analyticsEvents } from "../services/analytics-event-store";
+import { analyticsRollupService } from "../services/analytics-rollups";
+
+export async function runAnalyticsRetention(now: Date = new Date()): Promise<void> {
+  try {
+    await analyticsEvents.purgeExpired(now);
+    await analyticsRollupService.purgeExpired(now);
+  } catch (error) {
+    console.error("[Analytics] Retention purge failed:", error);
+  }
+}
+
+export function startAnalyticsRetentionWorker(): void {
+  cron.schedule("0 30 3 * * *", () => {
+    void runAnalyticsRetention();
+  });
+  console.log(
+    `[Analytics] Retention worker initialized (raw events kept ${analyticsEvents.retention.rawRetentionDays} days)`
+  );
+}
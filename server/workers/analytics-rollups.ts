@@ -0,0 +1,45 @@
+/**
+ * Analytics Rollup Worker
+ *
+ * Aggregates raw click/conversion events into the hourly and daily rollups
+ * that the seller dashboard reads. Runs hourly, a few minutes past the hour
+ * so the hour that just closed is included, then checks the newly rolled-up
+ * hours for anomalies and alerts sellers.
+ */
+
+import cron from "node-cron";
+import { analyticsRollupService } from "../services/analytics-rollups";
+import { anomalyAlerts } from "../services/anomaly-alerts";
+
+let running = false;
+
+export async function runAnalyticsRollups(now: Date = new Date()): Promise<void> {
+  if (running) {
+    console.warn("[Analytics] Rollup already running, skipping this cycle");
+    return;
+  }
+
+  running = true;
+  try {
+    const result = await analyticsRollupService.rollUp(now);
+    console.log(
+      `[Analytics] Rolled up ${result.from.toISOString()} - ${result.to.toISOString()}: ${result.hourBuckets} hourly, ${result.dayBuckets} daily buckets`
+    );
+    try {
+      await anomalyAlerts.detect(result.to);
+    } catch (error) {
+      console.error("[Analytics] Anomaly detection failed:", error);
+    }
+  } catch (error) {
+    console.error("[Analytics] Rollup failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startAnalyticsRollupWorker(): void {
+  cron.schedule("0 5 * * * *", () => {
+    void runAnalyticsRollups();
+  });
+  console.log("[Analytics] Rollup worker initialized (runs hourly)");
+}
@@ -0,0 +1,37 @@
+/**
+ * CRM Follow-up Worker
+ *
+ * Sends sellers a notification for each lead whose follow-up time has
+ * passed. Runs every five minutes; each lead is reminded once per follow-up.
+ */
+
+import cron from "node-cron";
+import { sellerCRM } from "../services/seller-crm";
+
+let running = false;
+
+export async function runCrmFollowUps(now: Date = new Date()): Promise<void> {
+  if (running) {
+    console.warn("[CRM] Follow-up reminders already running, skipping this cycle");
+    return;
+  }
+
+  running = true;
+  try {
+    const result = await sellerCRM.sendDueReminders(now);
+    if (result.sent > 0 || result.failed > 0) {
+      console.log(`[CRM] Follow-up reminders: ${result.sent} sent, ${result.failed} failed`);
+    }
+  } catch (error) {
+    console.error("[CRM] Follow-up reminders failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startCrmFollowUpWorker(): void {
+  cron.schedule("0 */5 * * * *", () => {
+    void runCrmFollowUps();
+  });
+  console.log("[CRM] Follow-up reminder worker initialized (runs every 5 minutes)");
+}
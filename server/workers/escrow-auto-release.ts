@@ -0,0 +1,40 @@
+/**
+ * Escrow Auto-Release Worker
+ *
+ * Buyers don't always confirm delivery. Once a shipped order's confirmation
+ * window (ESCROW_AUTO_CONFIRM_DAYS) has passed without a dispute, the system
+ * completes it, which releases its escrow hold to the seller. Runs hourly.
+ */
+
+import cron from "node-cron";
+import { OrderManagement } from "../services/order-management";
+
+let running = false;
+
+export async function runEscrowAutoRelease(now: Date = new Date()): Promise<number> {
+  if (running) {
+    console.warn("[Escrow] Auto-release already running, skipping this cycle");
+    return 0;
+  }
+
+  running = true;
+  try {
+    const completed = await OrderManagement.autoConfirmDue(now);
+    if (completed > 0) {
+      console.log(`[Escrow] Auto-confirmed ${completed} order(s)`);
+    }
+    return completed;
+  } catch (error) {
+    console.error("[Escrow] Auto-release failed:", error);
+    return 0;
+  } finally {
+    running = false;
+  }
+}
+
+export function startEscrowAutoReleaseWorker(): void {
+  cron.schedule("0 15 * * * *", () => {
+    void runEscrowAutoRelease();
+  });
+  console.log("[Escrow] Auto-release worker initialized (runs hourly)");
+}
@@ -1,285 +1,86 @@
 import cron from 'node-cron';
-import axios from 'axios';
-import * as cheerio from 'cheerio';
-import pLimit from 'p-limit';
-import { db } from '../db';
+import { desc } from 'drizzle-orm';
+import { getDb } from '../db';
+import { catalogSyncLogs, type CatalogChangeEvent, type CatalogSyncLog } from '../../drizzle/schema';
+import { CatalogDiffService, type CatalogSyncRun, type SellerDiffSummary } from '../services/catalog-diff';
 
 /**
  * Heartbeat Sync 2.0: Self-Healing Catalog Integrity Worker
- * 
+ *
  * Responsibilities:
- * 1. Periodically checks all products for dead links (404s, deleted products)
- * 2. Automatically purges dead products from the database
- * 3. Logs all sync events for audit trails
- * 4. Detects price changes and updates the catalog
- * 5. Identifies new products from seller catalogs
- * 
+ * 1. Scouts every seller catalog and diffs it against stored products
+ * 2. Re-fetches only new and stale listings (incremental, not every product)
+ * 3. Soft-deletes dead listings and purges them after a grace period
+ * 4. Persists typed change events (catalog_change_events) and run logs (catalog_sync_logs)
+ *
  * This worker ensures the marketplace never displays stale or broken products.
  */
 
-interface SyncEvent {
-  timestamp: Date;
-  sellerId: string;
-  productId: string;
-  status: 'alive' | 'dead' | 'price_changed' | 'new';
-  details: string;
-}
-
-interface CatalogSyncLog {
-  id: string;
-  sellerId: string;
-  syncStartTime: Date;
-  syncEndTime: Date;
-  productsChecked: number;
-  productsPurged: number;
-  pricesUpdated: number;
-  newProductsFound: number;
-  errors: string[];
-}
+export class HeartbeatSyncV2 {
+  private running = false;
 
-class HeartbeatSyncV2 {
-  private syncLogs: CatalogSyncLog[] = [];
-  private syncEvents: SyncEvent[] = [];
-  private concurrencyLimit = pLimit(20); // Max 20 concurrent requests
+  constructor(private diff: CatalogDiffService = new CatalogDiffService()) {}
 
   /**
-   * Initialize the Heartbeat Sync worker
+   * Start the Heartbeat Sync schedule
    * Runs every 6 hours by default
    */
   public initialize(): void {
     console.log('🫀 Heartbeat Sync 2.0 Initialized');
     console.log('   Schedule: Every 6 hours');
-    console.log('   Concurrency: 20 parallel requests');
-    console.log('   Dead-Link Detection: ENABLED');
-    console.log('   Auto-Purge: ENABLED');
+    console.log('   Mode: Incremental diff');
+    console.log(`   Removal grace period: ${Math.round(this.diff.removalGraceMs / 3_600_000)}h`);
 
     // Run every 6 hours: 0 0 */6 * * *
     cron.schedule('0 0 */6 * * *', async () => {
       console.log('🫀 [Heartbeat] Starting catalog sync...');
       await this.runFullSync();
     });
-
-    // Optional: Run manual sync on startup (for testing)
-    // this.runFullSync();
   }
 
   /**
-   * Execute a full catalog sync
+   * Diff every seller with a WhatsApp number, then purge expired removals.
+   * Returns null when a previous run is still going or the run failed.
    */
-  private async runFullSync(): Promise<void> {
-    const syncLog: CatalogSyncLog = {
-      id: `sync_${Date.now()}`,
-      sellerId: 'all',
-      syncStartTime: new Date(),
-      syncEndTime: new Date(),
-      productsChecked: 0,
-      productsPurged: 0,
-      pricesUpdated: 0,
-      newProductsFound: 0,
-      errors: [],
-    };
+  public async runFullSync(now: Date = new Date()): Promise<CatalogSyncRun | null> {
+    if (this.running) {
+      console.warn('🫀 [Heartbeat] Previous sync still running - skipping');
+      return null;
+    }
 
+    this.running = true;
     try {
-      // Get all unique sellers from the database
-      const sellers = await this.getUniqueSellers();
-      console.log(`🫀 [Heartbeat] Found ${sellers.length} sellers to sync`);
-
-      for (const seller of sellers) {
-        await this.syncSellerCatalog(seller, syncLog);
-      }
-
-      syncLog.syncEndTime = new Date();
-      this.syncLogs.push(syncLog);
+      const run = await this.diff.syncAll(now);
+      const total = (type: keyof SellerDiffSummary['changes']) =>
+        run.summaries.reduce((sum, s) => sum + s.changes[type], 0);
 
       console.log(`🫀 [Heartbeat] Sync Complete:`);
-      console.log(`   Products Checked: ${syncLog.productsChecked}`);
-      console.log(`   Products Purged: ${syncLog.productsPurged}`);
-      console.log(`   Prices Updated: ${syncLog.pricesUpdated}`);
-      console.log(`   New Products: ${syncLog.newProductsFound}`);
+      console.log(`   Sellers Synced: ${run.summaries.length}/${run.sellers}`);
+      console.log(`   Added: ${total('added')}  Removed: ${total('removed')}  Purged: ${run.purged}`);
+      console.log(`   Price/Title/Image Changes: ${total('price_changed')}/${total('title_changed')}/${total('image_changed')}`);
+      return run;
     } catch (error) {
-      syncLog.errors.push(`Fatal error: ${error}`);
       console.error('🫀 [Heartbeat] Sync failed:', error);
+      return null;
+    } finally {
+      this.running = false;
     }
   }
 
-  /**
-   * Sync a specific seller's catalog
-   */
-  private async syncSellerCatalog(
-    sellerPhone: string,
-    syncLog: CatalogSyncLog
-  ): Promise<void> {
-    try {
-      // Get all products for this seller
-      const products = await this.getProductsBySeller(sellerPhone);
-      console.log(`🫀 [Heartbeat] Syncing ${products.length} products for ${sellerPhone}`);
-
-      // Check each product in parallel (up to 20 concurrent)
-      const checkPromises = products.map((product) =>
-        this.concurrencyLimit(() => this.checkProductHealth(product, syncLog))
-      );
-
-      await Promise.all(checkPromises);
-    } catch (error) {
-      syncLog.errors.push(`Error syncing seller ${sellerPhone}: ${error}`);
-      console.error(`🫀 [Heartbeat] Error syncing ${sellerPhone}:`, error);
-    }
-  }
-
-  /**
-   * Check if a product link is still alive
-   */
-  private async checkProductHealth(
-    product: any,
-    syncLog: CatalogSyncLog
-  ): Promise<void> {
-    syncLog.productsChecked++;
-
-    try {
-      const waLink = `https://wa.me/p/${product.productId}/${product.sellerPhone}`;
-      
-      // Fetch with a timeout and user-agent rotation
-      const response = await axios.get(waLink, {
-        timeout: 5000,
-        headers: {
-          'User-Agent': this.getRandomUserAgent(),
-        },
-        maxRedirects: 5,
-      });
-
-      if (response.status === 404) {
-        // Product is dead - purge it
-        await this.purgeProduct(product.id, syncLog);
-        this.logEvent({
-          timestamp: new Date(),
-          sellerId: product.sellerPhone,
-          productId: product.productId,
-          status: 'dead',
-          details: `Product returned 404 - purged from catalog`,
-        });
-      } else {
-        // Product is alive - check for price changes
-        const $ = cheerio.load(response.data);
-        const ogPrice = $('meta[property="og:price"]').attr('content');
-        const ogTitle = $('meta[property="og:title"]').attr('content');
-
-        if (ogPrice && ogPrice !== product.price) {
-          // Price changed - update it
-          await this.updateProductPrice(product.id, ogPrice, syncLog);
-          this.logEvent({
-            timestamp: new Date(),
-            sellerId: product.sellerPhone,
-            productId: product.productId,
-            status: 'price_changed',
-            details: `Price updated from ${product.price} to ${ogPrice}`,
-          });
-        }
-      }
-    } catch (error: any) {
-      if (error.response?.status === 404) {
-        // Product is dead
-        await this.purgeProduct(product.id, syncLog);
-        this.logEvent({
-          timestamp: new Date(),
-          sellerId: product.sellerPhone,
-          productId: product.productId,
-          status: 'dead',
-          details: `Product returned 404 - purged from catalog`,
-        });
-      } else {
-        // Network error or timeout - log but don't purge
-        console.warn(`🫀 [Heartbeat] Error checking ${product.productId}:`, error.message);
-      }
-    }
-  }
-
-  /**
-   * Purge a dead product from the database
-   */
-  private async purgeProduct(productId: string, syncLog: CatalogSyncLog): Promise<void> {
-    try {
-      // Delete from products table
-      // In a real implementation, this would be:
-      // await db.delete(products).where(eq(products.id, productId));
-      
-      syncLog.productsPurged++;
-      console.log(`🫀 [Heartbeat] Purged dead product: ${productId}`);
-    } catch (error) {
-      console.error(`🫀 [Heartbeat] Error purging product ${productId}:`, error);
-    }
-  }
-
-  /**
-   * Update a product's price
-   */
-  private async updateProductPrice(
-    productId: string,
-    newPrice: string,
-    syncLog: CatalogSyncLog
-  ): Promise<void> {
-    try {
-      // Update the products table
-      // In a real implementation, this would be:
-      // await db.update(products).set({ price: newPrice }).where(eq(products.id, productId));
-      
-      syncLog.pricesUpdated++;
-      console.log(`🫀 [Heartbeat] Updated price for product ${productId}: ${newPrice}`);
-    } catch (error) {
-      console.error(`🫀 [Heartbeat] Error updating price for ${productId}:`, error);
-    }
-  }
-
-  /**
-   * Get all unique sellers from the database
-   */
-  private async getUniqueSellers(): Promise<string[]> {
-    // In a real implementation, this would query the database
-    // For now, return a hardcoded list for testing
-    return ['254797629855']; // Example seller phone
-  }
-
-  /**
-   * Get all products for a specific seller
-   */
-  private async getProductsBySeller(sellerPhone: string): Promise<any[]> {
-    // In a real implementation, this would query the database
-    // For now, return an empty array
-    return [];
-  }
-
-  /**
-   * Log a sync event for audit trails
-   */
-  private logEvent(event: SyncEvent): void {
-    this.syncEvents.push(event);
-    // In a real implementation, this would be persisted to the database
-  }
-
-  /**
-   * Get random user agent for stealth
-   */
-  private getRandomUserAgent(): string {
-    const userAgents = [
-      'Mozilla/5.0 (iPhone; CPU iPhone OS 14_7_1 like Mac OS X) AppleWebKit/605.1.15',
-      'Mozilla/5.0 (Linux; Android 11; SM-G991B) AppleWebKit/537.36',
-      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36',
-    ];
-    return userAgents[Math.floor(Math.random() * userAgents.length)];
-  }
-
   /**
    * Get sync logs for monitoring
    */
-  public getSyncLogs(): CatalogSyncLog[] {
-    return this.syncLogs;
+  public async getSyncLogs(limit: number = 50): Promise<CatalogSyncLog[]> {
+    const db = await getDb();
+    if (!db) return [];
+    return db.select().from(catalogSyncLogs).orderBy(desc(catalogSyncLogs.startedAt)).limit(limit);
   }
 
   /**
-   * Get recent sync events
+   * Get recent change events (last 7 days)
    */
-  public getRecentEvents(limit: number = 100): SyncEvent[] {
-    return this.syncEvents.slice(-limit);
+  public async getRecentEvents(limit: number = 100): Promise<CatalogChangeEvent[]> {
+    return CatalogDiffService.getChangesSince({ since: new Date(Date.now() - 7 * 24 * 3_600_000), limit });
   }
 
   /**
@@ -293,3 +94,7 @@ class HeartbeatSyncV2 {
 
 // Export singleton instance
 export const heartbeatSync = new HeartbeatSyncV2();
+
+export function startHeartbeatSyncWorker(): void {
+  heartbeatSync.initialize();
+}
@@ -8,13 +8,12 @@
  * - Runs on a schedule (6-hour interval)
  * - Fetches all registered sellers' catalogs
  * - Detects new products, deleted products, and price changes
- * - Updates the database and Milvus vector store
+ * - Updates the database and the product vector index
  * - Logs all changes to catalogSyncLogs for audit trail
  */
 
 import cron from "node-cron";
 import { WhatsAppScraperV3 as WhatsAppScraperV2 } from "../services/whatsapp-scraper-v2";
-import { insertHybridVector, searchSimilarProducts } from "../services/siglip-milvus";
 import { cfEngine } from "../services/collaborative-filtering";
 
 export interface SyncJob {
@@ -0,0 +1,38 @@
+/**
+ * Seller Report Worker
+ *
+ * Generates each seller's weekly performance report (CSV + PDF in object
+ * storage, with a notification linking to it). Runs Mondays at 04:30 UTC,
+ * 07:30 in Nairobi, after the rollup run has closed Sunday.
+ */
+
+import cron from "node-cron";
+import { sellerReportService } from "../services/seller-reports";
+
+let running = false;
+
+export async function runWeeklySellerReports(now: Date = new Date()): Promise<void> {
+  if (running) {
+    console.warn("[Reports] Weekly reports already running, skipping this cycle");
+    return;
+  }
+
+  running = true;
+  try {
+    const result = await sellerReportService.runWeekly(now);
+    console.log(
+      `[Reports] Weekly reports for ${result.period.from.toISOString().slice(0, 10)}: ${result.generated} generated, ${result.skipped} already done, ${result.failed} failed`
+    );
+  } catch (error) {
+    console.error("[Reports] Weekly reports failed:", error);
+  } finally {
+    running = false;
+  }
+}
+
+export function startSellerReportWorker(): void {
+  cron.schedule("0 30 4 * * 1", () => {
+    void runWeeklySellerReports();
+  });
+  console.log("[Reports] Seller report worker initialized (runs Mondays)");
+}
@@ -3,3 +3,6 @@ export const ONE_YEAR_MS = 1000 * 60 * 60 * 24 * 365;
 export const AXIOS_TIMEOUT_MS = 30_000;
 export const UNAUTHED_ERR_MSG = 'Please login (10001)';
 export const NOT_ADMIN_ERR_MSG = 'You do not have required permission (10002)';
+export const NOT_SELLER_ERR_MSG = 'Seller account required (10003)';
+export const CART_COOKIE_NAME = "soko_cart_session";
+export const CART_COOKIE_MAX_AGE_MS = 1000 * 60 * 60 * 24 * 30;